@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Upload, Database, CheckCircle, AlertTriangle, FileText, Download, Sparkles, BookOpen } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import DataPreview from './components/DataPreview';
@@ -34,9 +34,10 @@ function App() {
     setQualityReport(report);
   };
 
-  const handleDataCleaning = (data: CSVData) => {
+  // Stable, as the cleaning view restores its snapshot whenever this changes
+  const handleDataCleaning = useCallback((data: CSVData) => {
     setCleanedData(data);
-  };
+  }, []);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
@@ -90,7 +91,11 @@ function App() {
               <AIInsights report={qualityReport} />
             )}
             {activeTab === 'cleaning' && csvData && (
-              <DataCleaning data={csvData} onDataCleaned={handleDataCleaning} />
+              <DataCleaning
+                data={csvData}
+                onDataCleaned={handleDataCleaning}
+                sensitiveDataDetected={qualityReport?.sensitiveDataDetected}
+              />
             )}
             {activeTab === 'export' && cleanedData && (
               <ExportData data={cleanedData} originalData={csvData} />
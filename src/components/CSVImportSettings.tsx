@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { Settings, CheckCircle, X, Sparkles } from 'lucide-react';
+import { CSVEncoding, CSVParseOptions } from '../utils/csvParser';
+import { CSVSniffResult, DELIMITER_CANDIDATES, ENCODING_CANDIDATES, QUOTE_CANDIDATES, decodeSample, sampleRecords } from '../utils/csvSniffer';
+
+interface CSVImportSettingsProps {
+  filename: string;
+  sniffResult: CSVSniffResult;
+  onConfirm: (options: Required<CSVParseOptions>) => void;
+  onCancel: () => void;
+}
+
+const delimiterLabels: { [delimiter: string]: string } = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+const encodingLabels: { [encoding in CSVEncoding]: string } = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252'
+};
+
+const quoteLabels: { [quote: string]: string } = {
+  '"': 'Double quote (")',
+  "'": "Single quote (')"
+};
+
+const PREVIEW_RECORDS = 12;
+
+const CSVImportSettings: React.FC<CSVImportSettingsProps> = ({ filename, sniffResult, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<Required<CSVParseOptions>>(sniffResult.options);
+  const detected = sniffResult.options;
+
+  const previewRecords = useMemo(() => {
+    const text = options.encoding === detected.encoding
+      ? sniffResult.sampleText
+      : decodeSample(sniffResult.sampleBytes, options.encoding);
+    return sampleRecords(text, options.delimiter, options.quote, sniffResult.sampleIsComplete, PREVIEW_RECORDS);
+  }, [options.encoding, options.delimiter, options.quote, detected.encoding, sniffResult]);
+
+  const previewWidth = Math.max(0, ...previewRecords.map(r => r.length));
+
+  const updateOption = <K extends keyof CSVParseOptions>(key: K, value: Required<CSVParseOptions>[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const detectedBadge = (isDetected: boolean) => isDetected && (
+    <span className="inline-flex items-center gap-1 text-xs text-kipi-secondary bg-blue-50 px-2 py-0.5 rounded">
+      <Sparkles className="w-3 h-3" />
+      detected
+    </span>
+  );
+
+  return (
+    <div className="mt-6 border-2 border-blue-200 rounded-lg bg-white overflow-hidden">
+      <div className="px-6 py-4 bg-blue-50 border-b border-blue-200 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Settings className="w-5 h-5 text-kipi-secondary" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Confirm Import Settings</h3>
+            <p className="text-sm text-gray-600">
+              We sniffed <strong>{filename}</strong>. Check the guesses below and override anything that looks wrong.
+            </p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-700 rounded-md hover:bg-blue-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              Delimiter {detectedBadge(options.delimiter === detected.delimiter)}
+            </label>
+            <select
+              value={options.delimiter}
+              onChange={(e) => updateOption('delimiter', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+            >
+              {DELIMITER_CANDIDATES.map(delimiter => (
+                <option key={delimiter} value={delimiter}>{delimiterLabels[delimiter]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              Encoding {detectedBadge(options.encoding === detected.encoding)}
+            </label>
+            <select
+              value={options.encoding}
+              onChange={(e) => updateOption('encoding', e.target.value as CSVEncoding)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+            >
+              {ENCODING_CANDIDATES.map(encoding => (
+                <option key={encoding} value={encoding}>{encodingLabels[encoding]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              Quote character {detectedBadge(options.quote === detected.quote)}
+            </label>
+            <select
+              value={options.quote}
+              onChange={(e) => updateOption('quote', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+            >
+              {QUOTE_CANDIDATES.map(quote => (
+                <option key={quote} value={quote}>{quoteLabels[quote]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-between text-sm font-medium text-gray-700 mb-2">
+              Header row {detectedBadge(options.headerRow === detected.headerRow)}
+            </label>
+            <select
+              value={options.headerRow === null ? 'none' : String(options.headerRow)}
+              onChange={(e) => updateOption('headerRow', e.target.value === 'none' ? null : Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+            >
+              <option value="none">No header row</option>
+              {previewRecords.map((_, index) => (
+                <option key={index} value={index}>Line {index + 1}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="text-sm font-medium text-gray-700 mb-2">Preview</div>
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <tbody>
+              {previewRecords.map((record, rowIndex) => {
+                const isHeader = rowIndex === options.headerRow;
+                const isSkipped = options.headerRow !== null && rowIndex < options.headerRow;
+                return (
+                  <tr
+                    key={rowIndex}
+                    onClick={() => updateOption('headerRow', rowIndex)}
+                    className={`border-t cursor-pointer ${
+                      isHeader ? 'bg-green-50 font-semibold text-gray-900' :
+                      isSkipped ? 'bg-gray-50 text-gray-400 line-through' :
+                      'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="px-3 py-2 text-xs text-gray-400 w-12">{rowIndex + 1}</td>
+                    {Array.from({ length: previewWidth }, (_, cellIndex) => (
+                      <td key={cellIndex} className="px-3 py-2 whitespace-nowrap">
+                        {record[cellIndex] === undefined ? '' :
+                          record[cellIndex].length > 30 ? record[cellIndex].substring(0, 30) + '...' : record[cellIndex]}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Click a line to use it as the header. Lines above the header are skipped as title rows.
+        </p>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button
+            onClick={() => onConfirm(options)}
+            className="inline-flex items-center gap-2 px-6 py-2 rounded-md font-medium bg-kipi-primary text-white hover:bg-green-600"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Import Data
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CSVImportSettings;
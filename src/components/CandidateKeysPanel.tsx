@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Play, Plus, Trash2 } from 'lucide-react';
+import { CandidateKey, candidateKeyLabel } from '../utils/candidateKeys';
+
+interface CandidateKeysPanelProps {
+  headers: string[];
+  keys: CandidateKey[];
+  onApply: (keys: CandidateKey[]) => void;
+}
+
+const CandidateKeysPanel: React.FC<CandidateKeysPanelProps> = ({ headers, keys, onApply }) => {
+  const [draft, setDraft] = useState<CandidateKey[]>(keys);
+
+  // Columns keep the dataset's order within a key
+  const toggleColumn = (keyIndex: number, column: string) => {
+    setDraft(prev => prev.map((key, i) => {
+      if (i !== keyIndex) return key;
+      const columns = key.includes(column) ? key.filter(name => name !== column) : [...key, column];
+      return headers.filter(header => columns.includes(header));
+    }));
+  };
+
+  const handleApply = () => {
+    // Empty keys and repeats of another key are dropped
+    const seen = new Set<string>();
+    onApply(draft.filter(key => {
+      const label = candidateKeyLabel(key);
+      if (key.length === 0 || seen.has(label)) return false;
+      seen.add(label);
+      return true;
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Declare the columns that should identify a row, such as <code>order_id</code> or <code>customer_id</code> +
+        <code> date</code>. Rows that repeat a key are reported under Duplicates even when other columns differ, and Data
+        Cleaning offers a step to keep one row per key.
+      </p>
+
+      {draft.length === 0 && (
+        <p className="text-sm text-gray-500">No candidate keys yet.</p>
+      )}
+
+      {draft.map((key, keyIndex) => (
+        <div key={keyIndex} className="bg-white border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">
+              Key #{keyIndex + 1}{key.length > 0 ? `: ${candidateKeyLabel(key)}` : ''}
+            </span>
+            <button
+              onClick={() => setDraft(prev => prev.filter((_, i) => i !== keyIndex))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove key"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {headers.map(header => (
+              <button
+                key={header}
+                onClick={() => toggleColumn(keyIndex, header)}
+                className={`px-2 py-1 rounded text-xs border ${
+                  key.includes(header)
+                    ? 'bg-green-50 border-kipi-primary text-gray-900'
+                    : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {header}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => setDraft(prev => [...prev, []])}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Key
+        </button>
+        <button
+          onClick={handleApply}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+        >
+          <Play className="w-4 h-4" />
+          Apply and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateKeysPanel;
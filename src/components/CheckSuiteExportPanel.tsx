@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Copy, Download, FileCheck } from 'lucide-react';
+import { CSVData } from '../types';
+import { CHECK_SUITE_TARGETS, CheckSuiteExport, CheckSuiteOptions, CheckSuiteTarget, exportCheckSuites } from '../utils/checkSuiteExport';
+
+interface CheckSuiteExportPanelProps {
+  data: CSVData;
+  options: CheckSuiteOptions; // the last analysis and the settings it ran with
+}
+
+const CheckSuiteExportPanel: React.FC<CheckSuiteExportPanelProps> = ({ data, options }) => {
+  const [targets, setTargets] = useState<CheckSuiteTarget[]>(['great_expectations', 'soda']);
+  const [generated, setGenerated] = useState<CheckSuiteExport | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const toggleTarget = (target: CheckSuiteTarget) => {
+    setTargets(prev => (prev.includes(target) ? prev.filter(t => t !== target) : [...prev, target]));
+    setGenerated(null);
+  };
+
+  const handleGenerate = () => {
+    setGenerated(exportCheckSuites(data, targets, options));
+    setCopied(null);
+  };
+
+  const handleDownload = (name: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name.split('/').pop() || name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async (name: string, content: string) => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(name);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Turn what the analysis of <strong>{data.filename}</strong> found into checks that run in production: column
+        types, missing values and uniqueness as seen in this file, plus the range rules, expectations, schema and
+        contract. Inferred formats allow the share of non-matching values found here; rules must always pass.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {CHECK_SUITE_TARGETS.map(option => (
+          <label
+            key={option.value}
+            className={`flex-1 min-w-[12rem] p-3 border rounded-lg cursor-pointer ${
+              targets.includes(option.value) ? 'border-kipi-primary bg-green-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={targets.includes(option.value)}
+              onChange={() => toggleTarget(option.value)}
+              className="sr-only"
+            />
+            <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+            <span className="block text-xs text-gray-600">{option.description}</span>
+          </label>
+        ))}
+        <button
+          onClick={handleGenerate}
+          disabled={targets.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          <FileCheck className="w-4 h-4" />
+          Generate Checks
+        </button>
+      </div>
+
+      {generated && generated.warnings.length > 0 && (
+        <ul className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3 space-y-1">
+          {generated.warnings.map((warning, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {generated && generated.files.map(file => (
+        <div key={file.name} className="border rounded-lg overflow-hidden">
+          <div className="px-4 py-2 border-b bg-gray-50 flex items-center justify-between gap-3">
+            <span className="text-sm font-mono text-gray-700">{file.name}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleCopy(file.name, file.content)}
+                className="inline-flex items-center gap-1 text-xs px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
+              >
+                <Copy className="w-3 h-3" />
+                {copied === file.name ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                onClick={() => handleDownload(file.name, file.content)}
+                className="inline-flex items-center gap-1 text-xs px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
+              >
+                <Download className="w-3 h-3" />
+                Download
+              </button>
+            </div>
+          </div>
+          <pre className="p-4 text-xs text-gray-800 bg-white overflow-auto max-h-96">{file.content}</pre>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CheckSuiteExportPanel;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Check, GitBranch, History, Pencil, Redo2, Undo2, X } from 'lucide-react';
+import { CleaningHistory, CleaningSnapshot, canRedo, canUndo } from '../utils/cleaningHistory';
+
+interface CleaningHistoryPanelProps {
+  history: CleaningHistory;
+  busy: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCheckout: (id: number) => void;
+  onRename: (id: number, name: string) => void;
+}
+
+// What a step changed relative to the snapshot before it
+const diffSummary = (snapshot: CleaningSnapshot) => {
+  const parts: string[] = [];
+  if (snapshot.removedRows > 0) parts.push(`−${snapshot.removedRows} rows`);
+  if (snapshot.removedColumns > 0) parts.push(`−${snapshot.removedColumns} columns`);
+  if (snapshot.addedColumns > 0) parts.push(`+${snapshot.addedColumns} columns`);
+  if (snapshot.changedCells > 0) parts.push(`${snapshot.changedCells} cells changed`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+const CleaningHistoryPanel: React.FC<CleaningHistoryPanelProps> = ({ history, busy, onUndo, onRedo, onCheckout, onRename }) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const children = (id: number) => history.snapshots.filter(snapshot => snapshot.parentId === id);
+
+  // Snapshots on the way from the uploaded data to the current one
+  const currentPath = new Set<number>();
+  for (let id: number | null = history.currentId; id !== null; id = history.snapshots[id].parentId) currentPath.add(id);
+
+  const saveName = () => {
+    if (editingId !== null && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const renderSnapshot = (snapshot: CleaningSnapshot, depth: number): React.ReactNode => {
+    const isCurrent = snapshot.id === history.currentId;
+    const branches = children(snapshot.id);
+    return (
+      <React.Fragment key={snapshot.id}>
+        <div
+          className={`flex items-center gap-3 p-2 rounded ${isCurrent ? 'bg-green-50 border border-green-200' : 'hover:bg-gray-50'}`}
+          style={{ paddingLeft: `${0.5 + depth * 1.5}rem` }}
+        >
+          <span className={`w-2 h-2 rounded-full flex-shrink-0 ${
+            isCurrent ? 'bg-kipi-primary' : currentPath.has(snapshot.id) ? 'bg-gray-500' : 'bg-gray-300'
+          }`} />
+          <div className="flex-1 min-w-0">
+            {editingId === snapshot.id ? (
+              <div className="flex items-center gap-2">
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveName();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                />
+                <button onClick={saveName} className="p-1 text-green-700 hover:text-green-900" title="Save name">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-gray-700" title="Cancel">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className={`text-sm truncate ${isCurrent ? 'font-medium text-gray-900' : 'text-gray-700'}`}>
+                  {snapshot.name}
+                </span>
+                <button
+                  onClick={() => {
+                    setEditingId(snapshot.id);
+                    setDraftName(snapshot.name);
+                  }}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                  title="Rename snapshot"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                {branches.length > 1 && (
+                  <span className="inline-flex items-center gap-1 text-xs text-purple-700">
+                    <GitBranch className="w-3 h-3" />
+                    {branches.length} branches
+                  </span>
+                )}
+              </div>
+            )}
+            <div className="text-xs text-gray-500">
+              {snapshot.rowCount} rows × {snapshot.columnCount} columns
+              {snapshot.parentId !== null && ` · ${diffSummary(snapshot)}`}
+              {' · '}{new Date(snapshot.createdAt).toLocaleTimeString()}
+            </div>
+          </div>
+          {isCurrent ? (
+            <span className="text-xs px-2 py-1 rounded bg-kipi-primary text-white">Current</span>
+          ) : (
+            <button
+              onClick={() => onCheckout(snapshot.id)}
+              disabled={busy}
+              className="text-xs px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+            >
+              Go to
+            </button>
+          )}
+        </div>
+        {branches.map(branch => renderSnapshot(branch, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-kipi-primary" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Cleaning History</h3>
+            <p className="text-sm text-gray-600">
+              Every applied operation is a snapshot. Go back to any snapshot and apply different operations to try
+              another cleaning path; the earlier path stays as a branch.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onUndo}
+            disabled={busy || !canUndo(history)}
+            className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={busy || !canRedo(history)}
+            className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Redo2 className="w-4 h-4" />
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {renderSnapshot(history.snapshots[0], 0)}
+      </div>
+    </div>
+  );
+};
+
+export default CleaningHistoryPanel;
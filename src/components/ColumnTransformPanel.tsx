@@ -0,0 +1,447 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Columns3, Plus } from 'lucide-react';
+import { CSVData, CleaningOperation, CleaningPreviewItem, CleaningSuggestion } from '../types';
+import { directContext } from '../utils/analysisTask';
+import { applyCleaningOperations } from '../utils/cleaningOperations';
+import { createCSVData, fromColumnarData, getColumnStore, getRawCell, headOfStore } from '../utils/columnStore';
+import {
+  COLUMN_TRANSFORMS,
+  ColumnTransform,
+  TARGET_TYPE_LABELS,
+  TargetType,
+  captureGroupCount,
+  columnNameProblem,
+  templateColumns,
+  transformPattern
+} from '../utils/columnTransforms';
+import { DatasetLocale } from '../utils/locale';
+
+interface ColumnTransformPanelProps {
+  data: CSVData; // the current snapshot, which the steps run on
+  queued: CleaningOperation[]; // the selected steps, which run before a step added here
+  locale: DatasetLocale | null;
+  onAddStep: (suggestion: CleaningSuggestion) => void;
+}
+
+const PREVIEW_ROWS = 5;
+const MAX_PARTS = 10;
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const ColumnTransformPanel: React.FC<ColumnTransformPanelProps> = ({ data, queued, locale, onAddStep }) => {
+  const [transform, setTransform] = useState<ColumnTransform>('split_column');
+  const [column, setColumn] = useState(data.headers[0] || '');
+  const [splitBy, setSplitBy] = useState<'delimiter' | 'pattern'>('delimiter');
+  const [delimiter, setDelimiter] = useState(',');
+  const [pattern, setPattern] = useState('');
+  const [partCount, setPartCount] = useState(2);
+  const [names, setNames] = useState<string[]>([]); // typed names of the new columns, by position
+  const [template, setTemplate] = useState('');
+  const [newName, setNewName] = useState('');
+  const [dropSource, setDropSource] = useState(false);
+  const [dropped, setDropped] = useState<string[]>([]);
+  const [order, setOrder] = useState<string[]>(data.headers);
+  const [targetType, setTargetType] = useState<TargetType>('integer');
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    setColumn(prev => (data.headers.includes(prev) ? prev : data.headers[0] || ''));
+    setDropped(prev => prev.filter(name => data.headers.includes(name)));
+    setOrder(data.headers);
+  }, [data]);
+
+  const resetNames = () => {
+    setNames([]);
+    setError(null);
+  };
+
+  const compiled = transformPattern({
+    type: transform,
+    pattern: transform === 'extract_pattern' || splitBy === 'pattern' ? pattern : undefined,
+    delimiter,
+    description: ''
+  });
+  // Extraction makes a column per capture group; a pattern without groups extracts the whole match
+  const count = transform === 'extract_pattern' ? Math.max(1, compiled ? captureGroupCount(compiled) : 1) : partCount;
+  const newColumns = Array.from({ length: count }, (_, i) => names[i] ?? `${column}_${i + 1}`);
+
+  // The operation for the form, or why it cannot be built. New column names are
+  // checked against headers, the columns left once the selected steps have run.
+  const buildOperation = (headers: string[]): CleaningOperation | string => {
+    switch (transform) {
+      case 'split_column':
+      case 'extract_pattern': {
+        if (!column) return 'Choose a column';
+        if (!compiled) {
+          return transform === 'split_column' && splitBy === 'delimiter' ? 'Enter a delimiter' : 'Enter a valid regular expression';
+        }
+        const problem = columnNameProblem(headers, newColumns, dropSource ? [column] : []);
+        if (problem) return problem;
+        return transform === 'split_column'
+          ? {
+              type: 'split_column',
+              column,
+              ...(splitBy === 'pattern' ? { pattern } : { delimiter }),
+              newColumns,
+              dropSource,
+              description: `Split ${column} into ${newColumns.join(', ')}`
+            }
+          : { type: 'extract_pattern', column, pattern, newColumns, dropSource, description: `Extract ${newColumns.join(', ')} from ${column}` };
+      }
+      case 'merge_columns': {
+        const sources = templateColumns(template);
+        if (sources.length === 0) return 'Add at least one {column} to the template';
+        const unknown = sources.find(source => !data.headers.includes(source));
+        if (unknown !== undefined) return `There is no column named "${unknown}"`;
+        const problem = columnNameProblem(headers, [newName], dropSource ? sources : []);
+        if (problem) return problem;
+        return {
+          type: 'merge_columns',
+          columns: sources,
+          template,
+          newName,
+          dropSource,
+          description: `Merge ${sources.join(', ')} into ${newName}`
+        };
+      }
+      case 'rename_column': {
+        if (!column) return 'Choose a column';
+        if (newName === column) return 'Enter a new name';
+        const problem = columnNameProblem(headers, [newName], [column]);
+        if (problem) return problem;
+        return { type: 'rename_column', column, newName, description: `Rename ${column} to ${newName}` };
+      }
+      case 'drop_columns':
+        if (dropped.length === 0) return 'Choose the columns to drop';
+        if (dropped.length === data.headers.length) return 'At least one column must stay';
+        return { type: 'drop_columns', columns: dropped, description: `Drop ${dropped.join(', ')}` };
+      case 'reorder_columns': {
+        // Columns after the last moved one follow as they were, so they need not be listed
+        let last = order.length - 1;
+        while (last >= 0 && order[last] === data.headers[last]) last--;
+        if (last === -1) return 'Move at least one column';
+        const columns = order.slice(0, last + 1);
+        return { type: 'reorder_columns', columns, description: `Reorder columns: ${columns.join(', ')} first` };
+      }
+      default:
+        if (!column) return 'Choose a column';
+        return {
+          type: 'change_type',
+          column,
+          targetType,
+          description: `Convert ${column} to ${TARGET_TYPE_LABELS[targetType].toLowerCase()}`
+        };
+    }
+  };
+
+  // Runs the operation on the first rows, after the selected steps, so the step
+  // shows what it will do and two steps cannot create the same column
+  const addStep = async () => {
+    setError(null);
+    setIsAdding(true);
+    try {
+      const head = createCSVData(data.headers, headOfStore(getColumnStore(data), PREVIEW_ROWS), data.filename);
+      const sample = queued.length > 0 ? fromColumnarData(await applyCleaningOperations(head, queued, directContext, locale)) : head;
+      const operation = buildOperation(sample.headers);
+      if (typeof operation === 'string') {
+        setError(operation);
+        return;
+      }
+      const applied = await applyCleaningOperations(sample, [operation], directContext, locale);
+      if (applied.skipped.length > 0) {
+        setError(applied.skipped[0].reason);
+        return;
+      }
+      const result = fromColumnarData(applied);
+      const headerLevel = operation.type === 'drop_columns' || operation.type === 'reorder_columns';
+      const readColumns = operation.columns || (operation.column ? [operation.column] : []);
+      const writtenColumns = operation.newColumns || (operation.newName ? [operation.newName] : readColumns);
+      // The cells as written, by column name
+      const rowsOf = (rows: CSVData, columns: string[]): CleaningPreviewItem[] => {
+        const store = getColumnStore(rows);
+        return Array.from({ length: store.rowCount }, (_, i) => ({
+          rowNumber: i + 1,
+          values: columns.map((name): [string, string] => [name, getRawCell(store.columns[rows.headers.indexOf(name)], i)])
+        }));
+      };
+      const label = COLUMN_TRANSFORMS.find(item => item.value === operation.type)?.label || operation.type;
+
+      onAddStep({
+        id: `${operation.type}_${operation.description}`,
+        title: `${label}: ${readColumns.join(', ')}`,
+        description: headerLevel
+          ? `${operation.description}. Values are not changed.`
+          : `${operation.description}, in all ${data.rows.length} rows.${
+              operation.type === 'change_type' ? ' Values that do not convert are left as they are.' : ''
+            }`,
+        issues: headerLevel ? readColumns.length : data.rows.length,
+        operation,
+        affectedRows: headerLevel ? [] : Array.from({ length: data.rows.length }, (_, i) => i),
+        affectedColumns: readColumns,
+        previewData: headerLevel
+          ? { before: [{ headers: sample.headers }], after: [{ headers: result.headers }] }
+          : { before: rowsOf(sample, readColumns), after: rowsOf(result, writtenColumns) }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not preview the step');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setOrder(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+    setError(null);
+  };
+
+  const columnSelect = (
+    <label className="block text-sm text-gray-700">
+      <span className="block mb-1">Column</span>
+      <select
+        value={column}
+        onChange={(e) => {
+          setColumn(e.target.value);
+          resetNames();
+        }}
+        className={selectClass}
+      >
+        {data.headers.map(header => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const dropSourceToggle = (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        checked={dropSource}
+        onChange={(e) => setDropSource(e.target.checked)}
+        className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+      />
+      Remove the {transform === 'merge_columns' ? 'merged columns' : 'original column'}
+    </label>
+  );
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Columns3 className="w-5 h-5 text-kipi-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Column Transformations</h3>
+          <p className="text-sm text-gray-600">
+            Reshape the current data without leaving the analyzer. Each transformation is added to the cleaning
+            operations above with a preview of its first rows, and runs in order with the other selected steps.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {COLUMN_TRANSFORMS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => {
+              setTransform(option.value);
+              resetNames();
+            }}
+            title={option.description}
+            className={`px-3 py-1.5 text-sm border rounded-lg ${
+              transform === option.value ? 'border-kipi-primary bg-green-50 text-gray-900' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-600">{COLUMN_TRANSFORMS.find(option => option.value === transform)?.description}.</p>
+
+      {(transform === 'split_column' || transform === 'extract_pattern') && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            {columnSelect}
+            {transform === 'split_column' && (
+              <label className="block text-sm text-gray-700">
+                <span className="block mb-1">Split at</span>
+                <select value={splitBy} onChange={(e) => setSplitBy(e.target.value as 'delimiter' | 'pattern')} className={selectClass}>
+                  <option value="delimiter">Delimiter</option>
+                  <option value="pattern">Regular expression</option>
+                </select>
+              </label>
+            )}
+            {transform === 'split_column' && splitBy === 'delimiter' ? (
+              <label className="block text-sm text-gray-700">
+                <span className="block mb-1">Delimiter</span>
+                <input value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className={`${selectClass} w-24 font-mono`} />
+              </label>
+            ) : (
+              <label className="block text-sm text-gray-700">
+                <span className="block mb-1">Regular expression</span>
+                <input
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  placeholder={transform === 'split_column' ? '\\s*[;|]\\s*' : '(\\d{3})-(\\d{4})'}
+                  className={`${selectClass} w-64 font-mono`}
+                />
+              </label>
+            )}
+            {transform === 'split_column' && (
+              <label className="block text-sm text-gray-700">
+                <span className="block mb-1">Parts</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_PARTS}
+                  value={partCount}
+                  onChange={(e) => setPartCount(Math.min(MAX_PARTS, Math.max(1, Number(e.target.value))))}
+                  className={`${selectClass} w-20`}
+                />
+              </label>
+            )}
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            {newColumns.map((name, index) => (
+              <label key={index} className="block text-sm text-gray-700">
+                <span className="block mb-1">
+                  {transform === 'split_column' ? `Part ${index + 1}` : `Group ${index + 1}`}
+                  {transform === 'split_column' && index === count - 1 && count > 1 ? ' (the rest)' : ''}
+                </span>
+                <input
+                  value={name}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setNames(newColumns.map((existing, i) => (i === index ? value : existing)));
+                  }}
+                  className={`${selectClass} w-40`}
+                />
+              </label>
+            ))}
+          </div>
+          {dropSourceToggle}
+        </div>
+      )}
+
+      {transform === 'merge_columns' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="block text-sm text-gray-700">
+              <span className="block mb-1">Template</span>
+              <input
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+                placeholder="{first} {last}"
+                className={`${selectClass} w-80 font-mono`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              <span className="block mb-1">New column</span>
+              <input value={newName} onChange={(e) => setNewName(e.target.value)} className={`${selectClass} w-48`} />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Insert:</span>
+            {data.headers.map(header => (
+              <button
+                key={header}
+                onClick={() => setTemplate(prev => `${prev}{${header}}`)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+              >
+                <Plus className="w-3 h-3" />
+                {header}
+              </button>
+            ))}
+          </div>
+          {dropSourceToggle}
+        </div>
+      )}
+
+      {transform === 'rename_column' && (
+        <div className="flex flex-wrap items-end gap-4">
+          {columnSelect}
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">New name</span>
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} className={`${selectClass} w-48`} />
+          </label>
+        </div>
+      )}
+
+      {transform === 'drop_columns' && (
+        <div className="flex flex-wrap gap-3">
+          {data.headers.map(header => (
+            <label key={header} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={dropped.includes(header)}
+                onChange={(e) => setDropped(prev => (e.target.checked ? [...prev, header] : prev.filter(name => name !== header)))}
+                className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+              />
+              {header}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {transform === 'reorder_columns' && (
+        <ol className="space-y-1 max-w-md">
+          {order.map((header, index) => (
+            <li key={header} className="flex items-center justify-between gap-3 px-3 py-1.5 border rounded text-sm text-gray-800">
+              <span>{index + 1}. {header}</span>
+              <span className="flex items-center gap-1">
+                <button
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  aria-label={`Move ${header} up`}
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === order.length - 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  aria-label={`Move ${header} down`}
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {transform === 'change_type' && (
+        <div className="flex flex-wrap items-end gap-4">
+          {columnSelect}
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Convert to</span>
+            <select value={targetType} onChange={(e) => setTargetType(e.target.value as TargetType)} className={selectClass}>
+              {(Object.keys(TARGET_TYPE_LABELS) as TargetType[]).map(type => (
+                <option key={type} value={type}>{TARGET_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{error}</div>
+      )}
+
+      <button
+        onClick={addStep}
+        disabled={isAdding || data.headers.length === 0}
+        className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add to Cleaning Operations
+      </button>
+    </div>
+  );
+};
+
+export default ColumnTransformPanel;
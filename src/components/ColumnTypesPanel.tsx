@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Play } from 'lucide-react';
+import { INFERRED_TYPES, InferredType, TypeInference, TypeOverrides } from '../utils/typeInference';
+import { DateFormatDetection } from '../utils/dateFormats';
+
+interface ColumnTypesPanelProps {
+  headers: string[];
+  columnTypes: { [column: string]: TypeInference };
+  dateFormats: { [column: string]: DateFormatDetection };
+  overrides: TypeOverrides;
+  onApply: (overrides: TypeOverrides) => void;
+}
+
+const confidenceColor = (confidence: number) => {
+  if (confidence >= 0.9) return 'bg-green-500';
+  if (confidence >= 0.7) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const ColumnTypesPanel: React.FC<ColumnTypesPanelProps> = ({ headers, columnTypes, dateFormats, overrides, onApply }) => {
+  const [draft, setDraft] = useState<TypeOverrides>(overrides);
+
+  const setOverride = (column: string, type: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      if (type === '') {
+        delete next[column];
+      } else {
+        next[column] = type as InferredType;
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Types are inferred from the values. Override a column's type to have every quality dimension checked against it.
+      </p>
+
+      <div className="bg-white border rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600">
+            <tr>
+              <th className="px-4 py-2">Column</th>
+              <th className="px-4 py-2">Inferred type</th>
+              <th className="px-4 py-2">Confidence</th>
+              <th className="px-4 py-2">Use type</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {headers.map(header => {
+              const inference = columnTypes[header];
+              if (!inference) return null;
+              const confidence = Math.round(inference.confidence * 100);
+              const dateFormat = dateFormats[header];
+              return (
+                <tr key={header}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{header}</td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {inference.inferredType}
+                    {dateFormat?.format && (
+                      <span className="block text-xs text-gray-500">
+                        {dateFormat.format} · {Math.round(dateFormat.share * 100)}% of values
+                        {dateFormat.ambiguous && <span className="text-amber-600"> · day/month order unclear</span>}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 bg-gray-200 rounded-full h-2">
+                        <div className={`h-2 rounded-full ${confidenceColor(inference.confidence)}`} style={{ width: `${confidence}%` }}></div>
+                      </div>
+                      <span className="text-xs text-gray-600">{confidence}%</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={draft[header] || ''}
+                      onChange={(e) => setOverride(header, e.target.value)}
+                      className={`px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary ${
+                        draft[header] ? 'border-kipi-primary bg-green-50' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Auto ({inference.inferredType})</option>
+                      {INFERRED_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onApply(draft)}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+        >
+          <Play className="w-4 h-4" />
+          Apply and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnTypesPanel;
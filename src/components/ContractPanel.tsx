@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { ValidationContract, describeContractField, parseContract } from '../utils/validationContract';
+
+interface ContractPanelProps {
+  filename: string;
+  contract: ValidationContract | null;
+  onChange: (contract: ValidationContract | null) => void;
+}
+
+const ContractPanel: React.FC<ContractPanelProps> = ({ filename, contract, onChange }) => {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parseContract(await file.text());
+      setLoadError(null);
+      onChange({ ...loaded, title: loaded.title || file.name });
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read contract file');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Load a JSON Schema or Frictionless <code>table-schema.json</code> to enforce it on <strong>{filename}</strong>.
+        Types, formats and patterns are checked as Invalid Format, <code>enum</code> and bounds as Value Range,
+        <code> required</code> as Missing Values and <code>unique</code> / <code>primaryKey</code> as Duplicates.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-secondary text-white rounded-lg hover:bg-blue-700"
+        >
+          <Upload className="w-4 h-4" />
+          {contract ? 'Replace Contract' : 'Load Contract'}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleLoad} className="hidden" />
+        {contract && (
+          <button
+            onClick={() => onChange(null)}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove Contract
+          </button>
+        )}
+      </div>
+
+      {loadError && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{loadError}</div>
+      )}
+
+      {contract ? (
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b bg-gray-50 text-sm text-gray-700">
+            <strong>{contract.title}</strong> · {contract.source === 'frictionless' ? 'Frictionless Table Schema' : 'JSON Schema'} ·{' '}
+            {contract.fields.length} fields
+          </div>
+          <div className="divide-y">
+            {contract.fields.map(field => (
+              <div key={field.name} className="px-4 py-2 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 mr-2">{field.name}</span>
+                {describeContractField(field).map(constraint => (
+                  <span key={constraint} className="px-2 py-0.5 rounded text-xs font-mono bg-gray-100 text-gray-700">
+                    {constraint}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-4 text-gray-500 text-sm">No validation contract loaded for this dataset</div>
+      )}
+    </div>
+  );
+};
+
+export default ContractPanel;
@@ -1,276 +1,197 @@
-import React, { useState, useEffect } from 'react';
-import { Trash2, RefreshCw, Filter, CheckCircle, AlertTriangle, Eye, Play, Undo, Info, Zap, Target, ChevronDown, ChevronUp, Search } from 'lucide-react';
-import { CSVData, CleaningOperation } from '../types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Trash2, RefreshCw, Filter, CheckCircle, AlertTriangle, Eye, Play, Undo, Info, Zap, Target, ChevronDown, ChevronUp, Search, XCircle, Calendar, Users, KeyRound, Wrench, Shield, Scissors, Combine, Pencil, ArrowUpDown, Type, Regex } from 'lucide-react';
+import { CSVData, CellValue, CleaningOperation, CleaningPreviewItem, CleaningSuggestion } from '../types';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import {
+  CleaningHistory,
+  addSnapshot,
+  checkout,
+  loadHistory,
+  redo,
+  renameSnapshot,
+  saveHistory,
+  snapshotDiffs,
+  snapshotPath,
+  undo
+} from '../utils/cleaningHistory';
+import { operationColumns } from '../utils/cleaningOperations';
+import { fromColumnarData } from '../utils/columnStore';
+import { isColumnTransform } from '../utils/columnTransforms';
+import { formatCellValue } from '../utils/cellValues';
+import { columnLocale, loadLocale } from '../utils/locale';
+import { KEEP_STRATEGIES, KeepStrategy, candidateKeyLabel, chooseSurvivor, loadCandidateKeys, orderingValue } from '../utils/candidateKeys';
+import { DEFAULT_NEIGHBORS, IMPUTATION_STRATEGIES, ImputationStrategy, ORDERED_STRATEGIES } from '../utils/imputation';
+import { loadOutlierSettings } from '../utils/outliers';
+import { DEFAULT_COUNTRY_CODE, toE164 } from '../utils/formatFixes';
+import { SENSITIVE_ACTIONS, SensitiveAction } from '../utils/sensitiveData';
+import { loadTypeOverrides } from '../utils/typeInference';
+import { loadValueMappings } from '../utils/valueClustering';
+import CleaningHistoryPanel from './CleaningHistoryPanel';
+import ColumnTransformPanel from './ColumnTransformPanel';
+import DuplicateMatchingPanel from './DuplicateMatchingPanel';
+import PipelineExportPanel from './PipelineExportPanel';
+import RecipePanel from './RecipePanel';
+import ValueClusteringPanel from './ValueClusteringPanel';
 
 interface DataCleaningProps {
   data: CSVData;
   onDataCleaned: (cleanedData: CSVData) => void;
+  sensitiveDataDetected?: { [column: string]: string[] }; // from the latest quality report
 }
 
-interface CleaningStep {
-  id: string;
-  title: string;
-  description: string;
+interface CleaningStep extends CleaningSuggestion {
   icon: React.ComponentType<any>;
   color: string;
   bgColor: string;
   borderColor: string;
-  issues: number;
-  operation: CleaningOperation;
   applied: boolean;
-  affectedRows: number[];
-  affectedColumns: string[];
-  previewData?: {
-    before: any[];
-    after: any[];
-  };
   selectedRows?: Set<number>; // For selective row cleaning
 }
 
-const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
+type StepStyle = Pick<CleaningStep, 'icon' | 'color' | 'bgColor' | 'borderColor'>;
+
+const defaultStepStyle: StepStyle = { icon: Zap, color: 'text-blue-600', bgColor: 'bg-blue-50', borderColor: 'border-blue-200' };
+
+const stepStyles: { [type in CleaningOperation['type']]?: StepStyle } = {
+  remove_duplicates: { icon: Trash2, color: 'text-red-600', bgColor: 'bg-red-50', borderColor: 'border-red-200' },
+  fill_missing: { icon: Filter, color: 'text-yellow-600', bgColor: 'bg-yellow-50', borderColor: 'border-yellow-200' },
+  remove_outliers: { icon: Target, color: 'text-purple-600', bgColor: 'bg-purple-50', borderColor: 'border-purple-200' },
+  standardize: defaultStepStyle,
+  normalize_dates: { icon: Calendar, color: 'text-teal-600', bgColor: 'bg-teal-50', borderColor: 'border-teal-200' },
+  merge_duplicates: { icon: Users, color: 'text-orange-600', bgColor: 'bg-orange-50', borderColor: 'border-orange-200' },
+  dedupe_by_key: { icon: KeyRound, color: 'text-indigo-600', bgColor: 'bg-indigo-50', borderColor: 'border-indigo-200' },
+  fix_format: { icon: Wrench, color: 'text-cyan-600', bgColor: 'bg-cyan-50', borderColor: 'border-cyan-200' },
+  handle_sensitive: { icon: Shield, color: 'text-rose-600', bgColor: 'bg-rose-50', borderColor: 'border-rose-200' },
+  split_column: { icon: Scissors, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  merge_columns: { icon: Combine, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  rename_column: { icon: Pencil, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  drop_columns: { icon: Trash2, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  reorder_columns: { icon: ArrowUpDown, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  change_type: { icon: Type, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' },
+  extract_pattern: { icon: Regex, color: 'text-emerald-600', bgColor: 'bg-emerald-50', borderColor: 'border-emerald-200' }
+};
+
+const toCleaningStep = (suggestion: CleaningSuggestion): CleaningStep => ({
+  ...suggestion,
+  ...(stepStyles[suggestion.operation.type] || defaultStepStyle),
+  applied: false,
+  selectedRows: suggestion.operation.type === 'fill_missing' ? new Set() : undefined // Start with no rows selected
+});
+
+// A shared default, so the analysis does not rerun on every render
+const NO_SENSITIVE_COLUMNS: { [column: string]: string[] } = {};
+
+const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned, sensitiveDataDetected = NO_SENSITIVE_COLUMNS }) => {
   const [cleaningSteps, setCleaningSteps] = useState<CleaningStep[]>([]);
+  // previewData is the current snapshot; currentRowIds names its rows by their
+  // row in data, which is what the steps' rows refer to
   const [previewData, setPreviewData] = useState<CSVData>(data);
+  const [currentRowIds, setCurrentRowIds] = useState<number[]>(() => data.rows.map((_, i) => i));
+  const [history, setHistory] = useState<CleaningHistory>(() => loadHistory(data));
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<{ fraction: number; stage?: string }>({ fraction: 0 });
+  const [taskError, setTaskError] = useState<string | null>(null);
+  const [skippedSteps, setSkippedSteps] = useState<string[]>([]); // why steps of the last apply changed nothing
   const [expandedStep, setExpandedStep] = useState<string | null>(null);
   const [showGlobalPreview, setShowGlobalPreview] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const fillPreviewAbortRef = useRef<AbortController | null>(null);
+  const snapshotAbortRef = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    analyzeDataAndCreateSteps();
-  }, [data]);
-
-  const analyzeDataAndCreateSteps = () => {
-    const steps: CleaningStep[] = [];
-
-    // Check for duplicates with detailed preview
-    const duplicateRowIndices: number[] = [];
-    const seenRows = new Map();
-    data.rows.forEach((row, index) => {
-      const key = JSON.stringify(row);
-      if (seenRows.has(key)) {
-        duplicateRowIndices.push(index);
-      } else {
-        seenRows.set(key, index);
-      }
-    });
-    
-    if (duplicateRowIndices.length > 0) {
-      const duplicatePreview = duplicateRowIndices.slice(0, 5).map(index => ({
-        rowNumber: index + 1,
-        data: data.rows[index],
-        originalIndex: seenRows.get(JSON.stringify(data.rows[index]))
-      }));
-
-      steps.push({
-        id: 'remove_duplicates',
-        title: 'Remove Duplicate Rows',
-        description: `Found ${duplicateRowIndices.length} duplicate rows. These are exact copies of existing rows and can be safely removed.`,
-        icon: Trash2,
-        color: 'text-red-600',
-        bgColor: 'bg-red-50',
-        borderColor: 'border-red-200',
-        issues: duplicateRowIndices.length,
-        operation: {
-          type: 'remove_duplicates',
-          description: `Remove ${duplicateRowIndices.length} duplicate rows`
-        },
-        applied: false,
-        affectedRows: duplicateRowIndices,
-        affectedColumns: data.headers,
-        previewData: {
-          before: duplicatePreview,
-          after: []
-        }
-      });
+  // Starts a worker task, cancelling whichever one is still running
+  const startTask = useCallback(() => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTaskError(null);
+    setProgress({ fraction: 0 });
+    return controller;
+  }, []);
+
+  const handleTaskError = useCallback((err: unknown) => {
+    if (!isTaskCancelled(err)) {
+      setTaskError(err instanceof Error ? err.message : 'Processing failed');
     }
+  }, []);
 
-    // Check for missing values with detailed column analysis
-    data.headers.forEach(header => {
-      const colIndex = data.headers.indexOf(header);
-      const missingRowIndices: number[] = [];
-      const missingValues: any[] = [];
-      
-      data.rows.forEach((row, rowIndex) => {
-        if (row[colIndex] === '' || row[colIndex] === null || row[colIndex] === undefined) {
-          missingRowIndices.push(rowIndex);
-          missingValues.push({
-            rowNumber: rowIndex + 1,
-            rowData: row,
-            columnIndex: colIndex,
-            rowIndex: rowIndex
-          });
-        }
+  const analyzeDataAndCreateSteps = useCallback(async () => {
+    const controller = startTask();
+    setIsAnalyzing(true);
+
+    try {
+      const params = {
+        locale: loadLocale(data.filename),
+        candidateKeys: loadCandidateKeys(data.filename),
+        valueMappings: loadValueMappings(data.filename),
+        outlierSettings: loadOutlierSettings(data.filename),
+        typeOverrides: loadTypeOverrides(data.filename),
+        sensitiveColumns: sensitiveDataDetected
+      };
+      const suggestions = await runAnalysisTask('suggestCleaningSteps', data, params, {
+        signal: controller.signal,
+        onProgress: (fraction, stage) => setProgress({ fraction, stage })
       });
+      if (abortRef.current !== controller) return;
+      setCleaningSteps(suggestions.map(toCleaningStep));
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      handleTaskError(err);
+    } finally {
+      if (abortRef.current === controller) setIsAnalyzing(false);
+    }
+  }, [data, sensitiveDataDetected, startTask, handleTaskError]);
 
-      if (missingRowIndices.length > 0) {
-        // Suggest appropriate fill value based on column type
-        const nonEmptyValues = data.rows
-          .map(row => row[colIndex])
-          .filter(val => val !== '' && val !== null && val !== undefined);
-        
-        const numericValues = nonEmptyValues.filter(val => typeof val === 'number');
-        let suggestedValue = '';
-        
-        if (numericValues.length > nonEmptyValues.length / 2) {
-          // Numeric column - suggest mean
-          const mean = numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length;
-          suggestedValue = Math.round(mean * 100) / 100;
-        } else {
-          // Text column - suggest most common value or 'Unknown'
-          const valueCounts = new Map();
-          nonEmptyValues.forEach(val => {
-            valueCounts.set(val, (valueCounts.get(val) || 0) + 1);
-          });
-          const mostCommon = Array.from(valueCounts.entries()).sort((a, b) => b[1] - a[1])[0];
-          suggestedValue = mostCommon ? mostCommon[0] : 'Unknown';
-        }
+  const showSnapshot = useCallback(async (next: CleaningHistory) => {
+    snapshotAbortRef.current?.abort();
+    const controller = new AbortController();
+    snapshotAbortRef.current = controller;
+    saveHistory(data, next);
+    setHistory(next);
+    setIsRestoring(true);
+    setTaskError(null);
+    setSkippedSteps([]);
 
-        steps.push({
-          id: `fill_missing_${header}`,
-          title: `Fill Missing Values in "${header}"`,
-          description: `${missingRowIndices.length} missing values found in this column. You can select which specific rows to fill.`,
-          icon: Filter,
-          color: 'text-yellow-600',
-          bgColor: 'bg-yellow-50',
-          borderColor: 'border-yellow-200',
-          issues: missingRowIndices.length,
-          operation: {
-            type: 'fill_missing',
-            column: header,
-            value: suggestedValue,
-            description: `Fill missing values in ${header}`
-          },
-          applied: false,
-          affectedRows: missingRowIndices,
-          affectedColumns: [header],
-          selectedRows: new Set(), // Start with no rows selected
-          previewData: {
-            before: missingValues.slice(0, 10), // Show more examples for selection
-            after: missingValues.slice(0, 10).map(item => ({
-              ...item,
-              newValue: suggestedValue
-            }))
-          }
-        });
-      }
-    });
-
-    // Check for outliers with statistical analysis
-    const numericColumns = data.headers.filter(header => {
-      const colIndex = data.headers.indexOf(header);
-      const values = data.rows.map(row => row[colIndex]);
-      const numericValues = values.filter(val => typeof val === 'number');
-      return numericValues.length > values.length / 2;
-    });
-
-    numericColumns.forEach(column => {
-      const colIndex = data.headers.indexOf(column);
-      const numericValues = data.rows
-        .map((row, index) => ({ value: row[colIndex], index }))
-        .filter(item => typeof item.value === 'number');
-
-      if (numericValues.length > 4) {
-        const sortedValues = numericValues.map(item => item.value).sort((a, b) => a - b);
-        const q1 = sortedValues[Math.floor(sortedValues.length * 0.25)];
-        const q3 = sortedValues[Math.floor(sortedValues.length * 0.75)];
-        const iqr = q3 - q1;
-        const lowerBound = q1 - 1.5 * iqr;
-        const upperBound = q3 + 1.5 * iqr;
-        
-        const outlierItems = numericValues.filter(item => 
-          item.value < lowerBound || item.value > upperBound
-        );
-        
-        if (outlierItems.length > 0) {
-          const outlierPreview = outlierItems.slice(0, 5).map(item => ({
-            rowNumber: item.index + 1,
-            value: item.value,
-            rowData: data.rows[item.index],
-            reason: item.value < lowerBound ? 'Below normal range' : 'Above normal range',
-            bounds: { lower: lowerBound, upper: upperBound }
-          }));
-
-          steps.push({
-            id: `remove_outliers_${column}`,
-            title: `Remove Outliers from "${column}"`,
-            description: `${outlierItems.length} statistical outliers detected. These values are significantly different from the normal range and may skew analysis.`,
-            icon: Target,
-            color: 'text-purple-600',
-            bgColor: 'bg-purple-50',
-            borderColor: 'border-purple-200',
-            issues: outlierItems.length,
-            operation: {
-              type: 'remove_outliers',
-              column,
-              description: `Remove ${outlierItems.length} outliers from ${column}`
-            },
-            applied: false,
-            affectedRows: outlierItems.map(item => item.index),
-            affectedColumns: [column],
-            previewData: {
-              before: outlierPreview,
-              after: []
-            }
-          });
-        }
-      }
-    });
-
-    // Check for text standardization
-    const textColumns = data.headers.filter(header => {
-      const colIndex = data.headers.indexOf(header);
-      const values = data.rows.map(row => row[colIndex]);
-      const textValues = values.filter(val => typeof val === 'string');
-      return textValues.length > values.length / 2;
-    });
-
-    textColumns.forEach(column => {
-      const colIndex = data.headers.indexOf(column);
-      const inconsistentRows: number[] = [];
-      const inconsistentValues: any[] = [];
-      
-      data.rows.forEach((row, rowIndex) => {
-        const value = row[colIndex];
-        if (typeof value === 'string') {
-          const standardized = value.trim().toLowerCase();
-          if (value !== standardized || value.includes('  ')) {
-            inconsistentRows.push(rowIndex);
-            inconsistentValues.push({
-              rowNumber: rowIndex + 1,
-              original: value,
-              standardized: standardized.replace(/\s+/g, ' '),
-              rowData: row
-            });
-          }
-        }
+    try {
+      const result = await runAnalysisTask('materializeSnapshot', data, { diffs: snapshotDiffs(next, next.currentId) }, {
+        signal: controller.signal
       });
+      if (snapshotAbortRef.current !== controller) return;
+      const snapshot = fromColumnarData({ ...result, filename: `cleaned_${data.filename}` }, { dialect: data.dialect });
+      setPreviewData(snapshot);
+      setCurrentRowIds(result.rowIds);
+      onDataCleaned(snapshot);
+    } catch (err) {
+      if (snapshotAbortRef.current !== controller) return;
+      handleTaskError(err);
+    } finally {
+      if (snapshotAbortRef.current === controller) setIsRestoring(false);
+    }
+  }, [data, onDataCleaned, handleTaskError]);
 
-      if (inconsistentRows.length > 0) {
-        steps.push({
-          id: `standardize_${column}`,
-          title: `Standardize Text in "${column}"`,
-          description: `${inconsistentRows.length} text values need formatting standardization (case, spacing, etc.).`,
-          icon: Zap,
-          color: 'text-blue-600',
-          bgColor: 'bg-blue-50',
-          borderColor: 'border-blue-200',
-          issues: inconsistentRows.length,
-          operation: {
-            type: 'standardize',
-            column,
-            description: `Standardize ${inconsistentRows.length} text values in ${column}`
-          },
-          applied: false,
-          affectedRows: inconsistentRows,
-          affectedColumns: [column],
-          previewData: {
-            before: inconsistentValues.slice(0, 5),
-            after: inconsistentValues.slice(0, 5)
-          }
-        });
-      }
-    });
+  useEffect(() => {
+    const saved = loadHistory(data);
+    if (saved.currentId === 0) {
+      setHistory(saved);
+      setPreviewData(data);
+      setCurrentRowIds(data.rows.map((_, i) => i));
+    } else {
+      showSnapshot(saved);
+    }
+    analyzeDataAndCreateSteps();
+    return () => {
+      abortRef.current?.abort();
+      fillPreviewAbortRef.current?.abort();
+      snapshotAbortRef.current?.abort();
+    };
+  }, [data, showSnapshot, analyzeDataAndCreateSteps]);
 
-    setCleaningSteps(steps);
+  const cancelTask = () => {
+    abortRef.current?.abort();
+    setIsAnalyzing(false);
+    setIsProcessing(false);
   };
 
   const toggleStep = (stepId: string) => {
@@ -279,12 +200,18 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
     ));
   };
 
+  // Steps built outside the suggestions, such as resolved duplicate clusters,
+  // replace any earlier step with the same id and start selected
+  const addStep = (suggestion: CleaningSuggestion) => {
+    setCleaningSteps(prev => [...prev.filter(step => step.id !== suggestion.id), { ...toCleaningStep(suggestion), applied: true }]);
+  };
+
   const updateStepValue = (stepId: string, value: string) => {
     setCleaningSteps(prev => prev.map(step => 
       step.id === stepId 
         ? { 
             ...step, 
-            operation: { ...step.operation, value },
+            operation: { ...step.operation, strategy: 'constant', value },
             previewData: step.previewData ? {
               ...step.previewData,
               after: step.previewData.before.map(item => ({
@@ -297,6 +224,98 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
     ));
   };
 
+  // A computed fill strategy changes the operation right away; the preview's
+  // after values follow once the worker has imputed the preview rows
+  const updateFillStrategy = async (stepId: string, changes: Partial<CleaningOperation>) => {
+    const step = cleaningSteps.find(item => item.id === stepId);
+    if (!step?.previewData) return;
+    const operation = { ...step.operation, ...changes };
+    const withAfter = (after: (item: CleaningPreviewItem) => CellValue | undefined) => setCleaningSteps(prev => prev.map(item =>
+      item.id === stepId && item.previewData
+        ? {
+            ...item,
+            operation,
+            previewData: {
+              ...item.previewData,
+              after: item.previewData.before.map(row => ({ ...row, newValue: after(row) }))
+            }
+          }
+        : item
+    ));
+
+    if (!operation.strategy || operation.strategy === 'constant') {
+      withAfter(() => operation.value);
+      return;
+    }
+    withAfter(() => undefined);
+    fillPreviewAbortRef.current?.abort();
+    const controller = new AbortController();
+    fillPreviewAbortRef.current = controller;
+    try {
+      const rows = step.previewData.before.flatMap(item => (item.rowIndex === undefined ? [] : [item.rowIndex]));
+      const fills = await runAnalysisTask('previewImputation', data, { operation, rows, locale: loadLocale(data.filename) }, {
+        signal: controller.signal
+      });
+      if (fillPreviewAbortRef.current === controller) withAfter(item => (item.rowIndex === undefined ? undefined : fills[item.rowIndex]));
+    } catch (err) {
+      if (fillPreviewAbortRef.current === controller) handleTaskError(err);
+    }
+  };
+
+  // Outliers either take their rows with them or are capped at the step's fences
+  const updateOutlierAction = (stepId: string, outlierAction: 'remove' | 'cap') => {
+    setCleaningSteps(prev => prev.map(step =>
+      step.id === stepId
+        ? {
+            ...step,
+            operation: {
+              ...step.operation,
+              outlierAction,
+              description: outlierAction === 'cap'
+                ? `Cap ${step.issues} outliers in ${step.operation.column} at the fences`
+                : `Remove ${step.issues} outliers from ${step.operation.column}`
+            }
+          }
+        : step
+    ));
+  };
+
+  // Phone numbers written without a calling code are read as numbers in this country
+  const updateCountryCode = (stepId: string, countryCode: string) => {
+    setCleaningSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, operation: { ...step.operation, countryCode } } : step
+    ));
+  };
+
+  const updateSensitiveAction = (stepId: string, sensitiveAction: SensitiveAction) => {
+    setCleaningSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      const { column } = step.operation;
+      const description = sensitiveAction === 'drop'
+        ? `Drop the ${column} column`
+        : `${sensitiveAction === 'mask' ? 'Mask' : sensitiveAction === 'hash' ? 'Hash' : 'Tokenize'} ${step.issues} values in ${column}`;
+      return { ...step, operation: { ...step.operation, sensitiveAction, description } };
+    }));
+  };
+
+  // Which row of each duplicated key survives; max and min compare a chosen column
+  const updateKeepStrategy = (stepId: string, keep: KeepStrategy, column?: string) => {
+    setCleaningSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      const label = KEEP_STRATEGIES.find(item => item.value === keep)?.label || keep;
+      const ordered = keep === 'max' || keep === 'min';
+      return {
+        ...step,
+        operation: {
+          ...step.operation,
+          keep,
+          column: ordered ? column : undefined,
+          description: `${label}${ordered ? ` ${column}` : ''} for each duplicated ${candidateKeyLabel(step.operation.keyColumns || [])}`
+        }
+      };
+    }));
+  };
+
   const toggleRowSelection = (stepId: string, rowIndex: number) => {
     setCleaningSteps(prev => prev.map(step => {
       if (step.id === stepId && step.selectedRows) {
@@ -359,107 +378,70 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
     }));
   };
 
-  const applyAllSelectedSteps = async () => {
+  // Operations on the path from the uploaded data to the current snapshot
+  const appliedOperations = snapshotPath(history, history.currentId).flatMap(snapshot => (snapshot.operation ? [snapshot.operation] : []));
+
+  // Steps are suggested for the uploaded data; those reading a column the current
+  // snapshot no longer has cannot be selected
+  const absentColumns = (step: CleaningStep) => operationColumns(step.operation).filter(column => !previewData.headers.includes(column));
+
+  const selectedSteps = cleaningSteps.filter(step => step.applied && absentColumns(step).length === 0);
+
+  const selectedOperations = () => selectedSteps
+    .map(step => (
+      // Fill either all rows or only the selected rows
+      step.selectedRows && step.selectedRows.size > 0
+        ? { ...step.operation, rows: Array.from(step.selectedRows) }
+        : step.operation
+    ));
+
+  // Applies operations to the current snapshot, one snapshot per operation.
+  // Applying from an earlier snapshot starts a new branch.
+  const applyOperations = async (operations: CleaningOperation[]) => {
+    const controller = startTask();
     setIsProcessing(true);
-    
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    let cleanedData = { ...data };
-    const appliedSteps = cleaningSteps.filter(step => step.applied);
-    
-    for (const step of appliedSteps) {
-      const operation = step.operation;
-      
-      switch (operation.type) {
-        case 'remove_duplicates':
-          const uniqueRows = new Map();
-          const filteredRows = cleanedData.rows.filter(row => {
-            const key = JSON.stringify(row);
-            if (uniqueRows.has(key)) {
-              return false;
-            }
-            uniqueRows.set(key, true);
-            return true;
-          });
-          cleanedData = { ...cleanedData, rows: filteredRows };
-          break;
-          
-        case 'fill_missing':
-          if (operation.column && operation.value !== undefined) {
-            const colIndex = cleanedData.headers.indexOf(operation.column);
-            if (colIndex !== -1) {
-              cleanedData.rows = cleanedData.rows.map((row, rowIndex) => {
-                const newRow = [...row];
-                // Check if this row should be filled (either all rows or selected rows)
-                const shouldFill = !step.selectedRows || step.selectedRows.size === 0 || step.selectedRows.has(rowIndex);
-                
-                if (shouldFill && (newRow[colIndex] === '' || newRow[colIndex] === null || newRow[colIndex] === undefined)) {
-                  newRow[colIndex] = operation.value;
-                }
-                return newRow;
-              });
-            }
-          }
-          break;
-          
-        case 'remove_outliers':
-          if (operation.column) {
-            const colIndex = cleanedData.headers.indexOf(operation.column);
-            if (colIndex !== -1) {
-              const numericValues = cleanedData.rows
-                .map(row => row[colIndex])
-                .filter(val => typeof val === 'number')
-                .sort((a, b) => a - b);
-              
-              if (numericValues.length > 0) {
-                const q1 = numericValues[Math.floor(numericValues.length * 0.25)];
-                const q3 = numericValues[Math.floor(numericValues.length * 0.75)];
-                const iqr = q3 - q1;
-                const lowerBound = q1 - 1.5 * iqr;
-                const upperBound = q3 + 1.5 * iqr;
-                
-                cleanedData.rows = cleanedData.rows.filter(row => {
-                  const value = row[colIndex];
-                  return typeof value !== 'number' || (value >= lowerBound && value <= upperBound);
-                });
-              }
-            }
-          }
-          break;
-          
-        case 'standardize':
-          if (operation.column) {
-            const colIndex = cleanedData.headers.indexOf(operation.column);
-            if (colIndex !== -1) {
-              cleanedData.rows = cleanedData.rows.map(row => {
-                const newRow = [...row];
-                if (typeof newRow[colIndex] === 'string') {
-                  newRow[colIndex] = (newRow[colIndex] as string).trim().toLowerCase().replace(/\s+/g, ' ');
-                }
-                return newRow;
-              });
-            }
-          }
-          break;
-      }
+    setSkippedSteps([]);
+
+    try {
+      const result = await runAnalysisTask('applyCleaningSteps', previewData, {
+        operations,
+        rowIds: currentRowIds,
+        locale: loadLocale(data.filename)
+      }, {
+        signal: controller.signal,
+        onProgress: (fraction, stage) => setProgress({ fraction, stage })
+      });
+      if (abortRef.current !== controller) return;
+      // Steps that could not run get no snapshot
+      const next = result.diffs.reduce((acc, diff, i) => (diff ? addSnapshot(acc, operations[i], diff) : acc), history);
+      setSkippedSteps(result.skipped.map(({ index, reason }) => `${operations[index].description}: ${reason}`));
+      saveHistory(data, next);
+      setHistory(next);
+      const cleanedData = fromColumnarData({ ...result.result, filename: `cleaned_${data.filename}` }, { dialect: data.dialect });
+      setPreviewData(cleanedData);
+      setCurrentRowIds(result.rowIds);
+      resetAllSteps();
+      onDataCleaned(cleanedData);
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      handleTaskError(err);
+    } finally {
+      if (abortRef.current === controller) setIsProcessing(false);
     }
-    
-    cleanedData.filename = `cleaned_${data.filename}`;
-    setPreviewData(cleanedData);
-    onDataCleaned(cleanedData);
-    setIsProcessing(false);
   };
 
+  const applyAllSelectedSteps = () => applyOperations(selectedOperations());
+
+  // Moves to another snapshot, rebuilding it from the uploaded data and its diffs
   const resetAllSteps = () => {
     setCleaningSteps(prev => prev.map(step => ({ 
       ...step, 
       applied: false,
       selectedRows: step.selectedRows ? new Set() : undefined
     })));
-    setPreviewData(data);
   };
 
-  const selectedStepsCount = cleaningSteps.filter(step => step.applied).length;
+  const selectedStepsCount = selectedSteps.length;
   const totalIssues = cleaningSteps.reduce((sum, step) => sum + step.issues, 0);
 
   const renderStepPreview = (step: CleaningStep) => {
@@ -480,23 +462,23 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
             <div className="text-sm font-medium text-red-700 mb-2">
               🗑️ These duplicate rows will be removed:
             </div>
-            {step.previewData.before.map((item: any, index) => (
+            {step.previewData.before.map((item, index) => (
               <div key={index} className="bg-red-50 border border-red-200 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-red-800">
-                    Row #{item.rowNumber} (duplicate of row #{item.originalIndex + 1})
+                    Row #{item.rowNumber} (duplicate of row #{(item.originalIndex ?? 0) + 1})
                   </span>
                   <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded">
                     Will be deleted
                   </span>
                 </div>
                 <div className="text-xs text-red-700 font-mono bg-red-100 p-2 rounded">
-                  {item.data.slice(0, 4).map((cell: any, i: number) => (
+                  {(item.data || []).slice(0, 4).map((cell, i) => (
                     <span key={i} className="mr-4">
-                      {data.headers[i]}: {String(cell)}
+                      {data.headers[i]}: {formatCellValue(cell)}
                     </span>
                   ))}
-                  {item.data.length > 4 && <span>... +{item.data.length - 4} more</span>}
+                  {(item.data || []).length > 4 && <span>... +{(item.data || []).length - 4} more</span>}
                 </div>
               </div>
             ))}
@@ -529,8 +511,8 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
               Selected: {step.selectedRows?.size || 0} of {step.issues} missing values
             </div>
             
-            {step.previewData.after.map((item: any, index) => {
-              const isSelected = step.selectedRows?.has(item.rowIndex) || false;
+            {step.previewData.after.map((item, index) => {
+              const isSelected = item.rowIndex !== undefined && (step.selectedRows?.has(item.rowIndex) || false);
               return (
                 <div key={index} className={`border rounded-lg p-3 transition-all ${
                   isSelected 
@@ -542,7 +524,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                       <input
                         type="checkbox"
                         checked={isSelected}
-                        onChange={() => toggleRowSelection(step.id, item.rowIndex)}
+                        onChange={() => item.rowIndex !== undefined && toggleRowSelection(step.id, item.rowIndex)}
                         className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
                       />
                       <span className="text-sm font-medium text-gray-800">
@@ -570,7 +552,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                       <div className={`p-2 rounded mt-1 ${
                         isSelected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
                       }`}>
-                        {String(item.newValue)}
+                        {item.newValue === undefined ? <span className="italic">not filled</span> : formatCellValue(item.newValue)}
                       </div>
                     </div>
                   </div>
@@ -579,12 +561,12 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                   <div className="mt-2 text-xs text-gray-500">
                     <span className="font-medium">Row context:</span>
                     <div className="bg-gray-100 p-2 rounded mt-1 font-mono">
-                      {item.rowData.slice(0, 3).map((cell: any, i: number) => (
+                      {(item.rowData || []).slice(0, 3).map((cell, i) => (
                         <span key={i} className="mr-3">
-                          {data.headers[i]}: {cell || 'empty'}
+                          {data.headers[i]}: {cell === '' ? 'empty' : formatCellValue(cell)}
                         </span>
                       ))}
-                      {item.rowData.length > 3 && <span>...</span>}
+                      {(item.rowData || []).length > 3 && <span>...</span>}
                     </div>
                   </div>
                 </div>
@@ -596,26 +578,30 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
         {step.operation.type === 'remove_outliers' && (
           <div className="space-y-3">
             <div className="text-sm font-medium text-purple-700 mb-2">
-              🎯 These outlier rows will be removed:
+              {step.operation.outlierAction === 'cap'
+                ? '🎯 These outlier values will be capped at the fences:'
+                : '🎯 These outlier rows will be removed:'}
             </div>
-            {step.previewData.before.map((item: any, index) => (
+            {step.previewData.before.map((item, index) => (
               <div key={index} className="bg-purple-50 border border-purple-200 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-purple-800">
                     Row #{item.rowNumber} - {item.reason}
                   </span>
                   <span className="text-xs text-purple-600 bg-purple-100 px-2 py-1 rounded">
-                    Will be removed
+                    {step.operation.outlierAction === 'cap'
+                      ? `Capped to ${Math.round(Number(step.previewData?.after[index]?.newValue) * 100) / 100}`
+                      : 'Will be removed'}
                   </span>
                 </div>
                 <div className="text-xs text-purple-700">
                   <div className="mb-1">
-                    <strong>Value:</strong> {item.value} (Normal range: {Math.round(item.bounds.lower * 100) / 100} - {Math.round(item.bounds.upper * 100) / 100})
+                    <strong>Value:</strong> {formatCellValue(item.value ?? '')} (Normal range: {Math.round((item.bounds?.lower ?? 0) * 100) / 100} - {Math.round((item.bounds?.upper ?? 0) * 100) / 100})
                   </div>
                   <div className="bg-purple-100 p-2 rounded font-mono">
-                    {item.rowData.slice(0, 4).map((cell: any, i: number) => (
+                    {(item.rowData || []).slice(0, 4).map((cell, i) => (
                       <span key={i} className="mr-4">
-                        {data.headers[i]}: {String(cell)}
+                        {data.headers[i]}: {formatCellValue(cell)}
                       </span>
                     ))}
                   </div>
@@ -625,16 +611,174 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
           </div>
         )}
 
+        {step.operation.type === 'normalize_dates' && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-teal-700 mb-2">
+              📅 These dates will be rewritten as ISO 8601:
+            </div>
+            {step.previewData.before.map((item, index) => (
+              <div key={index} className="bg-teal-50 border border-teal-200 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-teal-800">
+                    Row #{item.rowNumber}
+                  </span>
+                  <span className="text-xs text-teal-600 bg-teal-100 px-2 py-1 rounded">
+                    Read as {item.format}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <span className="text-teal-700 font-medium">Before:</span>
+                    <div className="bg-teal-100 p-2 rounded mt-1 text-teal-800 font-mono">
+                      "{item.original}"
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-teal-700 font-medium">After:</span>
+                    <div className="bg-green-100 p-2 rounded mt-1 text-green-800 font-mono">
+                      "{item.normalized}"
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.operation.type === 'merge_duplicates' && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-orange-700 mb-2">
+              👥 These records will be resolved:
+            </div>
+            {step.previewData.before.map((item, index) => (
+              <div key={index} className="bg-orange-50 border border-orange-200 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-orange-800">
+                    Keep row #{item.keep}, remove row{(item.remove || []).length > 1 ? 's' : ''} #{(item.remove || []).join(', #')}
+                  </span>
+                  <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded">
+                    {item.merge ? 'Empty cells filled from removed rows' : 'Kept as is'}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.operation.type === 'dedupe_by_key' && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-indigo-700 mb-2">
+              🔑 Rows sharing a key; all but the kept row will be removed:
+            </div>
+            {step.previewData.before.map((item, index) => {
+              const rows = item.rows || [];
+              const count = item.count ?? rows.length;
+              const orderColumn = step.operation.column ? data.headers.indexOf(step.operation.column) : -1;
+              const settings = columnLocale(loadLocale(data.filename), step.operation.column || '');
+              // The kept row is only known when the whole group is shown
+              const survivor = rows.length === count
+                ? chooseSurvivor(
+                    rows.map((_, i) => i),
+                    step.operation.keep || 'first',
+                    i => rows[i].data.filter(cell => cell !== '' && cell !== null && cell !== undefined).length,
+                    i => (orderColumn === -1 ? null : orderingValue(rows[i].data[orderColumn], settings))
+                  )
+                : -1;
+              return (
+                <div key={index} className="bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+                  <div className="text-sm font-medium text-indigo-800 mb-2">
+                    {candidateKeyLabel(step.affectedColumns)} = {(item.key || []).map(formatCellValue).join(' + ')} ({count} rows)
+                  </div>
+                  <div className="space-y-1">
+                    {rows.map((row, i) => (
+                      <div key={row.rowNumber} className={`text-xs font-mono p-2 rounded ${i === survivor ? 'bg-green-100 text-green-800' : 'bg-indigo-100 text-indigo-700'}`}>
+                        <span className="mr-4 font-sans font-medium">Row #{row.rowNumber}{i === survivor ? ' (kept)' : ''}</span>
+                        {row.data.slice(0, 4).map((cell, c) => (
+                          <span key={c} className="mr-4">
+                            {data.headers[c]}: {formatCellValue(cell)}
+                          </span>
+                        ))}
+                        {row.data.length > 4 && <span>... +{row.data.length - 4} more</span>}
+                      </div>
+                    ))}
+                    {rows.length < count && (
+                      <div className="text-xs text-indigo-600">... and {count - rows.length} more rows with this key</div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step.operation.type === 'fix_format' && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-cyan-700 mb-2">
+              🔧 These values will be rewritten:
+            </div>
+            {step.previewData.before.map((item, index) => (
+              <div key={index} className="bg-cyan-50 border border-cyan-200 rounded-lg p-3">
+                <div className="text-sm font-medium text-cyan-800 mb-2">Row #{item.rowNumber}</div>
+                <div className="grid grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <span className="text-cyan-700 font-medium">Before:</span>
+                    <div className="bg-cyan-100 p-2 rounded mt-1 text-cyan-800 font-mono">"{item.original}"</div>
+                  </div>
+                  <div>
+                    <span className="text-cyan-700 font-medium">After:</span>
+                    <div className="bg-green-100 p-2 rounded mt-1 text-green-800 font-mono">
+                      {/* Phone previews follow the chosen country code */}
+                      "{step.operation.format === 'phone'
+                        ? toE164(item.original || '', step.operation.countryCode) ?? item.original
+                        : formatCellValue(item.fixed ?? '')}"
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.operation.type === 'handle_sensitive' && (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-rose-700 mb-2">
+              {step.operation.sensitiveAction === 'drop'
+                ? `🛡️ The ${step.operation.column} column will be removed:`
+                : '🛡️ These values will be protected:'}
+            </div>
+            {step.previewData.before.map((item, index) => (
+              <div key={index} className="bg-rose-50 border border-rose-200 rounded-lg p-3">
+                <div className="text-sm font-medium text-rose-800 mb-2">Row #{item.rowNumber}</div>
+                <div className="grid grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <span className="text-rose-700 font-medium">Before:</span>
+                    <div className="bg-rose-100 p-2 rounded mt-1 text-rose-800 font-mono">"{item.original}"</div>
+                  </div>
+                  <div>
+                    <span className="text-rose-700 font-medium">After:</span>
+                    <div className="bg-green-100 p-2 rounded mt-1 text-green-800 font-mono break-all">
+                      {step.operation.sensitiveAction === 'drop'
+                        ? <span className="italic">column removed</span>
+                        : `"${item[step.operation.sensitiveAction || 'mask']}"`}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {step.operation.type === 'standardize' && (
           <div className="space-y-3">
             <div className="text-sm font-medium text-blue-700 mb-2">
               ⚡ These text values will be standardized:
             </div>
-            {step.previewData.before.map((item: any, index) => (
+            {step.previewData.before.map((item, index) => (
               <div key={index} className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-blue-800">
-                    Row #{item.rowNumber}
+                    {/* Value mappings are previewed per spelling rather than per row */}
+                    {item.rowNumber ? `Row #${item.rowNumber}` : `${item.count} rows`}
                   </span>
                   <span className="text-xs text-blue-600 bg-blue-100 px-2 py-1 rounded">
                     Will be standardized
@@ -658,6 +802,69 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
             ))}
           </div>
         )}
+
+        {isColumnTransform(step.operation.type) && (
+          <div className="space-y-3">
+            {/* Column-level steps preview the columns; the others the first rows */}
+            {step.operation.type === 'drop_columns' || step.operation.type === 'reorder_columns' ? (
+              <>
+                <div className="text-sm font-medium text-emerald-700 mb-2">
+                  {step.operation.type === 'drop_columns' ? '🧹 The columns after this step:' : '🔀 The new column order:'}
+                </div>
+                <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3">
+                  <div className="grid grid-cols-2 gap-4 text-xs">
+                    {([['Before', step.previewData.before[0]?.headers], ['After', step.previewData.after[0]?.headers]] as const).map(([label, headers]) => (
+                      <div key={label}>
+                        <span className="text-emerald-700 font-medium">{label}:</span>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {(headers || []).map(header => (
+                            <span
+                              key={header}
+                              className={`px-2 py-1 rounded font-mono ${
+                                step.affectedColumns.includes(header) ? 'bg-emerald-200 text-emerald-900' : 'bg-emerald-100 text-emerald-800'
+                              }`}
+                            >
+                              {header}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="text-sm font-medium text-emerald-700 mb-2">
+                  🧩 The first rows after this step:
+                </div>
+                {step.previewData.before.map((item, index) => (
+                  <div key={index} className="bg-emerald-50 border border-emerald-200 rounded-lg p-3">
+                    <div className="text-sm font-medium text-emerald-800 mb-2">Row #{item.rowNumber}</div>
+                    <div className="grid grid-cols-2 gap-4 text-xs">
+                      <div>
+                        <span className="text-emerald-700 font-medium">Before:</span>
+                        {(item.values || []).map(([name, value]) => (
+                          <div key={name} className="bg-emerald-100 p-2 rounded mt-1 text-emerald-800 font-mono break-all">
+                            {name}: "{value}"
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <span className="text-emerald-700 font-medium">After:</span>
+                        {(step.previewData?.after[index]?.values || []).map(([name, value]) => (
+                          <div key={name} className="bg-green-100 p-2 rounded mt-1 text-green-800 font-mono break-all">
+                            {name}: {value === '' ? <span className="italic">empty</span> : `"${value}"`}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
       </div>
     );
   };
@@ -702,7 +909,58 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
         </div>
       </div>
 
-      {cleaningSteps.length === 0 ? (
+      {taskError && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-800">{taskError}</p>
+        </div>
+      )}
+
+      {skippedSteps.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+          <div className="text-sm text-yellow-800">
+            <p className="font-medium">These steps changed nothing and were not added to the history:</p>
+            <ul className="list-disc ml-5 mt-1">
+              {skippedSteps.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {isAnalyzing ? (
+        <div className="text-center py-12">
+          <div className="inline-flex items-center gap-3 mb-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-kipi-primary"></div>
+            <span className="text-lg font-medium text-gray-900">Looking for cleaning opportunities...</span>
+          </div>
+          <div className="max-w-md mx-auto bg-gray-200 rounded-full h-2">
+            <div className="bg-kipi-primary h-2 rounded-full transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }}></div>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            {Math.round(progress.fraction * 100)}%{progress.stage ? ` • ${progress.stage}` : ''}
+          </p>
+          <button
+            onClick={cancelTask}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      ) : cleaningSteps.length === 0 && taskError ? (
+        <div className="text-center py-12">
+          <button
+            onClick={analyzeDataAndCreateSteps}
+            className="inline-flex items-center gap-2 px-6 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Analyze Again
+          </button>
+        </div>
+      ) : cleaningSteps.length === 0 ? (
         <div className="text-center py-12">
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">Great News!</h3>
@@ -724,7 +982,8 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
             
             {cleaningSteps.map((step) => {
               const Icon = step.icon;
-              const isSelected = step.applied;
+              const absent = absentColumns(step);
+              const isSelected = step.applied && absent.length === 0;
               const isExpanded = expandedStep === step.id;
               const selectedRowsCount = step.selectedRows?.size || 0;
               
@@ -777,15 +1036,81 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                         {step.operation.type === 'fill_missing' && (
                           <div className="mb-4">
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                              Fill value for missing entries:
+                              Fill missing entries with:
                             </label>
-                            <input
-                              type="text"
-                              value={step.operation.value || ''}
-                              onChange={(e) => updateStepValue(step.id, e.target.value)}
-                              placeholder="Enter default value"
-                              className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
-                            />
+                            <div className="flex flex-wrap items-center gap-3">
+                              <select
+                                value={step.operation.strategy || 'constant'}
+                                onChange={(e) => {
+                                  const strategy = e.target.value as ImputationStrategy;
+                                  const otherColumn = data.headers.find(header => header !== step.operation.column);
+                                  updateFillStrategy(step.id, {
+                                    strategy,
+                                    sortColumn: ORDERED_STRATEGIES.includes(strategy) ? step.operation.sortColumn : undefined,
+                                    groupColumn: strategy === 'group' ? step.operation.groupColumn || otherColumn : undefined,
+                                    neighbors: strategy === 'knn' ? step.operation.neighbors || DEFAULT_NEIGHBORS : undefined
+                                  });
+                                }}
+                                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                              >
+                                {IMPUTATION_STRATEGIES.map(strategy => (
+                                  <option key={strategy.value} value={strategy.value}>
+                                    {strategy.label}{strategy.numericOnly ? ' (numbers)' : ''}
+                                  </option>
+                                ))}
+                              </select>
+                              {(!step.operation.strategy || step.operation.strategy === 'constant') && (
+                                <input
+                                  type="text"
+                                  value={step.operation.value || ''}
+                                  onChange={(e) => updateStepValue(step.id, e.target.value)}
+                                  placeholder="Enter default value"
+                                  className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                                />
+                              )}
+                              {step.operation.strategy && ORDERED_STRATEGIES.includes(step.operation.strategy) && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                  ordered by
+                                  <select
+                                    value={step.operation.sortColumn || ''}
+                                    onChange={(e) => updateFillStrategy(step.id, { sortColumn: e.target.value || undefined })}
+                                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                                  >
+                                    <option value="">file order</option>
+                                    {data.headers.filter(header => header !== step.operation.column).map(header => (
+                                      <option key={header} value={header}>{header}</option>
+                                    ))}
+                                  </select>
+                                </label>
+                              )}
+                              {step.operation.strategy === 'group' && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                  grouped by
+                                  <select
+                                    value={step.operation.groupColumn || ''}
+                                    onChange={(e) => updateFillStrategy(step.id, { groupColumn: e.target.value })}
+                                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                                  >
+                                    {data.headers.filter(header => header !== step.operation.column).map(header => (
+                                      <option key={header} value={header}>{header}</option>
+                                    ))}
+                                  </select>
+                                </label>
+                              )}
+                              {step.operation.strategy === 'knn' && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                  k =
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    max={50}
+                                    value={step.operation.neighbors || DEFAULT_NEIGHBORS}
+                                    onChange={(e) => updateFillStrategy(step.id, { neighbors: Math.min(50, Math.max(1, Number(e.target.value))) })}
+                                    className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                                  />
+                                </label>
+                              )}
+                            </div>
                             <div className="mt-2 text-xs text-gray-500">
                               {selectedRowsCount > 0 
                                 ? `Will fill ${selectedRowsCount} selected missing values`
@@ -795,10 +1120,93 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                           </div>
                         )}
                         
+                        {step.operation.type === 'remove_outliers' && (
+                          <div className="mb-4 flex flex-wrap items-center gap-3">
+                            <select
+                              value={step.operation.outlierAction || 'remove'}
+                              onChange={(e) => updateOutlierAction(step.id, e.target.value as 'remove' | 'cap')}
+                              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                            >
+                              <option value="remove">Remove the rows</option>
+                              <option value="cap">Cap the values at the fences (winsorize)</option>
+                            </select>
+                            {step.operation.bounds && (
+                              <span className="text-sm text-gray-600">
+                                Fences: {Math.round(step.operation.bounds.lower * 100) / 100} to {Math.round(step.operation.bounds.upper * 100) / 100}
+                              </span>
+                            )}
+                          </div>
+                        )}
+
+                        {step.operation.type === 'fix_format' && step.operation.format === 'phone' && (
+                          <div className="mb-4">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              Calling code for numbers without one: +
+                              <input
+                                type="text"
+                                value={step.operation.countryCode ?? DEFAULT_COUNTRY_CODE}
+                                onChange={(e) => updateCountryCode(step.id, e.target.value.replace(/\D/g, '').slice(0, 3))}
+                                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                              />
+                            </label>
+                          </div>
+                        )}
+
+                        {step.operation.type === 'handle_sensitive' && (
+                          <div className="mb-4">
+                            <select
+                              value={step.operation.sensitiveAction || 'mask'}
+                              onChange={(e) => updateSensitiveAction(step.id, e.target.value as SensitiveAction)}
+                              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                            >
+                              {SENSITIVE_ACTIONS.map(action => (
+                                <option key={action.value} value={action.value}>{action.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+
+                        {step.operation.type === 'dedupe_by_key' && (
+                          <div className="mb-4 flex flex-wrap items-center gap-3">
+                            <select
+                              value={step.operation.keep || 'first'}
+                              onChange={(e) => updateKeepStrategy(
+                                step.id,
+                                e.target.value as KeepStrategy,
+                                step.operation.column || data.headers.find(header => !step.affectedColumns.includes(header))
+                              )}
+                              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                            >
+                              {KEEP_STRATEGIES.map(strategy => (
+                                <option key={strategy.value} value={strategy.value}>{strategy.label}{strategy.value === 'max' || strategy.value === 'min' ? '...' : ''}</option>
+                              ))}
+                            </select>
+                            {(step.operation.keep === 'max' || step.operation.keep === 'min') && (
+                              <select
+                                value={step.operation.column || ''}
+                                onChange={(e) => updateKeepStrategy(step.id, step.operation.keep || 'max', e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                              >
+                                {data.headers.map(header => (
+                                  <option key={header} value={header}>{header}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        )}
+
+                        {absent.length > 0 && (
+                          <p className="mb-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-3 py-2">
+                            The current snapshot has no {absent.map(column => `"${column}"`).join(', ')} column
+                            {absent.length > 1 ? 's' : ''}, so this step cannot run on it.
+                          </p>
+                        )}
+
                         <div className="flex items-center gap-3">
                           <button
                             onClick={() => toggleStep(step.id)}
-                            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
+                            disabled={absent.length > 0}
+                            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                               isSelected
                                 ? 'bg-kipi-primary text-white hover:bg-green-600'
                                 : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -841,6 +1249,16 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
               </div>
               
               <div className="flex items-center gap-3">
+                {isProcessing && (
+                  <button
+                    onClick={cancelTask}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Cancel
+                  </button>
+                )}
+
                 <button
                   onClick={() => setShowGlobalPreview(!showGlobalPreview)}
                   className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
@@ -860,13 +1278,13 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                 
                 <button
                   onClick={applyAllSelectedSteps}
-                  disabled={selectedStepsCount === 0 || isProcessing}
+                  disabled={selectedStepsCount === 0 || isProcessing || isRestoring}
                   className="inline-flex items-center gap-2 px-6 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
                 >
                   {isProcessing ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      Processing...
+                      Processing... {Math.round(progress.fraction * 100)}%
                     </>
                   ) : (
                     <>
@@ -882,7 +1300,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <h4 className="font-medium text-blue-900 mb-2">Selected Operations Summary:</h4>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  {cleaningSteps.filter(step => step.applied).map(step => (
+                  {selectedSteps.map(step => (
                     <li key={step.id}>• {step.operation.description}</li>
                   ))}
                 </ul>
@@ -921,7 +1339,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
                             {cell === '' || cell === null || cell === undefined ? (
                               <span className="text-gray-400 italic">empty</span>
                             ) : (
-                              String(cell).length > 30 ? String(cell).substring(0, 30) + '...' : String(cell)
+                              formatCellValue(cell).length > 30 ? formatCellValue(cell).substring(0, 30) + '...' : formatCellValue(cell)
                             )}
                           </td>
                         ))}
@@ -942,6 +1360,40 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ data, onDataCleaned }) => {
           )}
         </div>
       )}
+
+      {!isAnalyzing && (
+        <div className="mt-6 space-y-6">
+          <CleaningHistoryPanel
+            history={history}
+            busy={isProcessing || isRestoring}
+            onUndo={() => showSnapshot(undo(history))}
+            onRedo={() => showSnapshot(redo(history))}
+            onCheckout={(id) => showSnapshot(checkout(history, id))}
+            onRename={(id, name) => {
+              const next = renameSnapshot(history, id, name);
+              saveHistory(data, next);
+              setHistory(next);
+            }}
+          />
+          <RecipePanel
+            data={previewData}
+            uploadedData={data}
+            selectedOperations={selectedOperations()}
+            appliedOperations={appliedOperations}
+            busy={isProcessing || isRestoring}
+            onApply={applyOperations}
+          />
+          <PipelineExportPanel uploadedData={data} appliedOperations={appliedOperations} />
+          <ColumnTransformPanel
+            data={previewData}
+            queued={selectedOperations()}
+            locale={loadLocale(data.filename)}
+            onAddStep={addStep}
+          />
+          <DuplicateMatchingPanel data={data} onAddStep={addStep} />
+          <ValueClusteringPanel data={data} onAddStep={addStep} />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,16 +1,19 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { FileText, ChevronLeft, ChevronRight, Info, Search, Filter, BarChart3, Eye, Download, Grid, List, SortAsc, SortDesc } from 'lucide-react';
 import { CSVData } from '../types';
+import { formatCellValue } from '../utils/cellValues';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import { ColumnProfile } from '../utils/columnProfile';
+import { ColumnFilter, PreviewQuery, isQueryActive } from '../utils/previewQuery';
+import { loadLocale } from '../utils/locale';
 
 interface DataPreviewProps {
   data: CSVData;
 }
 
-interface ColumnFilter {
-  column: string;
-  value: string;
-  type: 'contains' | 'equals' | 'greater' | 'less';
-}
+// Delay before re-running the row query while the user is still typing
+const QUERY_DEBOUNCE_MS = 250;
 
 const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
   const [currentPage, setCurrentPage] = useState(0);
@@ -23,104 +26,72 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<ColumnFilter[]>([]);
   const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const [matchingRows, setMatchingRows] = useState<number[] | null>(null);
+  const [isQuerying, setIsQuerying] = useState(false);
+  const [columnStats, setColumnStats] = useState<ColumnProfile[] | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
-  // Advanced filtering and sorting
-  const filteredAndSortedData = useMemo(() => {
-    let processedRows = [...data.rows];
-
-    // Apply search filter
-    if (searchTerm) {
-      processedRows = processedRows.filter(row =>
-        row.some(cell => 
-          String(cell).toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      );
+  // Filtering and sorting run in the analysis worker; without an active query
+  // every row is shown in file order
+  useEffect(() => {
+    const query: PreviewQuery = { searchTerm, filters, sortColumn, sortDirection, locale: loadLocale(data.filename) };
+    if (!isQueryActive(query)) {
+      setMatchingRows(null);
+      setIsQuerying(false);
+      return;
     }
 
-    // Apply column filters
-    filters.forEach(filter => {
-      const colIndex = data.headers.indexOf(filter.column);
-      if (colIndex !== -1) {
-        processedRows = processedRows.filter(row => {
-          const cellValue = String(row[colIndex]).toLowerCase();
-          const filterValue = filter.value.toLowerCase();
-          
-          switch (filter.type) {
-            case 'contains':
-              return cellValue.includes(filterValue);
-            case 'equals':
-              return cellValue === filterValue;
-            case 'greater':
-              return Number(row[colIndex]) > Number(filter.value);
-            case 'less':
-              return Number(row[colIndex]) < Number(filter.value);
-            default:
-              return true;
+    const controller = new AbortController();
+    setIsQuerying(true);
+    setPreviewError(null);
+    const timer = setTimeout(() => {
+      runAnalysisTask('queryRows', data, query, { signal: controller.signal })
+        .then(indices => {
+          setMatchingRows(indices);
+          setIsQuerying(false);
+        })
+        .catch(err => {
+          if (!isTaskCancelled(err)) {
+            setPreviewError(`Filtering failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+            setIsQuerying(false);
           }
         });
-      }
-    });
+    }, QUERY_DEBOUNCE_MS);
 
-    // Apply sorting
-    if (sortColumn) {
-      const colIndex = data.headers.indexOf(sortColumn);
-      processedRows.sort((a, b) => {
-        const aVal = a[colIndex];
-        const bVal = b[colIndex];
-        
-        // Handle different data types
-        if (typeof aVal === 'number' && typeof bVal === 'number') {
-          return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
-        } else {
-          const aStr = String(aVal).toLowerCase();
-          const bStr = String(bVal).toLowerCase();
-          if (sortDirection === 'asc') {
-            return aStr.localeCompare(bStr);
-          } else {
-            return bStr.localeCompare(aStr);
-          }
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [data, searchTerm, filters, sortColumn, sortDirection]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setColumnStats(null);
+    runAnalysisTask('profileColumns', data, {}, { signal: controller.signal })
+      .then(setColumnStats)
+      .catch(err => {
+        if (!isTaskCancelled(err)) {
+          setPreviewError(`Column statistics failed: ${err instanceof Error ? err.message : 'unknown error'}`);
         }
       });
-    }
-
-    return processedRows;
-  }, [data.rows, searchTerm, filters, sortColumn, sortDirection]);
-
-  const totalPages = Math.ceil(filteredAndSortedData.length / rowsPerPage);
-  const currentPageData = filteredAndSortedData.slice(
-    currentPage * rowsPerPage,
-    (currentPage + 1) * rowsPerPage
-  );
+    return () => controller.abort();
+  }, [data]);
 
-  const visibleHeaders = data.headers.filter(header => selectedColumns.has(header));
+  // Rows are decoded from the column store on access, so only look up the ones on screen
+  const filteredRowCount = matchingRows ? matchingRows.length : data.rows.length;
+  const getFilteredRow = (index: number) => data.rows[matchingRows ? matchingRows[index] : index];
 
-  const getColumnStats = (columnIndex: number) => {
-    const values = data.rows.map(row => row[columnIndex]);
-    const nonEmptyValues = values.filter(v => v !== '' && v !== null && v !== undefined);
-    const numericValues = nonEmptyValues.filter(v => typeof v === 'number');
-    const uniqueValues = new Set(nonEmptyValues);
-    
-    let stats: any = {
-      total: values.length,
-      nonEmpty: nonEmptyValues.length,
-      empty: values.length - nonEmptyValues.length,
-      unique: uniqueValues.size,
-      duplicates: nonEmptyValues.length - uniqueValues.size
-    };
-
-    if (numericValues.length > 0) {
-      const sorted = [...numericValues].sort((a, b) => a - b);
-      stats.numeric = {
-        count: numericValues.length,
-        min: sorted[0],
-        max: sorted[sorted.length - 1],
-        mean: numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length,
-        median: sorted[Math.floor(sorted.length / 2)]
-      };
+  const totalPages = Math.ceil(filteredRowCount / rowsPerPage);
+  const currentPageData = useMemo(() => {
+    const pageRows = [];
+    const end = Math.min(filteredRowCount, (currentPage + 1) * rowsPerPage);
+    for (let i = currentPage * rowsPerPage; i < end; i++) {
+      pageRows.push(data.rows[matchingRows ? matchingRows[i] : i]);
     }
+    return pageRows;
+  }, [data.rows, matchingRows, filteredRowCount, currentPage, rowsPerPage]);
 
-    return stats;
-  };
+  const visibleHeaders = data.headers.filter(header => selectedColumns.has(header));
 
   const handleSort = (column: string) => {
     if (sortColumn === column) {
@@ -158,7 +129,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
   const exportFilteredData = () => {
     const csvContent = [
       visibleHeaders.join(','),
-      ...filteredAndSortedData.map(row => 
+      ...Array.from({ length: filteredRowCount }, (_, i) => getFilteredRow(i)).map(row => 
         visibleHeaders.map(header => {
           const colIndex = data.headers.indexOf(header);
           return String(row[colIndex]);
@@ -219,7 +190,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
           </div>
           <div className="bg-gradient-to-r from-amber-50 to-amber-100 p-4 rounded-lg">
             <h3 className="font-medium text-amber-900 mb-1">Filtered Rows</h3>
-            <p className="text-2xl font-bold text-amber-700">{filteredAndSortedData.length.toLocaleString()}</p>
+            <p className="text-2xl font-bold text-amber-700">{filteredRowCount.toLocaleString()}</p>
           </div>
           <div className="bg-gradient-to-r from-gray-50 to-gray-100 p-4 rounded-lg">
             <h3 className="font-medium text-gray-900 mb-1">Data Size</h3>
@@ -342,7 +313,16 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {visibleHeaders.map((header, index) => {
             const colIndex = data.headers.indexOf(header);
-            const stats = getColumnStats(colIndex);
+            const stats = columnStats?.[colIndex];
+            if (!stats) {
+              return (
+                <div key={header} className="bg-white border rounded-lg p-4 animate-pulse">
+                  <h4 className="font-medium text-gray-900 truncate mb-3">{header}</h4>
+                  <div className="h-3 bg-gray-100 rounded mb-2"></div>
+                  <div className="h-3 bg-gray-100 rounded w-2/3"></div>
+                </div>
+              );
+            }
             return (
               <div key={header} className="bg-white border rounded-lg p-4 hover:shadow-md transition-shadow">
                 <div className="flex items-center justify-between mb-3">
@@ -411,7 +391,9 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
             <div className="flex items-center gap-2">
               <Info className="w-4 h-4 text-gray-500" />
               <span className="text-sm text-gray-600">
-                Showing {Math.min(rowsPerPage, filteredAndSortedData.length - currentPage * rowsPerPage)} of {filteredAndSortedData.length} rows
+                {isQuerying && <span className="text-kipi-secondary mr-2">Updating…</span>}
+                {previewError && <span className="text-red-600 mr-2">{previewError}</span>}
+                Showing {Math.min(rowsPerPage, filteredRowCount - currentPage * rowsPerPage)} of {filteredRowCount} rows
                 {searchTerm || filters.length > 0 ? ` (filtered from ${data.rows.length} total)` : ''}
               </span>
             </div>
@@ -465,7 +447,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
                               <span className="text-gray-400 italic">empty</span>
                             ) : (
                               <span className={typeof cell === 'number' ? 'font-mono' : ''}>
-                                {String(cell).length > 50 ? String(cell).substring(0, 50) + '...' : String(cell)}
+                                {formatCellValue(cell).length > 50 ? formatCellValue(cell).substring(0, 50) + '...' : formatCellValue(cell)}
                               </span>
                             )}
                           </td>
@@ -511,7 +493,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
                             {cell === '' || cell === null || cell === undefined ? (
                               <span className="text-gray-400 italic">empty</span>
                             ) : (
-                              String(cell).length > 20 ? String(cell).substring(0, 20) + '...' : String(cell)
+                              formatCellValue(cell).length > 20 ? formatCellValue(cell).substring(0, 20) + '...' : formatCellValue(cell)
                             )}
                           </span>
                         </div>
@@ -544,7 +526,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {data.headers.map((header, index) => {
-                  const cell = filteredAndSortedData[selectedRow - currentPage * rowsPerPage]?.[index];
+                  const cell = getFilteredRow(selectedRow)?.[index];
                   return (
                     <div key={header} className="border rounded-lg p-3">
                       <div className="text-sm font-medium text-gray-700 mb-1">{header}</div>
@@ -552,7 +534,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
                         {cell === '' || cell === null || cell === undefined ? (
                           <span className="text-gray-400 italic">empty</span>
                         ) : (
-                          <span className={typeof cell === 'number' ? 'font-mono' : ''}>{String(cell)}</span>
+                          <span className={typeof cell === 'number' ? 'font-mono' : ''}>{formatCellValue(cell)}</span>
                         )}
                       </div>
                     </div>
@@ -569,7 +551,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data }) => {
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-700">
                 Page {currentPage + 1} of {totalPages} 
-                ({filteredAndSortedData.length} total rows)
+                ({filteredRowCount} total rows)
               </span>
               <div className="flex items-center gap-2">
                 <button
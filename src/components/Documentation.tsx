@@ -318,7 +318,7 @@ Our sophisticated prompt engineering ensures:
 ## ⚙️ DATA PROCESSING PIPELINE
 
 ### Stage 1: File Upload & Validation
-1. **File Type Validation**: CSV format verification
+1. **File Type Validation**: CSV, Excel (.xlsx), JSON, NDJSON and Parquet detection
 2. **Size Limits**: Configurable limits for performance
 3. **Encoding Detection**: UTF-8, ASCII, and other encoding support
 4. **Structure Validation**: Header detection and row consistency
@@ -0,0 +1,393 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Search, Trash2, Users, XCircle, Merge } from 'lucide-react';
+import { CSVData, CleaningSuggestion, DuplicateResolution } from '../types';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import { formatCellValue } from '../utils/cellValues';
+import {
+  DEFAULT_MATCH_SETTINGS,
+  DuplicateCluster,
+  MATCH_NORMALIZATIONS,
+  MatchNormalization,
+  RecordMatchSettings,
+  SIMILARITY_METRICS,
+  SimilarityMetric,
+  loadMatchSettings,
+  saveMatchSettings
+} from '../utils/recordMatching';
+
+interface DuplicateMatchingPanelProps {
+  data: CSVData;
+  onAddStep: (suggestion: CleaningSuggestion) => void;
+}
+
+// What to do with one cluster: fill the kept row from the others and drop them,
+// keep only the chosen row, or leave every record (not duplicates after all)
+type ClusterAction = 'merge' | 'keep_one' | 'keep_all';
+
+interface ClusterDecision {
+  keep: number;
+  action: ClusterAction;
+}
+
+const CLUSTERS_PER_PAGE = 20;
+
+// Non-key columns shown next to the key columns in each cluster
+const CONTEXT_COLUMNS = 3;
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const DuplicateMatchingPanel: React.FC<DuplicateMatchingPanelProps> = ({ data, onAddStep }) => {
+  const [settings, setSettings] = useState<RecordMatchSettings>(() => loadMatchSettings(data.filename) || DEFAULT_MATCH_SETTINGS);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [decisions, setDecisions] = useState<ClusterDecision[]>([]);
+  const [visibleCount, setVisibleCount] = useState(CLUSTERS_PER_PAGE);
+  const [isMatching, setIsMatching] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setSettings(loadMatchSettings(data.filename) || DEFAULT_MATCH_SETTINGS);
+    setClusters(null);
+    return () => abortRef.current?.abort();
+  }, [data]);
+
+  const keyColumns = settings.fields.map(field => field.column);
+  const contextColumns = data.headers.filter(header => !keyColumns.includes(header)).slice(0, CONTEXT_COLUMNS);
+  const shownColumns = [...keyColumns, ...contextColumns];
+
+  const updateSettings = (patch: Partial<RecordMatchSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const updateField = (index: number, patch: Partial<RecordMatchSettings['fields'][number]>) => {
+    updateSettings({ fields: settings.fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) });
+  };
+
+  const addField = () => {
+    const column = data.headers.find(header => !keyColumns.includes(header));
+    if (column) updateSettings({ fields: [...settings.fields, { column, metric: 'jaro_winkler', weight: 1 }] });
+  };
+
+  const findDuplicates = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    saveMatchSettings(data.filename, settings);
+    setIsMatching(true);
+    setError(null);
+    setProgress(0);
+
+    try {
+      const result = await runAnalysisTask('findDuplicateClusters', data, { settings }, {
+        signal: controller.signal,
+        onProgress: fraction => setProgress(fraction)
+      });
+      if (abortRef.current !== controller) return;
+      setClusters(result);
+      setDecisions(result.map(cluster => ({ keep: cluster.keep, action: 'merge' })));
+      setVisibleCount(CLUSTERS_PER_PAGE);
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      if (!isTaskCancelled(err)) setError(err instanceof Error ? err.message : 'Matching failed');
+    } finally {
+      if (abortRef.current === controller) setIsMatching(false);
+    }
+  };
+
+  const cancelMatching = () => {
+    abortRef.current?.abort();
+    setIsMatching(false);
+  };
+
+  const decide = (index: number, patch: Partial<ClusterDecision>) => {
+    setDecisions(prev => prev.map((decision, i) => (i === index ? { ...decision, ...patch } : decision)));
+  };
+
+  const addStep = () => {
+    if (!clusters) return;
+    const resolutions: DuplicateResolution[] = [];
+    clusters.forEach((cluster, index) => {
+      const { keep, action } = decisions[index];
+      if (action === 'keep_all') return;
+      resolutions.push({ keep, remove: cluster.rows.filter(row => row !== keep), merge: action === 'merge' });
+    });
+    if (resolutions.length === 0) return;
+
+    const removedCount = resolutions.reduce((sum, resolution) => sum + resolution.remove.length, 0);
+    onAddStep({
+      id: 'merge_duplicates',
+      title: 'Resolve Likely Duplicates',
+      description: `${resolutions.length} clusters of similar records matched on ${keyColumns.join(', ')}. One record of each cluster is kept; the others are removed.`,
+      issues: removedCount,
+      operation: {
+        type: 'merge_duplicates',
+        clusters: resolutions,
+        description: `Resolve ${resolutions.length} duplicate clusters (${removedCount} rows removed)`
+      },
+      affectedRows: resolutions.flatMap(resolution => [resolution.keep, ...resolution.remove]),
+      affectedColumns: keyColumns,
+      previewData: {
+        before: resolutions.slice(0, 10).map(resolution => ({
+          keep: resolution.keep + 1,
+          remove: resolution.remove.map(row => row + 1),
+          merge: resolution.merge
+        })),
+        after: []
+      }
+    });
+  };
+
+  const cell = (row: number, column: string) => {
+    const value = data.rows[row][data.headers.indexOf(column)];
+    return value === '' || value === null || value === undefined ? '' : formatCellValue(value);
+  };
+
+  const resolvedCount = decisions.filter(decision => decision.action !== 'keep_all').length;
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Users className="w-5 h-5 text-kipi-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Fuzzy Duplicates</h3>
+          <p className="text-sm text-gray-600">
+            Find records that are nearly the same, such as "Jon Smith" and "John  Smith". The settings are saved with the
+            dataset, and Quality Analysis reports the matches under Duplicates.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="font-medium text-gray-900">Key columns</h4>
+        {settings.fields.length === 0 && (
+          <p className="text-sm text-gray-500">Add the columns that identify a record, such as name or email.</p>
+        )}
+        {settings.fields.map((field, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-3">
+            <select
+              value={field.column}
+              onChange={(e) => updateField(index, { column: e.target.value })}
+              className={selectClass}
+            >
+              {data.headers.map(header => (
+                <option key={header} value={header} disabled={header !== field.column && keyColumns.includes(header)}>{header}</option>
+              ))}
+            </select>
+            <select
+              value={field.metric}
+              onChange={(e) => updateField(index, { metric: e.target.value as SimilarityMetric })}
+              className={selectClass}
+            >
+              {SIMILARITY_METRICS.map(metric => (
+                <option key={metric.value} value={metric.value}>{metric.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Weight
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={field.weight}
+                onChange={(e) => updateField(index, { weight: Math.max(0, Number(e.target.value)) })}
+                className={`${selectClass} w-20`}
+              />
+            </label>
+            <button
+              onClick={() => updateSettings({ fields: settings.fields.filter((_, i) => i !== index) })}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove key column"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addField}
+          disabled={settings.fields.length >= data.headers.length}
+          className="inline-flex items-center gap-2 px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Key Column
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Normalization</span>
+          <select
+            value={settings.normalization}
+            onChange={(e) => updateSettings({ normalization: e.target.value as MatchNormalization })}
+            className={`${selectClass} w-full`}
+          >
+            {MATCH_NORMALIZATIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Match threshold: {Math.round(settings.threshold * 100)}% similar</span>
+          <input
+            type="range"
+            min={50}
+            max={100}
+            value={Math.round(settings.threshold * 100)}
+            onChange={(e) => updateSettings({ threshold: Number(e.target.value) / 100 })}
+            className="w-full"
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Only compare records that share</span>
+          <select
+            value={settings.blockingColumn ?? ''}
+            onChange={(e) => updateSettings({ blockingColumn: e.target.value || null })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">The start of any key column</option>
+            {data.headers.map(header => (
+              <option key={header} value={header}>The start of {header}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Characters that must match</span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={settings.blockingPrefix}
+            onChange={(e) => updateSettings({ blockingPrefix: Math.min(10, Math.max(1, Number(e.target.value))) })}
+            className={`${selectClass} w-full`}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={findDuplicates}
+          disabled={settings.fields.length === 0 || isMatching}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          {isMatching ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              Matching... {Math.round(progress * 100)}%
+            </>
+          ) : (
+            <>
+              <Search className="w-4 h-4" />
+              Find Duplicates
+            </>
+          )}
+        </button>
+        {isMatching && (
+          <button
+            onClick={cancelMatching}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{error}</div>
+      )}
+
+      {clusters && clusters.length === 0 && (
+        <div className="text-sm text-green-700 bg-green-50 border border-green-200 rounded p-3">
+          No likely duplicates at this threshold.
+        </div>
+      )}
+
+      {clusters && clusters.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {clusters.length} clusters with {clusters.reduce((sum, cluster) => sum + cluster.rows.length, 0)} records.
+              Choose the record to keep in each.
+            </p>
+            <button
+              onClick={addStep}
+              disabled={resolvedCount === 0}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+            >
+              <Merge className="w-4 h-4" />
+              Add to Cleaning Operations
+            </button>
+          </div>
+
+          {clusters.slice(0, visibleCount).map((cluster, index) => {
+            const decision = decisions[index];
+            return (
+              <div key={cluster.rows[0]} className="border rounded-lg overflow-x-auto">
+                <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b">
+                  <span className="text-sm font-medium text-gray-900">
+                    Cluster #{index + 1} · {Math.round(cluster.score * 100)}% similar
+                  </span>
+                  <select
+                    value={decision.action}
+                    onChange={(e) => decide(index, { action: e.target.value as ClusterAction })}
+                    className={selectClass}
+                  >
+                    <option value="merge">Merge into kept record</option>
+                    <option value="keep_one">Keep only the chosen record</option>
+                    <option value="keep_all">Keep all (not duplicates)</option>
+                  </select>
+                </div>
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs font-medium text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2">Keep</th>
+                      <th className="px-4 py-2">Row</th>
+                      {shownColumns.map(column => (
+                        <th key={column} className={`px-4 py-2 ${keyColumns.includes(column) ? 'text-gray-900' : ''}`}>{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {cluster.rows.map(row => {
+                      const kept = decision.action === 'keep_all' || row === decision.keep;
+                      return (
+                        <tr key={row} className={kept ? '' : 'bg-red-50 text-gray-500'}>
+                          <td className="px-4 py-2">
+                            <input
+                              type="radio"
+                              name={`cluster-${cluster.rows[0]}`}
+                              checked={row === decision.keep}
+                              disabled={decision.action === 'keep_all'}
+                              onChange={() => decide(index, { keep: row })}
+                              className="text-kipi-primary focus:ring-kipi-primary"
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">#{row + 1}</td>
+                          {shownColumns.map(column => (
+                            <td key={column} className="px-4 py-2">
+                              {cell(row, column) || <span className="text-gray-400 italic">empty</span>}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+
+          {clusters.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + CLUSTERS_PER_PAGE)}
+              className="w-full py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Show {Math.min(CLUSTERS_PER_PAGE, clusters.length - visibleCount)} more of {clusters.length - visibleCount} remaining clusters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateMatchingPanel;
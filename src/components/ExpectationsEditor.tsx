@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Play } from 'lucide-react';
+import { DetailedIssue } from '../types';
+import {
+  COMPARISON_OPERATORS,
+  ComparisonOperator,
+  EXPECTATION_KINDS,
+  Expectation,
+  ExpectationKind,
+  describeExpectation
+} from '../utils/expectations';
+import { compilePattern } from '../utils/qualityRules';
+
+interface ExpectationsEditorProps {
+  headers: string[];
+  expectations: Expectation[];
+  onSave: (expectations: Expectation[]) => void;
+}
+
+const SEVERITIES: DetailedIssue['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const ExpectationsEditor: React.FC<ExpectationsEditorProps> = ({ headers, expectations, onSave }) => {
+  const [draft, setDraft] = useState<Expectation[]>(expectations);
+  const [kind, setKind] = useState<ExpectationKind>('range');
+  const [column, setColumn] = useState(headers[0] ?? '');
+  const [severity, setSeverity] = useState<DetailedIssue['severity']>('high');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [values, setValues] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [operator, setOperator] = useState<ComparisonOperator>('>=');
+  const [otherColumn, setOtherColumn] = useState(headers[1] ?? headers[0] ?? '');
+
+  // Builds the expectation described by the form, or null while it is incomplete
+  const buildExpectation = (): Expectation | null => {
+    const base = { id: Date.now().toString(36), column, severity };
+    switch (kind) {
+      case 'range': {
+        const minValue = min.trim() === '' ? undefined : Number(min);
+        const maxValue = max.trim() === '' ? undefined : Number(max);
+        if (minValue === undefined && maxValue === undefined) return null;
+        if ((minValue !== undefined && isNaN(minValue)) || (maxValue !== undefined && isNaN(maxValue))) return null;
+        return { ...base, kind, min: minValue, max: maxValue };
+      }
+      case 'in_set': {
+        const allowed = values.split(',').map(value => value.trim()).filter(value => value !== '');
+        return allowed.length > 0 ? { ...base, kind, values: allowed } : null;
+      }
+      case 'matches':
+        return pattern !== '' && compilePattern(pattern) !== null ? { ...base, kind, pattern } : null;
+      case 'compare':
+        return otherColumn !== '' && otherColumn !== column ? { ...base, kind, operator, otherColumn } : null;
+    }
+  };
+
+  const selectColumn = (header: string) => {
+    setColumn(header);
+    if (otherColumn === header) setOtherColumn(headers.find(h => h !== header) ?? '');
+  };
+
+  const newExpectation = column ? buildExpectation() : null;
+
+  const addExpectation = () => {
+    if (!newExpectation) return;
+    setDraft(prev => [...prev, newExpectation]);
+    setMin('');
+    setMax('');
+    setValues('');
+    setPattern('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Expectations are checked on every analysis of <strong>this dataset</strong>. Violations appear in the issue list
+        and count towards the Value Range, Invalid Format and Inconsistent Values scores.
+      </p>
+
+      {/* New expectation form */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={column} onChange={(e) => selectColumn(e.target.value)} className={inputClass}>
+            {headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+          <select value={kind} onChange={(e) => setKind(e.target.value as ExpectationKind)} className={inputClass}>
+            {EXPECTATION_KINDS.map(option => (
+              <option key={option.kind} value={option.kind}>{option.label}</option>
+            ))}
+          </select>
+
+          {kind === 'range' && (
+            <>
+              <input type="number" value={min} onChange={(e) => setMin(e.target.value)} placeholder="Min" className={`${inputClass} w-28`} />
+              <input type="number" value={max} onChange={(e) => setMax(e.target.value)} placeholder="Max" className={`${inputClass} w-28`} />
+            </>
+          )}
+          {kind === 'in_set' && (
+            <input
+              type="text"
+              value={values}
+              onChange={(e) => setValues(e.target.value)}
+              placeholder="open, closed, pending"
+              className={`${inputClass} flex-1 min-w-48`}
+            />
+          )}
+          {kind === 'matches' && (
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="^C\d{6}$"
+              className={`${inputClass} flex-1 min-w-48 font-mono ${pattern && !compilePattern(pattern) ? 'border-red-300 bg-red-50' : ''}`}
+            />
+          )}
+          {kind === 'compare' && (
+            <>
+              <select value={operator} onChange={(e) => setOperator(e.target.value as ComparisonOperator)} className={inputClass}>
+                {COMPARISON_OPERATORS.map(op => (
+                  <option key={op} value={op}>{op}</option>
+                ))}
+              </select>
+              <select value={otherColumn} onChange={(e) => setOtherColumn(e.target.value)} className={inputClass}>
+                {headers.filter(header => header !== column).map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </>
+          )}
+
+          <select value={severity} onChange={(e) => setSeverity(e.target.value as DetailedIssue['severity'])} className={inputClass}>
+            {SEVERITIES.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <button
+            onClick={addExpectation}
+            disabled={!newExpectation}
+            className="inline-flex items-center gap-1 px-3 py-2 bg-kipi-secondary text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        {newExpectation && (
+          <p className="mt-2 text-xs text-gray-500">
+            Will check: <span className="font-mono">{describeExpectation(newExpectation)}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Saved expectations */}
+      {draft.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 text-sm">No expectations defined for this dataset yet</div>
+      ) : (
+        <div className="space-y-2">
+          {draft.map(expectation => (
+            <div key={expectation.id} className="bg-white border rounded-lg px-4 py-3 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm text-gray-900">{describeExpectation(expectation)}</span>
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">{expectation.severity}</span>
+              </div>
+              <button
+                onClick={() => setDraft(prev => prev.filter(item => item.id !== expectation.id))}
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSave(draft)}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+        >
+          <Play className="w-4 h-4" />
+          Save and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExpectationsEditor;
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Download, FileText, CheckCircle, BarChart3 } from 'lucide-react';
 import { CSVData } from '../types';
+import { formatCellValue } from '../utils/cellValues';
+import { getColumnStore, getRawCell } from '../utils/columnStore';
+import { DEFAULT_DIALECT, encodeCSVText, writeCSV } from '../utils/csvWriter';
 
 interface ExportDataProps {
   data: CSVData;
@@ -10,19 +13,19 @@ interface ExportDataProps {
 const ExportData: React.FC<ExportDataProps> = ({ data, originalData }) => {
   const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
   const [isExporting, setIsExporting] = useState(false);
+  const [preserveRawText, setPreserveRawText] = useState(false);
+
+  // Keeping the original text also keeps the file's delimiter, quote, line
+  // endings and encoding, so an untouched file is written back as it was read
+  const csvDialect = preserveRawText && data.dialect ? data.dialect : DEFAULT_DIALECT;
 
   const convertToCSV = (csvData: CSVData): string => {
-    const headers = csvData.headers.join(',');
-    const rows = csvData.rows.map(row => 
-      row.map(cell => {
-        const stringCell = String(cell);
-        // Escape quotes and wrap in quotes if contains comma
-        return stringCell.includes(',') || stringCell.includes('"') 
-          ? `"${stringCell.replace(/"/g, '""')}"`
-          : stringCell;
-      }).join(',')
+    const store = getColumnStore(csvData);
+    const rows = csvData.rows.map((row, rowIndex) =>
+      // Cells no cleaning step changed can be written exactly as they were read
+      row.map((cell, colIndex) => (preserveRawText ? getRawCell(store.columns[colIndex], rowIndex) : formatCellValue(cell)))
     );
-    return [headers, ...rows].join('\n');
+    return writeCSV([csvData.headers, ...rows], csvDialect);
   };
 
   const convertToJSON = (csvData: CSVData): string => {
@@ -42,7 +45,7 @@ const ExportData: React.FC<ExportDataProps> = ({ data, originalData }) => {
     // Simulate export delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const content = exportFormat === 'csv' ? convertToCSV(data) : convertToJSON(data);
+    const content = exportFormat === 'csv' ? encodeCSVText(convertToCSV(data), csvDialect) : convertToJSON(data);
     const mimeType = exportFormat === 'csv' ? 'text/csv' : 'application/json';
     const extension = exportFormat === 'csv' ? '.csv' : '.json';
     
@@ -50,7 +53,7 @@ const ExportData: React.FC<ExportDataProps> = ({ data, originalData }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${data.filename.replace('.csv', '')}${extension}`;
+    a.download = `${data.filename.replace(/\.[^.]+$/, '')}${extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -126,6 +129,24 @@ const ExportData: React.FC<ExportDataProps> = ({ data, originalData }) => {
                   </button>
                 </div>
               </div>
+
+              {exportFormat === 'csv' && (
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preserveRawText}
+                    onChange={(e) => setPreserveRawText(e.target.checked)}
+                    className="mt-0.5 rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+                  />
+                  <span>
+                    Keep original text and file format
+                    <span className="block text-xs text-gray-500">
+                      Writes unchanged cells exactly as they arrived (leading zeros, exponents, padding) instead of their parsed values,
+                      {data.dialect ? ' with the delimiter, line endings and encoding of the uploaded file' : ' as comma-separated UTF-8'}
+                    </span>
+                  </span>
+                </label>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -223,7 +244,7 @@ const ExportData: React.FC<ExportDataProps> = ({ data, originalData }) => {
                           {cell === '' || cell === null || cell === undefined ? (
                             <span className="text-gray-400 italic">empty</span>
                           ) : (
-                            String(cell)
+                            formatCellValue(cell)
                           )}
                         </td>
                       ))}
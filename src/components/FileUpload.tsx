@@ -1,6 +1,35 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle, Download } from 'lucide-react';
+import type { WorkBook } from 'xlsx';
+import { Upload, FileText, AlertCircle, AlertTriangle, Download } from 'lucide-react';
 import { CSVData } from '../types';
+import { CSVParseOptions, MAX_REPORTED_ERRORS, parseCSVFile } from '../utils/csvParser';
+import { CSVSniffResult, sniffCSV } from '../utils/csvSniffer';
+import { WorkbookSheetInfo, listSheets, readWorkbook, sheetToCSVData } from '../utils/xlsxImport';
+import { ArrayHandling, hasNestedArrays, parseJSONRecords, parseNDJSONRecords, recordsToCSVData } from '../utils/recordImport';
+import { readParquetRecords } from '../utils/parquetImport';
+import CSVImportSettings from './CSVImportSettings';
+import RecordImportSettings from './RecordImportSettings';
+import WorkbookSheetPicker from './WorkbookSheetPicker';
+
+type FileFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'parquet';
+
+const formatLabels: { [format in FileFormat]: string } = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  parquet: 'Parquet'
+};
+
+const detectFileFormat = (filename: string): FileFormat | null => {
+  const name = filename.toLowerCase();
+  if (/\.(csv|tsv|txt)$/.test(name)) return 'csv';
+  if (name.endsWith('.xlsx')) return 'xlsx';
+  if (/\.(ndjson|jsonl)$/.test(name)) return 'ndjson';
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.parquet')) return 'parquet';
+  return null;
+};
 
 interface FileUploadProps {
   onDataUpload: (data: CSVData) => void;
@@ -10,47 +39,98 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataUpload }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const parseCSV = useCallback((csvText: string, filename: string): CSVData => {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(',').map(value => {
-        const trimmed = value.trim().replace(/"/g, '');
-        // Try to parse as number
-        const num = Number(trimmed);
-        return !isNaN(num) && trimmed !== '' ? num : trimmed;
-      });
-      return values;
-    });
-
-    return {
-      headers,
-      rows,
-      filename
-    };
-  }, []);
+  const [pendingData, setPendingData] = useState<CSVData | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ file: File; sniffResult: CSVSniffResult } | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ file: File; workbook: WorkBook; sheets: WorkbookSheetInfo[] } | null>(null);
+  const [pendingRecords, setPendingRecords] = useState<{ file: File; format: string; records: unknown[] } | null>(null);
 
   const handleFile = useCallback(async (file: File) => {
-    if (!file.name.endsWith('.csv')) {
-      setError('Please upload a CSV file');
+    const format = detectFileFormat(file.name);
+    if (!format) {
+      setError('Please upload a CSV, Excel (.xlsx), JSON, NDJSON or Parquet file');
       return;
     }
 
+    setIsProcessing(true);
+    setError(null);
+    setPendingData(null);
+    setPendingImport(null);
+    setPendingWorkbook(null);
+    setPendingRecords(null);
+
+    try {
+      if (format === 'csv') {
+        // Guess the dialect first and let the user confirm it before parsing
+        const sniffResult = await sniffCSV(file);
+        setPendingImport({ file, sniffResult });
+      } else if (format === 'xlsx') {
+        const workbook = await readWorkbook(file);
+        setPendingWorkbook({ file, workbook, sheets: await listSheets(workbook) });
+      } else {
+        const records = format === 'parquet' ? await readParquetRecords(file)
+          : format === 'ndjson' ? parseNDJSONRecords(await file.text())
+          : parseJSONRecords(await file.text());
+        if (records.length === 0) {
+          throw new Error('file contains no records');
+        }
+        if (hasNestedArrays(records)) {
+          // Arrays need a decision from the user: one cell or one row per element
+          setPendingRecords({ file, format: formatLabels[format], records });
+        } else {
+          onDataUpload(recordsToCSVData(records, file.name, 'stringify'));
+        }
+      }
+    } catch (err) {
+      setError(`Error reading file: ${err instanceof Error ? err.message : 'please check the format.'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [onDataUpload]);
+
+  const handleImportConfirm = useCallback(async (options: Required<CSVParseOptions>) => {
+    if (!pendingImport) return;
+
     setIsProcessing(true);
     setError(null);
 
     try {
-      const text = await file.text();
-      const data = parseCSV(text, file.name);
+      const data = await parseCSVFile(pendingImport.file, options);
+      setPendingImport(null);
+      if (data.parseErrors && data.parseErrors.length > 0) {
+        // Let the user see what was malformed before the data moves on
+        setPendingData(data);
+      } else {
+        onDataUpload(data);
+      }
+    } catch (err) {
+      setError(`Error parsing CSV file: ${err instanceof Error ? err.message : 'please check the format.'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [pendingImport, onDataUpload]);
+
+  const handleRecordsConfirm = useCallback((arrays: ArrayHandling) => {
+    if (!pendingRecords) return;
+    onDataUpload(recordsToCSVData(pendingRecords.records, pendingRecords.file.name, arrays));
+    setPendingRecords(null);
+  }, [pendingRecords, onDataUpload]);
+
+  const handleSheetConfirm = useCallback(async (sheetName: string, range?: string) => {
+    if (!pendingWorkbook) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const data = await sheetToCSVData(pendingWorkbook.workbook, sheetName, pendingWorkbook.file.name, range);
+      setPendingWorkbook(null);
       onDataUpload(data);
     } catch (err) {
-      setError('Error parsing CSV file. Please check the format.');
+      setError(`Error reading sheet: ${err instanceof Error ? err.message : 'please check the workbook.'}`);
     } finally {
       setIsProcessing(false);
     }
-  }, [parseCSV, onDataUpload]);
+  }, [pendingWorkbook, onDataUpload]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -82,9 +162,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataUpload }) => {
   return (
     <div className="p-8">
       <div className="text-center mb-8">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Upload Your CSV Data</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Upload Your Data</h2>
         <p className="text-gray-600">
-          Drag and drop your CSV file or click to browse. We'll analyze its quality and provide insights.
+          Drag and drop a CSV, Excel, JSON, NDJSON or Parquet file, or click to browse. We'll analyze its quality and provide insights.
         </p>
       </div>
 
@@ -105,7 +185,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataUpload }) => {
           
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              {isProcessing ? 'Processing...' : 'Upload CSV File'}
+              {isProcessing ? 'Processing...' : 'Upload Data File'}
             </h3>
             <p className="text-gray-500 mb-4">
               Drag and drop your file here, or click to browse
@@ -113,7 +193,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataUpload }) => {
             
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl,.parquet"
               onChange={handleFileInput}
               disabled={isProcessing}
               className="hidden"
@@ -143,6 +223,89 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataUpload }) => {
         </div>
       )}
 
+      {pendingImport && (
+        <CSVImportSettings
+          key={pendingImport.file.name}
+          filename={pendingImport.file.name}
+          sniffResult={pendingImport.sniffResult}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingWorkbook && (
+        <WorkbookSheetPicker
+          filename={pendingWorkbook.file.name}
+          sheets={pendingWorkbook.sheets}
+          onConfirm={handleSheetConfirm}
+          onCancel={() => setPendingWorkbook(null)}
+        />
+      )}
+
+      {pendingRecords && (
+        <RecordImportSettings
+          filename={pendingRecords.file.name}
+          format={pendingRecords.format}
+          records={pendingRecords.records}
+          onConfirm={handleRecordsConfirm}
+          onCancel={() => setPendingRecords(null)}
+        />
+      )}
+
+      {pendingData && pendingData.parseErrors && (
+        <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-md">
+          <div className="flex items-center gap-2 mb-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <span className="font-medium text-amber-800">
+              {pendingData.parseErrors.length >= MAX_REPORTED_ERRORS ? `${MAX_REPORTED_ERRORS}+` : pendingData.parseErrors.length} malformed
+              {pendingData.parseErrors.length === 1 ? ' record' : ' records'} found in {pendingData.filename}
+            </span>
+          </div>
+          <div className="max-h-64 overflow-y-auto bg-white border border-amber-100 rounded">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-amber-100 text-amber-900">
+                  <th className="px-3 py-2 text-left font-medium">Row</th>
+                  <th className="px-3 py-2 text-left font-medium">Column</th>
+                  <th className="px-3 py-2 text-left font-medium">Line</th>
+                  <th className="px-3 py-2 text-left font-medium">Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pendingData.parseErrors.slice(0, 100).map((parseError, index) => (
+                  <tr key={index} className="border-t border-amber-100">
+                    <td className="px-3 py-2 text-gray-700">{parseError.row}</td>
+                    <td className="px-3 py-2 text-gray-700">{parseError.column}</td>
+                    <td className="px-3 py-2 text-gray-700">{parseError.line}</td>
+                    <td className="px-3 py-2 text-gray-700">{parseError.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {pendingData.parseErrors.length > 100 && (
+            <p className="mt-2 text-xs text-amber-700">Showing the first 100 problems</p>
+          )}
+          <div className="mt-4 flex items-center gap-3">
+            <button
+              onClick={() => {
+                onDataUpload(pendingData);
+                setPendingData(null);
+              }}
+              className="px-4 py-2 rounded-md font-medium bg-kipi-primary text-white hover:bg-green-600"
+            >
+              Continue with {pendingData.rows.length.toLocaleString()} rows
+            </button>
+            <button
+              onClick={() => setPendingData(null)}
+              className="px-4 py-2 rounded-md font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="text-center p-4 bg-green-50 rounded-lg">
           <Upload className="w-8 h-8 text-kipi-primary mx-auto mb-2" />
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { Play, RotateCcw } from 'lucide-react';
+import {
+  DATE_ORDERS,
+  DATE_ORDER_LABELS,
+  DEFAULT_LOCALE,
+  DatasetLocale,
+  DateOrder,
+  LOCALE_PRESETS,
+  LocaleSettings,
+  columnLocale
+} from '../utils/locale';
+
+interface LocalePanelProps {
+  headers: string[];
+  locale: DatasetLocale | null;
+  onApply: (locale: DatasetLocale | null) => void;
+}
+
+const DECIMAL_SEPARATORS: { value: string; label: string }[] = [
+  { value: '.', label: 'Point (.)' },
+  { value: ',', label: 'Comma (,)' }
+];
+
+const THOUSANDS_SEPARATORS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: '.', label: 'Point (.)' },
+  { value: ' ', label: 'Space' },
+  { value: "'", label: "Apostrophe (')" },
+  { value: '', label: 'None' }
+];
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const parseSymbols = (text: string) => text.split(',').map(symbol => symbol.trim()).filter(Boolean);
+
+const sameSettings = (a: LocaleSettings, b: LocaleSettings) =>
+  a.decimalSeparator === b.decimalSeparator &&
+  a.thousandsSeparator === b.thousandsSeparator &&
+  a.dateOrder === b.dateOrder &&
+  a.currencySymbols.join(',') === b.currencySymbols.join(',');
+
+const LocalePanel: React.FC<LocalePanelProps> = ({ headers, locale, onApply }) => {
+  const [draft, setDraft] = useState<DatasetLocale>(locale || { defaults: DEFAULT_LOCALE, columns: {} });
+
+  const presetId = LOCALE_PRESETS.find(preset => sameSettings(preset.settings, draft.defaults))?.id || '';
+
+  const updateDefaults = (patch: Partial<LocaleSettings>) => {
+    setDraft(prev => ({ ...prev, defaults: { ...prev.defaults, ...patch } }));
+  };
+
+  // An empty value removes the column's exception for that setting
+  const updateColumn = (column: string, key: keyof LocaleSettings, value: string) => {
+    setDraft(prev => {
+      const next = { ...prev.columns[column] };
+      if (value === '') {
+        delete next[key];
+      } else if (key === 'currencySymbols') {
+        next.currencySymbols = parseSymbols(value);
+      } else if (key === 'dateOrder') {
+        next.dateOrder = value as DateOrder;
+      } else if (key === 'thousandsSeparator') {
+        next.thousandsSeparator = value === 'none' ? '' : value;
+      } else {
+        next.decimalSeparator = value;
+      }
+      const columns = { ...prev.columns, [column]: next };
+      if (Object.keys(next).length === 0) delete columns[column];
+      return { ...prev, columns };
+    });
+  };
+
+  const conflicts = headers.filter(header => {
+    const settings = columnLocale(draft, header);
+    return settings.decimalSeparator === settings.thousandsSeparator;
+  });
+
+  const handleApply = () => {
+    const isDefault = sameSettings(draft.defaults, DEFAULT_LOCALE) && Object.keys(draft.columns).length === 0;
+    onApply(isDefault ? null : draft);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Tell the analysis how numbers and dates are written in this file. Type inference, range checks, outlier detection
+        and sorting in the data preview read values with these settings.
+      </p>
+
+      <div className="bg-white border rounded-lg p-4 space-y-4">
+        <h4 className="font-medium text-gray-900">Dataset format</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Preset</span>
+            <select
+              value={presetId}
+              onChange={(e) => {
+                const preset = LOCALE_PRESETS.find(item => item.id === e.target.value);
+                if (preset) updateDefaults(preset.settings);
+              }}
+              className={`${selectClass} w-full`}
+            >
+              <option value="">Custom</option>
+              {LOCALE_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Date order</span>
+            <select
+              value={draft.defaults.dateOrder}
+              onChange={(e) => updateDefaults({ dateOrder: e.target.value as DateOrder })}
+              className={`${selectClass} w-full`}
+            >
+              {DATE_ORDERS.map(order => (
+                <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Decimal separator</span>
+            <select
+              value={draft.defaults.decimalSeparator}
+              onChange={(e) => updateDefaults({ decimalSeparator: e.target.value })}
+              className={`${selectClass} w-full`}
+            >
+              {DECIMAL_SEPARATORS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">Thousands separator</span>
+            <select
+              value={draft.defaults.thousandsSeparator}
+              onChange={(e) => updateDefaults({ thousandsSeparator: e.target.value })}
+              className={`${selectClass} w-full`}
+            >
+              {THOUSANDS_SEPARATORS.map(option => (
+                <option key={option.label} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 md:col-span-2">
+            <span className="block mb-1">Currency symbols and codes (comma-separated)</span>
+            {/* Uncontrolled so commas can be typed; the key resets it when a preset is picked */}
+            <input
+              key={draft.defaults.currencySymbols.join(',')}
+              type="text"
+              defaultValue={draft.defaults.currencySymbols.join(', ')}
+              onBlur={(e) => updateDefaults({ currencySymbols: parseSymbols(e.target.value) })}
+              className={`${selectClass} w-full`}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg overflow-x-auto">
+        <div className="px-4 py-3 border-b bg-gray-50 text-sm font-medium text-gray-900">Column exceptions</div>
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600">
+            <tr>
+              <th className="px-4 py-2">Column</th>
+              <th className="px-4 py-2">Decimal</th>
+              <th className="px-4 py-2">Thousands</th>
+              <th className="px-4 py-2">Date order</th>
+              <th className="px-4 py-2">Currency</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {headers.map(header => {
+              const exception = draft.columns[header] || {};
+              const thousands = exception.thousandsSeparator === undefined ? '' : exception.thousandsSeparator || 'none';
+              return (
+                <tr key={header} className={conflicts.includes(header) ? 'bg-red-50' : ''}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{header}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={exception.decimalSeparator ?? ''}
+                      onChange={(e) => updateColumn(header, 'decimalSeparator', e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value="">Default</option>
+                      {DECIMAL_SEPARATORS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={thousands}
+                      onChange={(e) => updateColumn(header, 'thousandsSeparator', e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value="">Default</option>
+                      {THOUSANDS_SEPARATORS.map(option => (
+                        <option key={option.label} value={option.value || 'none'}>{option.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={exception.dateOrder ?? ''}
+                      onChange={(e) => updateColumn(header, 'dateOrder', e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value="">Default</option>
+                      {DATE_ORDERS.map(order => (
+                        <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      key={exception.currencySymbols?.join(',') ?? ''}
+                      type="text"
+                      defaultValue={exception.currencySymbols?.join(', ') ?? ''}
+                      onBlur={(e) => updateColumn(header, 'currencySymbols', e.target.value)}
+                      placeholder="Default"
+                      className={`${selectClass} w-32`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+          Decimal and thousands separators must differ ({conflicts.join(', ')})
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => setDraft({ defaults: DEFAULT_LOCALE, columns: {} })}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to Defaults
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={conflicts.length > 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Apply and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocalePanel;
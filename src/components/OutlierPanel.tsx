@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, RotateCcw } from 'lucide-react';
+import { CSVData } from '../types';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import { DatasetLocale } from '../utils/locale';
+import {
+  DEFAULT_OUTLIER_RULE,
+  DatasetOutlierSettings,
+  OUTLIER_METHODS,
+  OutlierMethod,
+  OutlierRule,
+  OutlierSummary
+} from '../utils/outliers';
+
+interface OutlierPanelProps {
+  data: CSVData;
+  settings: DatasetOutlierSettings | null;
+  locale: DatasetLocale | null;
+  onApply: (settings: DatasetOutlierSettings | null) => void;
+}
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const methodOption = (method: OutlierMethod) => OUTLIER_METHODS.find(option => option.value === method) || OUTLIER_METHODS[0];
+
+// Method select and threshold input for one rule; picking a method resets the
+// threshold to that method's default
+const RuleEditor: React.FC<{ rule: OutlierRule; onChange: (rule: OutlierRule) => void }> = ({ rule, onChange }) => {
+  const option = methodOption(rule.method);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={rule.method}
+        onChange={(e) => {
+          const method = e.target.value as OutlierMethod;
+          onChange({ method, threshold: methodOption(method).defaultThreshold });
+        }}
+        className={selectClass}
+      >
+        {OUTLIER_METHODS.map(method => (
+          <option key={method.value} value={method.value}>{method.label}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        {option.thresholdLabel}
+        <input
+          type="number"
+          min={option.min}
+          max={option.max}
+          step={option.step}
+          value={rule.threshold}
+          onChange={(e) => onChange({ ...rule, threshold: Math.min(option.max, Math.max(option.min, Number(e.target.value))) })}
+          className={`${selectClass} w-20`}
+        />
+      </label>
+    </div>
+  );
+};
+
+// Histogram of the column with its box plot underneath; bins beyond the fences
+// are red and the fences are dashed lines
+const FenceChart: React.FC<{ summary: OutlierSummary }> = ({ summary }) => {
+  const { min, max, bins, fences } = summary;
+  const span = max - min || 1;
+  const position = (value: number) => `${Math.min(100, Math.max(0, ((value - min) / span) * 100))}%`;
+  const tallest = Math.max(...bins, 1);
+  const binWidth = span / bins.length;
+
+  return (
+    <div className="space-y-1">
+      <div className="relative h-24 flex items-end gap-px bg-gray-50 rounded">
+        {bins.map((count, index) => {
+          const from = min + index * binWidth;
+          const outside = from + binWidth <= fences.lower || from >= fences.upper;
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-t ${outside ? 'bg-red-400' : 'bg-kipi-primary'}`}
+              style={{ height: `${count === 0 ? 0 : Math.max(2, (count / tallest) * 100)}%` }}
+              title={`${round(from)} to ${round(from + binWidth)}: ${count} values`}
+            />
+          );
+        })}
+        {fences.lower >= min && (
+          <div className="absolute inset-y-0 border-l-2 border-dashed border-red-500" style={{ left: position(fences.lower) }} />
+        )}
+        {fences.upper <= max && (
+          <div className="absolute inset-y-0 border-l-2 border-dashed border-red-500" style={{ left: position(fences.upper) }} />
+        )}
+      </div>
+      <div className="relative h-4">
+        <div className="absolute top-1/2 left-0 right-0 border-t border-gray-300" />
+        <div
+          className="absolute top-0 bottom-0 bg-blue-100 border border-blue-400 rounded-sm"
+          style={{ left: position(summary.q1), width: `calc(${position(summary.q3)} - ${position(summary.q1)})` }}
+        />
+        <div className="absolute top-0 bottom-0 border-l-2 border-blue-700" style={{ left: position(summary.median) }} />
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{round(min)}</span>
+        <span>
+          Fences: {round(fences.lower)} to {round(fences.upper)}
+        </span>
+        <span>{round(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+const OutlierPanel: React.FC<OutlierPanelProps> = ({ data, settings, locale, onApply }) => {
+  const [draft, setDraft] = useState<DatasetOutlierSettings>(settings || { defaults: DEFAULT_OUTLIER_RULE, columns: {} });
+  const [summaries, setSummaries] = useState<OutlierSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The charts follow the draft, so fences move as the method or threshold changes
+  useEffect(() => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    runAnalysisTask('summarizeOutliers', data, { settings: draft, locale }, { signal: controller.signal })
+      .then(result => {
+        if (abortRef.current === controller) setSummaries(result);
+      })
+      .catch(err => {
+        if (abortRef.current === controller && !isTaskCancelled(err)) {
+          setError(err instanceof Error ? err.message : 'Outlier summary failed');
+        }
+      });
+    return () => controller.abort();
+  }, [data, draft, locale]);
+
+  // A column without an exception uses the dataset rule
+  const updateColumn = (column: string, rule: OutlierRule | null) => {
+    setDraft(prev => {
+      const columns = { ...prev.columns };
+      if (rule) columns[column] = rule;
+      else delete columns[column];
+      return { ...prev, columns };
+    });
+  };
+
+  const handleApply = () => {
+    const isDefault = draft.defaults.method === DEFAULT_OUTLIER_RULE.method &&
+      draft.defaults.threshold === DEFAULT_OUTLIER_RULE.threshold &&
+      Object.keys(draft.columns).length === 0;
+    onApply(isDefault ? null : draft);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Choose how numeric columns are checked for outliers. Values outside the fences are reported under Value Range,
+        and Data Cleaning offers to remove their rows or cap them at the fences.
+      </p>
+
+      <div className="bg-white border rounded-lg p-4 space-y-3">
+        <h4 className="font-medium text-gray-900">Dataset method</h4>
+        <RuleEditor rule={draft.defaults} onChange={(rule) => setDraft(prev => ({ ...prev, defaults: rule }))} />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{error}</div>
+      )}
+
+      {summaries === null && !error && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-kipi-primary"></div>
+          Computing distributions...
+        </div>
+      )}
+
+      {summaries && summaries.length === 0 && (
+        <p className="text-sm text-gray-500">No mostly-numeric columns to check.</p>
+      )}
+
+      {summaries && summaries.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {summaries.map(summary => {
+            const exception = draft.columns[summary.column];
+            return (
+              <div key={summary.column} className="bg-white border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">{summary.column}</span>
+                  <span className={`text-xs px-2 py-1 rounded ${
+                    summary.low + summary.high > 0 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                  }`}>
+                    {summary.low} low, {summary.high} high
+                  </span>
+                </div>
+                <FenceChart summary={summary} />
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={exception !== undefined}
+                      onChange={(e) => updateColumn(summary.column, e.target.checked ? draft.defaults : null)}
+                      className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+                    />
+                    Own method
+                  </label>
+                  {exception && <RuleEditor rule={exception} onChange={(rule) => updateColumn(summary.column, rule)} />}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => setDraft({ defaults: DEFAULT_OUTLIER_RULE, columns: {} })}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to Defaults
+        </button>
+        <button
+          onClick={handleApply}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+        >
+          <Play className="w-4 h-4" />
+          Apply and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OutlierPanel;
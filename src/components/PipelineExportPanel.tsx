@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Code, Copy, Download } from 'lucide-react';
+import { CSVData, CleaningOperation } from '../types';
+import { datasetColumnTypes } from '../utils/cleaningRecipes';
+import { loadLocale } from '../utils/locale';
+import { PIPELINE_TARGETS, PipelineExport, PipelineTarget, exportPipeline } from '../utils/pipelineExport';
+import { loadTypeOverrides } from '../utils/typeInference';
+
+interface PipelineExportPanelProps {
+  uploadedData: CSVData; // where the applied operations start; the code reads this file
+  appliedOperations: CleaningOperation[];
+}
+
+const PipelineExportPanel: React.FC<PipelineExportPanelProps> = ({ uploadedData, appliedOperations }) => {
+  const { filename } = uploadedData;
+  const [target, setTarget] = useState<PipelineTarget>('pandas');
+  const [generated, setGenerated] = useState<PipelineExport | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const handleGenerate = () => {
+    const locale = loadLocale(filename);
+    setGenerated(exportPipeline(appliedOperations, target, {
+      filename,
+      headers: uploadedData.headers,
+      locale,
+      columnTypes: datasetColumnTypes(uploadedData, locale, loadTypeOverrides(filename))
+    }));
+    setCopied(null);
+  };
+
+  const handleDownload = (name: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name.split('/').pop() || name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async (name: string, content: string) => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(name);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Code className="w-5 h-5 text-kipi-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Export Pipeline as Code</h3>
+          <p className="text-sm text-gray-600">
+            Turn the applied operations into code that runs the same cleaning in production, on the file as it was
+            uploaded.
+          </p>
+        </div>
+      </div>
+
+      {appliedOperations.length === 0 ? (
+        <p className="text-sm text-gray-500">Apply cleaning operations first; the export covers the current snapshot's path.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-end gap-3">
+            {PIPELINE_TARGETS.map(option => (
+              <label
+                key={option.value}
+                className={`flex-1 min-w-[12rem] p-3 border rounded-lg cursor-pointer ${
+                  target === option.value ? 'border-kipi-primary bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="pipeline-target"
+                  value={option.value}
+                  checked={target === option.value}
+                  onChange={() => {
+                    setTarget(option.value);
+                    setGenerated(null);
+                  }}
+                  className="sr-only"
+                />
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-600">{option.description}</span>
+              </label>
+            ))}
+            <button
+              onClick={handleGenerate}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+            >
+              <Code className="w-4 h-4" />
+              Generate ({appliedOperations.length} operations)
+            </button>
+          </div>
+
+          {generated && generated.warnings.length > 0 && (
+            <ul className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3 space-y-1">
+              {generated.warnings.map((warning, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {generated && generated.files.map(file => (
+            <div key={file.name} className="border rounded-lg overflow-hidden">
+              <div className="px-4 py-2 border-b bg-gray-50 flex items-center justify-between gap-3">
+                <span className="text-sm font-mono text-gray-700">{file.name}</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleCopy(file.name, file.content)}
+                    className="inline-flex items-center gap-1 text-xs px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
+                  >
+                    <Copy className="w-3 h-3" />
+                    {copied === file.name ? 'Copied' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={() => handleDownload(file.name, file.content)}
+                    className="inline-flex items-center gap-1 text-xs px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
+                  >
+                    <Download className="w-3 h-3" />
+                    Download
+                  </button>
+                </div>
+              </div>
+              <pre className="p-4 text-xs text-gray-800 bg-white overflow-auto max-h-96">{file.content}</pre>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PipelineExportPanel;
@@ -1,566 +1,184 @@
-import React, { useEffect, useState } from 'react';
-import { BarChart3, AlertTriangle, CheckCircle, Info, TrendingUp, Trash2, Target, Zap, Eye, ChevronDown, ChevronUp, Filter, Search, Shield, Clock, FileX, Hash } from 'lucide-react';
-import { CSVData, QualityReport } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, AlertTriangle, CheckCircle, Info, TrendingUp, Trash2, Target, Zap, Eye, ChevronDown, ChevronUp, Filter, Search, Shield, Clock, FileX, Hash, XCircle, RefreshCw, SlidersHorizontal, ListChecks, Columns, FileCheck, FileCode, Type, Globe, KeyRound } from 'lucide-react';
+import { CSVData, DetailedIssue, IssueCounts, QualityReport, SchemaDriftIssue } from '../types';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import { MAX_ISSUES_PER_TYPE, QualityAnalysisOptions, emptyIssueCounts } from '../utils/qualityAnalysis';
+import { QualityRuleSettings, loadRuleSettings, saveRuleSettings } from '../utils/qualityRules';
+import { DatasetSchema, loadSchema, saveSchema } from '../utils/datasetSchema';
+import { Expectation, loadExpectations, saveExpectations } from '../utils/expectations';
+import { ValidationContract, loadContract, saveContract } from '../utils/validationContract';
+import { TypeInference, TypeOverrides, loadTypeOverrides, saveTypeOverrides } from '../utils/typeInference';
+import { DatasetLocale, loadLocale, saveLocale } from '../utils/locale';
+import { loadMatchSettings } from '../utils/recordMatching';
+import { CandidateKey, loadCandidateKeys, saveCandidateKeys } from '../utils/candidateKeys';
+import { DateFormatDetection } from '../utils/dateFormats';
+import { DatasetOutlierSettings, loadOutlierSettings, saveOutlierSettings } from '../utils/outliers';
+import QualityRulesPanel from './QualityRulesPanel';
+import ExpectationsEditor from './ExpectationsEditor';
+import SchemaEditor from './SchemaEditor';
+import ContractPanel from './ContractPanel';
+import ColumnTypesPanel from './ColumnTypesPanel';
+import LocalePanel from './LocalePanel';
+import CandidateKeysPanel from './CandidateKeysPanel';
+import OutlierPanel from './OutlierPanel';
+import CheckSuiteExportPanel from './CheckSuiteExportPanel';
 
 interface QualityAnalysisProps {
   data: CSVData;
   onReportGenerated: (report: QualityReport) => void;
 }
 
-interface DetailedIssue {
-  type: 'missing' | 'duplicate' | 'invalid_format' | 'value_range' | 'inconsistent' | 'unusual_pattern' | 'sensitive_data';
-  column: string;
-  rowIndex: number;
-  value: any;
-  description: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  dimension: string;
-  recommendation: string;
-}
-
 const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerated }) => {
   const [report, setReport] = useState<QualityReport | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<{ fraction: number; stage?: string }>({ fraction: 0 });
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [wasCancelled, setWasCancelled] = useState(false);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['overview']));
   const [detailedIssues, setDetailedIssues] = useState<DetailedIssue[]>([]);
+  const [issueCounts, setIssueCounts] = useState<IssueCounts>(emptyIssueCounts());
   const [issueFilter, setIssueFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [ruleSettings, setRuleSettings] = useState<QualityRuleSettings>(loadRuleSettings);
+  const [expectations, setExpectations] = useState<Expectation[]>(() => loadExpectations(data.filename));
+  const [schema, setSchema] = useState<DatasetSchema | null>(() => loadSchema(data.filename));
+  const [contract, setContract] = useState<ValidationContract | null>(() => loadContract(data.filename));
+  const [typeOverrides, setTypeOverrides] = useState<TypeOverrides>(() => loadTypeOverrides(data.filename));
+  const [locale, setLocale] = useState<DatasetLocale | null>(() => loadLocale(data.filename));
+  const [candidateKeys, setCandidateKeys] = useState<CandidateKey[]>(() => loadCandidateKeys(data.filename));
+  const [outlierSettings, setOutlierSettings] = useState<DatasetOutlierSettings | null>(() => loadOutlierSettings(data.filename));
+  const [schemaDrift, setSchemaDrift] = useState<SchemaDriftIssue[]>([]);
+  const [columnTypes, setColumnTypes] = useState<{ [column: string]: TypeInference }>({});
+  const [dateFormats, setDateFormats] = useState<{ [column: string]: DateFormatDetection }>({});
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    analyzeData();
+    const datasetExpectations = loadExpectations(data.filename);
+    const datasetSchema = loadSchema(data.filename);
+    const datasetContract = loadContract(data.filename);
+    const datasetTypeOverrides = loadTypeOverrides(data.filename);
+    const datasetLocale = loadLocale(data.filename);
+    const datasetCandidateKeys = loadCandidateKeys(data.filename);
+    const datasetOutlierSettings = loadOutlierSettings(data.filename);
+    setExpectations(datasetExpectations);
+    setSchema(datasetSchema);
+    setContract(datasetContract);
+    setTypeOverrides(datasetTypeOverrides);
+    setLocale(datasetLocale);
+    setCandidateKeys(datasetCandidateKeys);
+    setOutlierSettings(datasetOutlierSettings);
+    analyzeData({
+      expectations: datasetExpectations,
+      schema: datasetSchema,
+      contract: datasetContract,
+      typeOverrides: datasetTypeOverrides,
+      locale: datasetLocale,
+      candidateKeys: datasetCandidateKeys,
+      outliers: datasetOutlierSettings
+    });
+    return () => abortRef.current?.abort();
   }, [data]);
 
-  const analyzeData = async () => {
+  // Runs with the current rules, expectations, schema, contract, column types, locale, candidate keys and outlier
+  // settings unless overridden;
+  // record matching settings are edited in Data Cleaning, so they are read fresh each run
+  const analyzeData = async (overrides: QualityAnalysisOptions = {}) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsAnalyzing(true);
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const issues: DetailedIssue[] = [];
-    const missingValues: { [column: string]: number } = {};
-    const dataTypes: { [column: string]: string } = {};
-    const outliers: { [column: string]: number[] } = {};
-    const formatIssues: { [column: string]: number } = {};
-    const rangeIssues: { [column: string]: number } = {};
-    const inconsistencyIssues: { [column: string]: number } = {};
-    const unusualPatterns: { [column: string]: number } = {};
-    const sensitiveDataDetected: { [column: string]: string[] } = {};
-
-    // 1️⃣ MISSING VALUES ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      let missingCount = 0;
-      
-      columnData.forEach((val, rowIndex) => {
-        if (val === '' || val === null || val === undefined || val === 'null' || val === 'NULL' || val === 'N/A' || val === 'n/a') {
-          missingCount++;
-          issues.push({
-            type: 'missing',
-            column: header,
-            rowIndex,
-            value: val,
-            description: `Missing value in "${header}" - empty or null field`,
-            severity: 'medium',
-            dimension: 'Missing Values',
-            recommendation: 'Fill with appropriate default value or remove row if critical'
-          });
-        }
-      });
-      missingValues[header] = missingCount;
-    });
+    setWasCancelled(false);
+    setAnalysisError(null);
+    setProgress({ fraction: 0 });
 
-    // 2️⃣ DUPLICATES ANALYSIS
-    const duplicateRowIndices: number[] = [];
-    const seenRows = new Map();
-    data.rows.forEach((row, index) => {
-      const key = JSON.stringify(row);
-      if (seenRows.has(key)) {
-        duplicateRowIndices.push(index);
-        issues.push({
-          type: 'duplicate',
-          column: 'All columns',
-          rowIndex: index,
-          value: row,
-          description: `Duplicate row #${index + 1} (identical to row #${seenRows.get(key) + 1})`,
-          severity: 'high',
-          dimension: 'Duplicates',
-          recommendation: 'Remove duplicate row to maintain data integrity'
-        });
+    try {
+      const result = await runAnalysisTask('analyzeQuality', data, {
+        ruleSettings,
+        expectations,
+        schema,
+        contract,
+        typeOverrides,
+        locale,
+        candidateKeys,
+        outliers: outlierSettings,
+        recordMatching: loadMatchSettings(data.filename),
+        ...overrides
+      }, {
+        signal: controller.signal,
+        onProgress: (fraction, stage) => setProgress({ fraction, stage })
+      });
+      if (abortRef.current !== controller) return;
+      setReport(result.report);
+      setDetailedIssues(result.issues);
+      setIssueCounts(result.issueCounts);
+      setSchemaDrift(result.schemaDrift);
+      setColumnTypes(result.columnTypes);
+      setDateFormats(result.dateFormats);
+      onReportGenerated(result.report);
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      if (isTaskCancelled(err)) {
+        setWasCancelled(true);
       } else {
-        seenRows.set(key, index);
+        setAnalysisError(err instanceof Error ? err.message : 'Analysis failed');
       }
-    });
+    } finally {
+      if (abortRef.current === controller) setIsAnalyzing(false);
+    }
+  };
 
-    // 3️⃣ INVALID FORMAT ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      let formatIssueCount = 0;
-      
-      // Detect column type first
-      const numericValues = columnData.filter(val => typeof val === 'number' || (!isNaN(Number(val)) && val !== ''));
-      const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      const phonePattern = /^[\+]?[1-9][\d]{0,15}$/;
-      const datePattern = /^\d{4}-\d{2}-\d{2}$|^\d{2}\/\d{2}\/\d{4}$|^\d{2}-\d{2}-\d{4}$/;
-      
-      let columnType = 'text';
-      if (numericValues.length > columnData.length * 0.7) {
-        columnType = 'numeric';
-      } else if (header.toLowerCase().includes('email')) {
-        columnType = 'email';
-      } else if (header.toLowerCase().includes('phone') || header.toLowerCase().includes('mobile')) {
-        columnType = 'phone';
-      } else if (header.toLowerCase().includes('date') || header.toLowerCase().includes('dob')) {
-        columnType = 'date';
-      }
-      
-      dataTypes[header] = columnType;
-      
-      columnData.forEach((val, rowIndex) => {
-        if (val !== '' && val !== null && val !== undefined) {
-          let isInvalid = false;
-          let errorMsg = '';
-          
-          switch (columnType) {
-            case 'email':
-              if (!emailPattern.test(String(val))) {
-                isInvalid = true;
-                errorMsg = `Invalid email format: "${val}" - missing @ or domain`;
-              }
-              break;
-            case 'phone':
-              const cleanPhone = String(val).replace(/[\s\-\(\)]/g, '');
-              if (!phonePattern.test(cleanPhone) || cleanPhone.length < 10 || cleanPhone.length > 15) {
-                isInvalid = true;
-                errorMsg = `Invalid phone format: "${val}" - should be 10-15 digits`;
-              }
-              break;
-            case 'date':
-              if (!datePattern.test(String(val)) && isNaN(Date.parse(String(val)))) {
-                isInvalid = true;
-                errorMsg = `Invalid date format: "${val}" - use YYYY-MM-DD or MM/DD/YYYY`;
-              }
-              break;
-            case 'numeric':
-              if (isNaN(Number(val))) {
-                isInvalid = true;
-                errorMsg = `Non-numeric value in numeric column: "${val}"`;
-              }
-              break;
-          }
-          
-          if (isInvalid) {
-            formatIssueCount++;
-            issues.push({
-              type: 'invalid_format',
-              column: header,
-              rowIndex,
-              value: val,
-              description: errorMsg,
-              severity: 'high',
-              dimension: 'Invalid Format',
-              recommendation: 'Correct format or standardize data entry rules'
-            });
-          }
-        }
-      });
-      formatIssues[header] = formatIssueCount;
-    });
+  const cancelAnalysis = () => {
+    abortRef.current?.abort();
+  };
 
-    // 4️⃣ VALUE RANGE ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      let rangeIssueCount = 0;
-      
-      columnData.forEach((val, rowIndex) => {
-        if (val !== '' && val !== null && val !== undefined) {
-          let isOutOfRange = false;
-          let errorMsg = '';
-          
-          // Age validation
-          if (header.toLowerCase().includes('age')) {
-            const age = Number(val);
-            if (!isNaN(age) && (age < 0 || age > 150)) {
-              isOutOfRange = true;
-              errorMsg = `Unrealistic age: ${age} - should be between 0-150`;
-            }
-          }
-          
-          // Salary validation
-          if (header.toLowerCase().includes('salary') || header.toLowerCase().includes('income')) {
-            const salary = Number(val);
-            if (!isNaN(salary) && salary < 0) {
-              isOutOfRange = true;
-              errorMsg = `Negative salary: ${salary} - should be positive`;
-            }
-          }
-          
-          // Date of birth validation
-          if (header.toLowerCase().includes('dob') || header.toLowerCase().includes('birth')) {
-            const date = new Date(String(val));
-            if (!isNaN(date.getTime())) {
-              const now = new Date();
-              if (date > now) {
-                isOutOfRange = true;
-                errorMsg = `Future birth date: ${val} - cannot be in the future`;
-              }
-              if (date.getFullYear() < 1900) {
-                isOutOfRange = true;
-                errorMsg = `Very old birth date: ${val} - seems unrealistic`;
-              }
-            }
-          }
-          
-          // Phone number length validation
-          if (header.toLowerCase().includes('phone')) {
-            const cleanPhone = String(val).replace(/[\s\-\(\)]/g, '');
-            if (cleanPhone.length < 10 || cleanPhone.length > 15) {
-              isOutOfRange = true;
-              errorMsg = `Phone number length issue: "${val}" - should be 10-15 digits`;
-            }
-          }
-          
-          if (isOutOfRange) {
-            rangeIssueCount++;
-            issues.push({
-              type: 'value_range',
-              column: header,
-              rowIndex,
-              value: val,
-              description: errorMsg,
-              severity: 'high',
-              dimension: 'Value Range',
-              recommendation: 'Verify data accuracy and correct unrealistic values'
-            });
-          }
-        }
-      });
-      rangeIssues[header] = rangeIssueCount;
-    });
+  const applyRuleSettings = (settings: QualityRuleSettings) => {
+    saveRuleSettings(settings);
+    setRuleSettings(settings);
+    analyzeData({ ruleSettings: settings });
+  };
 
-    // 5️⃣ INCONSISTENT VALUES ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      let inconsistencyCount = 0;
-      
-      // Check for text formatting inconsistencies
-      if (dataTypes[header] === 'text') {
-        columnData.forEach((val, rowIndex) => {
-          if (typeof val === 'string' && val !== '') {
-            let hasIssue = false;
-            let errorMsg = '';
-            
-            // Mixed case inconsistency
-            if (val !== val.toLowerCase() && val !== val.toUpperCase() && val !== val.charAt(0).toUpperCase() + val.slice(1).toLowerCase()) {
-              hasIssue = true;
-              errorMsg = `Inconsistent text case: "${val}" - mixed capitalization`;
-            }
-            
-            // Extra whitespace
-            if (val !== val.trim() || val.includes('  ')) {
-              hasIssue = true;
-              errorMsg = `Extra whitespace in: "${val}" - needs trimming`;
-            }
-            
-            if (hasIssue) {
-              inconsistencyCount++;
-              issues.push({
-                type: 'inconsistent',
-                column: header,
-                rowIndex,
-                value: val,
-                description: errorMsg,
-                severity: 'low',
-                dimension: 'Inconsistent Values',
-                recommendation: 'Standardize text formatting and remove extra spaces'
-              });
-            }
-          }
-        });
-      }
-      
-      // Check for logical inconsistencies between related columns
-      if (header.toLowerCase().includes('ship') && data.headers.some(h => h.toLowerCase().includes('order'))) {
-        const orderDateCol = data.headers.findIndex(h => h.toLowerCase().includes('order') && h.toLowerCase().includes('date'));
-        if (orderDateCol !== -1) {
-          columnData.forEach((shipDate, rowIndex) => {
-            const orderDate = data.rows[rowIndex][orderDateCol];
-            if (shipDate && orderDate) {
-              const ship = new Date(String(shipDate));
-              const order = new Date(String(orderDate));
-              if (!isNaN(ship.getTime()) && !isNaN(order.getTime()) && ship < order) {
-                inconsistencyCount++;
-                issues.push({
-                  type: 'inconsistent',
-                  column: header,
-                  rowIndex,
-                  value: shipDate,
-                  description: `Ship date (${shipDate}) before order date (${orderDate}) - logically inconsistent`,
-                  severity: 'high',
-                  dimension: 'Inconsistent Values',
-                  recommendation: 'Verify and correct date sequence logic'
-                });
-              }
-            }
-          });
-        }
-      }
-      
-      inconsistencyIssues[header] = inconsistencyCount;
-    });
+  const applyExpectations = (updated: Expectation[]) => {
+    saveExpectations(data.filename, updated);
+    setExpectations(updated);
+    analyzeData({ expectations: updated });
+  };
 
-    // 6️⃣ UNUSUAL PATTERNS ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      let unusualCount = 0;
-      
-      columnData.forEach((val, rowIndex) => {
-        if (val !== '' && val !== null && val !== undefined) {
-          const strVal = String(val);
-          let isUnusual = false;
-          let errorMsg = '';
-          
-          // Repeated characters (like 9999999999)
-          if (strVal.length > 3 && /^(.)\1+$/.test(strVal)) {
-            isUnusual = true;
-            errorMsg = `Suspicious repeated pattern: "${val}" - likely placeholder data`;
-          }
-          
-          // Sequential patterns (like 1234567890)
-          if (strVal.length > 4 && /^(0123456789|1234567890|abcdefghij)/.test(strVal.toLowerCase())) {
-            isUnusual = true;
-            errorMsg = `Sequential pattern detected: "${val}" - likely test data`;
-          }
-          
-          // Common dummy values
-          const dummyPatterns = ['test', 'dummy', 'sample', 'example', 'placeholder', 'temp', 'xxx', 'yyy', 'zzz'];
-          if (dummyPatterns.some(pattern => strVal.toLowerCase().includes(pattern))) {
-            isUnusual = true;
-            errorMsg = `Dummy/test value detected: "${val}" - should be replaced with real data`;
-          }
-          
-          // Suspicious email patterns
-          if (header.toLowerCase().includes('email') && (
-            strVal.includes('test@') || 
-            strVal.includes('dummy@') || 
-            strVal.includes('example@') ||
-            strVal.includes('@test.') ||
-            strVal.includes('@dummy.')
-          )) {
-            isUnusual = true;
-            errorMsg = `Test email detected: "${val}" - likely not a real email address`;
-          }
-          
-          if (isUnusual) {
-            unusualCount++;
-            issues.push({
-              type: 'unusual_pattern',
-              column: header,
-              rowIndex,
-              value: val,
-              description: errorMsg,
-              severity: 'medium',
-              dimension: 'Unusual Patterns',
-              recommendation: 'Replace with authentic data or verify if legitimate'
-            });
-          }
-        }
-      });
-      unusualPatterns[header] = unusualCount;
-    });
+  const applySchema = (updated: DatasetSchema | null) => {
+    saveSchema(data.filename, updated);
+    setSchema(updated);
+    analyzeData({ schema: updated });
+  };
 
-    // 7️⃣ SENSITIVE DATA (PII) ANALYSIS
-    data.headers.forEach((header, colIndex) => {
-      const columnData = data.rows.map(row => row[colIndex]);
-      const sensitiveTypes: string[] = [];
-      
-      columnData.forEach((val, rowIndex) => {
-        if (val !== '' && val !== null && val !== undefined) {
-          const strVal = String(val);
-          
-          // Email detection
-          if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(strVal)) {
-            if (!sensitiveTypes.includes('Email')) sensitiveTypes.push('Email');
-            issues.push({
-              type: 'sensitive_data',
-              column: header,
-              rowIndex,
-              value: val,
-              description: `Email address detected: "${val}" - contains PII`,
-              severity: 'critical',
-              dimension: 'Sensitive Data (PII)',
-              recommendation: 'Mask, encrypt, or remove email addresses for privacy compliance'
-            });
-          }
-          
-          // Phone number detection
-          const cleanPhone = strVal.replace(/[\s\-\(\)]/g, '');
-          if (/^[\+]?[1-9][\d]{9,14}$/.test(cleanPhone)) {
-            if (!sensitiveTypes.includes('Phone')) sensitiveTypes.push('Phone');
-            issues.push({
-              type: 'sensitive_data',
-              column: header,
-              rowIndex,
-              value: val,
-              description: `Phone number detected: "${val}" - contains PII`,
-              severity: 'critical',
-              dimension: 'Sensitive Data (PII)',
-              recommendation: 'Mask or encrypt phone numbers for privacy protection'
-            });
-          }
-          
-          // SSN-like patterns (XXX-XX-XXXX)
-          if (/^\d{3}-\d{2}-\d{4}$/.test(strVal) || /^\d{9}$/.test(strVal)) {
-            if (!sensitiveTypes.includes('SSN')) sensitiveTypes.push('SSN');
-            issues.push({
-              type: 'sensitive_data',
-              column: header,
-              rowIndex,
-              value: val,
-              description: `Potential SSN detected: "${val}" - highly sensitive PII`,
-              severity: 'critical',
-              dimension: 'Sensitive Data (PII)',
-              recommendation: 'Immediately encrypt or remove SSN data - high compliance risk'
-            });
-          }
-          
-          // Credit card patterns
-          if (/^\d{4}[\s\-]?\d{4}[\s\-]?\d{4}[\s\-]?\d{4}$/.test(strVal)) {
-            if (!sensitiveTypes.includes('Credit Card')) sensitiveTypes.push('Credit Card');
-            issues.push({
-              type: 'sensitive_data',
-              column: header,
-              rowIndex,
-              value: val,
-              description: `Potential credit card number: "${val}" - financial PII`,
-              severity: 'critical',
-              dimension: 'Sensitive Data (PII)',
-              recommendation: 'Remove credit card data immediately - PCI compliance violation'
-            });
-          }
-        }
-      });
-      
-      if (sensitiveTypes.length > 0) {
-        sensitiveDataDetected[header] = sensitiveTypes;
-      }
-    });
+  const applyContract = (updated: ValidationContract | null) => {
+    saveContract(data.filename, updated);
+    setContract(updated);
+    analyzeData({ contract: updated });
+  };
 
-    // Calculate scores for each dimension (0-100)
-    const totalCells = data.rows.length * data.headers.length;
-    const totalMissing = Object.values(missingValues).reduce((sum, count) => sum + count, 0);
-    const missingValuesScore = Math.round(((totalCells - totalMissing) / totalCells) * 100);
-    
-    const duplicatesScore = Math.round(((data.rows.length - duplicateRowIndices.length) / data.rows.length) * 100);
-    
-    const totalFormatIssues = Object.values(formatIssues).reduce((sum, count) => sum + count, 0);
-    const invalidFormatScore = Math.max(0, Math.round(100 - (totalFormatIssues / data.rows.length) * 100));
-    
-    const totalRangeIssues = Object.values(rangeIssues).reduce((sum, count) => sum + count, 0);
-    const valueRangeScore = Math.max(0, Math.round(100 - (totalRangeIssues / data.rows.length) * 100));
-    
-    const totalInconsistencies = Object.values(inconsistencyIssues).reduce((sum, count) => sum + count, 0);
-    const inconsistentValuesScore = Math.max(0, Math.round(100 - (totalInconsistencies / data.rows.length) * 100));
-    
-    const totalUnusualPatterns = Object.values(unusualPatterns).reduce((sum, count) => sum + count, 0);
-    const unusualPatternsScore = Math.max(0, Math.round(100 - (totalUnusualPatterns / data.rows.length) * 100));
-    
-    const totalSensitiveData = issues.filter(i => i.type === 'sensitive_data').length;
-    const sensitiveDataScore = totalSensitiveData === 0 ? 100 : Math.max(0, Math.round(100 - (totalSensitiveData / data.rows.length) * 100));
-    
-    // Calculate overall score (weighted average)
-    const overallScore = Math.round((
-      missingValuesScore * 0.20 +
-      duplicatesScore * 0.15 +
-      invalidFormatScore * 0.15 +
-      valueRangeScore * 0.15 +
-      inconsistentValuesScore * 0.10 +
-      unusualPatternsScore * 0.10 +
-      sensitiveDataScore * 0.15
-    ));
-
-    const qualityReport: QualityReport = {
-      totalRows: data.rows.length,
-      totalColumns: data.headers.length,
-      overallScore,
-      missingValuesScore,
-      duplicatesScore,
-      invalidFormatScore,
-      valueRangeScore,
-      inconsistentValuesScore,
-      unusualPatternsScore,
-      sensitiveDataScore,
-      missingValues,
-      duplicateRows: duplicateRowIndices.length,
-      dataTypes,
-      outliers,
-      formatIssues,
-      rangeIssues,
-      inconsistencyIssues,
-      unusualPatterns,
-      sensitiveDataDetected,
-      recommendations: generateRecommendations(overallScore, issues)
-    };
-    
-    setReport(qualityReport);
-    setDetailedIssues(issues);
-    onReportGenerated(qualityReport);
-    setIsAnalyzing(false);
+  const applyCandidateKeys = (updated: CandidateKey[]) => {
+    saveCandidateKeys(data.filename, updated);
+    setCandidateKeys(updated);
+    analyzeData({ candidateKeys: updated });
   };
 
-  const generateRecommendations = (score: number, issues: DetailedIssue[]): string[] => {
-    const recommendations: string[] = [];
-    
-    if (score < 60) {
-      recommendations.push("🚨 CRITICAL: Overall data quality is unacceptable. Immediate comprehensive cleanup required.");
-    } else if (score < 80) {
-      recommendations.push("⚠️ WARNING: Data quality needs significant improvement before production use.");
-    }
-    
-    const criticalIssues = issues.filter(i => i.severity === 'critical').length;
-    if (criticalIssues > 0) {
-      recommendations.push(`🔒 PRIVACY ALERT: ${criticalIssues} critical issues found including sensitive data exposure.`);
-    }
-    
-    const sensitiveDataIssues = issues.filter(i => i.type === 'sensitive_data').length;
-    if (sensitiveDataIssues > 0) {
-      recommendations.push(`🛡️ COMPLIANCE RISK: ${sensitiveDataIssues} PII/sensitive data instances require immediate attention.`);
-    }
-    
-    const highSeverityIssues = issues.filter(i => i.severity === 'high').length;
-    if (highSeverityIssues > 0) {
-      recommendations.push(`⚡ HIGH PRIORITY: ${highSeverityIssues} high-severity issues affecting data reliability.`);
-    }
-    
-    // Specific dimension recommendations
-    const missingIssues = issues.filter(i => i.type === 'missing').length;
-    if (missingIssues > data.rows.length * 0.1) {
-      recommendations.push("📝 Implement data validation rules to prevent missing values at data entry.");
-    }
-    
-    const duplicateIssues = issues.filter(i => i.type === 'duplicate').length;
-    if (duplicateIssues > 0) {
-      recommendations.push("🗑️ Establish unique constraints and deduplication processes.");
-    }
-    
-    const formatIssues = issues.filter(i => i.type === 'invalid_format').length;
-    if (formatIssues > 0) {
-      recommendations.push("📋 Standardize data entry formats and implement input validation.");
-    }
-    
-    const rangeIssues = issues.filter(i => i.type === 'value_range').length;
-    if (rangeIssues > 0) {
-      recommendations.push("📊 Implement range validation and business rule checks.");
-    }
-    
-    const unusualPatterns = issues.filter(i => i.type === 'unusual_pattern').length;
-    if (unusualPatterns > 0) {
-      recommendations.push("🔍 Review and replace test/dummy data with authentic values.");
-    }
-    
-    if (recommendations.length === 0) {
-      recommendations.push("✅ Excellent data quality! Consider implementing monitoring to maintain standards.");
-    }
-    
-    return recommendations;
+  const applyOutlierSettings = (updated: DatasetOutlierSettings | null) => {
+    saveOutlierSettings(data.filename, updated);
+    setOutlierSettings(updated);
+    analyzeData({ outliers: updated });
+  };
+
+  const applyTypeOverrides = (updated: TypeOverrides) => {
+    saveTypeOverrides(data.filename, updated);
+    setTypeOverrides(updated);
+    analyzeData({ typeOverrides: updated });
+  };
+
+  const applyLocale = (updated: DatasetLocale | null) => {
+    saveLocale(data.filename, updated);
+    setLocale(updated);
+    analyzeData({ locale: updated });
   };
 
   const toggleSection = (section: string) => {
@@ -631,13 +249,44 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           <span className="text-lg font-medium text-gray-900">Performing comprehensive 7-dimension data quality analysis...</span>
         </div>
-        <p className="text-gray-600 mb-4">Analyzing {data.rows.length} rows and {data.headers.length} columns across all quality dimensions</p>
+        <p className="text-gray-600 mb-4">Analyzing {data.rows.length.toLocaleString()} rows and {data.headers.length} columns across all quality dimensions</p>
         <div className="max-w-md mx-auto bg-gray-200 rounded-full h-2">
-          <div className="bg-blue-600 h-2 rounded-full animate-pulse" style={{ width: '70%' }}></div>
+          <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }}></div>
         </div>
+        <p className="text-sm text-gray-700 mt-2">
+          {Math.round(progress.fraction * 100)}%{progress.stage ? ` • Checking ${progress.stage}` : ''}
+        </p>
         <p className="text-sm text-gray-500 mt-4">
           Checking: Missing Values • Duplicates • Invalid Formats • Value Ranges • Inconsistencies • Unusual Patterns • Sensitive Data
         </p>
+        <button
+          onClick={cancelAnalysis}
+          className="mt-6 inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <XCircle className="w-4 h-4" />
+          Cancel Analysis
+        </button>
+      </div>
+    );
+  }
+
+  if (wasCancelled || analysisError) {
+    return (
+      <div className="p-8 text-center">
+        <AlertTriangle className={`w-12 h-12 mx-auto mb-4 ${analysisError ? 'text-red-500' : 'text-amber-500'}`} />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">
+          {analysisError ? 'Analysis Failed' : 'Analysis Cancelled'}
+        </h3>
+        <p className="text-gray-600 mb-6">
+          {analysisError || 'The quality analysis was stopped before it finished.'}
+        </p>
+        <button
+          onClick={() => analyzeData()}
+          className="inline-flex items-center gap-2 px-6 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Run Analysis Again
+        </button>
       </div>
     );
   }
@@ -662,13 +311,13 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
               </p>
               <div className="flex items-center gap-4">
                 <div className="text-sm text-gray-600">
-                  <strong>Total Issues:</strong> {detailedIssues.length}
+                  <strong>Total Issues:</strong> {issueCounts.total.toLocaleString()}
                 </div>
                 <div className="text-sm text-gray-600">
-                  <strong>Critical:</strong> {detailedIssues.filter(i => i.severity === 'critical').length}
+                  <strong>Critical:</strong> {issueCounts.bySeverity.critical.toLocaleString()}
                 </div>
                 <div className="text-sm text-gray-600">
-                  <strong>High Priority:</strong> {detailedIssues.filter(i => i.severity === 'high').length}
+                  <strong>High Priority:</strong> {issueCounts.bySeverity.high.toLocaleString()}
                 </div>
               </div>
             </div>
@@ -684,6 +333,34 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
           </div>
         </div>
         
+        {/* Schema Drift */}
+        {schema && (
+          schemaDrift.length === 0 ? (
+            <div className="border border-green-200 bg-green-50 rounded-lg px-6 py-4 mb-6 flex items-center gap-3">
+              <Columns className="w-5 h-5 text-green-600" />
+              <span className="text-sm text-green-800">Columns match the saved schema for this dataset</span>
+            </div>
+          ) : (
+            <div className="border-2 border-amber-200 bg-amber-50 rounded-lg p-6 mb-6">
+              <div className="flex items-center gap-3 mb-4">
+                <Columns className="w-5 h-5 text-amber-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Schema Drift ({schemaDrift.length})</h3>
+              </div>
+              <div className="space-y-2">
+                {schemaDrift.map((drift, index) => (
+                  <div key={index} className="bg-white border rounded-lg px-4 py-3 flex items-center gap-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${severityColors[drift.severity]}`}>
+                      {drift.severity}
+                    </span>
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{drift.kind.replace('_', ' ')}</span>
+                    <span className="text-sm text-gray-900">{drift.description}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        )}
+
         {/* 7 Quality Dimensions Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-8">
           {[
@@ -767,6 +444,264 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
 
       {/* Expandable Sections */}
       <div className="space-y-6">
+        {/* Number & Date Format Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('locale')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <Globe className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Number &amp; Date Format {locale ? '(customized)' : ''}
+              </h3>
+            </div>
+            {expandedSections.has('locale') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('locale') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <LocalePanel headers={data.headers} locale={locale} onApply={applyLocale} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Column Types Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('types')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <Type className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Column Types {Object.keys(typeOverrides).length > 0 ? `(${Object.keys(typeOverrides).length} overridden)` : ''}
+              </h3>
+            </div>
+            {expandedSections.has('types') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('types') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <ColumnTypesPanel
+                  headers={data.headers}
+                  columnTypes={columnTypes}
+                  dateFormats={dateFormats}
+                  overrides={typeOverrides}
+                  onApply={applyTypeOverrides}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Schema Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('schema')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <Columns className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Schema {schema ? `(${schema.columns.length} columns)` : ''}</h3>
+            </div>
+            {expandedSections.has('schema') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('schema') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <SchemaEditor data={data} schema={schema} locale={locale} onSave={applySchema} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Validation Contract Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('contract')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <FileCheck className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Validation Contract {contract ? `(${contract.title})` : ''}</h3>
+            </div>
+            {expandedSections.has('contract') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('contract') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <ContractPanel filename={data.filename} contract={contract} onChange={applyContract} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Candidate Keys Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('keys')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <KeyRound className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Candidate Keys ({candidateKeys.length})</h3>
+            </div>
+            {expandedSections.has('keys') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('keys') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <CandidateKeysPanel headers={data.headers} keys={candidateKeys} onApply={applyCandidateKeys} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Outlier Detection Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('outliers')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <Target className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Outlier Detection {outlierSettings ? '(customized)' : ''}
+              </h3>
+            </div>
+            {expandedSections.has('outliers') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('outliers') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <OutlierPanel data={data} settings={outlierSettings} locale={locale} onApply={applyOutlierSettings} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Expectations Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('expectations')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <ListChecks className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Expectations ({expectations.length})</h3>
+            </div>
+            {expandedSections.has('expectations') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('expectations') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <ExpectationsEditor headers={data.headers} expectations={expectations} onSave={applyExpectations} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Quality Rules Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('rules')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <SlidersHorizontal className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Quality Rules</h3>
+            </div>
+            {expandedSections.has('rules') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('rules') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <QualityRulesPanel settings={ruleSettings} onApply={applyRuleSettings} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Check Suite Export Section */}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <button
+            onClick={() => toggleSection('checks')}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <FileCode className="w-5 h-5 text-kipi-secondary" />
+              <h3 className="text-lg font-semibold text-gray-900">Export Checks (Great Expectations / Soda)</h3>
+            </div>
+            {expandedSections.has('checks') ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.has('checks') && (
+            <div className="px-6 pb-6 border-t bg-gray-50">
+              <div className="pt-6">
+                <CheckSuiteExportPanel
+                  data={data}
+                  options={{
+                    columnTypes,
+                    dateFormats,
+                    duplicateRows: report.duplicateRows,
+                    ruleSettings,
+                    expectations,
+                    schema,
+                    contract,
+                    candidateKeys
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Detailed Issues Section */}
         <div className="bg-white border rounded-lg overflow-hidden">
           <button
@@ -776,7 +711,7 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
             <div className="flex items-center gap-3">
               <AlertTriangle className="w-5 h-5 text-amber-600" />
               <h3 className="text-lg font-semibold text-gray-900">
-                Detailed Issues Analysis ({detailedIssues.length})
+                Detailed Issues Analysis ({issueCounts.total.toLocaleString()})
               </h3>
             </div>
             {expandedSections.has('issues') ? (
@@ -806,17 +741,23 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
                     onChange={(e) => setIssueFilter(e.target.value)}
                     className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-kipi-primary"
                   >
-                    <option value="all">All Issues ({detailedIssues.length})</option>
-                    <option value="missing">1️⃣ Missing Values ({detailedIssues.filter(i => i.type === 'missing').length})</option>
-                    <option value="duplicate">2️⃣ Duplicates ({detailedIssues.filter(i => i.type === 'duplicate').length})</option>
-                    <option value="invalid_format">3️⃣ Invalid Format ({detailedIssues.filter(i => i.type === 'invalid_format').length})</option>
-                    <option value="value_range">4️⃣ Value Range ({detailedIssues.filter(i => i.type === 'value_range').length})</option>
-                    <option value="inconsistent">5️⃣ Inconsistent ({detailedIssues.filter(i => i.type === 'inconsistent').length})</option>
-                    <option value="unusual_pattern">6️⃣ Unusual Patterns ({detailedIssues.filter(i => i.type === 'unusual_pattern').length})</option>
-                    <option value="sensitive_data">7️⃣ Sensitive Data ({detailedIssues.filter(i => i.type === 'sensitive_data').length})</option>
+                    <option value="all">All Issues ({issueCounts.total})</option>
+                    <option value="missing">1️⃣ Missing Values ({issueCounts.byType.missing})</option>
+                    <option value="duplicate">2️⃣ Duplicates ({issueCounts.byType.duplicate})</option>
+                    <option value="invalid_format">3️⃣ Invalid Format ({issueCounts.byType.invalid_format})</option>
+                    <option value="value_range">4️⃣ Value Range ({issueCounts.byType.value_range})</option>
+                    <option value="inconsistent">5️⃣ Inconsistent ({issueCounts.byType.inconsistent})</option>
+                    <option value="unusual_pattern">6️⃣ Unusual Patterns ({issueCounts.byType.unusual_pattern})</option>
+                    <option value="sensitive_data">7️⃣ Sensitive Data ({issueCounts.byType.sensitive_data})</option>
                   </select>
                 </div>
 
+                {issueCounts.total > detailedIssues.length && (
+                  <div className="mb-4 text-xs text-gray-600 bg-blue-50 border border-blue-200 rounded p-2">
+                    Details are kept for the first {MAX_ISSUES_PER_TYPE.toLocaleString()} issues of each type; counts and scores include all {issueCounts.total.toLocaleString()} issues.
+                  </div>
+                )}
+
                 {/* Issues List */}
                 <div className="space-y-3 max-h-96 overflow-y-auto">
                   {filteredIssues.slice(0, 50).map((issue, index) => (
@@ -836,6 +777,11 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ data, onReportGenerat
                             <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded">
                               {issue.dimension}
                             </span>
+                            {issue.constraint && (
+                              <span className="text-xs font-mono text-purple-700 bg-purple-50 px-2 py-1 rounded">
+                                {issue.constraint}
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm text-gray-900 mb-2 font-medium">{issue.description}</p>
                           <p className="text-xs text-gray-600 mb-2">Column: <strong>{issue.column}</strong></p>
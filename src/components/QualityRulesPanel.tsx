@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { RotateCcw, Play } from 'lucide-react';
+import { DetailedIssue } from '../types';
+import {
+  COLUMN_TYPES,
+  ColumnSelector,
+  ColumnType,
+  DIMENSION_LABELS,
+  QualityRule,
+  QualityRuleOverride,
+  QualityRuleSettings,
+  RuleDimension,
+  compilePattern,
+  getQualityRules
+} from '../utils/qualityRules';
+
+interface QualityRulesPanelProps {
+  settings: QualityRuleSettings;
+  onApply: (settings: QualityRuleSettings) => void;
+}
+
+const DIMENSIONS: RuleDimension[] = ['invalid_format', 'value_range', 'inconsistent', 'unusual_pattern', 'sensitive_data'];
+const SEVERITIES: DetailedIssue['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const QualityRulesPanel: React.FC<QualityRulesPanelProps> = ({ settings, onApply }) => {
+  const [draft, setDraft] = useState<QualityRuleSettings>(settings);
+  const rules = getQualityRules();
+
+  const updateRule = (ruleId: string, patch: QualityRuleOverride) => {
+    setDraft(prev => ({ ...prev, [ruleId]: { ...prev[ruleId], ...patch } }));
+  };
+
+  const columnsOf = (rule: QualityRule): ColumnSelector => draft[rule.id]?.columns || rule.columns;
+
+  const updateColumns = (rule: QualityRule, patch: ColumnSelector) => {
+    updateRule(rule.id, { columns: { ...columnsOf(rule), ...patch } });
+  };
+
+  const toggleType = (rule: QualityRule, type: ColumnType) => {
+    const types = columnsOf(rule).types || [];
+    updateColumns(rule, { types: types.includes(type) ? types.filter(t => t !== type) : [...types, type] });
+  };
+
+  const hasInvalidPattern = rules.some(rule => {
+    const pattern = columnsOf(rule).pattern;
+    return pattern ? compilePattern(pattern) === null : false;
+  });
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Each rule checks the columns its selector matches. A column must match every criterion that is filled in:
+        exact names, a name pattern (regular expression) and detected types. Leave all three empty to check every column.
+      </p>
+
+      {DIMENSIONS.map(dimension => {
+        const dimensionRules = rules.filter(rule => rule.dimension === dimension);
+        if (dimensionRules.length === 0) return null;
+
+        return (
+          <div key={dimension}>
+            <h4 className="font-medium text-gray-900 mb-3">{DIMENSION_LABELS[dimension]}</h4>
+            <div className="space-y-3">
+              {dimensionRules.map(rule => {
+                const override = draft[rule.id] || {};
+                const enabled = override.enabled !== false;
+                const columns = columnsOf(rule);
+                const params = { ...rule.params, ...override.params };
+                const patternIsValid = !columns.pattern || compilePattern(columns.pattern) !== null;
+
+                return (
+                  <div key={rule.id} className={`bg-white border rounded-lg p-4 ${enabled ? '' : 'opacity-60'}`}>
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <label className="flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          checked={enabled}
+                          onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                          className="mt-1 rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+                        />
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                          <div className="text-xs text-gray-500">{rule.description}</div>
+                        </div>
+                      </label>
+                      <select
+                        value={override.severity || rule.severity}
+                        onChange={(e) => updateRule(rule.id, { severity: e.target.value as DetailedIssue['severity'] })}
+                        disabled={!enabled}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                      >
+                        {SEVERITIES.map(severity => (
+                          <option key={severity} value={severity}>{severity}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {enabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Column names</label>
+                          <input
+                            type="text"
+                            value={(columns.names || []).join(', ')}
+                            onChange={(e) => updateColumns(rule, {
+                              names: e.target.value.split(',').map(name => name.trim()).filter(name => name !== '')
+                            })}
+                            placeholder="Any column"
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Name pattern</label>
+                          <input
+                            type="text"
+                            value={columns.pattern || ''}
+                            onChange={(e) => updateColumns(rule, { pattern: e.target.value || undefined })}
+                            placeholder="Any name"
+                            className={`w-full px-2 py-1 border rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-kipi-primary ${
+                              patternIsValid ? 'border-gray-300' : 'border-red-300 bg-red-50'
+                            }`}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Column types</label>
+                          <div className="flex flex-wrap gap-1">
+                            {COLUMN_TYPES.map(type => {
+                              const selected = (columns.types || []).includes(type);
+                              return (
+                                <button
+                                  key={type}
+                                  onClick={() => toggleType(rule, type)}
+                                  className={`px-2 py-0.5 rounded-full text-xs border ${
+                                    selected ? 'bg-green-50 border-kipi-primary text-gray-900' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+                                  }`}
+                                >
+                                  {type}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                        {Object.entries(params).map(([name, value]) => (
+                          <div key={name}>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">{name}</label>
+                            <input
+                              type={typeof value === 'number' ? 'number' : 'text'}
+                              value={value}
+                              onChange={(e) => updateRule(rule.id, {
+                                params: {
+                                  ...override.params,
+                                  [name]: typeof value === 'number' ? Number(e.target.value) : e.target.value
+                                }
+                              })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={() => setDraft({})}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to Defaults
+        </button>
+        <button
+          onClick={() => onApply(draft)}
+          disabled={hasInvalidPattern}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Apply and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QualityRulesPanel;
@@ -0,0 +1,229 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, BookMarked, CheckCircle, Download, Play, Upload, X } from 'lucide-react';
+import { CSVData, CleaningOperation } from '../types';
+import {
+  CleaningRecipe,
+  RecipeBindings,
+  bindRecipe,
+  checkRecipe,
+  createRecipe,
+  datasetColumnTypes,
+  parseRecipe,
+  suggestBindings
+} from '../utils/cleaningRecipes';
+import { loadLocale } from '../utils/locale';
+import { ColumnType } from '../utils/qualityRules';
+import { loadTypeOverrides } from '../utils/typeInference';
+
+interface RecipePanelProps {
+  data: CSVData; // the current snapshot, which selected steps and loaded recipes run on
+  uploadedData: CSVData; // where the applied steps started; locale and type overrides are saved under its filename
+  selectedOperations: CleaningOperation[];
+  appliedOperations: CleaningOperation[];
+  busy: boolean;
+  onApply: (operations: CleaningOperation[]) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const severityClass = {
+  low: 'text-blue-700',
+  medium: 'text-yellow-700',
+  high: 'text-red-700',
+  critical: 'text-red-700'
+};
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ data, uploadedData, selectedOperations, appliedOperations, busy, onApply }) => {
+  const { filename } = uploadedData;
+  const [name, setName] = useState(`${filename.replace(/\.[^.]+$/, '')} cleaning`);
+  const [saveNote, setSaveNote] = useState<string | null>(null);
+  const [recipe, setRecipe] = useState<CleaningRecipe | null>(null);
+  const [bindings, setBindings] = useState<RecipeBindings>({});
+  const [columnTypes, setColumnTypes] = useState<{ [column: string]: ColumnType }>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const readColumnTypes = (source: CSVData) => datasetColumnTypes(source, loadLocale(filename), loadTypeOverrides(filename));
+
+  // Column types are read from the data the operations started on
+  const handleSave = (operations: CleaningOperation[], source: CSVData) => {
+    const { recipe: saved, skipped } = createRecipe(name.trim() || 'Cleaning recipe', operations, filename, readColumnTypes(source));
+    const blob = new Blob([JSON.stringify(saved, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${saved.name.replace(/[^\w-]+/g, '_')}.recipe.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    const hashNote = saved.operations.some(operation => operation.type === 'handle_sensitive' && operation.sensitiveAction === 'hash')
+      ? ' Hash salts are not saved, so hash steps get a new salt and new hashes each time the recipe runs.'
+      : '';
+    setSaveNote((skipped.length > 0
+      ? `Saved ${saved.operations.length} operations. ${skipped.length} duplicate merge${skipped.length > 1 ? 's were' : ' was'} left out, as they name rows of this file.`
+      : `Saved ${saved.operations.length} operations.`) + hashNote);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parseRecipe(await file.text());
+      const types = readColumnTypes(data);
+      setRecipe(loaded);
+      setColumnTypes(types);
+      setBindings(suggestBindings(loaded, data.headers, types));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read recipe file');
+    }
+  };
+
+  const issues = recipe ? checkRecipe(recipe, bindings, data.headers, columnTypes) : [];
+  const blocked = issues.some(issue => issue.kind === 'missing_column');
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <BookMarked className="w-5 h-5 text-kipi-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Cleaning Recipes</h3>
+          <p className="text-sm text-gray-600">
+            Save cleaning operations with their settings as a recipe file, and replay it on the next extract. Columns
+            and types are checked against the file before the recipe runs.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Recipe name</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} w-64`} />
+        </label>
+        <button
+          onClick={() => handleSave(selectedOperations, data)}
+          disabled={selectedOperations.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Save Selected ({selectedOperations.length})
+        </button>
+        <button
+          onClick={() => handleSave(appliedOperations, uploadedData)}
+          disabled={appliedOperations.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Save Applied ({appliedOperations.length})
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-secondary text-white rounded-lg hover:bg-blue-700"
+        >
+          <Upload className="w-4 h-4" />
+          Load Recipe
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleLoad} className="hidden" />
+      </div>
+
+      {saveNote && <p className="text-sm text-gray-600">{saveNote}</p>}
+
+      {loadError && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{loadError}</div>
+      )}
+
+      {recipe && (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between gap-3">
+            <div className="text-sm text-gray-700">
+              <strong>{recipe.name}</strong> · {recipe.operations.length} operations
+              {recipe.source && ` · saved from ${recipe.source}`}
+            </div>
+            <button onClick={() => setRecipe(null)} className="p-1 text-gray-500 hover:text-gray-700" title="Close recipe">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            <ol className="text-sm text-gray-700 list-decimal list-inside space-y-1">
+              {bindRecipe(recipe, bindings).map((operation, index) => (
+                <li key={index}>{operation.description}</li>
+              ))}
+            </ol>
+
+            {recipe.columns.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Recipe column</th>
+                    <th className="py-1 pr-4 font-medium">Saved type</th>
+                    <th className="py-1 pr-4 font-medium">Runs on</th>
+                    <th className="py-1 font-medium">Type here</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {recipe.columns.map(column => {
+                    const bound = bindings[column.name] || column.name;
+                    const found = data.headers.includes(bound);
+                    return (
+                      <tr key={column.name}>
+                        <td className="py-2 pr-4 font-medium text-gray-900">{column.name}</td>
+                        <td className="py-2 pr-4 text-gray-600">{column.type}</td>
+                        <td className="py-2 pr-4">
+                          <select
+                            value={found ? bound : ''}
+                            onChange={(e) => setBindings(prev => ({ ...prev, [column.name]: e.target.value }))}
+                            className={`${inputClass} ${found ? '' : 'border-red-400'}`}
+                          >
+                            {!found && <option value="">Not in this file</option>}
+                            {data.headers.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className={`py-2 ${found && columnTypes[bound] !== column.type ? 'text-yellow-700' : 'text-gray-600'}`}>
+                          {found ? columnTypes[bound] : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {issues.length > 0 ? (
+              <ul className="text-sm space-y-1">
+                {issues.map((issue, index) => (
+                  <li key={index} className={`flex items-start gap-2 ${severityClass[issue.severity]}`}>
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {issue.description}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                Every column the recipe uses is in this file with the type it was saved for.
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={() => onApply(bindRecipe(recipe, bindings))}
+                disabled={blocked || busy}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                {issues.length > 0 && !blocked ? 'Apply Recipe Anyway' : 'Apply Recipe'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipePanel;
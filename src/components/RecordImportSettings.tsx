@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, CheckCircle, X } from 'lucide-react';
+import { formatCellValue } from '../utils/cellValues';
+import { ArrayHandling, recordsToCSVData } from '../utils/recordImport';
+
+interface RecordImportSettingsProps {
+  filename: string;
+  format: string;
+  records: unknown[];
+  onConfirm: (arrays: ArrayHandling) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_RECORDS = 5;
+
+const arrayOptions: { id: ArrayHandling; label: string; description: string }[] = [
+  {
+    id: 'stringify',
+    label: 'Keep arrays in one cell',
+    description: 'Each record stays one row; array values are stored as JSON text.'
+  },
+  {
+    id: 'explode',
+    label: 'Explode arrays into rows',
+    description: 'Each array element gets its own row with the other fields repeated.'
+  }
+];
+
+const RecordImportSettings: React.FC<RecordImportSettingsProps> = ({ filename, format, records, onConfirm, onCancel }) => {
+  const [arrays, setArrays] = useState<ArrayHandling>('stringify');
+
+  const preview = useMemo(
+    () => recordsToCSVData(records.slice(0, PREVIEW_RECORDS), filename, arrays),
+    [records, filename, arrays]
+  );
+
+  return (
+    <div className="mt-6 border-2 border-blue-200 rounded-lg bg-white overflow-hidden">
+      <div className="px-6 py-4 bg-blue-50 border-b border-blue-200 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Braces className="w-5 h-5 text-kipi-secondary" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Nested Data Found</h3>
+            <p className="text-sm text-gray-600">
+              <strong>{filename}</strong> ({format}, {records.length.toLocaleString()} records) contains arrays.
+              Nested objects become dotted column names; choose how arrays are handled.
+            </p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-700 rounded-md hover:bg-blue-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {arrayOptions.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setArrays(option.id)}
+              className={`text-left border-2 rounded-lg p-4 transition-all ${
+                arrays === option.id ? 'border-kipi-primary bg-green-50' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="font-medium text-gray-900 mb-1">{option.label}</div>
+              <div className="text-xs text-gray-500">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="text-sm font-medium text-gray-700 mb-2">
+          Preview of the first {Math.min(PREVIEW_RECORDS, records.length)} records ({preview.rows.length} rows × {preview.headers.length} columns)
+        </div>
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                {preview.headers.map(header => (
+                  <th key={header} className="px-3 py-2 text-left font-medium text-gray-900 whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                      {cell === '' ? (
+                        <span className="text-gray-400 italic">empty</span>
+                      ) : (
+                        formatCellValue(cell).length > 40 ? formatCellValue(cell).substring(0, 40) + '...' : formatCellValue(cell)
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button
+            onClick={() => onConfirm(arrays)}
+            className="inline-flex items-center gap-2 px-6 py-2 rounded-md font-medium bg-kipi-primary text-white hover:bg-green-600"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Import Data
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordImportSettings;
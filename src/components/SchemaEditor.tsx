@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Plus, Trash2, Play, Wand2 } from 'lucide-react';
+import { CSVData } from '../types';
+import { DatasetSchema, SchemaColumn, inferSchema, parseSchema } from '../utils/datasetSchema';
+import { DatasetLocale } from '../utils/locale';
+import { COLUMN_TYPES, ColumnType } from '../utils/qualityRules';
+
+interface SchemaEditorProps {
+  data: CSVData;
+  schema: DatasetSchema | null;
+  locale: DatasetLocale | null;
+  onSave: (schema: DatasetSchema | null) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ data, schema, locale, onSave }) => {
+  const [draft, setDraft] = useState<DatasetSchema | null>(schema);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateColumn = (index: number, patch: Partial<SchemaColumn>) => {
+    if (!draft) return;
+    setDraft({ ...draft, columns: draft.columns.map((column, i) => (i === index ? { ...column, ...patch } : column)) });
+  };
+
+  const removeColumn = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, columns: draft.columns.filter((_, i) => i !== index) });
+  };
+
+  const addColumn = () => {
+    if (!draft) return;
+    setDraft({ ...draft, columns: [...draft.columns, { name: '', type: 'text', nullable: true }] });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(parseSchema(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read schema file');
+    }
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${data.filename.replace(/\.[^.]+$/, '')}.schema.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const hasUnnamedColumn = draft?.columns.some(column => column.name.trim() === '') ?? false;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        The schema describes the columns every upload of <strong>{data.filename}</strong> should have. Missing, added,
+        renamed and retyped columns are reported as schema drift before the quality analysis.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setDraft(inferSchema(data, locale))}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-secondary text-white rounded-lg hover:bg-blue-700"
+        >
+          <Wand2 className="w-4 h-4" />
+          {draft ? 'Re-capture from This Upload' : 'Capture from This Upload'}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <Upload className="w-4 h-4" />
+          Import Schema
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        {draft && (
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            Export Schema
+          </button>
+        )}
+      </div>
+
+      {importError && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{importError}</div>
+      )}
+
+      {draft ? (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-600">
+              <tr>
+                <th className="px-3 py-2">#</th>
+                <th className="px-3 py-2">Column</th>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2">Nullable</th>
+                <th className="px-3 py-2">Allowed values</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {draft.columns.map((column, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 text-gray-400">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={column.name}
+                      onChange={(e) => updateColumn(index, { name: e.target.value })}
+                      className={`${inputClass} w-full ${column.name.trim() === '' ? 'border-red-300 bg-red-50' : ''}`}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={column.type}
+                      onChange={(e) => updateColumn(index, { type: e.target.value as ColumnType })}
+                      className={inputClass}
+                    >
+                      {COLUMN_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={column.nullable}
+                      onChange={(e) => updateColumn(index, { nullable: e.target.checked })}
+                      className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={(column.allowedValues || []).join(', ')}
+                      onChange={(e) => {
+                        const values = e.target.value.split(',').map(value => value.trim()).filter(value => value !== '');
+                        updateColumn(index, { allowedValues: values.length > 0 ? values : undefined });
+                      }}
+                      placeholder="Any value"
+                      className={`${inputClass} w-full`}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => removeColumn(index)} className="p-1 text-gray-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="px-3 py-3 border-t flex items-center justify-between">
+            <button onClick={addColumn} className="inline-flex items-center gap-1 text-sm text-kipi-secondary hover:underline">
+              <Plus className="w-4 h-4" />
+              Add column
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enforceOrder}
+                onChange={(e) => setDraft({ ...draft, enforceOrder: e.target.checked })}
+                className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+              />
+              Enforce column order
+            </label>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-4 text-gray-500 text-sm">No schema defined for this dataset yet</div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {schema && (
+          <button
+            onClick={() => {
+              setDraft(null);
+              onSave(null);
+            }}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove Schema
+          </button>
+        )}
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!draft || hasUnnamedColumn}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Save and Re-run Analysis
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaEditor;
@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Search, Wand2, XCircle } from 'lucide-react';
+import { CSVData, CleaningSuggestion } from '../types';
+import { runAnalysisTask } from '../utils/analysisClient';
+import { isTaskCancelled } from '../utils/analysisTask';
+import { formatCellValue } from '../utils/cellValues';
+import { getColumnStore, getColumnValues } from '../utils/columnStore';
+import {
+  CLUSTERING_METHODS,
+  ClusteringMethod,
+  ValueCluster,
+  loadValueMappings,
+  saveValueMappings
+} from '../utils/valueClustering';
+
+interface ValueClusteringPanelProps {
+  data: CSVData;
+  onAddStep: (suggestion: CleaningSuggestion) => void;
+}
+
+interface ClusterDecision {
+  merge: boolean;
+  canonical: string;
+}
+
+const CLUSTERS_PER_PAGE = 20;
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-kipi-primary';
+
+const ValueClusteringPanel: React.FC<ValueClusteringPanelProps> = ({ data, onAddStep }) => {
+  const [column, setColumn] = useState(data.headers[0] || '');
+  const [method, setMethod] = useState<ClusteringMethod>('fingerprint');
+  const [ngramSize, setNgramSize] = useState(2);
+  const [clusters, setClusters] = useState<ValueCluster[] | null>(null);
+  const [clusteredColumn, setClusteredColumn] = useState('');
+  const [decisions, setDecisions] = useState<ClusterDecision[]>([]);
+  const [visibleCount, setVisibleCount] = useState(CLUSTERS_PER_PAGE);
+  const [isClustering, setIsClustering] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setColumn(data.headers[0] || '');
+    setClusters(null);
+    return () => abortRef.current?.abort();
+  }, [data]);
+
+  const clusterValues = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsClustering(true);
+    setError(null);
+    setProgress(0);
+
+    try {
+      const result = await runAnalysisTask('findValueClusters', data, { column, method, ngramSize }, {
+        signal: controller.signal,
+        onProgress: fraction => setProgress(fraction)
+      });
+      if (abortRef.current !== controller) return;
+      setClusters(result);
+      setClusteredColumn(column);
+      // The most frequent spelling is the suggested canonical value
+      setDecisions(result.map(cluster => ({ merge: true, canonical: cluster.values[0].value })));
+      setVisibleCount(CLUSTERS_PER_PAGE);
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      if (!isTaskCancelled(err)) setError(err instanceof Error ? err.message : 'Clustering failed');
+    } finally {
+      if (abortRef.current === controller) setIsClustering(false);
+    }
+  };
+
+  const cancelClustering = () => {
+    abortRef.current?.abort();
+    setIsClustering(false);
+  };
+
+  const decide = (index: number, patch: Partial<ClusterDecision>) => {
+    setDecisions(prev => prev.map((decision, i) => (i === index ? { ...decision, ...patch } : decision)));
+  };
+
+  // Saves the approved mappings with any earlier ones for the column and adds
+  // one standardization step that applies them all
+  const addStep = () => {
+    if (!clusters) return;
+    const approved: { [value: string]: string } = {};
+    const changes: { original: string; standardized: string; count: number }[] = [];
+    clusters.forEach((cluster, index) => {
+      const { merge, canonical } = decisions[index];
+      if (!merge || canonical.trim() === '') return;
+      cluster.values.forEach(({ value, count }) => {
+        if (value === canonical) return;
+        approved[value] = canonical;
+        changes.push({ original: value, standardized: canonical, count });
+      });
+    });
+    if (changes.length === 0) return;
+
+    const saved = loadValueMappings(data.filename);
+    const mappings = { ...saved[clusteredColumn], ...approved };
+    saveValueMappings(data.filename, { ...saved, [clusteredColumn]: mappings });
+
+    const affectedRows: number[] = [];
+    getColumnValues(getColumnStore(data), data.headers.indexOf(clusteredColumn)).forEach((value, rowIndex) => {
+      if (approved[formatCellValue(value)] !== undefined) affectedRows.push(rowIndex);
+    });
+    const preview = changes.sort((a, b) => b.count - a.count).slice(0, 10);
+    onAddStep({
+      id: `standardize_values_${clusteredColumn}`,
+      title: `Apply Value Mappings in "${clusteredColumn}"`,
+      description: `${affectedRows.length} values in ${changes.length} spellings will be replaced with their canonical value. The mappings are saved with the dataset.`,
+      issues: affectedRows.length,
+      operation: {
+        type: 'standardize',
+        column: clusteredColumn,
+        mappings,
+        description: `Map ${Object.keys(mappings).length} spellings to canonical values in ${clusteredColumn}`
+      },
+      affectedRows,
+      affectedColumns: [clusteredColumn],
+      previewData: {
+        before: preview,
+        after: preview
+      }
+    });
+  };
+
+  const approvedCount = decisions.filter(decision => decision.merge).length;
+
+  return (
+    <div className="bg-white border rounded-lg p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Layers className="w-5 h-5 text-kipi-primary" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Value Clustering</h3>
+          <p className="text-sm text-gray-600">
+            Group different spellings of the same value, such as "New York", "new york" and "New-York", and pick the
+            canonical one. Approved mappings are saved with the dataset and offered again on the next upload.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Column</span>
+          <select value={column} onChange={(e) => setColumn(e.target.value)} className={selectClass}>
+            {data.headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-gray-700">
+          <span className="block mb-1">Method</span>
+          <select value={method} onChange={(e) => setMethod(e.target.value as ClusteringMethod)} className={selectClass}>
+            {CLUSTERING_METHODS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {method === 'ngram' && (
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">N-gram size</span>
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={ngramSize}
+              onChange={(e) => setNgramSize(Math.min(5, Math.max(1, Number(e.target.value))))}
+              className={`${selectClass} w-20`}
+            />
+          </label>
+        )}
+        <button
+          onClick={clusterValues}
+          disabled={!column || isClustering}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          {isClustering ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              Clustering... {Math.round(progress * 100)}%
+            </>
+          ) : (
+            <>
+              <Search className="w-4 h-4" />
+              Cluster Values
+            </>
+          )}
+        </button>
+        {isClustering && (
+          <button
+            onClick={cancelClustering}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">{error}</div>
+      )}
+
+      {clusters && clusters.length === 0 && (
+        <div className="text-sm text-green-700 bg-green-50 border border-green-200 rounded p-3">
+          No clusters in "{clusteredColumn}" with this method. Try another method for looser matching.
+        </div>
+      )}
+
+      {clusters && clusters.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {clusters.length} clusters in "{clusteredColumn}". Untick clusters that are not the same value.
+            </p>
+            <button
+              onClick={addStep}
+              disabled={approvedCount === 0}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-kipi-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+            >
+              <Wand2 className="w-4 h-4" />
+              Add to Cleaning Operations
+            </button>
+          </div>
+
+          {clusters.slice(0, visibleCount).map((cluster, index) => {
+            const decision = decisions[index];
+            return (
+              <div key={cluster.key} className={`border rounded-lg p-4 ${decision.merge ? 'bg-white' : 'bg-gray-50 opacity-75'}`}>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={decision.merge}
+                      onChange={(e) => decide(index, { merge: e.target.checked })}
+                      className="rounded border-gray-300 text-kipi-primary focus:ring-kipi-primary"
+                    />
+                    Merge {cluster.values.length} spellings ({cluster.rowCount} rows)
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Canonical value
+                    <input
+                      type="text"
+                      list={`canonical-${index}`}
+                      value={decision.canonical}
+                      onChange={(e) => decide(index, { canonical: e.target.value })}
+                      disabled={!decision.merge}
+                      className={`${selectClass} w-56`}
+                    />
+                    <datalist id={`canonical-${index}`}>
+                      {cluster.values.map(item => (
+                        <option key={item.value} value={item.value} />
+                      ))}
+                    </datalist>
+                  </label>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {cluster.values.map(item => (
+                    <button
+                      key={item.value}
+                      onClick={() => decide(index, { canonical: item.value })}
+                      disabled={!decision.merge}
+                      className={`px-2 py-1 rounded text-xs border font-mono ${
+                        item.value === decision.canonical
+                          ? 'bg-green-50 border-kipi-primary text-gray-900'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                      title="Use as canonical value"
+                    >
+                      "{item.value}" × {item.count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {clusters.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + CLUSTERS_PER_PAGE)}
+              className="w-full py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Show {Math.min(CLUSTERS_PER_PAGE, clusters.length - visibleCount)} more of {clusters.length - visibleCount} remaining clusters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValueClusteringPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Table, CheckCircle, X } from 'lucide-react';
+import { WorkbookSheetInfo, isValidCellRange } from '../utils/xlsxImport';
+
+interface WorkbookSheetPickerProps {
+  filename: string;
+  sheets: WorkbookSheetInfo[];
+  onConfirm: (sheetName: string, range?: string) => void;
+  onCancel: () => void;
+}
+
+const WorkbookSheetPicker: React.FC<WorkbookSheetPickerProps> = ({ filename, sheets, onConfirm, onCancel }) => {
+  const firstWithData = sheets.find(sheet => sheet.range !== null) ?? sheets[0];
+  const [selectedSheet, setSelectedSheet] = useState(firstWithData?.name ?? '');
+  const [range, setRange] = useState('');
+
+  const rangeIsValid = range.trim() === '' || isValidCellRange(range);
+  const selected = sheets.find(sheet => sheet.name === selectedSheet);
+  const canImport = selected !== undefined && selected.range !== null && rangeIsValid;
+
+  return (
+    <div className="mt-6 border-2 border-blue-200 rounded-lg bg-white overflow-hidden">
+      <div className="px-6 py-4 bg-blue-50 border-b border-blue-200 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Table className="w-5 h-5 text-kipi-secondary" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Choose a Sheet</h3>
+            <p className="text-sm text-gray-600">
+              <strong>{filename}</strong> contains {sheets.length} sheet{sheets.length === 1 ? '' : 's'}. Pick the one to analyze.
+            </p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-700 rounded-md hover:bg-blue-100">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mb-6">
+          {sheets.map(sheet => {
+            const isSelected = sheet.name === selectedSheet;
+            const isEmpty = sheet.range === null;
+            return (
+              <button
+                key={sheet.name}
+                onClick={() => !isEmpty && setSelectedSheet(sheet.name)}
+                disabled={isEmpty}
+                className={`text-left border-2 rounded-lg p-4 transition-all ${
+                  isSelected
+                    ? 'border-kipi-primary bg-green-50'
+                    : isEmpty
+                    ? 'border-gray-200 bg-gray-50 cursor-not-allowed'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className={`font-medium mb-1 ${isEmpty ? 'text-gray-400' : 'text-gray-900'}`}>{sheet.name}</div>
+                <div className="text-xs text-gray-500">
+                  {isEmpty ? 'Empty sheet' : `${sheet.rows.toLocaleString()} rows × ${sheet.columns} columns · ${sheet.range}`}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="max-w-sm">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Cell range <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <input
+            type="text"
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            placeholder={selected?.range ?? 'A1:F100'}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-kipi-primary ${
+              rangeIsValid ? 'border-gray-300' : 'border-red-300 bg-red-50'
+            }`}
+          />
+          <p className={`mt-1 text-xs ${rangeIsValid ? 'text-gray-500' : 'text-red-600'}`}>
+            {rangeIsValid
+              ? 'Leave empty to import the whole sheet. The first row of the range is used as the header.'
+              : 'Use Excel notation, e.g. B3:H200'}
+          </p>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button
+            onClick={() => onConfirm(selectedSheet, range.trim() || undefined)}
+            disabled={!canImport}
+            className="inline-flex items-center gap-2 px-6 py-2 rounded-md font-medium bg-kipi-primary text-white hover:bg-green-600 disabled:opacity-50"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Import Sheet
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookSheetPicker;
@@ -1,7 +1,31 @@
+// Text sources (CSV) produce strings and numbers; typed sources such as
+// Excel workbooks also keep booleans and dates.
+export type CellValue = string | number | boolean | Date;
+
 export interface CSVData {
   headers: string[];
-  rows: (string | number)[][];
+  rows: CellValue[][];
   filename: string;
+  parseErrors?: CSVParseError[];
+  dialect?: CSVDialect; // set for CSV files
+}
+
+// How a CSV file was written, so an export can write it back the same way
+export interface CSVDialect {
+  delimiter: string;
+  quote: string;
+  encoding: 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+  hasBOM: boolean;
+  lineEnding: '\r\n' | '\n' | '\r'; // of the first record
+  finalLineBreak: boolean; // the last record ends with a line break
+}
+
+export interface CSVParseError {
+  code: 'unterminated_quote' | 'unexpected_quote' | 'too_few_fields' | 'too_many_fields';
+  row: number;    // 1-based record number, header included
+  column: number; // 1-based field number
+  line: number;   // 1-based physical line in the file
+  message: string;
 }
 
 export interface QualityReport {
@@ -48,9 +72,119 @@ export interface QualityReport {
   recommendations: string[];
 }
 
+// One cluster of likely duplicate records: the kept row survives and the others
+// are removed, after filling the kept row's empty cells from them when merging
+export interface DuplicateResolution {
+  keep: number;     // rows of the original data
+  remove: number[];
+  merge: boolean;
+}
+
 export interface CleaningOperation {
-  type: 'remove_duplicates' | 'fill_missing' | 'remove_outliers' | 'standardize' | 'fix_format' | 'handle_sensitive';
+  type: 'remove_duplicates' | 'fill_missing' | 'remove_outliers' | 'standardize' | 'fix_format' | 'handle_sensitive' | 'normalize_dates' | 'merge_duplicates' | 'dedupe_by_key'
+    | 'split_column' | 'merge_columns' | 'rename_column' | 'drop_columns' | 'reorder_columns' | 'change_type' | 'extract_pattern';
   column?: string;
   value?: any;
+  rows?: number[]; // limit the operation to these rows of the original data
+  dateFormat?: string; // normalize_dates: the column's dominant format, which ambiguous values are read in
+  clusters?: DuplicateResolution[]; // merge_duplicates: how each cluster of likely duplicates is resolved
+  mappings?: { [value: string]: string }; // standardize: canonical value for each spelling; without it text is trimmed and lowercased
+  keyColumns?: string[]; // dedupe_by_key: the candidate key rows are grouped by
+  keep?: 'first' | 'last' | 'most_complete' | 'max' | 'min'; // dedupe_by_key: which row of a group survives; max and min use column
+  strategy?: 'constant' | 'mean' | 'median' | 'mode' | 'forward_fill' | 'backward_fill' | 'interpolate' | 'group' | 'knn'; // fill_missing: how values are imputed; without it value is used
+  sortColumn?: string; // fill_missing: the order forward/backward fill and interpolation read rows in
+  groupColumn?: string; // fill_missing: rows are imputed from their group for the group strategy
+  neighbors?: number; // fill_missing: k for the knn strategy
+  bounds?: { lower: number; upper: number }; // remove_outliers: the fences as previewed; values outside them are outliers
+  outlierAction?: 'remove' | 'cap'; // remove_outliers: delete the rows (default) or cap the values at the fences
+  format?: 'phone' | 'email' | 'numeric'; // fix_format: how the column's values are rewritten
+  countryCode?: string; // fix_format: calling code for phone numbers written without one, e.g. "1" or "44"
+  sensitiveAction?: 'mask' | 'hash' | 'tokenize' | 'drop'; // handle_sensitive: how the column is protected
+  salt?: string; // handle_sensitive: prepended to each value before hashing
+  columns?: string[]; // merge_columns: the columns the template reads; drop_columns: the columns removed; reorder_columns: the new order, unlisted columns follow
+  delimiter?: string; // split_column: the text values are split at
+  pattern?: string; // split_column: regular expression values are split at instead of delimiter; extract_pattern: regular expression whose capture groups are extracted
+  newColumns?: string[]; // split_column, extract_pattern: names of the columns created, in order
+  newName?: string; // rename_column: the column's new name; merge_columns: name of the column created
+  template?: string; // merge_columns: the merged value, with {column} placeholders, e.g. "{first} {last}"
+  dropSource?: boolean; // split_column, extract_pattern, merge_columns: remove the columns the new ones were made from
+  targetType?: 'text' | 'integer' | 'decimal' | 'boolean' | 'date'; // change_type: what values are converted to; values that do not convert are left as they are
+  description: string;
+}
+
+export interface DetailedIssue {
+  type: 'missing' | 'duplicate' | 'invalid_format' | 'value_range' | 'inconsistent' | 'unusual_pattern' | 'sensitive_data';
+  column: string;
+  rowIndex: number;
+  value: CellValue | CellValue[]; // duplicates: the whole row, or the cells of a repeated key
   description: string;
-}
\ No newline at end of file
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  dimension: string;
+  recommendation: string;
+  constraint?: string; // violated contract constraint, e.g. "maximum: 100"
+}
+
+// Totals over every issue found, including those beyond the per-dimension detail cap
+export interface IssueCounts {
+  total: number;
+  byType: { [type in DetailedIssue['type']]: number };
+  bySeverity: { [severity in DetailedIssue['severity']]: number };
+}
+
+// Difference between an upload and the dataset's saved schema, reported
+// separately from the 7-dimension issues
+export interface SchemaDriftIssue {
+  kind: 'missing_column' | 'added_column' | 'renamed_column' | 'retyped_column' | 'reordered_columns' | 'nullability' | 'allowed_values';
+  column: string;
+  expected?: string;
+  actual?: string;
+  description: string;
+  severity: DetailedIssue['severity'];
+}
+
+// One example in a step's preview: a row, a group of rows or a spelling. Which
+// fields are set depends on the operation the preview belongs to.
+export interface CleaningPreviewItem {
+  rowIndex?: number;
+  rowNumber?: number; // rowIndex + 1, as shown to the user
+  columnIndex?: number;
+  data?: CellValue[]; // remove_duplicates: the duplicate row
+  originalIndex?: number; // remove_duplicates: the row it duplicates
+  rowData?: CellValue[]; // the whole row, for context
+  value?: CellValue;
+  newValue?: CellValue; // fill_missing, remove_outliers: the value written; undefined while it is computed
+  reason?: string;
+  bounds?: { lower: number; upper: number };
+  original?: string; // the text before the step
+  normalized?: string; // normalize_dates
+  format?: string; // normalize_dates: the format the date was read as
+  fixed?: CellValue; // fix_format
+  standardized?: string; // standardize
+  count?: number; // standardize: rows with this spelling; dedupe_by_key: rows with this key
+  mask?: CellValue; // handle_sensitive: the value under each action
+  hash?: CellValue;
+  tokenize?: CellValue;
+  key?: CellValue[]; // dedupe_by_key
+  rows?: { rowNumber: number; data: CellValue[] }[]; // dedupe_by_key: the first rows with the key
+  keep?: number; // merge_duplicates: row numbers kept and removed
+  remove?: number[];
+  merge?: boolean;
+  values?: [string, string][]; // column transforms: [column, text] of the columns read or written
+  headers?: string[]; // drop_columns, reorder_columns
+}
+
+// Serializable part of a cleaning step, produced by the analysis worker
+export interface CleaningSuggestion {
+  id: string;
+  title: string;
+  description: string;
+  issues: number;
+  operation: CleaningOperation;
+  affectedRows: number[];
+  affectedColumns: string[];
+  previewData?: {
+    before: CleaningPreviewItem[];
+    after: CleaningPreviewItem[];
+  };
+}
+
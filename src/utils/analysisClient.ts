@@ -0,0 +1,137 @@
+import { CSVData } from '../types';
+import { TaskCancelledError, createTaskContext } from './analysisTask';
+import {
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisTaskName,
+  AnalysisTaskParams,
+  AnalysisTaskResult,
+  runTaskByName
+} from './analysisTasks';
+import { toColumnarData } from './columnStore';
+
+export interface AnalysisTaskOptions {
+  onProgress?: (fraction: number, stage?: string) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  onProgress?: (fraction: number, stage?: string) => void;
+}
+
+// Datasets kept in the worker at once; the least recently used one is released
+const MAX_LOADED_DATASETS = 4;
+
+let worker: Worker | null = null;
+let nextTaskId = 1;
+let nextDatasetId = 1;
+const pending = new Map<number, PendingTask>();
+const datasetIds = new WeakMap<CSVData, number>();
+let loadedDatasets: number[] = [];
+
+const handleMessage = (event: MessageEvent<AnalysisResponse>) => {
+  const message = event.data;
+  const task = pending.get(message.taskId);
+  if (!task) return;
+
+  switch (message.type) {
+    case 'progress':
+      task.onProgress?.(message.fraction, message.stage);
+      break;
+    case 'result':
+      pending.delete(message.taskId);
+      task.resolve(message.result);
+      break;
+    case 'error':
+      pending.delete(message.taskId);
+      task.reject(message.cancelled ? new TaskCancelledError() : new Error(message.message));
+      break;
+  }
+};
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = event => {
+      // A crashed worker fails every task in flight; the next task starts a fresh one
+      const err = new Error(event.message || 'Analysis worker failed');
+      pending.forEach(task => task.reject(err));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      loadedDatasets = [];
+    };
+  }
+  return worker;
+};
+
+const post = (request: AnalysisRequest) => getWorker().postMessage(request);
+
+// Copies the dataset into the worker the first time it is used
+const ensureLoaded = (data: CSVData): number => {
+  let datasetId = datasetIds.get(data);
+  if (datasetId === undefined) {
+    datasetId = nextDatasetId++;
+    datasetIds.set(data, datasetId);
+  }
+
+  if (loadedDatasets.includes(datasetId)) {
+    loadedDatasets = [...loadedDatasets.filter(id => id !== datasetId), datasetId];
+  } else {
+    post({ type: 'load', datasetId, data: toColumnarData(data) });
+    loadedDatasets = [...loadedDatasets, datasetId];
+    while (loadedDatasets.length > MAX_LOADED_DATASETS) {
+      post({ type: 'release', datasetId: loadedDatasets[0] });
+      loadedDatasets = loadedDatasets.slice(1);
+    }
+  }
+  return datasetId;
+};
+
+// Runs an analysis task in the background worker. Aborting the signal rejects
+// with TaskCancelledError right away and tells the worker to stop.
+export const runAnalysisTask = <K extends AnalysisTaskName>(
+  task: K,
+  data: CSVData,
+  params: AnalysisTaskParams<K>,
+  options: AnalysisTaskOptions = {}
+): Promise<AnalysisTaskResult<K>> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) return Promise.reject(new TaskCancelledError());
+
+  // Environments without workers run the task on the main thread
+  if (typeof Worker === 'undefined') {
+    const ctx = createTaskContext(() => !!signal?.aborted, onProgress);
+    return runTaskByName(task, data, params, ctx) as Promise<AnalysisTaskResult<K>>;
+  }
+
+  return new Promise((resolve, reject) => {
+    const taskId = nextTaskId++;
+    const datasetId = ensureLoaded(data);
+
+    const onAbort = () => {
+      if (!pending.has(taskId)) return;
+      pending.delete(taskId);
+      post({ type: 'cancel', taskId });
+      reject(new TaskCancelledError());
+    };
+
+    pending.set(taskId, {
+      resolve: result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as AnalysisTaskResult<K>);
+      },
+      reject: err => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+      onProgress
+    });
+    signal?.addEventListener('abort', onAbort);
+
+    post({ type: 'run', taskId, datasetId, task, params });
+  });
+};
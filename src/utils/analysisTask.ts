@@ -0,0 +1,55 @@
+// Long-running analysis functions take a TaskContext so the same code can run
+// inside the analysis worker (with progress and cancellation) or directly.
+export interface TaskContext {
+  // fraction of the whole task in [0, 1], with an optional label for the current stage
+  progress: (fraction: number, stage?: string) => void;
+  // Gives pending messages a chance to run; throws TaskCancelledError once the task is cancelled
+  checkpoint: () => Promise<void>;
+}
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Task was cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+export const isTaskCancelled = (err: unknown) =>
+  err instanceof Error && err.name === 'TaskCancelledError';
+
+// Rows processed between checkpoint calls in row loops
+export const CHECKPOINT_INTERVAL = 5000;
+
+// Yielding costs a timer tick, so only actually yield every YIELD_EVERY_MS
+const YIELD_EVERY_MS = 50;
+
+export const createTaskContext = (
+  isCancelled: () => boolean,
+  onProgress?: (fraction: number, stage?: string) => void
+): TaskContext => {
+  let lastYield = Date.now();
+  let lastProgress = 0;
+  let lastStage: string | undefined;
+
+  return {
+    progress: (fraction, stage) => {
+      const now = Date.now();
+      if (onProgress && (fraction >= 1 || stage !== lastStage || now - lastProgress >= YIELD_EVERY_MS)) {
+        lastProgress = now;
+        lastStage = stage;
+        onProgress(Math.min(1, Math.max(0, fraction)), stage);
+      }
+    },
+    checkpoint: async () => {
+      if (Date.now() - lastYield >= YIELD_EVERY_MS) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        lastYield = Date.now();
+      }
+      if (isCancelled()) {
+        throw new TaskCancelledError();
+      }
+    }
+  };
+};
+
+export const directContext: TaskContext = createTaskContext(() => false);
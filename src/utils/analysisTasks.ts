@@ -0,0 +1,94 @@
+import { CSVData, CleaningOperation } from '../types';
+import { TaskContext } from './analysisTask';
+import { CandidateKey } from './candidateKeys';
+import { ColumnarData } from './columnStore';
+import { SnapshotDiff, applyCleaningSteps, materializeSnapshot } from './cleaningHistory';
+import { applyCleaningOperations } from './cleaningOperations';
+import { suggestCleaningSteps } from './cleaningSuggestions';
+import { profileColumns } from './columnProfile';
+import { previewImputation } from './imputation';
+import { DatasetLocale } from './locale';
+import { DatasetOutlierSettings, summarizeOutliers } from './outliers';
+import { PreviewQuery, queryRows } from './previewQuery';
+import { QualityAnalysisOptions, analyzeQuality } from './qualityAnalysis';
+import { RecordMatchSettings, findDuplicateClusters } from './recordMatching';
+import { TypeOverrides } from './typeInference';
+import { ValueClusterOptions, ValueMappings, findValueClusters } from './valueClustering';
+
+// Every task the analysis worker can run. Params and results cross the worker
+// boundary, so they must be structured-cloneable.
+export const analysisTasks = {
+  analyzeQuality: (data: CSVData, params: QualityAnalysisOptions, ctx: TaskContext) =>
+    analyzeQuality(data, ctx, params),
+  suggestCleaningSteps: (
+    data: CSVData,
+    params: {
+      locale?: DatasetLocale | null;
+      candidateKeys?: CandidateKey[];
+      valueMappings?: ValueMappings;
+      outlierSettings?: DatasetOutlierSettings | null;
+      typeOverrides?: TypeOverrides;
+      sensitiveColumns?: { [column: string]: string[] };
+    },
+    ctx: TaskContext
+  ) => suggestCleaningSteps(
+    data,
+    ctx,
+    params.locale,
+    params.candidateKeys,
+    params.valueMappings,
+    params.outlierSettings,
+    params.typeOverrides,
+    params.sensitiveColumns
+  ),
+  applyCleaning: (data: CSVData, params: { operations: CleaningOperation[]; locale?: DatasetLocale | null }, ctx: TaskContext) =>
+    applyCleaningOperations(data, params.operations, ctx, params.locale),
+  applyCleaningSteps: (
+    data: CSVData,
+    params: { operations: CleaningOperation[]; rowIds: number[]; locale?: DatasetLocale | null },
+    ctx: TaskContext
+  ) => applyCleaningSteps(data, params.operations, params.rowIds, ctx, params.locale),
+  materializeSnapshot: (data: CSVData, params: { diffs: SnapshotDiff[] }, ctx: TaskContext) =>
+    materializeSnapshot(data, params.diffs, ctx),
+  queryRows: (data: CSVData, params: PreviewQuery, ctx: TaskContext) =>
+    queryRows(data, params, ctx),
+  profileColumns: (data: CSVData, _params: Record<string, never>, ctx: TaskContext) =>
+    profileColumns(data, ctx),
+  findDuplicateClusters: (data: CSVData, params: { settings: RecordMatchSettings }, ctx: TaskContext) =>
+    findDuplicateClusters(data, params.settings, ctx),
+  findValueClusters: (data: CSVData, params: ValueClusterOptions, ctx: TaskContext) =>
+    findValueClusters(data, params, ctx),
+  previewImputation: (
+    data: CSVData,
+    params: { operation: CleaningOperation; rows: number[]; locale?: DatasetLocale | null },
+    ctx: TaskContext
+  ) => previewImputation(data, params.operation, params.rows, ctx, params.locale),
+  summarizeOutliers: (
+    data: CSVData,
+    params: { settings: DatasetOutlierSettings | null; locale?: DatasetLocale | null },
+    ctx: TaskContext
+  ) => summarizeOutliers(data, params.settings, ctx, params.locale)
+};
+
+export type AnalysisTaskName = keyof typeof analysisTasks;
+export type AnalysisTaskParams<K extends AnalysisTaskName> = Parameters<typeof analysisTasks[K]>[1];
+export type AnalysisTaskResult<K extends AnalysisTaskName> = Awaited<ReturnType<typeof analysisTasks[K]>>;
+
+type UntypedTask = (data: CSVData, params: unknown, ctx: TaskContext) => Promise<unknown>;
+
+// Dispatch by name for callers that only have the task name at runtime
+export const runTaskByName = (task: AnalysisTaskName, data: CSVData, params: unknown, ctx: TaskContext) =>
+  (analysisTasks[task] as UntypedTask)(data, params, ctx);
+
+// Datasets are loaded once per worker and referenced by id, so running several
+// tasks on the same file does not copy the columns every time.
+export type AnalysisRequest =
+  | { type: 'load'; datasetId: number; data: ColumnarData }
+  | { type: 'release'; datasetId: number }
+  | { type: 'run'; taskId: number; datasetId: number; task: AnalysisTaskName; params: unknown }
+  | { type: 'cancel'; taskId: number };
+
+export type AnalysisResponse =
+  | { type: 'progress'; taskId: number; fraction: number; stage?: string }
+  | { type: 'result'; taskId: number; result: unknown }
+  | { type: 'error'; taskId: number; message: string; cancelled: boolean };
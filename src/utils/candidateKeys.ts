@@ -0,0 +1,86 @@
+import { CellValue, CleaningOperation } from '../types';
+import { rowKey } from './cellValues';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { LocaleSettings, parseLocaleDate } from './locale';
+
+// Columns whose values together should identify a row, such as order_id or
+// customer_id + date; the rest of a duplicated row may differ
+export type CandidateKey = string[];
+
+// Which row of a group sharing a key survives
+export type KeepStrategy = NonNullable<CleaningOperation['keep']>;
+
+export const KEEP_STRATEGIES: { value: KeepStrategy; label: string }[] = [
+  { value: 'first', label: 'Keep the first row' },
+  { value: 'last', label: 'Keep the last row' },
+  { value: 'most_complete', label: 'Keep the most complete row' },
+  { value: 'max', label: 'Keep the row with the highest value in' },
+  { value: 'min', label: 'Keep the row with the lowest value in' }
+];
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+export const candidateKeyLabel = (key: CandidateKey) => key.join(' + ');
+
+// Groups of rows (in order) that share a key; rows with an empty key cell are not grouped
+export const groupByKey = (rowCount: number, keyCells: (rowIndex: number) => CellValue[]): number[][] => {
+  const groups = new Map<string, number[]>();
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    const cells = keyCells(rowIndex);
+    if (cells.some(isEmptyCell)) continue;
+    const key = rowKey(cells);
+    const group = groups.get(key);
+    if (group) group.push(rowIndex);
+    else groups.set(key, [rowIndex]);
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Numbers compare as numbers and dates, including date text, by time; other values cannot be compared
+export const orderingValue = (value: CellValue, settings: LocaleSettings): number | null => {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string' || value === '') return null;
+  const date = parseLocaleDate(value, settings);
+  return date ? date.getTime() : null;
+};
+
+// The surviving row of a group. For max and min, rows without a comparable value
+// lose to rows with one; ties go to the earlier row.
+export const chooseSurvivor = (
+  group: number[],
+  strategy: KeepStrategy,
+  filledCount: (rowIndex: number) => number,
+  orderValue: (rowIndex: number) => number | null
+): number => {
+  switch (strategy) {
+    case 'last':
+      return group[group.length - 1];
+    case 'most_complete':
+      return group.reduce((best, row) => (filledCount(row) > filledCount(best) ? row : best), group[0]);
+    case 'max':
+    case 'min': {
+      let best = group[0];
+      let bestValue = orderValue(best);
+      group.slice(1).forEach(row => {
+        const value = orderValue(row);
+        if (value === null) return;
+        if (bestValue === null || (strategy === 'max' ? value > bestValue : value < bestValue)) {
+          best = row;
+          bestValue = value;
+        }
+      });
+      return best;
+    }
+    default:
+      return group[0];
+  }
+};
+
+const STORAGE_KEY = 'dataset_candidate_keys';
+
+export const loadCandidateKeys = (filename: string): CandidateKey[] =>
+  loadDatasetSetting<CandidateKey[]>(STORAGE_KEY, filename) ?? [];
+
+export const saveCandidateKeys = (filename: string, keys: CandidateKey[]) =>
+  saveDatasetSetting(STORAGE_KEY, filename, keys.length > 0 ? keys : null);
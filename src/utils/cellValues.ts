@@ -0,0 +1,36 @@
+import { CellValue } from '../types';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Display/export text for a cell. Dates without a time part print as YYYY-MM-DD.
+export const formatCellValue = (cell: CellValue): string => {
+  if (cell instanceof Date) {
+    if (isNaN(cell.getTime())) return '';
+    const date = `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+    if (cell.getHours() === 0 && cell.getMinutes() === 0 && cell.getSeconds() === 0) return date;
+    return `${date} ${pad(cell.getHours())}:${pad(cell.getMinutes())}:${pad(cell.getSeconds())}`;
+  }
+  return String(cell);
+};
+
+// Text the analyzer counts as missing besides empty cells; pandas and most
+// loaders read these as nulls too
+export const MISSING_TOKENS = ['null', 'NULL', 'N/A', 'n/a'];
+
+export const isMissingValue = (val: CellValue | null | undefined) =>
+  val === '' || val === null || val === undefined || (typeof val === 'string' && MISSING_TOKENS.includes(val));
+
+// Identity key for exact-duplicate detection. Cheaper than JSON.stringify and,
+// like it, keeps 1 and "1" apart.
+export const rowKey = (row: CellValue[]): string => {
+  let key = '';
+  for (let i = 0; i < row.length; i++) {
+    const cell = row[i];
+    if (typeof cell === 'number') key += 'n' + cell;
+    else if (typeof cell === 'boolean') key += cell ? 'T' : 'F';
+    else if (cell instanceof Date) key += 'd' + cell.getTime();
+    else key += 's' + cell;
+    key += '\u0001';
+  }
+  return key;
+};
@@ -0,0 +1,495 @@
+import { CSVData, CellValue } from '../types';
+import { CandidateKey, candidateKeyLabel } from './candidateKeys';
+import { MISSING_TOKENS, formatCellValue, isMissingValue } from './cellValues';
+import { getColumnStore, getColumnValues, getRawColumnValues } from './columnStore';
+import { DateFormatDetection, DateFormatId, dateFormatPattern } from './dateFormats';
+import { DatasetSchema } from './datasetSchema';
+import { ComparisonOperator, Expectation, describeExpectation } from './expectations';
+import { PipelineFile, identifierName } from './pipelineExport';
+import { QualityRuleSettings, columnMatches, resolveRules } from './qualityRules';
+import { EMAIL_PATTERN, TypeInference, typeFamily } from './typeInference';
+import { ValidationContract } from './validationContract';
+
+export type CheckSuiteTarget = 'great_expectations' | 'soda';
+
+export const CHECK_SUITE_TARGETS: { value: CheckSuiteTarget; label: string; description: string }[] = [
+  { value: 'great_expectations', label: 'Great Expectations', description: 'Expectation suite (JSON) for GX 1.x' },
+  { value: 'soda', label: 'Soda', description: 'checks.yml for Soda Core and Soda Cloud' }
+];
+
+export interface CheckSuiteOptions {
+  columnTypes: { [column: string]: TypeInference }; // from the quality analysis, with overrides applied
+  dateFormats: { [column: string]: DateFormatDetection };
+  duplicateRows: number;
+  ruleSettings?: QualityRuleSettings;
+  expectations?: Expectation[];
+  schema?: DatasetSchema | null;
+  contract?: ValidationContract | null;
+  candidateKeys?: CandidateKey[];
+}
+
+export interface CheckSuiteExport {
+  files: PipelineFile[];
+  warnings: string[];
+}
+
+// A check in neither tool's terms. `mostly` is the share of non-missing values
+// that must pass: 1 for rules, the share seen in the file for inferred formats.
+type Check = { description: string } & (
+  | { kind: 'row_count' }
+  | { kind: 'columns'; columns: string[]; ordered: boolean }
+  | { kind: 'not_null'; column: string; mostly: number }
+  | { kind: 'unique'; columns: string[]; skipBlankKeys: boolean }
+  | { kind: 'type'; column: string; types: string[] }
+  | { kind: 'regex'; column: string; pattern: string; sodaFormat?: string; mostly: number }
+  | { kind: 'between'; column: string; min?: number | string; max?: number | string }
+  | { kind: 'in_set'; column: string; values: (string | number | boolean)[] }
+  | { kind: 'length'; column: string; min?: number; max?: number }
+  | { kind: 'compare'; column: string; operator: ComparisonOperator; otherColumn: string }
+);
+
+// Numbers a CSV reader loads as numbers without locale settings
+const PLAIN_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+const INTEGER_TYPES = ['int', 'int32', 'int64', 'Int64', 'INTEGER', 'BIGINT', 'SMALLINT'];
+const FLOAT_TYPES = ['float', 'float32', 'float64', 'Float64', 'FLOAT', 'DOUBLE', 'REAL', 'NUMERIC', 'DECIMAL'];
+const BOOLEAN_TYPES = ['bool', 'boolean', 'BOOLEAN'];
+
+// Integer columns with blanks load as floats in pandas
+const numberTypes = (integer: boolean, nullable: boolean) =>
+  integer && !nullable ? INTEGER_TYPES : [...INTEGER_TYPES, ...FLOAT_TYPES];
+
+const phonePattern = (minDigits: number, maxDigits: number) => `^\\+?(?:[\\s\\-()]*\\d){${minDigits},${maxDigits}}[\\s\\-()]*$`;
+
+const CONTRACT_FORMATS: { [format: string]: { pattern: string; sodaFormat?: string } } = {
+  email: { pattern: EMAIL_PATTERN.source, sodaFormat: 'email' },
+  uri: { pattern: '^[A-Za-z][A-Za-z0-9+.-]*:\\S+$' },
+  uuid: { pattern: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$', sodaFormat: 'uuid' }
+};
+
+const CONTRACT_TYPE_PATTERNS: { [type: string]: string } = {
+  date: '^\\d{4}-\\d{2}-\\d{2}$',
+  datetime: '^\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}',
+  time: '^\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?$',
+  year: '^\\d{4}$'
+};
+
+const SODA_DATE_FORMATS: { [format in DateFormatId]?: string } = {
+  'YYYY-MM-DD': 'date iso 8601',
+  'MM/DD/YYYY': 'date us',
+  'DD/MM/YYYY': 'date eu'
+};
+
+// Shares are rounded towards passing, so the suite passes on the file it came from
+const floorShare = (share: number) => Math.floor(share * 100) / 100;
+
+const percent = (share: number) => Math.round(share * 10000) / 100;
+
+interface ColumnFacts {
+  values: CellValue[];
+  raw: string[];
+  missing: number;
+  filled: number;
+  distinct: boolean; // every non-missing value occurs once
+  plainNumbers: boolean; // every non-missing value is a plain number
+}
+
+const columnFacts = (data: CSVData): { [column: string]: ColumnFacts } => {
+  const store = getColumnStore(data);
+  const facts: { [column: string]: ColumnFacts } = {};
+  data.headers.forEach((header, colIndex) => {
+    const values = getColumnValues(store, colIndex);
+    const raw = getRawColumnValues(store, colIndex);
+    const seen = new Set<string>();
+    let missing = 0;
+    let distinct = true;
+    let plainNumbers = true;
+    values.forEach((val, rowIndex) => {
+      if (isMissingValue(val)) {
+        missing++;
+        return;
+      }
+      const text = formatCellValue(val);
+      if (seen.has(text)) distinct = false;
+      seen.add(text);
+      if (!PLAIN_NUMBER.test(raw[rowIndex])) plainNumbers = false;
+    });
+    const filled = values.length - missing;
+    facts[header] = { values, raw, missing, filled, distinct: distinct && filled > 1, plainNumbers: plainNumbers && filled > 0 };
+  });
+  return facts;
+};
+
+// Share of the non-missing values whose source text matches
+const matchingShare = (facts: ColumnFacts, pattern: RegExp) => {
+  if (facts.filled === 0) return 1;
+  let matching = 0;
+  facts.values.forEach((val, rowIndex) => {
+    if (!isMissingValue(val) && pattern.test(facts.raw[rowIndex])) matching++;
+  });
+  return matching / facts.filled;
+};
+
+const checkKey = (check: Check) => JSON.stringify({ ...check, description: undefined, mostly: undefined });
+
+const buildChecks = (data: CSVData, options: CheckSuiteOptions, warn: (message: string) => void): Check[] => {
+  const checks: Check[] = [];
+  const facts = columnFacts(data);
+  const { filename, headers } = data;
+
+  // The same check from two sources is kept once, with the stricter threshold
+  const add = (check: Check) => {
+    const key = checkKey(check);
+    const index = checks.findIndex(existing => checkKey(existing) === key);
+    if (index === -1) {
+      checks.push(check);
+    } else if ('mostly' in check && check.mostly > (checks[index] as { mostly: number }).mostly) {
+      checks[index] = check;
+    }
+  };
+
+  const addPattern = (column: string, pattern: RegExp, description: string, sodaFormat?: string) => {
+    const mostly = floorShare(matchingShare(facts[column], pattern));
+    if (mostly === 0) {
+      warn(`Almost no values in "${column}" match ${pattern.source}, so the check was left out.`);
+      return;
+    }
+    add({ kind: 'regex', column, pattern: pattern.source, sodaFormat, mostly, description });
+  };
+
+  const numericColumn = (column: string, what: string) => {
+    if (facts[column]?.plainNumbers) return true;
+    warn(`"${column}" has values that are not plain numbers, so its ${what} was left out. Load it as numbers first.`);
+    return false;
+  };
+
+  add({ kind: 'row_count', description: `${filename} has rows` });
+  const { schema, contract } = options;
+  if (schema) {
+    add({ kind: 'columns', columns: schema.columns.map(column => column.name), ordered: schema.enforceOrder, description: 'Columns of the saved schema' });
+  } else {
+    add({ kind: 'columns', columns: headers, ordered: false, description: `Columns of ${filename}` });
+  }
+
+  // Missing values: none where none were found, otherwise no more than now
+  headers.forEach(column => {
+    const { missing, values } = facts[column];
+    if (missing === 0) {
+      add({ kind: 'not_null', column, mostly: 1, description: `${column} has no missing values` });
+    } else if (missing < values.length) {
+      const mostly = floorShare(1 - missing / values.length);
+      if (mostly > 0) add({ kind: 'not_null', column, mostly, description: `${column} is at most ${percent(1 - mostly)}% missing` });
+    }
+  });
+  schema?.columns.forEach(column => {
+    if (!column.nullable && headers.includes(column.name)) {
+      add({ kind: 'not_null', column: column.name, mostly: 1, description: `${column.name} is not nullable in the saved schema` });
+    }
+  });
+
+  // Uniqueness
+  if (options.duplicateRows === 0 && data.rows.length > 1 && headers.length > 1) {
+    add({ kind: 'unique', columns: headers, skipBlankKeys: false, description: 'No duplicate rows' });
+  }
+  // Single columns only when their values were inferred to be identifiers or emails;
+  // other keys come from the candidate keys and the contract
+  headers.forEach(column => {
+    const type = options.columnTypes[column]?.type;
+    if (facts[column].distinct && (type === 'identifier' || type === 'email')) {
+      add({ kind: 'unique', columns: [column], skipBlankKeys: true, description: `${column} values are unique` });
+    }
+  });
+  (options.candidateKeys || []).forEach(key => {
+    add({ kind: 'unique', columns: key, skipBlankKeys: true, description: `Candidate key ${candidateKeyLabel(key)} is unique` });
+  });
+
+  // Types and ranges from the enabled quality rules, on the columns they apply to
+  const rules = resolveRules(options.ruleSettings);
+  headers.forEach(column => {
+    const inference = options.columnTypes[column];
+    if (!inference) return;
+    const family = typeFamily(inference.type);
+    const applies = (id: string) => rules.find(resolved => resolved.rule.id === id && columnMatches(resolved.columns, column, family));
+
+    if (applies('format.email')) addPattern(column, EMAIL_PATTERN, `${column} values are email addresses`, 'email');
+    if (applies('format.phone')) addPattern(column, new RegExp(phonePattern(10, 15)), `${column} values are phone numbers with 10-15 digits`);
+    const phoneLength = applies('range.phone_length');
+    if (phoneLength) {
+      const { minDigits, maxDigits } = phoneLength.params;
+      addPattern(column, new RegExp(phonePattern(Number(minDigits), Number(maxDigits))), `${column} values have ${minDigits}-${maxDigits} digits`);
+    }
+
+    if (applies('format.column_type')) {
+      if (family === 'numeric') {
+        if (numericColumn(column, 'type check')) {
+          add({
+            kind: 'type',
+            column,
+            types: numberTypes(inference.type === 'integer', facts[column].missing > 0),
+            description: `${column} is ${inference.type === 'integer' ? 'an integer' : 'a number'} column`
+          });
+        }
+      } else if (family === 'date') {
+        const format = options.dateFormats[column]?.format;
+        const pattern = format ? dateFormatPattern(format) : undefined;
+        if (format && pattern) addPattern(column, pattern, `${column} dates are written as ${format}`, SODA_DATE_FORMATS[format]);
+      }
+    }
+
+    const age = applies('range.age');
+    if (age && numericColumn(column, 'age range')) {
+      add({ kind: 'between', column, min: Number(age.params.min), max: Number(age.params.max), description: `${column} is a realistic age` });
+    }
+    if (applies('range.non_negative_amount') && numericColumn(column, 'non-negative check')) {
+      add({ kind: 'between', column, min: 0, description: `${column} is not negative` });
+    }
+    const birthDate = applies('range.birth_date');
+    if (birthDate) {
+      // Dates are compared as text, which orders them only when written as ISO dates
+      if (options.dateFormats[column]?.format === 'YYYY-MM-DD') {
+        add({ kind: 'between', column, min: `${birthDate.params.minYear}-01-01`, description: `${column} is not before ${birthDate.params.minYear}` });
+      } else {
+        warn(`"${column}" is not written as YYYY-MM-DD, so its birth date range was left out. Normalize the dates first.`);
+      }
+    }
+  });
+
+  (options.expectations || []).forEach(expectation => {
+    const { column } = expectation;
+    const description = describeExpectation(expectation);
+    if (!headers.includes(column)) {
+      warn(`The expectation "${description}" names a column that is not in ${filename}; it was left out.`);
+      return;
+    }
+    switch (expectation.kind) {
+      case 'range':
+        if (numericColumn(column, `expectation "${description}"`)) {
+          add({ kind: 'between', column, min: expectation.min, max: expectation.max, description });
+        }
+        break;
+      case 'in_set': {
+        const numeric = facts[column].plainNumbers && expectation.values.every(value => PLAIN_NUMBER.test(value));
+        add({ kind: 'in_set', column, values: numeric ? expectation.values.map(Number) : expectation.values, description });
+        break;
+      }
+      case 'matches':
+        add({ kind: 'regex', column, pattern: expectation.pattern, mostly: 1, description });
+        break;
+      case 'compare':
+        add({ kind: 'compare', column, operator: expectation.operator, otherColumn: expectation.otherColumn, description });
+        break;
+    }
+  });
+
+  contract?.fields.forEach(field => {
+    const column = field.name;
+    const constraint = (text: string) => `${column} ${text} (validation contract)`;
+    if (field.required) add({ kind: 'not_null', column, mostly: 1, description: constraint('is required') });
+    if (field.type === 'number' || field.type === 'integer') {
+      add({ kind: 'type', column, types: numberTypes(field.type === 'integer', !field.required), description: constraint(`is of type ${field.type}`) });
+    } else if (field.type === 'boolean') {
+      add({ kind: 'type', column, types: BOOLEAN_TYPES, description: constraint('is of type boolean') });
+    } else if (CONTRACT_TYPE_PATTERNS[field.type]) {
+      add({ kind: 'regex', column, pattern: CONTRACT_TYPE_PATTERNS[field.type], mostly: 1, description: constraint(`is of type ${field.type}`) });
+    }
+    const format = field.format ? CONTRACT_FORMATS[field.format] : undefined;
+    if (format) add({ kind: 'regex', column, ...format, mostly: 1, description: constraint(`has format ${field.format}`) });
+    else if (field.format) warn(`The contract format "${field.format}" of "${column}" has no check; it was left out.`);
+    if (field.pattern !== undefined) add({ kind: 'regex', column, pattern: field.pattern, mostly: 1, description: constraint(`matches ${field.pattern}`) });
+    if (field.enum) add({ kind: 'in_set', column, values: field.enum, description: constraint(`is one of ${field.enum.join(', ')}`) });
+    if (field.minimum !== undefined || field.maximum !== undefined) {
+      add({ kind: 'between', column, min: field.minimum, max: field.maximum, description: constraint('is within its minimum and maximum') });
+    }
+    if (field.minLength !== undefined || field.maxLength !== undefined) {
+      add({ kind: 'length', column, min: field.minLength, max: field.maxLength, description: constraint('is within its length limits') });
+    }
+  });
+  contract?.uniqueKeys.forEach(key => {
+    add({ kind: 'unique', columns: key, skipBlankKeys: true, description: `${key.join(', ')} is unique (validation contract)` });
+  });
+
+  return checks;
+};
+
+const geExpectation = (check: Check): { type: string; kwargs: { [name: string]: unknown } } | null => {
+  const mostly = 'mostly' in check && check.mostly < 1 ? { mostly: check.mostly } : {};
+  switch (check.kind) {
+    case 'row_count':
+      return { type: 'expect_table_row_count_to_be_between', kwargs: { min_value: 1 } };
+    case 'columns':
+      return check.ordered
+        ? { type: 'expect_table_columns_to_match_ordered_list', kwargs: { column_list: check.columns } }
+        : { type: 'expect_table_columns_to_match_set', kwargs: { column_set: check.columns, exact_match: false } };
+    case 'not_null':
+      return { type: 'expect_column_values_to_not_be_null', kwargs: { column: check.column, ...mostly } };
+    case 'unique':
+      return check.columns.length === 1
+        ? { type: 'expect_column_values_to_be_unique', kwargs: { column: check.columns[0] } }
+        : {
+            type: 'expect_compound_columns_to_be_unique',
+            kwargs: { column_list: check.columns, ignore_row_if: check.skipBlankKeys ? 'any_value_is_missing' : 'never' }
+          };
+    case 'type':
+      return { type: 'expect_column_values_to_be_in_type_list', kwargs: { column: check.column, type_list: check.types } };
+    case 'regex':
+      return { type: 'expect_column_values_to_match_regex', kwargs: { column: check.column, regex: check.pattern, ...mostly } };
+    case 'between':
+      return { type: 'expect_column_values_to_be_between', kwargs: { column: check.column, min_value: check.min ?? null, max_value: check.max ?? null } };
+    case 'in_set':
+      return { type: 'expect_column_values_to_be_in_set', kwargs: { column: check.column, value_set: check.values } };
+    case 'length':
+      return { type: 'expect_column_value_lengths_to_be_between', kwargs: { column: check.column, min_value: check.min ?? null, max_value: check.max ?? null } };
+    case 'compare': {
+      const { column, otherColumn, operator } = check;
+      if (operator === '=') {
+        return { type: 'expect_column_pair_values_to_be_equal', kwargs: { column_A: column, column_B: otherColumn, ignore_row_if: 'either_value_is_missing' } };
+      }
+      if (operator === '!=') return null;
+      // a < b is checked as b > a
+      const [a, b] = operator.startsWith('>') ? [column, otherColumn] : [otherColumn, column];
+      return {
+        type: 'expect_column_pair_values_a_to_be_greater_than_b',
+        kwargs: { column_A: a, column_B: b, or_equal: operator.endsWith('='), ignore_row_if: 'either_value_is_missing' }
+      };
+    }
+  }
+};
+
+const greatExpectationsSuite = (checks: Check[], data: CSVData, warn: (message: string) => void): PipelineFile => {
+  const name = identifierName(data.filename);
+  const expectations = checks.flatMap(check => {
+    const expectation = geExpectation(check);
+    if (!expectation) {
+      warn(`Great Expectations has no built-in check for "${check.description}"; it was left out of the suite.`);
+      return [];
+    }
+    return [{ ...expectation, meta: { description: check.description } }];
+  });
+  const suite = {
+    name,
+    expectations,
+    meta: { source: data.filename, exported_by: 'Data Quality Analyzer' },
+    notes:
+      `Checks found by the quality analysis of ${data.filename}. Load the file with pandas defaults: ` +
+      'numbers as numbers, everything else as text, and blanks, null and N/A as missing.'
+  };
+  return { name: `gx/expectations/${name}.json`, content: JSON.stringify(suite, null, 2) + '\n' };
+};
+
+const sqlIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const sodaColumn = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : sqlIdentifier(name));
+
+const sodaColumns = (names: string[]) => names.map(sodaColumn).join(', ');
+
+// Single-quoted YAML, for text the plain style would misread
+const yamlQuote = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+const yamlValue = (value: string | number | boolean) => (typeof value === 'string' ? yamlQuote(value) : String(value));
+
+const sqlValue = (value: string | number) => (typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`);
+
+const NEGATED: { [operator in ComparisonOperator]: string } = {
+  '>=': '<',
+  '>': '<=',
+  '<=': '>',
+  '<': '>=',
+  '=': '<>',
+  '!=': '='
+};
+
+// The check line and its configuration lines
+const sodaCheck = (check: Check, textColumns: Set<string>): [string, string[]] | null => {
+  const threshold = (metric: string, column: string, mostly: number) =>
+    mostly < 1 ? `${metric.replace('count', 'percent')}(${sodaColumn(column)}) <= ${percent(1 - mostly)}` : `${metric}(${sodaColumn(column)}) = 0`;
+  switch (check.kind) {
+    case 'row_count':
+      return ['row_count > 0', []];
+    case 'columns':
+      return ['schema', ['fail:', `  when required column missing: [${check.columns.map(yamlQuote).join(', ')}]`]];
+    case 'not_null':
+      return [
+        threshold('missing_count', check.column, check.mostly),
+        textColumns.has(check.column) ? [`missing values: [${MISSING_TOKENS.map(yamlQuote).join(', ')}]`] : []
+      ];
+    case 'unique':
+      return [`duplicate_count(${sodaColumns(check.columns)}) = 0`, []];
+    case 'regex':
+      return [
+        threshold('invalid_count', check.column, check.mostly),
+        [check.sodaFormat ? `valid format: ${check.sodaFormat}` : `valid regex: ${yamlQuote(check.pattern)}`]
+      ];
+    case 'between': {
+      const { column, min, max } = check;
+      if (typeof min === 'string' || typeof max === 'string') {
+        const conditions = [
+          ...(min !== undefined ? [`${sqlIdentifier(column)} < ${sqlValue(min)}`] : []),
+          ...(max !== undefined ? [`${sqlIdentifier(column)} > ${sqlValue(max)}`] : [])
+        ];
+        return ['failed rows', [`fail condition: ${yamlQuote(conditions.join(' OR '))}`]];
+      }
+      return [
+        `invalid_count(${sodaColumn(column)}) = 0`,
+        [...(min !== undefined ? [`valid min: ${min}`] : []), ...(max !== undefined ? [`valid max: ${max}`] : [])]
+      ];
+    }
+    case 'in_set':
+      return [`invalid_count(${sodaColumn(check.column)}) = 0`, [`valid values: [${check.values.map(yamlValue).join(', ')}]`]];
+    case 'length':
+      return [
+        `invalid_count(${sodaColumn(check.column)}) = 0`,
+        [
+          ...(check.min !== undefined ? [`valid min length: ${check.min}`] : []),
+          ...(check.max !== undefined ? [`valid max length: ${check.max}`] : [])
+        ]
+      ];
+    case 'compare':
+      return [
+        'failed rows',
+        [`fail condition: ${yamlQuote(`${sqlIdentifier(check.column)} ${NEGATED[check.operator]} ${sqlIdentifier(check.otherColumn)}`)}`]
+      ];
+    case 'type':
+      // Column types are the warehouse's to enforce
+      return null;
+  }
+};
+
+const sodaChecks = (checks: Check[], data: CSVData, options: CheckSuiteOptions, warn: (message: string) => void): PipelineFile => {
+  const table = identifierName(data.filename);
+  const textColumns = new Set(data.headers.filter(column => typeFamily(options.columnTypes[column]?.type ?? 'text') !== 'numeric'));
+  if (checks.some(check => check.kind === 'columns' && check.ordered)) {
+    warn('Soda checks that the schema columns exist, but not their order.');
+  }
+  const lines = checks.flatMap(check => {
+    const soda = sodaCheck(check, textColumns);
+    if (!soda) return [];
+    const [line, config] = soda;
+    const key = /: |\s#|^['"]/.test(line) ? yamlQuote(line) : line;
+    return [`  - ${key}:`, `      name: ${yamlQuote(check.description)}`, ...config.map(configLine => `      ${configLine}`)];
+  });
+  return {
+    name: 'checks.yml',
+    content: [
+      `# Soda checks for ${data.filename}, exported from the Data Quality Analyzer`,
+      `# Expects the table ${table} with numeric columns loaded as numbers and the rest as text.`,
+      '# Column types are left to the table definition; dates compare as text, so bounds need ISO dates.',
+      `checks for ${table}:`,
+      ...lines,
+      ''
+    ].join('\n')
+  };
+};
+
+// Great Expectations suite and/or Soda checks for what the quality analysis of
+// the data found, plus the enabled rules, expectations, schema and contract
+export const exportCheckSuites = (data: CSVData, targets: CheckSuiteTarget[], options: CheckSuiteOptions): CheckSuiteExport => {
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const checks = buildChecks(data, options, warn);
+  const files: PipelineFile[] = [];
+  if (targets.includes('great_expectations')) files.push(greatExpectationsSuite(checks, data, warn));
+  if (targets.includes('soda')) files.push(sodaChecks(checks, data, options, warn));
+  return { files, warnings };
+};
@@ -0,0 +1,273 @@
+import { CSVData, CellValue, CleaningOperation } from '../types';
+import { TaskContext, directContext } from './analysisTask';
+import { SkippedOperation, applyCleaningOperations } from './cleaningOperations';
+import { ColumnStore, ColumnarData, RawText, encodeColumn, fromColumnarData, getCell, getColumnStore } from './columnStore';
+import { DatasetLocale } from './locale';
+
+// How a snapshot differs from its parent. Only the changed cells are kept, so a
+// long history costs little more than the cells its steps touched.
+export interface SnapshotDiff {
+  headers: string[];
+  // parent column each column comes from; -1 for a column the step added
+  columns: number[];
+  // parent row position of each row; null when the rows are unchanged
+  rows: number[] | null;
+  // cells that differ from the parent cell they came from, by row position.
+  // Their original text is dropped, as the operations drop it.
+  changes: { column: number; rows: number[]; values: CellValue[] }[];
+}
+
+export interface CleaningSnapshot {
+  id: number;
+  name: string;
+  // null for the uploaded data every path starts from
+  parentId: number | null;
+  operation: CleaningOperation | null;
+  diff: SnapshotDiff | null;
+  rowCount: number;
+  columnCount: number;
+  changedCells: number;
+  removedRows: number;
+  removedColumns: number;
+  addedColumns: number;
+  createdAt: string;
+}
+
+// Snapshots form a tree: applying a step anywhere but the newest snapshot of a
+// path starts a branch next to the steps already taken from there
+export interface CleaningHistory {
+  snapshots: CleaningSnapshot[]; // indexed by id; 0 is the uploaded data
+  currentId: number;
+  // child that redo moves to from each snapshot: the one last undone or added
+  redoIds: { [id: number]: number };
+}
+
+export const createHistory = (data: CSVData): CleaningHistory => ({
+  snapshots: [{
+    id: 0,
+    name: 'Uploaded data',
+    parentId: null,
+    operation: null,
+    diff: null,
+    rowCount: data.rows.length,
+    columnCount: data.headers.length,
+    changedCells: 0,
+    removedRows: 0,
+    removedColumns: 0,
+    addedColumns: 0,
+    createdAt: new Date().toISOString()
+  }],
+  currentId: 0,
+  redoIds: {}
+});
+
+const sameCell = (a: CellValue, b: CellValue) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : Object.is(a, b);
+
+// Diff of a step's result against its input. rowIds and columnIds say where
+// each result row (by original row id) and column (by input column) came from.
+// Added columns have no source, so only their non-empty cells are kept.
+export const diffSnapshot = (
+  parent: ColumnStore,
+  parentRowIds: number[],
+  child: ColumnarData,
+  childRowIds: number[],
+  columnIds: number[]
+): SnapshotDiff => {
+  const sameRows = childRowIds.length === parentRowIds.length &&
+    childRowIds.every((rowId, i) => rowId === parentRowIds[i]);
+  let rows: number[] | null = null;
+  if (!sameRows) {
+    const positions = new Map(parentRowIds.map((rowId, i) => [rowId, i]));
+    rows = childRowIds.map(rowId => positions.get(rowId) as number);
+  }
+
+  const changes: SnapshotDiff['changes'] = [];
+  child.store.columns.forEach((column, colIndex) => {
+    const source = columnIds[colIndex] === -1 ? undefined : parent.columns[columnIds[colIndex]];
+    const changed: number[] = [];
+    const values: CellValue[] = [];
+    for (let i = 0; i < child.store.rowCount; i++) {
+      const position = rows ? rows[i] : i;
+      const value = getCell(column, i);
+      const before = source ? getCell(source, position) : '';
+      if (!sameCell(value, before) || column.raw?.get(i) !== source?.raw?.get(position)) {
+        changed.push(i);
+        values.push(value);
+      }
+    }
+    if (changed.length > 0) changes.push({ column: colIndex, rows: changed, values });
+  });
+
+  return { headers: child.headers, columns: columnIds, rows, changes };
+};
+
+// Rebuilds a snapshot by replaying the diffs on its path from the uploaded data
+export const materializeSnapshot = async (
+  root: CSVData,
+  diffs: SnapshotDiff[],
+  ctx: TaskContext = directContext
+): Promise<ColumnarData & { rowIds: number[] }> => {
+  let store = getColumnStore(root);
+  let headers = root.headers;
+  let rowIds = Array.from({ length: store.rowCount }, (_, i) => i);
+
+  for (let d = 0; d < diffs.length; d++) {
+    ctx.progress(d / diffs.length, 'Rebuilding snapshot');
+    await ctx.checkpoint();
+    const { rows, changes } = diffs[d];
+    const rowCount = rows ? rows.length : store.rowCount;
+    const parent = store;
+    const columns = diffs[d].columns.map((sourceIndex, colIndex) => {
+      const source = sourceIndex === -1 ? undefined : parent.columns[sourceIndex];
+      const cells = new Array<CellValue>(rowCount);
+      const raw: RawText = new Map();
+      for (let i = 0; i < rowCount; i++) {
+        const position = rows ? rows[i] : i;
+        cells[i] = source ? getCell(source, position) : '';
+        const text = source?.raw?.get(position);
+        if (text !== undefined) raw.set(i, text);
+      }
+      changes.filter(change => change.column === colIndex).forEach(change => {
+        change.rows.forEach((row, j) => {
+          cells[row] = change.values[j];
+          raw.delete(row);
+        });
+      });
+      const column = encodeColumn(cells);
+      if (raw.size > 0) column.raw = raw;
+      return column;
+    });
+    store = { rowCount, columns };
+    headers = diffs[d].headers;
+    if (rows) rowIds = rows.map(position => rowIds[position]);
+  }
+
+  ctx.progress(1, 'Done');
+  return { headers, filename: root.filename, store, rowIds };
+};
+
+// Applies each operation in turn to a snapshot and diffs every intermediate
+// result, so each operation becomes a snapshot of its own. Operations that could
+// not run have no diff and are listed as skipped.
+export const applyCleaningSteps = async (
+  data: CSVData,
+  operations: CleaningOperation[],
+  rowIds: number[],
+  ctx: TaskContext = directContext,
+  locale: DatasetLocale | null = null
+): Promise<{ diffs: (SnapshotDiff | null)[]; skipped: SkippedOperation[]; result: ColumnarData; rowIds: number[] }> => {
+  let current = data;
+  let currentRowIds = rowIds;
+  const diffs: (SnapshotDiff | null)[] = [];
+  const skipped: SkippedOperation[] = [];
+
+  for (let i = 0; i < operations.length; i++) {
+    const stepContext: TaskContext = {
+      ...ctx,
+      progress: (fraction, stage) => ctx.progress((i + fraction) / operations.length, stage)
+    };
+    const result = await applyCleaningOperations(current, [operations[i]], stepContext, locale, currentRowIds);
+    if (result.skipped.length > 0) {
+      diffs.push(null);
+      skipped.push({ index: i, reason: result.skipped[0].reason });
+      continue;
+    }
+    const step: ColumnarData = { headers: result.headers, filename: result.filename, store: result.store };
+    diffs.push(diffSnapshot(getColumnStore(current), currentRowIds, step, result.rowIds, result.columnIds));
+    current = fromColumnarData(step);
+    currentRowIds = result.rowIds;
+  }
+
+  ctx.progress(1, 'Done');
+  return {
+    diffs,
+    skipped,
+    result: { headers: current.headers, filename: current.filename, store: getColumnStore(current) },
+    rowIds: currentRowIds
+  };
+};
+
+// Snapshots from the uploaded data to id, in order
+export const snapshotPath = (history: CleaningHistory, id: number): CleaningSnapshot[] => {
+  const path: CleaningSnapshot[] = [];
+  let snapshot: CleaningSnapshot | undefined = history.snapshots[id];
+  while (snapshot) {
+    path.unshift(snapshot);
+    snapshot = snapshot.parentId === null ? undefined : history.snapshots[snapshot.parentId];
+  }
+  return path;
+};
+
+export const snapshotDiffs = (history: CleaningHistory, id: number): SnapshotDiff[] =>
+  snapshotPath(history, id).flatMap(snapshot => (snapshot.diff ? [snapshot.diff] : []));
+
+// Adds the snapshot a step produced from the current one and moves to it
+export const addSnapshot = (
+  history: CleaningHistory,
+  operation: CleaningOperation,
+  diff: SnapshotDiff
+): CleaningHistory => {
+  const parent = history.snapshots[history.currentId];
+  const id = history.snapshots.length;
+  const rowCount = diff.rows ? diff.rows.length : parent.rowCount;
+  const keptColumns = diff.columns.filter(sourceIndex => sourceIndex !== -1).length;
+  const snapshot: CleaningSnapshot = {
+    id,
+    name: operation.description,
+    parentId: parent.id,
+    operation,
+    diff,
+    rowCount,
+    columnCount: diff.headers.length,
+    changedCells: diff.changes.reduce((sum, change) => sum + change.rows.length, 0),
+    removedRows: parent.rowCount - rowCount,
+    removedColumns: parent.columnCount - keptColumns,
+    addedColumns: diff.columns.length - keptColumns,
+    createdAt: new Date().toISOString()
+  };
+  return {
+    snapshots: [...history.snapshots, snapshot],
+    currentId: id,
+    redoIds: { ...history.redoIds, [parent.id]: id }
+  };
+};
+
+export const canUndo = (history: CleaningHistory) => history.snapshots[history.currentId].parentId !== null;
+
+export const canRedo = (history: CleaningHistory) => history.redoIds[history.currentId] !== undefined;
+
+export const undo = (history: CleaningHistory): CleaningHistory => {
+  const { parentId } = history.snapshots[history.currentId];
+  if (parentId === null) return history;
+  return { ...history, currentId: parentId, redoIds: { ...history.redoIds, [parentId]: history.currentId } };
+};
+
+export const redo = (history: CleaningHistory): CleaningHistory => {
+  const next = history.redoIds[history.currentId];
+  return next === undefined ? history : { ...history, currentId: next };
+};
+
+// Moves to any snapshot; redo from its ancestors then follows the path to it
+export const checkout = (history: CleaningHistory, id: number): CleaningHistory => {
+  const redoIds = { ...history.redoIds };
+  snapshotPath(history, id).forEach(snapshot => {
+    if (snapshot.parentId !== null) redoIds[snapshot.parentId] = snapshot.id;
+  });
+  return { ...history, currentId: id, redoIds };
+};
+
+export const renameSnapshot = (history: CleaningHistory, id: number, name: string): CleaningHistory => ({
+  ...history,
+  snapshots: history.snapshots.map(snapshot => (snapshot.id === id ? { ...snapshot, name } : snapshot))
+});
+
+// Histories last for the session, as the uploaded data does; keyed by the
+// dataset so leaving the cleaning tab does not lose them
+const histories = new WeakMap<CSVData, CleaningHistory>();
+
+export const loadHistory = (data: CSVData): CleaningHistory => histories.get(data) || createHistory(data);
+
+export const saveHistory = (data: CSVData, history: CleaningHistory) => {
+  histories.set(data, history);
+};
@@ -0,0 +1,454 @@
+import { CSVData, CellValue, CleaningOperation } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { chooseSurvivor, groupByKey, orderingValue } from './candidateKeys';
+import { formatCellValue, isMissingValue, rowKey } from './cellValues';
+import { ColumnarData, RawText, encodeColumn, getColumnStore, getColumnValues } from './columnStore';
+import {
+  columnNameProblem,
+  convertValue,
+  extractGroups,
+  fillTemplate,
+  splitText,
+  templateColumns,
+  transformPattern
+} from './columnTransforms';
+import { DateFormatId, normalizeDate } from './dateFormats';
+import { fixFormat } from './formatFixes';
+import { imputeMissing } from './imputation';
+import { DatasetLocale, LocaleSettings, columnLocale, localizeValue } from './locale';
+import { DEFAULT_OUTLIER_RULE, findColumnOutliers } from './outliers';
+import { protectColumn } from './sensitiveData';
+
+interface WorkingData {
+  headers: string[];
+  columns: CellValue[][];
+  // index of each remaining row in the original data, so operation.rows stay
+  // valid after earlier operations removed rows
+  rowIds: number[];
+  // index of each remaining column in the input, so a snapshot can be stored as a diff
+  columnIds: number[];
+  // original text of each column by original row index; dropped for cells an operation changes
+  raw: (RawText | undefined)[];
+}
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+const keepRows = (working: WorkingData, keep: (rowIndex: number) => boolean): WorkingData => {
+  const kept: number[] = [];
+  for (let i = 0; i < working.rowIds.length; i++) {
+    if (keep(i)) kept.push(i);
+  }
+  return {
+    ...working,
+    columns: working.columns.map(column => kept.map(i => column[i])),
+    rowIds: kept.map(i => working.rowIds[i])
+  };
+};
+
+const replaceColumn = (working: WorkingData, colIndex: number, column: CellValue[]): WorkingData => {
+  const previous = working.columns[colIndex];
+  let raw = working.raw[colIndex];
+  if (raw) {
+    raw = new Map(raw);
+    for (let i = 0; i < column.length; i++) {
+      if (column[i] !== previous[i]) raw.delete(working.rowIds[i]);
+    }
+  }
+  return {
+    ...working,
+    columns: working.columns.map((existing, i) => (i === colIndex ? column : existing)),
+    raw: working.raw.map((existing, i) => (i === colIndex ? raw : existing))
+  };
+};
+
+// Inserts columns after position `at`. They have no input column (id -1) and no original text.
+const insertColumns = (working: WorkingData, at: number, headers: string[], columns: CellValue[][]): WorkingData => {
+  const splice = <T>(items: T[], added: T[]) => [...items.slice(0, at + 1), ...added, ...items.slice(at + 1)];
+  return {
+    ...working,
+    headers: splice(working.headers, headers),
+    columns: splice(working.columns, columns),
+    columnIds: splice(working.columnIds, headers.map(() => -1)),
+    raw: splice(working.raw, headers.map(() => undefined))
+  };
+};
+
+const dropColumns = (working: WorkingData, dropped: number[]): WorkingData => {
+  const keep = (_: unknown, i: number) => !dropped.includes(i);
+  return {
+    ...working,
+    headers: working.headers.filter(keep),
+    columns: working.columns.filter(keep),
+    columnIds: working.columnIds.filter(keep),
+    raw: working.raw.filter(keep)
+  };
+};
+
+const addedColumnProblem = (working: WorkingData, names: string[], dropped: number[]) =>
+  columnNameProblem(working.headers, names, dropped.map(i => working.headers[i]));
+
+// The column's text as written, where it is still known, trimmed
+const writtenColumn = (working: WorkingData, colIndex: number): string[] => {
+  const raw = working.raw[colIndex];
+  return working.columns[colIndex].map((cell, i) => (isEmptyCell(cell) ? '' : (raw?.get(working.rowIds[i]) ?? formatCellValue(cell)).trim()));
+};
+
+// The column as its locale reads it, from the original text where it is still known
+const localizedColumn = (working: WorkingData, colIndex: number, settings: LocaleSettings): CellValue[] => {
+  const raw = working.raw[colIndex];
+  return working.columns[colIndex].map((cell, i) => localizeValue(cell, raw?.get(working.rowIds[i]), settings));
+};
+
+// Re-keys the original text kept for the remaining rows by their new positions
+const encodeWorkingColumn = (working: WorkingData, colIndex: number) => {
+  const column = encodeColumn(working.columns[colIndex]);
+  const raw = working.raw[colIndex];
+  if (raw) {
+    const remapped: RawText = new Map();
+    working.rowIds.forEach((rowId, i) => {
+      const text = raw.get(rowId);
+      if (text !== undefined) remapped.set(i, text);
+    });
+    if (remapped.size > 0) column.raw = remapped;
+  }
+  return column;
+};
+
+// Columns of the data an operation reads; a merge without a column list reads
+// the columns its template names
+export const operationColumns = (operation: CleaningOperation): string[] =>
+  [
+    operation.column,
+    operation.sortColumn,
+    operation.groupColumn,
+    ...(operation.keyColumns || []),
+    ...(operation.columns || (operation.type === 'merge_columns' ? templateColumns(operation.template || '') : []))
+  ].filter((column): column is string => typeof column === 'string' && column !== '');
+
+// An operation that was left out because it could not run on the data it was
+// given, such as a step naming a column an earlier step renamed
+export interface SkippedOperation {
+  index: number; // position in the operations applied
+  reason: string;
+}
+
+// The data after the operation, or why the operation cannot run on it
+const applyOperation = async (
+  working: WorkingData,
+  operation: CleaningOperation,
+  ctx: TaskContext,
+  locale: DatasetLocale | null
+): Promise<WorkingData | string> => {
+  const absent = operationColumns(operation).find(column => !working.headers.includes(column));
+  if (absent !== undefined) return `There is no column named "${absent}"`;
+  const colIndex = operation.column ? working.headers.indexOf(operation.column) : -1;
+
+  switch (operation.type) {
+    case 'remove_duplicates': {
+      const uniqueRows = new Set<string>();
+      const keep: boolean[] = [];
+      for (let i = 0; i < working.rowIds.length; i++) {
+        if (i % CHECKPOINT_INTERVAL === 0) await ctx.checkpoint();
+        const key = rowKey(working.columns.map(column => column[i]));
+        keep.push(!uniqueRows.has(key));
+        uniqueRows.add(key);
+      }
+      return keepRows(working, i => keep[i]);
+    }
+
+    case 'fill_missing': {
+      if (colIndex === -1) return 'No column to fill was chosen';
+      // Fill either all rows or only the selected rows
+      const selected = operation.rows && operation.rows.length > 0 ? new Set(operation.rows) : null;
+      const isSelected = (i: number) => !selected || selected.has(working.rowIds[i]);
+      if (!operation.strategy || operation.strategy === 'constant') {
+        if (operation.value === undefined) return 'No value to fill in was given';
+        const column = working.columns[colIndex].map((cell, i) =>
+          isSelected(i) && isMissingValue(cell) ? operation.value : cell
+        );
+        return replaceColumn(working, colIndex, column);
+      }
+
+      // Computed strategies read the whole column, and maybe others, as their locales do
+      const localized = new Map<number, CellValue[]>();
+      const columnValues = (c: number) => {
+        let values = localized.get(c);
+        if (!values) {
+          values = localizedColumn(working, c, columnLocale(locale, working.headers[c]));
+          localized.set(c, values);
+        }
+        return values;
+      };
+      const fills = await imputeMissing(working.headers, columnValues, operation, columnLocale(locale, operation.sortColumn || ''), ctx);
+      const column = working.columns[colIndex].map((cell, i) => {
+        const fill = fills.get(i);
+        return fill !== undefined && isSelected(i) ? fill : cell;
+      });
+      return replaceColumn(working, colIndex, column);
+    }
+
+    case 'remove_outliers': {
+      if (colIndex === -1) return 'No column was chosen';
+      const column = localizedColumn(working, colIndex, columnLocale(locale, working.headers[colIndex]));
+      // The fences stored with the step are the ones that were previewed; recomputing
+      // them here would read data that earlier steps already changed
+      const fences = operation.bounds || findColumnOutliers(column, DEFAULT_OUTLIER_RULE)?.fences;
+      if (!fences) return `"${working.headers[colIndex]}" has too few numbers to find outliers in`;
+      const { lower, upper } = fences;
+
+      if (operation.outlierAction === 'cap') {
+        const capped = column.map((value, i) =>
+          typeof value === 'number' && (value < lower || value > upper)
+            ? Math.min(upper, Math.max(lower, value))
+            : working.columns[colIndex][i]
+        );
+        return replaceColumn(working, colIndex, capped);
+      }
+      return keepRows(working, i => {
+        const value = column[i];
+        return typeof value !== 'number' || (value >= lower && value <= upper);
+      });
+    }
+
+    case 'standardize': {
+      if (colIndex === -1) return 'No column was chosen';
+      const mappings = operation.mappings;
+      if (mappings) {
+        const column = working.columns[colIndex].map(cell => {
+          const canonical = isEmptyCell(cell) ? undefined : mappings[formatCellValue(cell)];
+          return canonical === undefined ? cell : canonical;
+        });
+        return replaceColumn(working, colIndex, column);
+      }
+      const column = working.columns[colIndex].map(cell =>
+        typeof cell === 'string' ? cell.trim().toLowerCase().replace(/\s+/g, ' ') : cell
+      );
+      return replaceColumn(working, colIndex, column);
+    }
+
+    case 'normalize_dates': {
+      if (colIndex === -1) return 'No column was chosen';
+      const { dateOrder } = columnLocale(locale, working.headers[colIndex]);
+      const raw = working.raw[colIndex];
+      const format = (operation.dateFormat ?? null) as DateFormatId | null;
+      // Read from the original text so "45296" or " 5 Jan 2024" are seen as written
+      const column = working.columns[colIndex].map((cell, i) => {
+        if (isEmptyCell(cell)) return cell;
+        return normalizeDate(raw?.get(working.rowIds[i]) ?? formatCellValue(cell), format, dateOrder) ?? cell;
+      });
+      return replaceColumn(working, colIndex, column);
+    }
+
+    case 'merge_duplicates': {
+      if (!operation.clusters) return 'No duplicate clusters were given';
+      const positions = new Map(working.rowIds.map((rowId, i) => [rowId, i]));
+      const columns = working.columns.map(column => column.slice());
+      const changed = new Set<number>();
+      const removed = new Set<number>();
+      for (const cluster of operation.clusters) {
+        const keepAt = positions.get(cluster.keep);
+        // Clusters whose kept row an earlier operation removed are left alone
+        if (keepAt === undefined) continue;
+        const others = cluster.remove.map(row => positions.get(row)).filter((at): at is number => at !== undefined);
+        if (cluster.merge) {
+          columns.forEach((column, c) => {
+            if (!isEmptyCell(column[keepAt])) return;
+            const donor = others.find(at => !isEmptyCell(column[at]));
+            if (donor === undefined) return;
+            column[keepAt] = column[donor];
+            changed.add(c);
+          });
+        }
+        others.forEach(at => removed.add(at));
+      }
+      let merged = working;
+      changed.forEach(c => {
+        merged = replaceColumn(merged, c, columns[c]);
+      });
+      return keepRows(merged, i => !removed.has(i));
+    }
+
+    case 'dedupe_by_key': {
+      const keyIndexes = (operation.keyColumns || []).map(name => working.headers.indexOf(name));
+      if (keyIndexes.length === 0) return 'No key columns were chosen';
+      const groups = groupByKey(working.rowIds.length, i => keyIndexes.map(c => working.columns[c][i]));
+      const strategy = operation.keep || 'first';
+      if ((strategy === 'max' || strategy === 'min') && colIndex === -1) return 'No column to compare was chosen';
+      const settings = columnLocale(locale, operation.column || '');
+      const order = colIndex === -1 ? [] : localizedColumn(working, colIndex, settings);
+      const filledCount = (i: number) => working.columns.reduce((count, column) => (isEmptyCell(column[i]) ? count : count + 1), 0);
+
+      const removed = new Set<number>();
+      for (const group of groups) {
+        const survivor = chooseSurvivor(group, strategy, filledCount, i => orderingValue(order[i], settings));
+        group.forEach(i => {
+          if (i !== survivor) removed.add(i);
+        });
+      }
+      return keepRows(working, i => !removed.has(i));
+    }
+
+    case 'fix_format': {
+      if (colIndex === -1 || !operation.format) return 'No column or format was chosen';
+      const settings = columnLocale(locale, working.headers[colIndex]);
+      const raw = working.raw[colIndex];
+      const { format, countryCode } = operation;
+      const column = working.columns[colIndex].map((cell, i) => {
+        const source = raw?.get(working.rowIds[i]);
+        const text = source ?? formatCellValue(cell);
+        const localized = localizeValue(cell, source, settings);
+        const fixed = fixFormat(localized, text, format, settings, countryCode);
+        return fixed === localized ? cell : fixed;
+      });
+      return replaceColumn(working, colIndex, column);
+    }
+
+    case 'handle_sensitive': {
+      if (colIndex === -1) return 'No column was chosen';
+      if (operation.sensitiveAction === 'drop') return dropColumns(working, [colIndex]);
+      // Protect the values as written, so "415-555-0123" is masked with its dashes
+      const raw = working.raw[colIndex];
+      const written = working.columns[colIndex].map((cell, i) =>
+        isEmptyCell(cell) ? cell : raw?.get(working.rowIds[i]) ?? cell
+      );
+      const column = protectColumn(written, operation.sensitiveAction || 'mask', operation.salt);
+      return replaceColumn(working, colIndex, column);
+    }
+
+    case 'split_column':
+    case 'extract_pattern': {
+      const pattern = transformPattern(operation);
+      const names = operation.newColumns || [];
+      const dropped = operation.dropSource ? [colIndex] : [];
+      if (colIndex === -1) return 'No column was chosen';
+      if (!pattern) return operation.pattern ? 'The regular expression is not valid' : 'No delimiter or regular expression was given';
+      const problem = addedColumnProblem(working, names, dropped);
+      if (problem) return problem;
+      const parts = writtenColumn(working, colIndex).map(text => {
+        if (text === '') return names.map(() => '');
+        return operation.type === 'split_column'
+          ? splitText(text, pattern, names.length)
+          : extractGroups(text, pattern, names.length);
+      });
+      const added = insertColumns(working, colIndex, names, names.map((_, n) => parts.map(row => row[n])));
+      return dropColumns(added, dropped);
+    }
+
+    case 'merge_columns': {
+      const template = operation.template || '';
+      const sources = operation.columns || templateColumns(template);
+      const sourceIndexes = sources.map(name => working.headers.indexOf(name));
+      const name = operation.newName || '';
+      const dropped = operation.dropSource ? sourceIndexes : [];
+      if (sourceIndexes.length === 0) return 'The template names no columns';
+      const problem = addedColumnProblem(working, [name], dropped);
+      if (problem) return problem;
+      const written = new Map(sources.map((source, n) => [source, writtenColumn(working, sourceIndexes[n])]));
+      const merged = working.rowIds.map((_, i) =>
+        fillTemplate(template, placeholder => written.get(placeholder)?.[i] ?? `{${placeholder}}`)
+      );
+      const added = insertColumns(working, Math.max(...sourceIndexes), [name], [merged]);
+      return dropColumns(added, dropped);
+    }
+
+    case 'rename_column': {
+      const name = operation.newName || '';
+      if (colIndex === -1) return 'No column was chosen';
+      const problem = addedColumnProblem(working, [name], [colIndex]);
+      if (problem) return problem;
+      return { ...working, headers: working.headers.map((header, i) => (i === colIndex ? name : header)) };
+    }
+
+    case 'drop_columns': {
+      const dropped = (operation.columns || []).map(name => working.headers.indexOf(name)).filter(i => i !== -1);
+      return dropColumns(working, dropped);
+    }
+
+    case 'reorder_columns': {
+      // Listed columns come first in the given order; the others follow as they were
+      const listed = (operation.columns || []).map(name => working.headers.indexOf(name)).filter(i => i !== -1);
+      const order = [...new Set(listed), ...working.headers.map((_, i) => i).filter(i => !listed.includes(i))];
+      return {
+        ...working,
+        headers: order.map(i => working.headers[i]),
+        columns: order.map(i => working.columns[i]),
+        columnIds: order.map(i => working.columnIds[i]),
+        raw: order.map(i => working.raw[i])
+      };
+    }
+
+    case 'change_type': {
+      if (colIndex === -1 || !operation.targetType) return 'No column or type was chosen';
+      const settings = columnLocale(locale, working.headers[colIndex]);
+      const raw = working.raw[colIndex];
+      const written = writtenColumn(working, colIndex);
+      const { targetType } = operation;
+      const column = working.columns[colIndex].map((cell, i) =>
+        convertValue(localizeValue(cell, raw?.get(working.rowIds[i]), settings), written[i], targetType, settings) ?? cell
+      );
+      return replaceColumn(working, colIndex, column);
+    }
+
+    default:
+      return `"${operation.type}" is not a cleaning operation`;
+  }
+};
+
+// Applies the operations in order. The result is columnar so it can be sent
+// back from the analysis worker; the filename is left unchanged. rowIds names
+// the rows of data when it is itself a cleaned snapshot, so operation.rows keep
+// pointing at the original rows; the result lists the ids of the rows and the
+// input columns that remain, and the operations that could not run and were
+// left out.
+export const applyCleaningOperations = async (
+  data: CSVData,
+  operations: CleaningOperation[],
+  ctx: TaskContext = directContext,
+  locale: DatasetLocale | null = null,
+  rowIds: number[] | null = null
+): Promise<ColumnarData & { rowIds: number[]; columnIds: number[]; skipped: SkippedOperation[] }> => {
+  const store = getColumnStore(data);
+  // Original text is kept by row id while operations run
+  const byRowId = (raw: RawText | undefined): RawText | undefined => {
+    if (!raw || !rowIds) return raw;
+    const keyed: RawText = new Map();
+    raw.forEach((text, position) => keyed.set(rowIds[position], text));
+    return keyed;
+  };
+  let working: WorkingData = {
+    headers: data.headers,
+    columns: data.headers.map((_, colIndex) => getColumnValues(store, colIndex)),
+    rowIds: rowIds ? rowIds.slice() : Array.from({ length: store.rowCount }, (_, index) => index),
+    columnIds: data.headers.map((_, colIndex) => colIndex),
+    raw: store.columns.map(column => byRowId(column.raw))
+  };
+  const skipped: SkippedOperation[] = [];
+
+  for (let i = 0; i < operations.length; i++) {
+    ctx.progress(i / operations.length, operations[i].description);
+    await ctx.checkpoint();
+    const stepContext: TaskContext = {
+      ...ctx,
+      progress: (fraction, stage) => ctx.progress((i + fraction) / operations.length, stage)
+    };
+    const result = await applyOperation(working, operations[i], stepContext, locale);
+    if (typeof result === 'string') {
+      skipped.push({ index: i, reason: result });
+    } else {
+      working = result;
+    }
+  }
+
+  ctx.progress(1, 'Done');
+  return {
+    headers: working.headers,
+    filename: data.filename,
+    store: {
+      rowCount: working.rowIds.length,
+      columns: working.headers.map((_, colIndex) => encodeWorkingColumn(working, colIndex))
+    },
+    rowIds: working.rowIds,
+    columnIds: working.columnIds,
+    skipped
+  };
+};
@@ -0,0 +1,405 @@
+import { CSVData, CleaningOperation, DuplicateResolution, SchemaDriftIssue } from '../types';
+import { KEEP_STRATEGIES } from './candidateKeys';
+import { operationColumns } from './cleaningOperations';
+import { getColumnStore } from './columnStore';
+import { TARGET_TYPE_LABELS } from './columnTransforms';
+import { findRename } from './datasetSchema';
+import { FORMAT_FIX_LABELS } from './formatFixes';
+import { IMPUTATION_STRATEGIES } from './imputation';
+import { DatasetLocale, columnLocale, escapeRegExp, getLocalizedColumnValues } from './locale';
+import { COLUMN_TYPES, ColumnType } from './qualityRules';
+import { SENSITIVE_ACTIONS, createSalt } from './sensitiveData';
+import { TypeOverrides, resolveColumnType, typeFamily } from './typeInference';
+
+export const RECIPE_FORMAT = 'kipi-cleaning-recipe';
+export const RECIPE_VERSION = 1;
+
+export interface RecipeColumn {
+  name: string;
+  type: ColumnType; // the type the column had when the recipe was saved
+}
+
+// Cleaning operations saved to a JSON file, to replay on later files of the same shape
+export interface CleaningRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  name: string;
+  createdAt: string;
+  source: string; // the file the recipe was saved from
+  columns: RecipeColumn[]; // every column of the file the operations refer to
+  operations: CleaningOperation[];
+}
+
+// Column of the file a recipe column runs on, by recipe column name; unbound
+// columns run on the column with the same name
+export type RecipeBindings = { [column: string]: string };
+
+type OperationField = Exclude<keyof CleaningOperation, 'type' | 'description'>;
+
+// The fields each operation type reads; a saved operation must have the required
+// ones, and other fields in the file are ignored
+const OPERATION_FIELDS: { [type in CleaningOperation['type']]: { required: OperationField[]; optional: OperationField[] } } = {
+  remove_duplicates: { required: [], optional: [] },
+  fill_missing: { required: ['column'], optional: ['strategy', 'value', 'sortColumn', 'groupColumn', 'neighbors'] },
+  remove_outliers: { required: ['column'], optional: ['bounds', 'outlierAction'] },
+  standardize: { required: ['column'], optional: ['mappings'] },
+  fix_format: { required: ['column', 'format'], optional: ['countryCode'] },
+  handle_sensitive: { required: ['column'], optional: ['sensitiveAction', 'salt'] },
+  normalize_dates: { required: ['column'], optional: ['dateFormat'] },
+  merge_duplicates: { required: ['clusters'], optional: [] },
+  dedupe_by_key: { required: ['keyColumns'], optional: ['keep', 'column'] },
+  split_column: { required: ['column', 'newColumns'], optional: ['delimiter', 'pattern', 'dropSource'] },
+  merge_columns: { required: ['template', 'newName'], optional: ['columns', 'dropSource'] },
+  rename_column: { required: ['column', 'newName'], optional: [] },
+  drop_columns: { required: ['columns'], optional: [] },
+  reorder_columns: { required: ['columns'], optional: [] },
+  change_type: { required: ['column', 'targetType'], optional: [] },
+  extract_pattern: { required: ['column', 'pattern', 'newColumns'], optional: ['dropSource'] }
+};
+
+const OPERATION_TYPES = Object.keys(OPERATION_FIELDS) as CleaningOperation['type'][];
+
+// merge_duplicates names the rows of each cluster, which only exist in the file it was built on
+const isRowBound = (operation: CleaningOperation) => operation.type === 'merge_duplicates';
+
+// Columns an operation creates, which later operations may refer to
+const createdColumns = (operation: CleaningOperation): string[] =>
+  [...(operation.newColumns || []), operation.newName].filter((column): column is string => typeof column === 'string' && column !== '');
+
+// Columns the operations read from the file: those not created by an earlier operation
+const inputColumns = (operations: CleaningOperation[]): string[] => {
+  const created = new Set<string>();
+  const columns = new Set<string>();
+  operations.forEach(operation => {
+    operationColumns(operation).forEach(column => {
+      if (!created.has(column)) columns.add(column);
+    });
+    createdColumns(operation).forEach(column => created.add(column));
+  });
+  return Array.from(columns);
+};
+
+// Type family of every column, as the type overrides and locale read it
+export const datasetColumnTypes = (
+  data: CSVData,
+  locale: DatasetLocale | null = null,
+  overrides: TypeOverrides = {}
+): { [column: string]: ColumnType } => {
+  const store = getColumnStore(data);
+  const types: { [column: string]: ColumnType } = {};
+  data.headers.forEach((header, colIndex) => {
+    const settings = columnLocale(locale, header);
+    types[header] = typeFamily(resolveColumnType(header, getLocalizedColumnValues(store, colIndex, settings), overrides, settings).type);
+  });
+  return types;
+};
+
+// Row selections are dropped, so a step runs on every row of the next file, and
+// row-bound steps are left out and returned as skipped. Hash salts are dropped
+// too, as a recipe is meant to be shared; bindRecipe draws new ones.
+export const createRecipe = (
+  name: string,
+  operations: CleaningOperation[],
+  source: string,
+  columnTypes: { [column: string]: ColumnType }
+): { recipe: CleaningRecipe; skipped: CleaningOperation[] } => {
+  const portable = operations.filter(operation => !isRowBound(operation)).map(operation => {
+    const copy = { ...operation };
+    delete copy.rows;
+    delete copy.salt;
+    return copy;
+  });
+  const columns = inputColumns(portable).map(column => ({
+    name: column,
+    type: columnTypes[column] || 'text'
+  }));
+  return {
+    recipe: {
+      format: RECIPE_FORMAT,
+      version: RECIPE_VERSION,
+      name,
+      createdAt: new Date().toISOString(),
+      source,
+      columns,
+      operations: portable
+    },
+    skipped: operations.filter(isRowBound)
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A check for one field of a saved operation, and what it expects for error messages
+interface FieldRule<T> {
+  check: (value: unknown) => value is T;
+  expected: string;
+}
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRowNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const oneOf = <T extends string>(options: T[]): FieldRule<T> => ({
+  check: (value): value is T => options.includes(value as T),
+  expected: `one of ${options.map(option => `"${option}"`).join(', ')}`
+});
+
+const COLUMN_RULE: FieldRule<string> = { check: isName, expected: 'a column name' };
+
+const COLUMN_LIST_RULE: FieldRule<string[]> = {
+  check: (value): value is string[] => Array.isArray(value) && value.length > 0 && value.every(isName),
+  expected: 'a list of column names'
+};
+
+const TEXT_RULE: FieldRule<string> = { check: (value): value is string => typeof value === 'string', expected: 'text' };
+
+const FIELD_RULES: { [field in OperationField]-?: FieldRule<NonNullable<CleaningOperation[field]>> } = {
+  column: COLUMN_RULE,
+  value: {
+    check: (value): value is string | number | boolean => typeof value === 'string' || isFiniteNumber(value) || typeof value === 'boolean',
+    expected: 'text, a number or true/false'
+  },
+  rows: {
+    check: (value): value is number[] => Array.isArray(value) && value.every(isRowNumber),
+    expected: 'a list of row numbers'
+  },
+  dateFormat: TEXT_RULE,
+  clusters: {
+    check: (value): value is DuplicateResolution[] =>
+      Array.isArray(value) && value.every(cluster =>
+        isObject(cluster) && isRowNumber(cluster.keep) && Array.isArray(cluster.remove) &&
+        cluster.remove.every(isRowNumber) && typeof cluster.merge === 'boolean'),
+    expected: 'a list of duplicate clusters'
+  },
+  mappings: {
+    check: (value): value is { [value: string]: string } => isObject(value) && Object.values(value).every(item => typeof item === 'string'),
+    expected: 'an object of replacement values'
+  },
+  keyColumns: COLUMN_LIST_RULE,
+  keep: oneOf(KEEP_STRATEGIES.map(strategy => strategy.value)),
+  strategy: oneOf(IMPUTATION_STRATEGIES.map(strategy => strategy.value)),
+  sortColumn: COLUMN_RULE,
+  groupColumn: COLUMN_RULE,
+  neighbors: {
+    check: (value): value is number => Number.isInteger(value) && (value as number) >= 1,
+    expected: 'a whole number of at least 1'
+  },
+  bounds: {
+    check: (value): value is { lower: number; upper: number } =>
+      isObject(value) && isFiniteNumber(value.lower) && isFiniteNumber(value.upper) && value.lower <= value.upper,
+    expected: 'an object with numbers "lower" and "upper", lower first'
+  },
+  outlierAction: oneOf(['remove', 'cap']),
+  format: oneOf(Object.keys(FORMAT_FIX_LABELS) as (keyof typeof FORMAT_FIX_LABELS)[]),
+  countryCode: { check: (value): value is string => typeof value === 'string' && /^\d{1,3}$/.test(value), expected: 'a calling code such as "44"' },
+  sensitiveAction: oneOf(SENSITIVE_ACTIONS.map(action => action.value)),
+  salt: TEXT_RULE,
+  columns: COLUMN_LIST_RULE,
+  delimiter: { check: (value): value is string => typeof value === 'string' && value !== '', expected: 'non-empty text' },
+  pattern: {
+    check: (value): value is string => {
+      if (typeof value !== 'string' || value === '') return false;
+      try {
+        new RegExp(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    expected: 'a valid regular expression'
+  },
+  newColumns: COLUMN_LIST_RULE,
+  newName: COLUMN_RULE,
+  template: { check: (value): value is string => typeof value === 'string' && value.trim() !== '', expected: 'non-empty text' },
+  dropSource: { check: (value): value is boolean => typeof value === 'boolean', expected: 'true or false' },
+  targetType: oneOf(Object.keys(TARGET_TYPE_LABELS) as (keyof typeof TARGET_TYPE_LABELS)[])
+};
+
+// Copies a field to the operation once it holds what the field expects; null counts as unset
+const copyField = <K extends OperationField>(target: CleaningOperation, source: Record<string, unknown>, field: K, label: string) => {
+  const value = source[field];
+  if (value === undefined || value === null) return;
+  const rule = FIELD_RULES[field];
+  if (!rule.check(value)) {
+    throw new Error(`${label}: "${field}" must be ${rule.expected}`);
+  }
+  target[field] = value;
+};
+
+// Checks that an operation read from a recipe has every field its type needs,
+// each of the right shape, and keeps only those fields
+const parseOperation = (operation: unknown, index: number): CleaningOperation => {
+  if (!isObject(operation) || !OPERATION_TYPES.includes(operation.type as CleaningOperation['type'])) {
+    throw new Error(`Operation ${index + 1} has an unknown type`);
+  }
+  if (typeof operation.description !== 'string') {
+    throw new Error(`Operation ${index + 1} must have a description`);
+  }
+  const type = operation.type as CleaningOperation['type'];
+  const label = `Operation ${index + 1} (${type})`;
+  const parsed: CleaningOperation = { type, description: operation.description };
+  if (isRowBound(parsed)) {
+    throw new Error(`${label} names rows of the file it was built on and cannot run from a recipe`);
+  }
+
+  const { required, optional } = OPERATION_FIELDS[type];
+  required.forEach(field => {
+    if (operation[field] === undefined || operation[field] === null) {
+      throw new Error(`${label} is missing "${field}" (${FIELD_RULES[field].expected})`);
+    }
+  });
+  [...required, ...optional].forEach(field => copyField(parsed, operation, field, label));
+
+  // Fields that are only needed in combination with others
+  if (type === 'fill_missing' && (!parsed.strategy || parsed.strategy === 'constant') && parsed.value === undefined) {
+    throw new Error(`${label} fills a fixed value but has no "value"`);
+  }
+  if (type === 'fill_missing' && parsed.strategy === 'group' && !parsed.groupColumn) {
+    throw new Error(`${label} fills within groups but has no "groupColumn"`);
+  }
+  if (type === 'dedupe_by_key' && (parsed.keep === 'max' || parsed.keep === 'min') && !parsed.column) {
+    throw new Error(`${label} keeps the row with the ${parsed.keep === 'max' ? 'highest' : 'lowest'} value but has no "column"`);
+  }
+  if (type === 'split_column' && !parsed.delimiter && !parsed.pattern) {
+    throw new Error(`${label} needs a "delimiter" or a "pattern"`);
+  }
+  return parsed;
+};
+
+export const parseRecipe = (text: string): CleaningRecipe => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : 'could not parse file'}`);
+  }
+  if (!isObject(parsed) || parsed.format !== RECIPE_FORMAT) {
+    throw new Error('Not a cleaning recipe file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > RECIPE_VERSION) {
+    throw new Error(`Recipe version ${String(parsed.version)} is not supported (expected ${RECIPE_VERSION} or earlier)`);
+  }
+  if (!Array.isArray(parsed.operations)) {
+    throw new Error('Recipe must contain an "operations" array');
+  }
+
+  const operations = parsed.operations.map(parseOperation);
+
+  // Older files may lack column types; the columns are always taken from the operations
+  const savedTypes: { [column: string]: ColumnType } = {};
+  (Array.isArray(parsed.columns) ? parsed.columns : []).forEach(column => {
+    if (isObject(column) && typeof column.name === 'string' && COLUMN_TYPES.includes(column.type as ColumnType)) {
+      savedTypes[column.name] = column.type as ColumnType;
+    }
+  });
+  const columns = inputColumns(operations).map(name => ({
+    name,
+    type: savedTypes[name] || 'text'
+  }));
+
+  return {
+    format: RECIPE_FORMAT,
+    version: parsed.version,
+    name: typeof parsed.name === 'string' ? parsed.name : 'Untitled recipe',
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    source: typeof parsed.source === 'string' ? parsed.source : '',
+    columns,
+    operations
+  };
+};
+
+// Binds recipe columns missing from the file to a column that looks renamed from them
+export const suggestBindings = (
+  recipe: CleaningRecipe,
+  headers: string[],
+  columnTypes: { [column: string]: ColumnType }
+): RecipeBindings => {
+  const used = new Set(recipe.columns.map(column => column.name));
+  let unused = headers.filter(header => !used.has(header));
+  const bindings: RecipeBindings = {};
+  recipe.columns.forEach(column => {
+    if (headers.includes(column.name)) return;
+    const renamed = findRename(column, -1, unused, headers, columnTypes);
+    if (renamed) {
+      bindings[column.name] = renamed;
+      unused = unused.filter(header => header !== renamed);
+    }
+  });
+  return bindings;
+};
+
+// Column and type mismatches between a recipe and the file it is about to run on.
+// Missing columns block the recipe; renamed and retyped ones are warnings.
+export const checkRecipe = (
+  recipe: CleaningRecipe,
+  bindings: RecipeBindings,
+  headers: string[],
+  columnTypes: { [column: string]: ColumnType }
+): SchemaDriftIssue[] => {
+  const issues: SchemaDriftIssue[] = [];
+  recipe.columns.forEach(column => {
+    const bound = bindings[column.name] || column.name;
+    if (!headers.includes(bound)) {
+      issues.push({
+        kind: 'missing_column',
+        column: column.name,
+        expected: column.name,
+        description: `Column "${column.name}" used by the recipe is not in this file`,
+        severity: 'high'
+      });
+      return;
+    }
+    if (bound !== column.name) {
+      issues.push({
+        kind: 'renamed_column',
+        column: bound,
+        expected: column.name,
+        actual: bound,
+        description: `Recipe column "${column.name}" runs on "${bound}"`,
+        severity: 'low'
+      });
+    }
+    const actualType = columnTypes[bound];
+    if (actualType && actualType !== column.type) {
+      issues.push({
+        kind: 'retyped_column',
+        column: bound,
+        expected: column.type,
+        actual: actualType,
+        description: `Column "${bound}" looks ${actualType} but the recipe was saved for ${column.type} values`,
+        severity: 'medium'
+      });
+    }
+  });
+  return issues;
+};
+
+// The recipe's operations with their columns bound to the file's columns. Columns
+// an earlier operation created keep their names; hash steps without a salt get a new one.
+export const bindRecipe = (recipe: CleaningRecipe, bindings: RecipeBindings): CleaningOperation[] => {
+  const created = new Set<string>();
+  const bind = (column: string) => (created.has(column) ? column : bindings[column] || column);
+  return recipe.operations.map(operation => {
+    const bound: CleaningOperation = { ...operation };
+    if (operation.column !== undefined) bound.column = bind(operation.column);
+    if (operation.sortColumn !== undefined) bound.sortColumn = bind(operation.sortColumn);
+    if (operation.groupColumn !== undefined) bound.groupColumn = bind(operation.groupColumn);
+    if (operation.keyColumns) bound.keyColumns = operation.keyColumns.map(bind);
+    if (operation.type === 'handle_sensitive' && operation.sensitiveAction === 'hash' && !operation.salt) bound.salt = createSalt();
+    if (operation.columns) bound.columns = operation.columns.map(bind);
+    if (operation.template !== undefined) {
+      bound.template = operation.template.replace(/\{([^{}]+)\}/g, (_, column: string) => `{${bind(column)}}`);
+    }
+    // Descriptions name the columns, and they become the snapshot names
+    operationColumns(operation).forEach(column => {
+      if (bind(column) === column) return;
+      const pattern = new RegExp(`(^|[^\\w])${escapeRegExp(column)}(?=[^\\w]|$)`, 'g');
+      bound.description = bound.description.replace(pattern, `$1${bind(column)}`);
+    });
+    createdColumns(operation).forEach(column => created.add(column));
+    return bound;
+  });
+};
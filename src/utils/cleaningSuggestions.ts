@@ -0,0 +1,479 @@
+import { CSVData, CellValue, CleaningOperation, CleaningSuggestion } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { CandidateKey, candidateKeyLabel, groupByKey } from './candidateKeys';
+import { formatCellValue, isMissingValue } from './cellValues';
+import { getCell, getColumnStore, getColumnValues, getRawColumnValues, getRow, rowKeyAt } from './columnStore';
+import { detectDateFormat, normalizeDate, readDateFormats } from './dateFormats';
+import { DEFAULT_COUNTRY_CODE, FORMAT_FIX_LABELS, FormatFix, fixFormat } from './formatFixes';
+import { DatasetLocale, columnLocale, getLocalizedColumnValues } from './locale';
+import { DatasetOutlierSettings, columnOutlierRule, findColumnOutliers, outlierMethodLabel } from './outliers';
+import { createSalt, protectColumn } from './sensitiveData';
+import { TypeOverrides, resolveColumnType } from './typeInference';
+import { ValueMappings } from './valueClustering';
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+export const suggestCleaningSteps = async (
+  data: CSVData,
+  ctx: TaskContext = directContext,
+  locale: DatasetLocale | null = null,
+  candidateKeys: CandidateKey[] = [],
+  valueMappings: ValueMappings = {},
+  outlierSettings: DatasetOutlierSettings | null = null,
+  typeOverrides: TypeOverrides = {},
+  sensitiveColumns: { [column: string]: string[] } = {}
+): Promise<CleaningSuggestion[]> => {
+  const store = getColumnStore(data);
+  const steps: CleaningSuggestion[] = [];
+  const stageCount = 7;
+
+  // Check for duplicates with detailed preview
+  ctx.progress(0, 'Duplicates');
+  const duplicateRowIndices: number[] = [];
+  const seenRows = new Map<string, number>();
+  for (let index = 0; index < store.rowCount; index++) {
+    if (index % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress(index / Math.max(1, store.rowCount) / stageCount, 'Duplicates');
+      await ctx.checkpoint();
+    }
+    const key = rowKeyAt(store, index);
+    if (seenRows.has(key)) {
+      duplicateRowIndices.push(index);
+    } else {
+      seenRows.set(key, index);
+    }
+  }
+
+  if (duplicateRowIndices.length > 0) {
+    const duplicatePreview = duplicateRowIndices.slice(0, 5).map(index => ({
+      rowNumber: index + 1,
+      data: getRow(store, index),
+      originalIndex: seenRows.get(rowKeyAt(store, index))
+    }));
+
+    steps.push({
+      id: 'remove_duplicates',
+      title: 'Remove Duplicate Rows',
+      description: `Found ${duplicateRowIndices.length} duplicate rows. These are exact copies of existing rows and can be safely removed.`,
+      issues: duplicateRowIndices.length,
+      operation: {
+        type: 'remove_duplicates',
+        description: `Remove ${duplicateRowIndices.length} duplicate rows`
+      },
+      affectedRows: duplicateRowIndices,
+      affectedColumns: data.headers,
+      previewData: {
+        before: duplicatePreview,
+        after: []
+      }
+    });
+  }
+
+  // Rows that share a candidate key even though the rest of the row differs
+  for (const key of candidateKeys) {
+    const columns = key.map(name => store.columns[data.headers.indexOf(name)]);
+    if (columns.length === 0 || columns.some(column => column === undefined)) continue;
+    await ctx.checkpoint();
+    const groups = groupByKey(store.rowCount, rowIndex => columns.map(column => getCell(column, rowIndex)));
+    if (groups.length === 0) continue;
+
+    const extraRows = groups.reduce((sum, group) => sum + group.length - 1, 0);
+    const label = candidateKeyLabel(key);
+    steps.push({
+      id: `dedupe_by_key_${key.join('_')}`,
+      title: `Resolve Duplicate Keys in "${label}"`,
+      description: `${groups.length} values of the candidate key appear in more than one row. One row per key is kept and the other ${extraRows} are removed.`,
+      issues: extraRows,
+      operation: {
+        type: 'dedupe_by_key',
+        keyColumns: key,
+        keep: 'first',
+        description: `Keep the first row for each duplicated ${label}`
+      },
+      affectedRows: groups.flat(),
+      affectedColumns: key,
+      previewData: {
+        before: groups.slice(0, 5).map(group => ({
+          key: key.map((_, k) => getCell(columns[k], group[0])),
+          rows: group.slice(0, 10).map(rowIndex => ({ rowNumber: rowIndex + 1, data: getRow(store, rowIndex) })),
+          count: group.length
+        })),
+        after: []
+      }
+    });
+  }
+
+  // Check for missing values with detailed column analysis
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((1 + colIndex / data.headers.length) / stageCount, 'Missing Values');
+    await ctx.checkpoint();
+
+    const header = data.headers[colIndex];
+    const columnData = getColumnValues(store, colIndex);
+    const missingRowIndices: number[] = [];
+
+    columnData.forEach((val, rowIndex) => {
+      if (isMissingValue(val)) {
+        missingRowIndices.push(rowIndex);
+      }
+    });
+
+    if (missingRowIndices.length > 0) {
+      // Suggest appropriate fill value based on column type
+      const nonEmptyValues = columnData.filter(val => !isMissingValue(val));
+
+      const numericValues = nonEmptyValues.filter((val): val is number => typeof val === 'number');
+      let suggestedValue: CellValue = '';
+      let strategy: CleaningOperation['strategy'] = 'constant';
+
+      if (numericValues.length > nonEmptyValues.length / 2) {
+        strategy = 'mean';
+        // Numeric column - suggest mean
+        const mean = numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length;
+        suggestedValue = Math.round(mean * 100) / 100;
+      } else {
+        // Text column - suggest most common value or 'Unknown'
+        const valueCounts = new Map<CellValue, number>();
+        nonEmptyValues.forEach(val => {
+          valueCounts.set(val, (valueCounts.get(val) || 0) + 1);
+        });
+        const mostCommon = Array.from(valueCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+        suggestedValue = mostCommon ? mostCommon[0] : 'Unknown';
+        if (mostCommon) strategy = 'mode';
+      }
+
+      // Only the first rows are needed for the selectable preview
+      const missingValues = missingRowIndices.slice(0, 10).map(rowIndex => ({
+        rowNumber: rowIndex + 1,
+        rowData: getRow(store, rowIndex),
+        columnIndex: colIndex,
+        rowIndex
+      }));
+
+      steps.push({
+        id: `fill_missing_${header}`,
+        title: `Fill Missing Values in "${header}"`,
+        description: `${missingRowIndices.length} missing values found in this column. You can select which specific rows to fill.`,
+        issues: missingRowIndices.length,
+        operation: {
+          type: 'fill_missing',
+          column: header,
+          strategy,
+          value: suggestedValue,
+          description: `Fill missing values in ${header}`
+        },
+        affectedRows: missingRowIndices,
+        affectedColumns: [header],
+        previewData: {
+          before: missingValues,
+          after: missingValues.map(item => ({
+            ...item,
+            newValue: suggestedValue
+          }))
+        }
+      });
+    }
+  }
+
+  // Check for outliers with each column's outlier method
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((2 + colIndex / data.headers.length) / stageCount, 'Outliers');
+    await ctx.checkpoint();
+
+    const column = data.headers[colIndex];
+    const rule = columnOutlierRule(outlierSettings, column);
+    // Read in the column's locale so "1.234,56" counts as a number; only
+    // columns where most values are numeric are checked
+    const values = getLocalizedColumnValues(store, colIndex, columnLocale(locale, column));
+    const result = findColumnOutliers(values, rule);
+    if (!result || result.rows.length === 0) continue;
+
+    const { fences, rows } = result;
+    const outlierPreview = rows.slice(0, 5).map(rowIndex => ({
+      rowNumber: rowIndex + 1,
+      value: values[rowIndex],
+      rowData: getRow(store, rowIndex),
+      reason: (values[rowIndex] as number) < fences.lower ? 'Below normal range' : 'Above normal range',
+      bounds: fences
+    }));
+
+    steps.push({
+      id: `remove_outliers_${column}`,
+      title: `Handle Outliers in "${column}"`,
+      description: `${rows.length} values fall outside the ${outlierMethodLabel(rule.method)} fences. These values are significantly different from the normal range and may skew analysis.`,
+      issues: rows.length,
+      operation: {
+        type: 'remove_outliers',
+        column,
+        bounds: fences,
+        outlierAction: 'remove',
+        description: `Remove ${rows.length} outliers from ${column}`
+      },
+      affectedRows: rows,
+      affectedColumns: [column],
+      previewData: {
+        before: outlierPreview,
+        after: outlierPreview.map(item => ({
+          ...item,
+          newValue: Math.min(fences.upper, Math.max(fences.lower, item.value as number))
+        }))
+      }
+    });
+  }
+
+  // Check for date columns written in mixed or non-ISO formats
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((3 + colIndex / data.headers.length) / stageCount, 'Date Formats');
+    await ctx.checkpoint();
+
+    const column = data.headers[colIndex];
+    const settings = columnLocale(locale, column);
+    const rawValues = getRawColumnValues(store, colIndex);
+    const detection = detectDateFormat(rawValues, settings);
+    // A column of bare Excel serials is as likely to be plain numbers
+    if (!detection.format || detection.format === 'Excel serial') continue;
+
+    const nonEmpty = rawValues.filter(text => text.trim() !== '');
+    const readable = nonEmpty.filter(text => readDateFormats(text, settings.dateOrder).length > 0);
+    if (readable.length < nonEmpty.length * 0.7) continue;
+
+    const changedRows: number[] = [];
+    const changedValues: { rowNumber: number; original: string; normalized: string; format: string }[] = [];
+    rawValues.forEach((text, rowIndex) => {
+      const normalized = normalizeDate(text, detection.format, settings.dateOrder);
+      if (normalized === null || normalized === text.trim()) return;
+      changedRows.push(rowIndex);
+      if (changedValues.length < 10) {
+        const readings = readDateFormats(text, settings.dateOrder);
+        changedValues.push({
+          rowNumber: rowIndex + 1,
+          original: text,
+          normalized,
+          format: (readings.find(reading => reading.format === detection.format) ?? readings[0]).format
+        });
+      }
+    });
+
+    if (changedRows.length > 0) {
+      steps.push({
+        id: `normalize_dates_${column}`,
+        title: `Normalize Dates in "${column}" to ISO 8601`,
+        description: `${changedRows.length} dates will be rewritten as YYYY-MM-DD. Most values are ${detection.format}${
+          detection.ambiguous ? `; day/month order could not be told apart, so values are read as ${detection.format}` : ''
+        }.`,
+        issues: changedRows.length,
+        operation: {
+          type: 'normalize_dates',
+          column,
+          dateFormat: detection.format,
+          description: `Rewrite ${changedRows.length} dates in ${column} as ISO 8601`
+        },
+        affectedRows: changedRows,
+        affectedColumns: [column],
+        previewData: {
+          before: changedValues,
+          after: changedValues
+        }
+      });
+    }
+  }
+
+  // Check for text standardization
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((4 + colIndex / data.headers.length) / stageCount, 'Text Standardization');
+    await ctx.checkpoint();
+
+    const column = data.headers[colIndex];
+    const columnData = getColumnValues(store, colIndex);
+
+    // Mappings approved in value clustering are offered again whenever they still apply
+    const mappings = valueMappings[column];
+    if (mappings) {
+      const mappedRows: number[] = [];
+      const changes = new Map<string, { original: string; standardized: string; count: number }>();
+      columnData.forEach((value, rowIndex) => {
+        if (isEmptyCell(value)) return;
+        const original = formatCellValue(value);
+        const canonical = mappings[original];
+        if (canonical === undefined || canonical === original) return;
+        mappedRows.push(rowIndex);
+        const change = changes.get(original);
+        if (change) change.count++;
+        else changes.set(original, { original, standardized: canonical, count: 1 });
+      });
+      if (mappedRows.length > 0) {
+        const preview = Array.from(changes.values()).sort((a, b) => b.count - a.count).slice(0, 10);
+        steps.push({
+          id: `standardize_values_${column}`,
+          title: `Apply Value Mappings in "${column}"`,
+          description: `${mappedRows.length} values match saved mappings from value clustering and will be replaced with their canonical spelling.`,
+          issues: mappedRows.length,
+          operation: {
+            type: 'standardize',
+            column,
+            mappings,
+            description: `Map ${changes.size} spellings to canonical values in ${column}`
+          },
+          affectedRows: mappedRows,
+          affectedColumns: [column],
+          previewData: {
+            before: preview,
+            after: preview
+          }
+        });
+      }
+    }
+
+    const textCount = columnData.filter(value => typeof value === 'string').length;
+    if (textCount <= store.rowCount / 2) continue;
+
+    const inconsistentRows: number[] = [];
+    const inconsistentValues: { rowNumber: number; original: string; standardized: string; rowData: CellValue[] }[] = [];
+
+    columnData.forEach((value, rowIndex) => {
+      if (typeof value === 'string') {
+        const standardized = value.trim().toLowerCase();
+        if (value !== standardized || value.includes('  ')) {
+          inconsistentRows.push(rowIndex);
+          if (inconsistentValues.length < 5) {
+            inconsistentValues.push({
+              rowNumber: rowIndex + 1,
+              original: value,
+              standardized: standardized.replace(/\s+/g, ' '),
+              rowData: getRow(store, rowIndex)
+            });
+          }
+        }
+      }
+    });
+
+    if (inconsistentRows.length > 0) {
+      steps.push({
+        id: `standardize_${column}`,
+        title: `Standardize Text in "${column}"`,
+        description: `${inconsistentRows.length} text values need formatting standardization (case, spacing, etc.).`,
+        issues: inconsistentRows.length,
+        operation: {
+          type: 'standardize',
+          column,
+          description: `Standardize ${inconsistentRows.length} text values in ${column}`
+        },
+        affectedRows: inconsistentRows,
+        affectedColumns: [column],
+        previewData: {
+          before: inconsistentValues,
+          after: inconsistentValues
+        }
+      });
+    }
+  }
+
+  // Check for phone, email and numeric columns with values in a fixable format
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((5 + colIndex / data.headers.length) / stageCount, 'Formats');
+    await ctx.checkpoint();
+
+    const column = data.headers[colIndex];
+    const settings = columnLocale(locale, column);
+    const values = getLocalizedColumnValues(store, colIndex, settings);
+    const { type } = resolveColumnType(column, values, typeOverrides, settings);
+    const format: FormatFix | null = type === 'phone' || type === 'email'
+      ? type
+      : type === 'integer' || type === 'decimal' ? 'numeric' : null;
+    if (!format) continue;
+
+    const rawValues = getRawColumnValues(store, colIndex);
+    const fixedRows: number[] = [];
+    const preview: { rowNumber: number; original: string; fixed: CellValue; rowData: CellValue[] }[] = [];
+    values.forEach((value, rowIndex) => {
+      const raw = rawValues[rowIndex].trim();
+      const fixed = fixFormat(value, raw, format, settings);
+      if (fixed === value || formatCellValue(fixed) === raw) return;
+      fixedRows.push(rowIndex);
+      if (preview.length < 5) {
+        preview.push({ rowNumber: rowIndex + 1, original: raw, fixed, rowData: getRow(store, rowIndex) });
+      }
+    });
+    if (fixedRows.length === 0) continue;
+
+    steps.push({
+      id: `fix_format_${column}`,
+      title: `Fix Formats in "${column}"`,
+      description: `${fixedRows.length} values can be fixed: ${FORMAT_FIX_LABELS[format]}.`,
+      issues: fixedRows.length,
+      operation: {
+        type: 'fix_format',
+        column,
+        format,
+        countryCode: format === 'phone' ? DEFAULT_COUNTRY_CODE : undefined,
+        description: `Fix ${fixedRows.length} values in ${column} (${FORMAT_FIX_LABELS[format]})`
+      },
+      affectedRows: fixedRows,
+      affectedColumns: [column],
+      previewData: {
+        before: preview,
+        after: preview
+      }
+    });
+  }
+
+  // Columns where the quality analysis found personal data; masked by default
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((6 + colIndex / data.headers.length) / stageCount, 'Sensitive Data');
+    await ctx.checkpoint();
+
+    const column = data.headers[colIndex];
+    const detected = sensitiveColumns[column];
+    if (!detected || detected.length === 0) continue;
+
+    const columnData = getColumnValues(store, colIndex);
+    const rawValues = getRawColumnValues(store, colIndex);
+    const filledRows: number[] = [];
+    columnData.forEach((value, rowIndex) => {
+      if (!isEmptyCell(value)) filledRows.push(rowIndex);
+    });
+    if (filledRows.length === 0) continue;
+
+    // Tokens count from the top of the column, so the prefix up to the last
+    // preview row gets the same tokens as the whole column will
+    const salt = createSalt();
+    const previewRows = filledRows.slice(0, 5);
+    const written = rawValues.slice(0, previewRows[previewRows.length - 1] + 1)
+      .map((text, rowIndex) => (isEmptyCell(columnData[rowIndex]) ? '' : text));
+    const protectedValues = {
+      mask: protectColumn(written, 'mask'),
+      hash: protectColumn(written, 'hash', salt),
+      tokenize: protectColumn(written, 'tokenize')
+    };
+    const preview = previewRows.map(rowIndex => ({
+      rowNumber: rowIndex + 1,
+      original: rawValues[rowIndex].trim(),
+      mask: protectedValues.mask[rowIndex],
+      hash: protectedValues.hash[rowIndex],
+      tokenize: protectedValues.tokenize[rowIndex]
+    }));
+
+    steps.push({
+      id: `handle_sensitive_${column}`,
+      title: `Protect Sensitive Data in "${column}"`,
+      description: `${detected.join(', ')} detected in this column. Mask, hash, tokenize or drop it before the data is shared.`,
+      issues: filledRows.length,
+      operation: {
+        type: 'handle_sensitive',
+        column,
+        sensitiveAction: 'mask',
+        salt,
+        description: `Mask ${filledRows.length} values in ${column}`
+      },
+      affectedRows: filledRows,
+      affectedColumns: [column],
+      previewData: {
+        before: preview,
+        after: preview
+      }
+    });
+  }
+
+  ctx.progress(1, 'Done');
+  return steps;
+};
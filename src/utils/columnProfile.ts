@@ -0,0 +1,57 @@
+import { CSVData, CellValue } from '../types';
+import { TaskContext, directContext } from './analysisTask';
+import { getColumnStore, getColumnValues } from './columnStore';
+
+export interface ColumnProfile {
+  total: number;
+  nonEmpty: number;
+  empty: number;
+  unique: number;
+  duplicates: number;
+  numeric?: {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+  };
+}
+
+export const profileColumn = (values: CellValue[]): ColumnProfile => {
+  const nonEmptyValues = values.filter(v => v !== '' && v !== null && v !== undefined);
+  const numericValues = nonEmptyValues.filter((v): v is number => typeof v === 'number');
+  const uniqueValues = new Set(nonEmptyValues);
+
+  const profile: ColumnProfile = {
+    total: values.length,
+    nonEmpty: nonEmptyValues.length,
+    empty: values.length - nonEmptyValues.length,
+    unique: uniqueValues.size,
+    duplicates: nonEmptyValues.length - uniqueValues.size
+  };
+
+  if (numericValues.length > 0) {
+    const sorted = [...numericValues].sort((a, b) => a - b);
+    profile.numeric = {
+      count: numericValues.length,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length,
+      median: sorted[Math.floor(sorted.length / 2)]
+    };
+  }
+
+  return profile;
+};
+
+export const profileColumns = async (data: CSVData, ctx: TaskContext = directContext): Promise<ColumnProfile[]> => {
+  const store = getColumnStore(data);
+  const profiles: ColumnProfile[] = [];
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress(colIndex / data.headers.length, data.headers[colIndex]);
+    await ctx.checkpoint();
+    profiles.push(profileColumn(getColumnValues(store, colIndex)));
+  }
+  ctx.progress(1, 'Done');
+  return profiles;
+};
@@ -0,0 +1,286 @@
+import { CSVData, CellValue } from '../types';
+import { formatCellValue } from './cellValues';
+
+// Column-oriented storage behind CSVData. Numbers live in a Float64Array and
+// every other value is dictionary-encoded, so a column of repeated labels costs
+// one small integer per row instead of one string reference.
+//
+// - numeric: every cell is a number
+// - dictionary: no cell is a number; cell = dictionary[codes[i]]
+// - mixed: codes[i] === 0 means the cell is values[i], otherwise dictionary[codes[i] - 1]
+//   (typically a numeric column with blanks)
+//
+// raw holds the text a cell was parsed from, by row index, for the cells where it
+// differs from the printed value ("1e5" stored as 100000, "  x " stored as "x") or
+// that a locale may read as another number ("1.234"). Cells not in it print
+// exactly as they arrived.
+export type CodeArray = Uint8Array | Uint16Array | Uint32Array;
+
+export type RawText = Map<number, string>;
+
+export type StoredColumn = (
+  | { kind: 'numeric'; values: Float64Array }
+  | { kind: 'dictionary'; codes: CodeArray; dictionary: CellValue[] }
+  | { kind: 'mixed'; values: Float64Array; codes: CodeArray; dictionary: CellValue[] }
+) & { raw?: RawText };
+
+export interface ColumnStore {
+  rowCount: number;
+  columns: StoredColumn[];
+}
+
+// What crosses the worker boundary: plain typed arrays instead of the row view
+export interface ColumnarData {
+  headers: string[];
+  filename: string;
+  store: ColumnStore;
+}
+
+// Type-tagged key so 1 and "1" (or a Date and its text) get separate entries
+const dictionaryKey = (value: CellValue): string => {
+  if (typeof value === 'boolean') return value ? 'T' : 'F';
+  if (value instanceof Date) return 'd' + value.getTime();
+  if (typeof value === 'number') return 'n' + value;
+  return 's' + value;
+};
+
+const INITIAL_CAPACITY = 1024;
+
+const narrowCodes = (codes: Uint32Array, length: number, maxCode: number): CodeArray => {
+  if (maxCode < 0x100) return Uint8Array.from(codes.subarray(0, length));
+  if (maxCode < 0x10000) return Uint16Array.from(codes.subarray(0, length));
+  return codes.slice(0, length);
+};
+
+// Appends cells one at a time without keeping a CellValue[] per column
+export const createColumnBuilder = () => {
+  let capacity = INITIAL_CAPACITY;
+  let length = 0;
+  let values = new Float64Array(capacity);
+  let codes = new Uint32Array(capacity);
+  let numberCount = 0;
+  const dictionary: CellValue[] = [];
+  const dictionaryIndex = new Map<string, number>();
+  const raw: RawText = new Map();
+
+  const grow = () => {
+    capacity *= 2;
+    const nextValues = new Float64Array(capacity);
+    nextValues.set(values);
+    values = nextValues;
+    const nextCodes = new Uint32Array(capacity);
+    nextCodes.set(codes);
+    codes = nextCodes;
+  };
+
+  // rawText is the source text of the cell, when it came from text; keepText
+  // keeps it even when it prints the same
+  const push = (value: CellValue, rawText?: string, keepText = false) => {
+    if (length === capacity) grow();
+    if (rawText !== undefined && (keepText || rawText !== formatCellValue(value))) raw.set(length, rawText);
+    if (typeof value === 'number') {
+      values[length] = value;
+      codes[length] = 0;
+      numberCount++;
+    } else {
+      const key = dictionaryKey(value);
+      let index = dictionaryIndex.get(key);
+      if (index === undefined) {
+        index = dictionary.length;
+        dictionary.push(value);
+        dictionaryIndex.set(key, index);
+      }
+      codes[length] = index + 1;
+    }
+    length++;
+  };
+
+  const encode = (): StoredColumn => {
+    if (numberCount === length) {
+      return { kind: 'numeric', values: values.slice(0, length) };
+    }
+    if (numberCount === 0) {
+      const shifted = new Uint32Array(length);
+      for (let i = 0; i < length; i++) shifted[i] = codes[i] - 1;
+      return { kind: 'dictionary', codes: narrowCodes(shifted, length, dictionary.length - 1), dictionary };
+    }
+    return {
+      kind: 'mixed',
+      values: values.slice(0, length),
+      codes: narrowCodes(codes, length, dictionary.length),
+      dictionary
+    };
+  };
+
+  const finish = (): StoredColumn => {
+    const column = encode();
+    if (raw.size > 0) column.raw = raw;
+    return column;
+  };
+
+  return { push, finish };
+};
+
+export type ColumnBuilder = ReturnType<typeof createColumnBuilder>;
+
+export const encodeColumn = (cells: ArrayLike<CellValue>): StoredColumn => {
+  const builder = createColumnBuilder();
+  for (let i = 0; i < cells.length; i++) builder.push(cells[i]);
+  return builder.finish();
+};
+
+export const buildColumnStore = (width: number, rows: ArrayLike<CellValue>[]): ColumnStore => {
+  const builders = Array.from({ length: width }, () => createColumnBuilder());
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r];
+    for (let c = 0; c < width; c++) builders[c].push(row[c] ?? '');
+  }
+  return { rowCount: rows.length, columns: builders.map(builder => builder.finish()) };
+};
+
+export const columnStoreFromColumns = (columns: ArrayLike<CellValue>[], rowCount: number): ColumnStore => ({
+  rowCount,
+  columns: columns.map(encodeColumn)
+});
+
+// The first rows of a store, with their source text, e.g. to preview a step on
+export const headOfStore = (store: ColumnStore, count: number): ColumnStore => {
+  const rowCount = Math.min(count, store.rowCount);
+  return {
+    rowCount,
+    columns: store.columns.map(column => {
+      const head = encodeColumn(Array.from({ length: rowCount }, (_, i) => getCell(column, i)));
+      const raw: RawText = new Map(Array.from(column.raw || []).filter(([rowIndex]) => rowIndex < rowCount));
+      if (raw.size > 0) head.raw = raw;
+      return head;
+    })
+  };
+};
+
+export const getCell = (column: StoredColumn, rowIndex: number): CellValue => {
+  switch (column.kind) {
+    case 'numeric':
+      return column.values[rowIndex];
+    case 'dictionary':
+      return column.dictionary[column.codes[rowIndex]];
+    case 'mixed': {
+      const code = column.codes[rowIndex];
+      return code === 0 ? column.values[rowIndex] : column.dictionary[code - 1];
+    }
+  }
+};
+
+// The cell as it appeared in the source
+export const getRawCell = (column: StoredColumn, rowIndex: number): string =>
+  column.raw?.get(rowIndex) ?? formatCellValue(getCell(column, rowIndex));
+
+export const getRow = (store: ColumnStore, rowIndex: number): CellValue[] => {
+  const row = new Array<CellValue>(store.columns.length);
+  for (let c = 0; c < store.columns.length; c++) row[c] = getCell(store.columns[c], rowIndex);
+  return row;
+};
+
+// Decodes one column; much cheaper than rows.map(row => row[colIndex]) since no rows are built
+export const getColumnValues = (store: ColumnStore, colIndex: number): CellValue[] => {
+  const column = store.columns[colIndex];
+  const out = new Array<CellValue>(store.rowCount);
+  for (let i = 0; i < store.rowCount; i++) out[i] = getCell(column, i);
+  return out;
+};
+
+export const getRawColumnValues = (store: ColumnStore, colIndex: number): string[] => {
+  const column = store.columns[colIndex];
+  const out = new Array<string>(store.rowCount);
+  for (let i = 0; i < store.rowCount; i++) out[i] = getRawCell(column, i);
+  return out;
+};
+
+// The numeric cells of a column, in row order
+export const getNumericValues = (store: ColumnStore, colIndex: number): Float64Array => {
+  const column = store.columns[colIndex];
+  if (column.kind === 'numeric') return column.values;
+  if (column.kind === 'dictionary') return new Float64Array(0);
+  let count = 0;
+  for (let i = 0; i < store.rowCount; i++) if (column.codes[i] === 0) count++;
+  const out = new Float64Array(count);
+  let next = 0;
+  for (let i = 0; i < store.rowCount; i++) if (column.codes[i] === 0) out[next++] = column.values[i];
+  return out;
+};
+
+// Same equality as rowKey(row), built from codes without decoding the row
+export const rowKeyAt = (store: ColumnStore, rowIndex: number): string => {
+  let key = '';
+  for (let c = 0; c < store.columns.length; c++) {
+    const column = store.columns[c];
+    if (column.kind === 'numeric') {
+      key += 'n' + column.values[rowIndex];
+    } else if (column.kind === 'dictionary') {
+      key += 'c' + column.codes[rowIndex];
+    } else {
+      const code = column.codes[rowIndex];
+      key += code === 0 ? 'n' + column.values[rowIndex] : 'c' + code;
+    }
+    key += '\u0001';
+  }
+  return key;
+};
+
+// Rows are decoded on access, so components that index or slice rows keep
+// working while only the visible rows are ever materialized.
+const parseIndex = (prop: string | symbol): number => {
+  if (typeof prop !== 'string' || prop.length === 0) return -1;
+  const first = prop.charCodeAt(0);
+  if (first < 48 || first > 57) return -1;
+  const index = Number(prop);
+  return Number.isInteger(index) && String(index) === prop ? index : -1;
+};
+
+const createRowsView = (store: ColumnStore): CellValue[][] =>
+  new Proxy(new Array<CellValue[]>(store.rowCount), {
+    get: (target, prop, receiver) => {
+      const index = parseIndex(prop);
+      if (index !== -1) return index < store.rowCount ? getRow(store, index) : undefined;
+      return Reflect.get(target, prop, receiver);
+    },
+    has: (target, prop) => {
+      const index = parseIndex(prop);
+      return index !== -1 ? index < store.rowCount : Reflect.has(target, prop);
+    },
+    set: () => false,
+    deleteProperty: () => false
+  });
+
+const storesByRows = new WeakMap<CellValue[][], ColumnStore>();
+
+export const createCSVData = (
+  headers: string[],
+  store: ColumnStore,
+  filename: string,
+  extra: Pick<CSVData, 'parseErrors' | 'dialect'> = {}
+): CSVData => {
+  const rows = createRowsView(store);
+  storesByRows.set(rows, store);
+  return { headers, rows, filename, ...extra };
+};
+
+// Columnar store for any CSVData. Data built from plain row arrays is encoded
+// once and cached; the store is keyed by the rows array, so spreading CSVData
+// with a new `rows` never returns a stale store.
+export const getColumnStore = (data: CSVData): ColumnStore => {
+  let store = storesByRows.get(data.rows);
+  if (!store) {
+    store = buildColumnStore(data.headers.length, data.rows);
+    storesByRows.set(data.rows, store);
+  }
+  return store;
+};
+
+export const toColumnarData = (data: CSVData): ColumnarData => ({
+  headers: data.headers,
+  filename: data.filename,
+  store: getColumnStore(data)
+});
+
+export const fromColumnarData = (columnar: ColumnarData, extra: Pick<CSVData, 'parseErrors' | 'dialect'> = {}): CSVData =>
+  createCSVData(columnar.headers, columnar.store, columnar.filename, extra);
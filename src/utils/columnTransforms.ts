@@ -0,0 +1,177 @@
+import { CellValue, CleaningOperation } from '../types';
+import { formatIsoDate, normalizeDate } from './dateFormats';
+import { LocaleSettings, escapeRegExp } from './locale';
+
+export type ColumnTransform = Extract<
+  CleaningOperation['type'],
+  'split_column' | 'merge_columns' | 'rename_column' | 'drop_columns' | 'reorder_columns' | 'change_type' | 'extract_pattern'
+>;
+
+export const COLUMN_TRANSFORMS: { value: ColumnTransform; label: string; description: string }[] = [
+  { value: 'split_column', label: 'Split column', description: 'Split values at a delimiter or regular expression into new columns' },
+  { value: 'merge_columns', label: 'Merge columns', description: 'Combine columns into a new one with a template such as "{first} {last}"' },
+  { value: 'extract_pattern', label: 'Extract with regex', description: 'Copy the capture groups of a regular expression into new columns' },
+  { value: 'rename_column', label: 'Rename column', description: 'Give a column a new name' },
+  { value: 'drop_columns', label: 'Drop columns', description: 'Remove columns from the data' },
+  { value: 'reorder_columns', label: 'Reorder columns', description: 'Move columns into a new order' },
+  { value: 'change_type', label: 'Change type', description: 'Convert values to numbers, true/false, dates or text' }
+];
+
+export const isColumnTransform = (type: CleaningOperation['type']): type is ColumnTransform =>
+  COLUMN_TRANSFORMS.some(transform => transform.value === type);
+
+// Types change_type can convert a column to
+export type TargetType = NonNullable<CleaningOperation['targetType']>;
+
+export const TARGET_TYPE_LABELS: { [type in TargetType]: string } = {
+  text: 'Text, as written',
+  integer: 'Whole number',
+  decimal: 'Decimal number',
+  boolean: 'True / false',
+  date: 'Date (YYYY-MM-DD)'
+};
+
+const TRUE_WORDS = ['true', 'yes', 'y', 't', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', 'f', '0'];
+
+// The regular expression a split_column or extract_pattern step matches: split
+// uses its pattern, or else its delimiter as literal text. Null when there is
+// neither or the pattern does not compile.
+export const transformPattern = (operation: CleaningOperation): RegExp | null => {
+  const source = operation.pattern || (operation.type === 'split_column' && operation.delimiter ? escapeRegExp(operation.delimiter) : '');
+  if (!source) return null;
+  try {
+    return new RegExp(source, 'g');
+  } catch {
+    return null;
+  }
+};
+
+// Why names cannot be added to headers once the dropped columns are gone, or null
+// when they can: they must be filled in, distinct and not taken by a column that stays
+export const columnNameProblem = (headers: string[], names: string[], dropped: string[]): string | null => {
+  if (names.length === 0 || names.some(name => name.trim() === '')) return 'Every new column needs a name';
+  if (new Set(names).size < names.length) return 'The new column names must be different';
+  const taken = names.find(name => headers.includes(name) && !dropped.includes(name));
+  return taken === undefined ? null : `There already is a column named "${taken}"`;
+};
+
+// Number of capture groups in a pattern
+export const captureGroupCount = (pattern: RegExp): number => (new RegExp(`${pattern.source}|`).exec('') as RegExpExecArray).length - 1;
+
+// The text split at the first count - 1 matches of separator; the last part keeps
+// the rest, with its separators. Parts are trimmed and missing parts are empty.
+export const splitText = (text: string, separator: RegExp, count: number): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  separator.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (parts.length < count - 1 && (match = separator.exec(text)) !== null) {
+    if (match[0] === '') {
+      // An empty match would split between every character
+      separator.lastIndex++;
+      continue;
+    }
+    parts.push(text.slice(start, match.index));
+    start = match.index + match[0].length;
+  }
+  parts.push(text.slice(start));
+  while (parts.length < count) parts.push('');
+  return parts.map(part => part.trim());
+};
+
+// The capture groups of the first match of pattern, or the whole match when it
+// has none; empty when the text does not match
+export const extractGroups = (text: string, pattern: RegExp, count: number): string[] => {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  const groups = match ? (match.length > 1 ? match.slice(1) : [match[0]]) : [];
+  return Array.from({ length: count }, (_, i) => (groups[i] ?? '').trim());
+};
+
+// Column names a merge template reads, in order of first use
+export const templateColumns = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{([^{}]+)\}/g)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+// A merge template taken apart: the text before the first placeholder, each
+// placeholder with the brackets right around it and the text joining it to the
+// placeholder before, and the text after the last
+export interface TemplatePart {
+  column: string;
+  joiner: string; // empty for the first placeholder, whose text before is the lead
+  open: string;
+  close: string;
+}
+
+const OPENING_BRACKETS = /[([{<]*$/;
+const CLOSING_BRACKETS = /^[)\]}>]*/;
+
+export const parseTemplate = (template: string): { lead: string; parts: TemplatePart[]; tail: string } => {
+  // Literal text and placeholder names alternate, starting and ending with text
+  const pieces = template.split(/\{([^{}]+)\}/);
+  const parts: TemplatePart[] = [];
+  let lead = '';
+  let text = pieces[0]; // literal text not yet given to a placeholder
+  for (let i = 1; i < pieces.length; i += 2) {
+    const open = OPENING_BRACKETS.exec(text)?.[0] ?? '';
+    const close = CLOSING_BRACKETS.exec(pieces[i + 1])?.[0] ?? '';
+    const joiner = text.slice(0, text.length - open.length);
+    if (i === 1) lead = joiner;
+    parts.push({ column: pieces[i], joiner: i === 1 ? '' : joiner, open, close });
+    text = pieces[i + 1].slice(close.length);
+  }
+  return { lead, parts, tail: text };
+};
+
+// The template with each {column} replaced by that column's text, trimmed. An
+// empty value is left out with its brackets and the text joining it to the value
+// before, so "{first} {middle} {last}" without a middle name has one space and
+// "({first}) {last}" without a first name is only the last name.
+export const fillTemplate = (template: string, value: (column: string) => string): string => {
+  const { lead, parts, tail } = parseTemplate(template);
+  let text = lead;
+  let started = false;
+  parts.forEach(part => {
+    const written = value(part.column);
+    if (written === '') return;
+    text += (started ? part.joiner : '') + part.open + written + part.close;
+    started = true;
+  });
+  return (text + tail).trim();
+};
+
+// The cell converted to type, or null when it does not convert. `localized`
+// is the cell as the column's locale reads it and `text` its source text. Numbers
+// must be plain numbers in the locale's format; currency and percent text is left
+// to fix_format first.
+export const convertValue = (
+  localized: CellValue,
+  text: string,
+  type: TargetType,
+  settings: LocaleSettings
+): CellValue | null => {
+  if (localized === '' || localized === null || localized === undefined) return localized;
+  switch (type) {
+    case 'integer':
+    case 'decimal': {
+      if (typeof localized !== 'number' || (type === 'integer' && !Number.isInteger(localized))) return null;
+      return localized;
+    }
+    case 'boolean': {
+      if (typeof localized === 'boolean') return localized;
+      const word = text.trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return true;
+      return FALSE_WORDS.includes(word) ? false : null;
+    }
+    case 'date':
+      if (localized instanceof Date) return isNaN(localized.getTime()) ? null : formatIsoDate(localized);
+      return normalizeDate(text, null, settings.dateOrder);
+    default:
+      return text.trim();
+  }
+};
@@ -0,0 +1,308 @@
+import { CSVData, CSVDialect, CSVParseError } from '../types';
+import { ColumnBuilder, createCSVData, createColumnBuilder } from './columnStore';
+
+export type CSVEncoding = CSVDialect['encoding'];
+
+export interface CSVParseOptions {
+  delimiter?: string;
+  quote?: string;
+  encoding?: CSVEncoding;
+  // Index of the header record; records above it (title rows) are skipped.
+  // null means the file has no header and columns are named column_1, column_2, ...
+  headerRow?: number | null;
+}
+
+export interface CSVRecordInfo {
+  row: number;
+  line: number;
+}
+
+type TokenizerState = 'field_start' | 'unquoted' | 'quoted' | 'quote_in_quoted';
+
+// Cap on reported problems so a badly broken file can't flood memory with errors
+export const MAX_REPORTED_ERRORS = 1000;
+
+// RFC 4180 tokenizer. Input can be pushed in arbitrary chunks (a quoted field,
+// an escaped quote or a CRLF may straddle two chunks); call end() once at EOF.
+// layout() then tells how the text was laid out, for writing it back.
+export const createCSVTokenizer = (
+  options: CSVParseOptions,
+  onRecord: (fields: string[], info: CSVRecordInfo) => void,
+  onError: (error: CSVParseError) => void
+) => {
+  const delimiter = options.delimiter ?? ',';
+  const quote = options.quote ?? '"';
+
+  let state: TokenizerState = 'field_start';
+  let field = '';
+  let fields: string[] = [];
+  let recordHasQuote = false;
+  let row = 1;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+  let lastWasCR = false;
+  let atStart = true;
+  let hasBOM = false;
+  let lineEnding: CSVDialect['lineEnding'] | null = null;
+  let lineBreaks = 0;
+  let finalLineBreak = false;
+
+  const report = (code: CSVParseError['code'], message: string, at = { line, column: fields.length + 1 }) => {
+    onError({ code, row, column: at.column, line: at.line, message });
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'field_start';
+  };
+
+  const endRecord = () => {
+    endField();
+    // A bare line break carries no data; a quoted empty field ("") does
+    const isBlank = fields.length === 1 && fields[0] === '' && !recordHasQuote;
+    if (!isBlank) {
+      onRecord(fields, { row, line: recordLine });
+      row++;
+    }
+    fields = [];
+    recordHasQuote = false;
+  };
+
+  const endLine = (c: string) => {
+    if (lineEnding === null) lineEnding = c === '\r' ? '\r' : '\n';
+    lineBreaks++;
+    endRecord();
+    line++;
+    recordLine = line;
+  };
+
+  const push = (chunk: string) => {
+    let i = 0;
+    if (atStart && chunk.length > 0) {
+      atStart = false;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        hasBOM = true;
+        i = 1;
+      }
+    }
+
+    for (; i < chunk.length; i++) {
+      const c = chunk[i];
+
+      // Second half of a CRLF: the CR already ended the line
+      if (c === '\n' && lastWasCR) {
+        lastWasCR = false;
+        if (state === 'quoted') field += c;
+        else if (lineBreaks === 1 && lineEnding === '\r') lineEnding = '\r\n';
+        continue;
+      }
+      lastWasCR = c === '\r';
+      const isNewline = c === '\n' || c === '\r';
+
+      switch (state) {
+        case 'field_start':
+          if (c === quote) {
+            state = 'quoted';
+            recordHasQuote = true;
+            quoteLine = line;
+            quoteColumn = fields.length + 1;
+          } else if (c === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endLine(c);
+          } else {
+            field += c;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (c === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endLine(c);
+          } else {
+            if (c === quote) {
+              report('unexpected_quote', `Stray quote inside unquoted field at line ${line}, column ${fields.length + 1}`);
+            }
+            field += c;
+          }
+          break;
+
+        case 'quoted':
+          if (c === quote) {
+            state = 'quote_in_quoted';
+          } else {
+            field += c;
+            if (isNewline) line++;
+          }
+          break;
+
+        case 'quote_in_quoted':
+          if (c === quote) {
+            field += quote;
+            state = 'quoted';
+          } else if (c === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endLine(c);
+          } else {
+            report('unexpected_quote', `Unexpected "${c}" after closing quote at line ${line}, column ${fields.length + 1}`);
+            field += c;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+  };
+
+  const end = () => {
+    if (state === 'quoted') {
+      report(
+        'unterminated_quote',
+        `Quoted field opened at line ${quoteLine}, column ${quoteColumn} is never closed`,
+        { line: quoteLine, column: quoteColumn }
+      );
+    }
+    if (state !== 'field_start' || fields.length > 0) {
+      endRecord();
+    } else {
+      finalLineBreak = lineBreaks > 0;
+    }
+  };
+
+  const layout = (): Pick<CSVDialect, 'hasBOM' | 'lineEnding' | 'finalLineBreak'> => ({
+    hasBOM,
+    lineEnding: lineEnding ?? '\n',
+    finalLineBreak
+  });
+
+  return { push, end, layout };
+};
+
+// Plain decimal numbers only: hex, "Infinity" and values with leading zeros
+// (zip codes, padded IDs) stay text so nothing is lost
+const NUMBER_PATTERN = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$|^[+-]?0?\.\d+([eE][+-]?\d+)?$/;
+
+const coerceCell = (value: string): string | number => {
+  const trimmed = value.trim();
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : trimmed;
+};
+
+// "1.234" is 1.234 to the parser but 1234 where '.' groups thousands, so its
+// text is kept for the column's locale to read
+const GROUPED_NUMBER_PATTERN = /^[+-]?[1-9]\d{0,2}\.\d{3}$/;
+
+// Builds CSVData from tokenizer records. Records before options.headerRow are
+// skipped, the header record names the columns, and ragged rows are padded or truncated to the header width and reported.
+const createCSVCollector = (filename: string, options: CSVParseOptions) => {
+  const headerRow = options.headerRow === undefined ? 0 : options.headerRow;
+  let headers: string[] | null = null;
+  let recordIndex = 0;
+  let columns: ColumnBuilder[] = [];
+  let rowCount = 0;
+  const parseErrors: CSVParseError[] = [];
+
+  const onError = (error: CSVParseError) => {
+    if (parseErrors.length < MAX_REPORTED_ERRORS) {
+      parseErrors.push(error);
+    }
+  };
+
+  const onRecord = (fields: string[], info: CSVRecordInfo) => {
+    const index = recordIndex++;
+    if (!headers) {
+      if (headerRow === null) {
+        headers = fields.map((_, i) => `column_${i + 1}`);
+        columns = headers.map(() => createColumnBuilder());
+      } else if (index < headerRow) {
+        return;
+      } else {
+        headers = fields.map(h => h.trim());
+        columns = headers.map(() => createColumnBuilder());
+        return;
+      }
+    }
+
+    const width = headers.length;
+    if (fields.length < width) {
+      onError({
+        code: 'too_few_fields',
+        row: info.row,
+        column: fields.length + 1,
+        line: info.line,
+        message: `Row ${info.row} has ${fields.length} fields, expected ${width}; missing fields left empty`
+      });
+    } else if (fields.length > width) {
+      onError({
+        code: 'too_many_fields',
+        row: info.row,
+        column: width + 1,
+        line: info.line,
+        message: `Row ${info.row} has ${fields.length} fields, expected ${width}; extra fields dropped`
+      });
+    }
+
+    for (let i = 0; i < width; i++) {
+      if (i < fields.length) {
+        columns[i].push(coerceCell(fields[i]), fields[i], GROUPED_NUMBER_PATTERN.test(fields[i]));
+      } else {
+        columns[i].push('');
+      }
+    }
+    rowCount++;
+  };
+
+  const result = (dialect: CSVDialect): CSVData => {
+    if (!headers) {
+      throw new Error('File is empty');
+    }
+    return createCSVData(headers, { rowCount, columns: columns.map(column => column.finish()) }, filename, { parseErrors, dialect });
+  };
+
+  return { onRecord, onError, result };
+};
+
+const dialectOf = (options: CSVParseOptions, tokenizer: ReturnType<typeof createCSVTokenizer>): CSVDialect => ({
+  delimiter: options.delimiter ?? ',',
+  quote: options.quote ?? '"',
+  encoding: options.encoding ?? 'utf-8',
+  ...tokenizer.layout()
+});
+
+export const parseCSV = (text: string, filename: string, options: CSVParseOptions = {}): CSVData => {
+  const collector = createCSVCollector(filename, options);
+  const tokenizer = createCSVTokenizer(options, collector.onRecord, collector.onError);
+  tokenizer.push(text);
+  tokenizer.end();
+  return collector.result(dialectOf(options, tokenizer));
+};
+
+// Streams the file through the tokenizer so the raw text is never held in memory as a whole
+export const parseCSVFile = async (
+  file: File,
+  options: CSVParseOptions = {},
+  onProgress?: (fraction: number) => void
+): Promise<CSVData> => {
+  const collector = createCSVCollector(file.name, options);
+  const tokenizer = createCSVTokenizer(options, collector.onRecord, collector.onError);
+  const reader = file.stream().getReader();
+  // The tokenizer drops the BOM itself, noting that there was one
+  const decoder = new TextDecoder(options.encoding ?? 'utf-8', { ignoreBOM: true });
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    tokenizer.push(decoder.decode(value, { stream: true }));
+    onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+  }
+  tokenizer.push(decoder.decode());
+  tokenizer.end();
+
+  return collector.result(dialectOf(options, tokenizer));
+};
@@ -0,0 +1,149 @@
+import { CSVEncoding, CSVParseOptions, createCSVTokenizer } from './csvParser';
+
+export interface CSVSniffResult {
+  options: Required<CSVParseOptions>;
+  sampleBytes: Uint8Array;
+  sampleText: string;
+  // false when the sample is only the start of a larger file
+  sampleIsComplete: boolean;
+  hasBOM: boolean;
+}
+
+export const SNIFF_SAMPLE_BYTES = 64 * 1024;
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+export const QUOTE_CANDIDATES = ['"', "'"];
+export const ENCODING_CANDIDATES: CSVEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+
+const SNIFF_RECORD_LIMIT = 50;
+
+export const detectEncoding = (bytes: Uint8Array): { encoding: CSVEncoding; hasBOM: boolean } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', hasBOM: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', hasBOM: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', hasBOM: true };
+
+  // Without a BOM, UTF-16 text that is mostly ASCII shows up as a zero in every other byte
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = bytes.length / 2;
+  if (pairs > 0 && oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return { encoding: 'utf-16le', hasBOM: false };
+  if (pairs > 0 && evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return { encoding: 'utf-16be', hasBOM: false };
+
+  // Anything that is not valid UTF-8 is most likely a Windows code page export
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', hasBOM: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBOM: false };
+  }
+};
+
+export const decodeSample = (bytes: Uint8Array, encoding: CSVEncoding): string =>
+  new TextDecoder(encoding).decode(bytes, { stream: true });
+
+// Tokenizes the start of the sample. When the sample was cut from a larger
+// file the last record may be truncated, so it is dropped.
+export const sampleRecords = (
+  text: string,
+  delimiter: string,
+  quote: string,
+  sampleIsComplete = true,
+  limit = SNIFF_RECORD_LIMIT
+): string[][] => {
+  const records: string[][] = [];
+  const tokenizer = createCSVTokenizer({ delimiter, quote }, fields => {
+    if (records.length <= limit) records.push(fields);
+  }, () => {});
+  tokenizer.push(text);
+  tokenizer.end();
+  if (!sampleIsComplete && records.length <= limit) records.pop();
+  return records.slice(0, limit);
+};
+
+export const detectQuote = (text: string): string => {
+  // Count quotes that sit on a field boundary, e.g. ,"x" or ^'x'
+  const boundaryCount = (quote: string) => {
+    const pattern = new RegExp(`(^|[,;\\t|])${quote}|${quote}([,;\\t|]|\\r?$)`, 'gm');
+    return (text.match(pattern) || []).length;
+  };
+  const double = boundaryCount('"');
+  const single = boundaryCount("'");
+  return single > double * 2 ? "'" : '"';
+};
+
+const modeOf = (values: number[]): { value: number; count: number } => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = { value: 0, count: 0 };
+  counts.forEach((count, value) => {
+    if (count > best.count || (count === best.count && value > best.value)) best = { value, count };
+  });
+  return best;
+};
+
+export const detectDelimiter = (text: string, quote: string, sampleIsComplete = true): string => {
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const records = sampleRecords(text, delimiter, quote, sampleIsComplete);
+    if (records.length === 0) return;
+    const widths = records.map(r => r.length);
+    const mode = modeOf(widths);
+    if (mode.value < 2) return;
+    // Consistency of the field count matters most; wider rows break ties
+    const score = (mode.count / records.length) * 100 + Math.min(mode.value, 50) / 100;
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+};
+
+const isNumericText = (value: string) => value.trim() !== '' && !isNaN(Number(value.trim()));
+
+// The header is the first record that is as wide as the data rows, mostly
+// filled in and made of labels rather than numbers. Title rows and blank
+// spacer rows above it are skipped.
+export const detectHeaderRow = (records: string[][]): number | null => {
+  if (records.length === 0) return 0;
+  const nonEmptyCounts = records.map(r => r.filter(v => v.trim() !== '').length);
+  const width = modeOf(nonEmptyCounts.slice(Math.floor(records.length / 2))).value || modeOf(nonEmptyCounts).value;
+
+  for (let i = 0; i < records.length; i++) {
+    if (nonEmptyCounts[i] < Math.max(1, Math.ceil(width * 0.8))) continue;
+    const labels = records[i].filter(v => v.trim() !== '');
+    const numericLabels = labels.filter(isNumericText).length;
+    if (numericLabels > labels.length / 2) {
+      // Data starts before anything that looks like a header
+      return null;
+    }
+    return i;
+  }
+  return 0;
+};
+
+export const sniffCSV = async (file: File): Promise<CSVSniffResult> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer());
+  const sampleIsComplete = file.size <= SNIFF_SAMPLE_BYTES;
+  const { encoding, hasBOM } = detectEncoding(bytes);
+  const sampleText = decodeSample(bytes, encoding);
+  const quote = detectQuote(sampleText);
+  const delimiter = detectDelimiter(sampleText, quote, sampleIsComplete);
+  const headerRow = detectHeaderRow(sampleRecords(sampleText, delimiter, quote, sampleIsComplete));
+
+  return {
+    options: { encoding, delimiter, quote, headerRow },
+    sampleBytes: bytes,
+    sampleText,
+    sampleIsComplete,
+    hasBOM
+  };
+};
@@ -0,0 +1,67 @@
+import { CSVDialect } from '../types';
+
+// What exports write when the data did not come from a CSV file, or the user
+// does not ask for the original format
+export const DEFAULT_DIALECT: CSVDialect = {
+  delimiter: ',',
+  quote: '"',
+  encoding: 'utf-8',
+  hasBOM: false,
+  lineEnding: '\n',
+  finalLineBreak: false
+};
+
+// The field quoted when it holds the delimiter, the quote or a line break
+export const escapeCSVField = (text: string, dialect: CSVDialect): string =>
+  text.includes(dialect.delimiter) || text.includes(dialect.quote) || /[\r\n]/.test(text)
+    ? `${dialect.quote}${text.split(dialect.quote).join(dialect.quote + dialect.quote)}${dialect.quote}`
+    : text;
+
+export const writeCSV = (records: Iterable<string[]>, dialect: CSVDialect): string => {
+  const lines: string[] = [];
+  for (const fields of records) lines.push(fields.map(field => escapeCSVField(field, dialect)).join(dialect.delimiter));
+  return lines.join(dialect.lineEnding) + (dialect.finalLineBreak ? dialect.lineEnding : '');
+};
+
+const BYTE_ORDER_MARKS: { [encoding in CSVDialect['encoding']]: number[] } = {
+  'utf-8': [0xef, 0xbb, 0xbf],
+  'utf-16le': [0xff, 0xfe],
+  'utf-16be': [0xfe, 0xff],
+  'windows-1252': []
+};
+
+// windows-1252 is latin-1 except for 0x80-0x9F, where it has these characters
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+const encodeWindows1252 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const high = WINDOWS_1252_HIGH.indexOf(text[i]);
+    // '?' for what the code page lacks
+    bytes[i] = high !== -1 ? 0x80 + high : code < 0x100 && (code < 0x80 || code > 0x9f) ? code : 0x3f;
+  }
+  return bytes;
+};
+
+const encodeUTF16 = (text: string, littleEndian: boolean): Uint8Array => {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+  return bytes;
+};
+
+// The text in the dialect's encoding, after its byte order mark if it had one
+export const encodeCSVText = (text: string, dialect: CSVDialect): Uint8Array => {
+  const body = dialect.encoding === 'windows-1252' ? encodeWindows1252(text)
+    : dialect.encoding === 'utf-16le' ? encodeUTF16(text, true)
+    : dialect.encoding === 'utf-16be' ? encodeUTF16(text, false)
+    : new TextEncoder().encode(text);
+  if (!dialect.hasBOM) return body;
+  const bom = BYTE_ORDER_MARKS[dialect.encoding];
+  const bytes = new Uint8Array(bom.length + body.length);
+  bytes.set(bom);
+  bytes.set(body, bom.length);
+  return bytes;
+};
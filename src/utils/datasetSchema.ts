@@ -0,0 +1,211 @@
+import { CSVData, CellValue, SchemaDriftIssue } from '../types';
+import { getColumnStore, getColumnValues } from './columnStore';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { DatasetLocale, columnLocale, getLocalizedColumnValues } from './locale';
+import { COLUMN_TYPES, ColumnType } from './qualityRules';
+import { levenshteinDistance } from './stringSimilarity';
+import { inferColumnType, typeFamily } from './typeInference';
+
+export interface SchemaColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  allowedValues?: string[];
+}
+
+// The expected shape of a dataset; every upload with the same filename is compared against it
+export interface DatasetSchema {
+  columns: SchemaColumn[];
+  enforceOrder: boolean;
+}
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+export const inferSchema = (data: CSVData, locale: DatasetLocale | null = null): DatasetSchema => {
+  const store = getColumnStore(data);
+  return {
+    columns: data.headers.map((name, colIndex) => {
+      const settings = columnLocale(locale, name);
+      const values = getLocalizedColumnValues(store, colIndex, settings);
+      return { name, type: typeFamily(inferColumnType(values, settings).type), nullable: values.some(isEmptyCell) };
+    }),
+    enforceOrder: false
+  };
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// An added column is taken to be a renamed missing one when the names are nearly
+// the same, or when it sits in the same position and has the same type
+export const findRename = (
+  missing: Pick<SchemaColumn, 'name' | 'type'>,
+  missingIndex: number,
+  added: string[],
+  headers: string[],
+  columnTypes: { [column: string]: ColumnType }
+): string | undefined => {
+  const name = normalizeName(missing.name);
+  const similar = added.find(header => {
+    const candidate = normalizeName(header);
+    return candidate === name || levenshteinDistance(candidate, name) <= Math.max(1, Math.floor(name.length / 4));
+  });
+  if (similar) return similar;
+  return added.find(header => headers.indexOf(header) === missingIndex && columnTypes[header] === missing.type);
+};
+
+export const detectSchemaDrift = (
+  data: CSVData,
+  schema: DatasetSchema,
+  columnTypes: { [column: string]: ColumnType }
+): SchemaDriftIssue[] => {
+  const store = getColumnStore(data);
+  const drift: SchemaDriftIssue[] = [];
+  const schemaNames = new Set(schema.columns.map(column => column.name));
+  let added = data.headers.filter(header => !schemaNames.has(header));
+  // Schema columns matched to a column in the upload, possibly under a new name
+  const matched: { column: SchemaColumn; header: string }[] = [];
+
+  schema.columns.forEach((column, index) => {
+    if (data.headers.includes(column.name)) {
+      matched.push({ column, header: column.name });
+      return;
+    }
+    const renamedTo = findRename(column, index, added, data.headers, columnTypes);
+    if (renamedTo) {
+      added = added.filter(header => header !== renamedTo);
+      matched.push({ column, header: renamedTo });
+      drift.push({
+        kind: 'renamed_column',
+        column: renamedTo,
+        expected: column.name,
+        actual: renamedTo,
+        description: `Column "${column.name}" appears to have been renamed to "${renamedTo}"`,
+        severity: 'medium'
+      });
+    } else {
+      drift.push({
+        kind: 'missing_column',
+        column: column.name,
+        expected: column.name,
+        description: `Expected column "${column.name}" is missing`,
+        severity: 'high'
+      });
+    }
+  });
+
+  added.forEach(header => {
+    drift.push({
+      kind: 'added_column',
+      column: header,
+      actual: header,
+      description: `Column "${header}" is not in the schema`,
+      severity: 'medium'
+    });
+  });
+
+  matched.forEach(({ column, header }) => {
+    const actualType = columnTypes[header];
+    if (actualType && actualType !== column.type) {
+      drift.push({
+        kind: 'retyped_column',
+        column: header,
+        expected: column.type,
+        actual: actualType,
+        description: `Column "${header}" was expected to be ${column.type} but looks ${actualType}`,
+        severity: 'high'
+      });
+    }
+
+    if (column.nullable && !column.allowedValues) return;
+    const values = getColumnValues(store, data.headers.indexOf(header));
+
+    if (!column.nullable) {
+      const emptyCount = values.filter(isEmptyCell).length;
+      if (emptyCount > 0) {
+        drift.push({
+          kind: 'nullability',
+          column: header,
+          expected: 'not null',
+          actual: `${emptyCount} empty`,
+          description: `Column "${header}" is declared not nullable but has ${emptyCount} empty values`,
+          severity: 'high'
+        });
+      }
+    }
+
+    if (column.allowedValues && column.allowedValues.length > 0) {
+      const allowed = new Set(column.allowedValues);
+      const disallowed = values.filter(val => !isEmptyCell(val) && !allowed.has(String(val))).map(String);
+      if (disallowed.length > 0) {
+        const examples = Array.from(new Set(disallowed)).slice(0, 3).map(val => `"${val}"`).join(', ');
+        drift.push({
+          kind: 'allowed_values',
+          column: header,
+          expected: column.allowedValues.join(', '),
+          actual: examples,
+          description: `Column "${header}" has ${disallowed.length} values outside the allowed set, e.g. ${examples}`,
+          severity: 'medium'
+        });
+      }
+    }
+  });
+
+  if (schema.enforceOrder) {
+    // Compare the order of the columns present in both
+    const expectedOrder = matched.map(item => item.header);
+    const actualOrder = data.headers.filter(header => expectedOrder.includes(header));
+    if (expectedOrder.some((header, index) => actualOrder[index] !== header)) {
+      drift.push({
+        kind: 'reordered_columns',
+        column: 'All columns',
+        expected: expectedOrder.join(', '),
+        actual: actualOrder.join(', '),
+        description: 'Columns are not in the order defined by the schema',
+        severity: 'low'
+      });
+    }
+  }
+
+  return drift;
+};
+
+// Validates a schema read from a JSON file
+export const parseSchema = (text: string): DatasetSchema => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : 'could not parse file'}`);
+  }
+
+  const columns = (parsed as { columns?: unknown })?.columns;
+  if (!Array.isArray(columns)) {
+    throw new Error('Schema file must contain a "columns" array');
+  }
+
+  return {
+    columns: columns.map((column, index) => {
+      if (!column || typeof column.name !== 'string' || column.name === '') {
+        throw new Error(`Column ${index + 1} must have a name`);
+      }
+      if (column.type !== undefined && !COLUMN_TYPES.includes(column.type)) {
+        throw new Error(`Column "${column.name}" has unknown type "${column.type}" (expected ${COLUMN_TYPES.join(', ')})`);
+      }
+      return {
+        name: column.name,
+        type: column.type ?? 'text',
+        nullable: column.nullable !== false,
+        allowedValues: Array.isArray(column.allowedValues) ? column.allowedValues.map(String) : undefined
+      };
+    }),
+    enforceOrder: (parsed as { enforceOrder?: unknown }).enforceOrder === true
+  };
+};
+
+const STORAGE_KEY = 'dataset_schemas';
+
+export const loadSchema = (filename: string): DatasetSchema | null =>
+  loadDatasetSetting<DatasetSchema>(STORAGE_KEY, filename);
+
+export const saveSchema = (filename: string, schema: DatasetSchema | null) =>
+  saveDatasetSetting(STORAGE_KEY, filename, schema);
@@ -0,0 +1,26 @@
+// Settings remembered per dataset. Each kind of setting has one localStorage
+// entry holding an object keyed by filename, so uploading the same file again
+// brings its settings back.
+type SettingsByFilename<T> = { [filename: string]: T };
+
+const loadAll = <T>(storageKey: string): SettingsByFilename<T> => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadDatasetSetting = <T>(storageKey: string, filename: string): T | null =>
+  loadAll<T>(storageKey)[filename] ?? null;
+
+// null forgets the dataset's setting
+export const saveDatasetSetting = <T>(storageKey: string, filename: string, value: T | null) => {
+  const all = loadAll<T>(storageKey);
+  if (value !== null) {
+    all[filename] = value;
+  } else {
+    delete all[filename];
+  }
+  localStorage.setItem(storageKey, JSON.stringify(all));
+};
@@ -0,0 +1,197 @@
+import { DEFAULT_LOCALE, DateOrder, LocaleSettings, buildDate, fullYear } from './locale';
+
+// Layouts a date column can be written in. Day-first and month-first layouts
+// share a pattern, so a value such as 01/05/2024 reads in both.
+export type DateFormatId =
+  | 'YYYY-MM-DD'
+  | 'YYYY-MM-DD HH:mm'
+  | 'YYYY/MM/DD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM-DD-YYYY'
+  | 'DD-MM-YYYY'
+  | 'DD.MM.YYYY'
+  | 'D MMM YYYY'
+  | 'MMM D, YYYY'
+  | 'Excel serial';
+
+export interface DateReading {
+  format: DateFormatId;
+  date: Date;
+  offset?: number; // minutes east of UTC, for timestamps written with a zone ("+02:00", "Z")
+}
+
+// The format most of a column's values are written in
+export interface DateFormatDetection {
+  format: DateFormatId | null;
+  share: number;      // share of non-empty values that read in the format
+  ambiguous: boolean; // no value told day-first from month-first apart, so the locale's date order decided
+}
+
+interface DateFormat {
+  id: DateFormatId;
+  pattern: RegExp;
+  dayFirst?: boolean; // for the ambiguous numeric layouts
+  read: (match: RegExpExecArray) => Date | null;
+  offset?: (match: RegExpExecArray) => number | undefined;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+// Excel counts days from 1899-12-30; only serials between 1954 and 2099 are taken for dates
+const MIN_EXCEL_SERIAL = 20000;
+const MAX_EXCEL_SERIAL = 73050;
+
+const DAY_MONTH_YEAR = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})$/;
+const DAY_MONTH_YEAR_DASH = /^(\d{1,2})-(\d{1,2})-(\d{4}|\d{2})$/;
+
+const DATE_FORMATS: DateFormat[] = [
+  {
+    id: 'YYYY-MM-DD',
+    pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    read: ([, y, m, d]) => buildDate(Number(y), Number(m), Number(d))
+  },
+  {
+    id: 'YYYY-MM-DD HH:mm',
+    pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+    read: match => {
+      const [text, y, m, d, hh, mm, ss, zone] = match;
+      const written = buildDate(Number(y), Number(m), Number(d), Number(hh), Number(mm), Number(ss ?? 0));
+      if (written && zone) {
+        const date = new Date(text.replace(' ', 'T'));
+        return isNaN(date.getTime()) ? null : date;
+      }
+      return written;
+    },
+    offset: ([, , , , , , , zone]) => {
+      if (!zone) return undefined;
+      const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(zone) ?? [];
+      return sign ? (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) : 0;
+    }
+  },
+  {
+    id: 'YYYY/MM/DD',
+    pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+    read: ([, y, m, d]) => buildDate(Number(y), Number(m), Number(d))
+  },
+  { id: 'MM/DD/YYYY', pattern: DAY_MONTH_YEAR, read: ([, m, d, y]) => buildDate(fullYear(Number(y), y.length), Number(m), Number(d)) },
+  { id: 'DD/MM/YYYY', pattern: DAY_MONTH_YEAR, dayFirst: true, read: ([, d, m, y]) => buildDate(fullYear(Number(y), y.length), Number(m), Number(d)) },
+  { id: 'MM-DD-YYYY', pattern: DAY_MONTH_YEAR_DASH, read: ([, m, d, y]) => buildDate(fullYear(Number(y), y.length), Number(m), Number(d)) },
+  { id: 'DD-MM-YYYY', pattern: DAY_MONTH_YEAR_DASH, dayFirst: true, read: ([, d, m, y]) => buildDate(fullYear(Number(y), y.length), Number(m), Number(d)) },
+  {
+    id: 'DD.MM.YYYY',
+    pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})$/,
+    read: ([, d, m, y]) => buildDate(fullYear(Number(y), y.length), Number(m), Number(d))
+  },
+  {
+    id: 'D MMM YYYY',
+    pattern: /^(\d{1,2})[ -]([A-Za-z]{3,9})\.?,?[ -](\d{4})$/,
+    read: ([, d, month, y]) => buildDate(Number(y), monthNumber(month), Number(d))
+  },
+  {
+    id: 'MMM D, YYYY',
+    pattern: /^([A-Za-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})$/,
+    read: ([, month, d, y]) => buildDate(Number(y), monthNumber(month), Number(d))
+  },
+  {
+    id: 'Excel serial',
+    pattern: /^(\d{5})(\.\d+)?$/,
+    read: ([, days, fraction]) => {
+      const serial = Number(days);
+      if (serial < MIN_EXCEL_SERIAL || serial > MAX_EXCEL_SERIAL) return null;
+      return new Date(1899, 11, 30 + serial, 0, 0, Math.round(Number(fraction ?? 0) * 86400));
+    }
+  }
+];
+
+// The pattern values in a format are written with, for checks outside the analyzer
+export const dateFormatPattern = (id: DateFormatId): RegExp | undefined =>
+  DATE_FORMATS.find(format => format.id === id)?.pattern;
+
+// Every format the text reads as a real date in, day-first or month-first
+// first depending on the date order
+export const readDateFormats = (text: string, dateOrder: DateOrder = DEFAULT_LOCALE.dateOrder): DateReading[] => {
+  const trimmed = text.trim();
+  const readings: DateReading[] = [];
+  DATE_FORMATS.forEach(format => {
+    const match = format.pattern.exec(trimmed);
+    const date = match ? format.read(match) : null;
+    if (match && date) readings.push({ format: format.id, date, offset: format.offset?.(match) });
+  });
+  if (dateOrder === 'DMY') {
+    const dayFirst = (reading: DateReading) => (DATE_FORMATS.find(format => format.id === reading.format)?.dayFirst ? 0 : 1);
+    readings.sort((a, b) => dayFirst(a) - dayFirst(b));
+  }
+  return readings;
+};
+
+export const detectDateFormat = (values: string[], locale: LocaleSettings = DEFAULT_LOCALE): DateFormatDetection => {
+  const counts = new Map<DateFormatId, number>();
+  const unambiguous = new Map<DateFormatId, number>();
+  let nonEmpty = 0;
+
+  values.forEach(value => {
+    if (value.trim() === '') return;
+    nonEmpty++;
+    const readings = readDateFormats(value, locale.dateOrder);
+    readings.forEach(reading => counts.set(reading.format, (counts.get(reading.format) ?? 0) + 1));
+    if (readings.length === 1) {
+      unambiguous.set(readings[0].format, (unambiguous.get(readings[0].format) ?? 0) + 1);
+    }
+  });
+  if (counts.size === 0) return { format: null, share: 0, ambiguous: false };
+
+  // Most values first, then most values that read no other way, then the locale's order
+  const preference = ['01/02/2024', '01-02-2024'].flatMap(sample => readDateFormats(sample, locale.dateOrder).map(reading => reading.format));
+  const rank = (id: DateFormatId) => {
+    const index = preference.indexOf(id);
+    return index === -1 ? preference.length : index;
+  };
+  const ranked = Array.from(counts.keys()).sort(
+    (a, b) =>
+      (counts.get(b) ?? 0) - (counts.get(a) ?? 0) ||
+      (unambiguous.get(b) ?? 0) - (unambiguous.get(a) ?? 0) ||
+      rank(a) - rank(b)
+  );
+  const [best, runnerUp] = ranked;
+  const ambiguous =
+    runnerUp !== undefined &&
+    counts.get(runnerUp) === counts.get(best) &&
+    !unambiguous.get(best) &&
+    !unambiguous.get(runnerUp);
+
+  return { format: best, share: (counts.get(best) ?? 0) / nonEmpty, ambiguous };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD, or YYYY-MM-DDTHH:mm:ss when the date has a time of day. With an
+// offset the date and time are the clock in that zone, followed by the offset.
+export const formatIsoDate = (date: Date, offset?: number): string => {
+  if (offset !== undefined) {
+    const clock = new Date(date.getTime() + offset * 60000);
+    const zone = offset === 0 ? 'Z' : `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+    return `${clock.getUTCFullYear()}-${pad(clock.getUTCMonth() + 1)}-${pad(clock.getUTCDate())}` +
+      `T${pad(clock.getUTCHours())}:${pad(clock.getUTCMinutes())}:${pad(clock.getUTCSeconds())}${zone}`;
+  }
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) return day;
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// ISO 8601 text for a date written in any known format. Values that read in the
+// column's format are read that way; others take their first reading. Null when
+// the text is not a date. Timestamps written with a zone keep the date, time and
+// offset they were written with ("2024-03-10T23:30:00+02:00"), rather than
+// moving to the browser's time zone.
+export const normalizeDate = (
+  text: string,
+  format: DateFormatId | null,
+  dateOrder: DateOrder = DEFAULT_LOCALE.dateOrder
+): string | null => {
+  const readings = readDateFormats(text, dateOrder);
+  const reading = readings.find(item => item.format === format) ?? readings[0];
+  return reading ? formatIsoDate(reading.date, reading.offset) : null;
+};
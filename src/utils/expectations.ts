@@ -0,0 +1,131 @@
+import { CellValue, DetailedIssue } from '../types';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { LocaleSettings, parseLocaleDate } from './locale';
+import { QualityRule, compilePattern } from './qualityRules';
+
+export type ComparisonOperator = '>=' | '>' | '<=' | '<' | '=' | '!=';
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['>=', '>', '<=', '<', '=', '!='];
+
+interface ExpectationBase {
+  id: string;
+  column: string;
+  severity: DetailedIssue['severity'];
+}
+
+// A user-written assertion about a dataset. Plain data, so it can be saved and
+// sent to the analysis worker, where it is turned into a quality rule.
+export type Expectation = ExpectationBase & (
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'in_set'; values: string[] }
+  | { kind: 'matches'; pattern: string }
+  | { kind: 'compare'; operator: ComparisonOperator; otherColumn: string }
+);
+
+export type ExpectationKind = Expectation['kind'];
+
+export const EXPECTATION_KINDS: { kind: ExpectationKind; label: string }[] = [
+  { kind: 'range', label: 'is within a range' },
+  { kind: 'in_set', label: 'is one of a set of values' },
+  { kind: 'matches', label: 'matches a pattern' },
+  { kind: 'compare', label: 'compares to another column' }
+];
+
+export const describeExpectation = (expectation: Expectation): string => {
+  switch (expectation.kind) {
+    case 'range':
+      if (expectation.min !== undefined && expectation.max !== undefined) {
+        return `${expectation.column} between ${expectation.min} and ${expectation.max}`;
+      }
+      return expectation.min !== undefined
+        ? `${expectation.column} ≥ ${expectation.min}`
+        : `${expectation.column} ≤ ${expectation.max}`;
+    case 'in_set':
+      return `${expectation.column} ∈ {${expectation.values.join(', ')}}`;
+    case 'matches':
+      return `${expectation.column} matches ${expectation.pattern}`;
+    case 'compare':
+      return `${expectation.column} ${expectation.operator} ${expectation.otherColumn}`;
+  }
+};
+
+// Numbers and dates compare by value, anything else as text
+const compareValues = (a: CellValue, b: CellValue, locale: LocaleSettings): number => {
+  const aNum = a instanceof Date ? a.getTime() : Number(a);
+  const bNum = b instanceof Date ? b.getTime() : Number(b);
+  if (!isNaN(aNum) && !isNaN(bNum)) return aNum - bNum;
+
+  const aDate = a instanceof Date ? a : parseLocaleDate(String(a), locale);
+  const bDate = b instanceof Date ? b : parseLocaleDate(String(b), locale);
+  if (aDate && bDate) return aDate.getTime() - bDate.getTime();
+
+  return String(a).localeCompare(String(b));
+};
+
+const satisfies = (difference: number, operator: ComparisonOperator) => {
+  switch (operator) {
+    case '>=': return difference >= 0;
+    case '>': return difference > 0;
+    case '<=': return difference <= 0;
+    case '<': return difference < 0;
+    case '=': return difference === 0;
+    case '!=': return difference !== 0;
+  }
+};
+
+const checkExpectation = (expectation: Expectation): QualityRule['check'] => {
+  switch (expectation.kind) {
+    case 'range':
+      return value => {
+        const number = Number(value);
+        if (isNaN(number)) return `"${value}" is not a number - expected ${describeExpectation(expectation)}`;
+        if (expectation.min !== undefined && number < expectation.min) return `${number} is below the minimum of ${expectation.min}`;
+        if (expectation.max !== undefined && number > expectation.max) return `${number} is above the maximum of ${expectation.max}`;
+        return null;
+      };
+    case 'in_set': {
+      const allowed = new Set(expectation.values);
+      return value =>
+        allowed.has(String(value)) ? null : `"${value}" is not an allowed value - expected one of ${expectation.values.join(', ')}`;
+    }
+    case 'matches':
+      return value => {
+        const regex = compilePattern(expectation.pattern, '');
+        return regex && !regex.test(String(value)) ? `"${value}" does not match ${expectation.pattern}` : null;
+      };
+    case 'compare':
+      return (value, { cell, locale }) => {
+        const other = cell(expectation.otherColumn);
+        if (other === undefined || other === '' || other === null) return null;
+        return satisfies(compareValues(value, other, locale), expectation.operator)
+          ? null
+          : `${expectation.column} (${value}) is not ${expectation.operator} ${expectation.otherColumn} (${other})`;
+      };
+  }
+};
+
+const EXPECTATION_DIMENSIONS: { [kind in ExpectationKind]: QualityRule['dimension'] } = {
+  range: 'value_range',
+  in_set: 'value_range',
+  matches: 'invalid_format',
+  compare: 'inconsistent'
+};
+
+export const expectationToRule = (expectation: Expectation): QualityRule => ({
+  id: `expectation.${expectation.id}`,
+  name: describeExpectation(expectation),
+  description: 'User-defined expectation',
+  dimension: EXPECTATION_DIMENSIONS[expectation.kind],
+  severity: expectation.severity,
+  columns: { names: [expectation.column] },
+  recommendation: `Correct values that violate the expectation: ${describeExpectation(expectation)}`,
+  check: checkExpectation(expectation)
+});
+
+const STORAGE_KEY = 'dataset_expectations';
+
+export const loadExpectations = (filename: string): Expectation[] =>
+  loadDatasetSetting<Expectation[]>(STORAGE_KEY, filename) ?? [];
+
+export const saveExpectations = (filename: string, expectations: Expectation[]) =>
+  saveDatasetSetting(STORAGE_KEY, filename, expectations.length > 0 ? expectations : null);
@@ -0,0 +1,65 @@
+import { CellValue, CleaningOperation } from '../types';
+import { LocaleSettings, parseLocaleNumber } from './locale';
+
+// Formats fix_format can rewrite; each matches a column type family
+export type FormatFix = NonNullable<CleaningOperation['format']>;
+
+export const FORMAT_FIX_LABELS: { [format in FormatFix]: string } = {
+  phone: 'Phone numbers to E.164',
+  email: 'Trimmed, lowercase emails',
+  numeric: 'Numbers without stray characters'
+};
+
+export const DEFAULT_COUNTRY_CODE = '1';
+
+// E.164 form ("+14155550123") of a phone number, or null when it does not end
+// up with 10-15 digits, as the phone format rule requires. Numbers without "+"
+// or "00" are national numbers in countryCode, unless they already start with
+// it; a national trunk 0 is dropped.
+export const toE164 = (value: CellValue, countryCode = DEFAULT_COUNTRY_CODE): string | null => {
+  const text = String(value).trim().replace(/^tel:/i, '').replace(/\s*(ext\.?|x|#)\s*\d+$/i, '');
+  let digits = text.replace(/\D/g, '');
+  if (!text.startsWith('+')) {
+    if (digits.startsWith('00')) {
+      digits = digits.slice(2);
+    } else if (!(digits.startsWith(countryCode) && digits.length > 10)) {
+      digits = countryCode + digits.replace(/^0/, '');
+    }
+  }
+  return /^[1-9]\d{9,14}$/.test(digits) ? `+${digits}` : null;
+};
+
+export const normalizeEmail = (value: CellValue): string =>
+  String(value).replace(/^mailto:/i, '').replace(/\s+/g, '').toLowerCase();
+
+// The number in text like "~1,234 kg" or "12a": everything but digits, signs and
+// the locale's separators is dropped. NaN when what is left is still not a number.
+export const stripToNumber = (text: string, settings: LocaleSettings): number => {
+  const kept = Array.from(text)
+    .filter(char => /[\d+-]/.test(char) || char === settings.decimalSeparator || char === settings.thousandsSeparator)
+    .join('');
+  return kept === '' ? NaN : parseLocaleNumber(kept, settings);
+};
+
+// The fixed cell, or the cell itself when it is already fine or cannot be fixed.
+// `localized` is the cell as the column's locale reads it and `raw` its source text.
+export const fixFormat = (
+  localized: CellValue,
+  raw: string,
+  format: FormatFix,
+  settings: LocaleSettings,
+  countryCode = DEFAULT_COUNTRY_CODE
+): CellValue => {
+  if (localized === '' || localized === null || localized === undefined) return localized;
+  switch (format) {
+    case 'phone':
+      return toE164(raw, countryCode) ?? localized;
+    case 'email':
+      return typeof localized === 'string' ? normalizeEmail(localized) : localized;
+    default: {
+      if (typeof localized === 'number') return localized;
+      const number = stripToNumber(raw, settings);
+      return isNaN(number) ? localized : number;
+    }
+  }
+};
@@ -0,0 +1,265 @@
+import { CSVData, CellValue, CleaningOperation } from '../types';
+import { TaskContext, directContext } from './analysisTask';
+import { orderingValue } from './candidateKeys';
+import { isMissingValue } from './cellValues';
+import { getColumnStore } from './columnStore';
+import { DEFAULT_LOCALE, DatasetLocale, LocaleSettings, columnLocale, getLocalizedColumnValues } from './locale';
+
+export type ImputationStrategy = NonNullable<CleaningOperation['strategy']>;
+
+export const IMPUTATION_STRATEGIES: { value: ImputationStrategy; label: string; numericOnly?: boolean }[] = [
+  { value: 'constant', label: 'A fixed value' },
+  { value: 'mean', label: 'Column mean', numericOnly: true },
+  { value: 'median', label: 'Column median', numericOnly: true },
+  { value: 'mode', label: 'Most common value' },
+  { value: 'forward_fill', label: 'Previous value (forward fill)' },
+  { value: 'backward_fill', label: 'Next value (backward fill)' },
+  { value: 'interpolate', label: 'Linear interpolation', numericOnly: true },
+  { value: 'group', label: 'Mean or most common value within a group' },
+  { value: 'knn', label: 'Similar rows (k nearest neighbours)' }
+];
+
+// Strategies that read the rows in the order of operation.sortColumn, or in file order without one
+export const ORDERED_STRATEGIES: ImputationStrategy[] = ['forward_fill', 'backward_fill', 'interpolate'];
+
+export const DEFAULT_NEIGHBORS = 5;
+
+// Rows compared per missing cell in KNN; larger datasets are sampled evenly
+const MAX_KNN_DONORS = 2000;
+
+// Computed fills are rounded to two decimals, as the suggested mean always was
+const roundFill = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const mode = (values: CellValue[]): CellValue | undefined => {
+  const counts = new Map<CellValue, number>();
+  let best: CellValue | undefined;
+  let bestCount = 0;
+  values.forEach(value => {
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Mean of numeric values, most common value otherwise
+const centre = (values: CellValue[], numeric: boolean): CellValue | undefined => {
+  if (values.length === 0) return undefined;
+  return numeric ? roundFill(mean(values as number[])) : mode(values);
+};
+
+// A column counts as numeric when most of its values are numbers, as the suggestions decide
+export const isNumericColumn = (values: CellValue[]) => {
+  const nonEmpty = values.filter(value => !isMissingValue(value));
+  return nonEmpty.length > 0 && nonEmpty.filter(value => typeof value === 'number').length > nonEmpty.length / 2;
+};
+
+// Values for the missing cells of a column (empty, or null and N/A as the
+// analyzer counts them), by row position. `column` returns a column's values as
+// its locale reads them; cells a strategy cannot fill (no earlier value to carry
+// forward, no group peers) are left out.
+export const imputeMissing = async (
+  headers: string[],
+  column: (colIndex: number) => CellValue[],
+  operation: CleaningOperation,
+  sortSettings: LocaleSettings = DEFAULT_LOCALE,
+  ctx: TaskContext = directContext
+): Promise<Map<number, CellValue>> => {
+  const fills = new Map<number, CellValue>();
+  const colIndex = operation.column ? headers.indexOf(operation.column) : -1;
+  if (colIndex === -1) return fills;
+
+  const target = column(colIndex);
+  const missing: number[] = [];
+  target.forEach((value, row) => {
+    if (isMissingValue(value)) missing.push(row);
+  });
+  if (missing.length === 0) return fills;
+
+  const numeric = isNumericColumn(target);
+  const numbers = target.filter((value): value is number => typeof value === 'number');
+  const known = target.filter(value => !isMissingValue(value));
+  const fillAll = (value: CellValue | undefined) => {
+    if (value !== undefined) missing.forEach(row => fills.set(row, value));
+    return fills;
+  };
+
+  switch (operation.strategy) {
+    case 'mean':
+      return numeric && numbers.length > 0 ? fillAll(roundFill(mean(numbers))) : fills;
+    case 'median':
+      return numeric && numbers.length > 0 ? fillAll(roundFill(median(numbers))) : fills;
+    case 'mode':
+      return fillAll(mode(known));
+
+    case 'forward_fill':
+    case 'backward_fill':
+    case 'interpolate': {
+      const sortIndex = operation.sortColumn ? headers.indexOf(operation.sortColumn) : -1;
+      const sortValues = sortIndex === -1 ? null : column(sortIndex).map(value => orderingValue(value, sortSettings));
+      // Rows without a sort value keep their file order after the others
+      const order = target.map((_, row) => row);
+      if (sortValues) {
+        order.sort((a, b) => {
+          const left = sortValues[a];
+          const right = sortValues[b];
+          if (left === null || right === null) return left === right ? a - b : left === null ? 1 : -1;
+          return left - right || a - b;
+        });
+      }
+
+      if (operation.strategy === 'interpolate') {
+        if (!numeric) return fills;
+        let previous = -1;
+        order.forEach((row, index) => {
+          if (typeof target[row] === 'number') {
+            previous = index;
+            return;
+          }
+          if (!isMissingValue(target[row]) || previous === -1) return;
+          let next = index + 1;
+          while (next < order.length && typeof target[order[next]] !== 'number') next++;
+          if (next === order.length) return;
+
+          // Weighted by the sort values (time series) when all three rows have
+          // one, by position in the order otherwise
+          const before = order[previous];
+          const after = order[next];
+          const byValue = sortValues !== null && [before, row, after].every(item => sortValues[item] !== null);
+          const x0 = byValue ? (sortValues[before] as number) : previous;
+          const x1 = byValue ? (sortValues[after] as number) : next;
+          const x = byValue ? (sortValues[row] as number) : index;
+          const share = x1 === x0 ? 0.5 : (x - x0) / (x1 - x0);
+          const y0 = target[before] as number;
+          const y1 = target[after] as number;
+          fills.set(row, roundFill(y0 + (y1 - y0) * share));
+        });
+        return fills;
+      }
+
+      const sequence = operation.strategy === 'forward_fill' ? order : [...order].reverse();
+      let last: CellValue | undefined;
+      sequence.forEach(row => {
+        if (!isMissingValue(target[row])) last = target[row];
+        else if (last !== undefined) fills.set(row, last);
+      });
+      return fills;
+    }
+
+    case 'group': {
+      const groupIndex = operation.groupColumn ? headers.indexOf(operation.groupColumn) : -1;
+      if (groupIndex === -1) return fills;
+      const groupValues = column(groupIndex);
+      const groups = new Map<CellValue, CellValue[]>();
+      target.forEach((value, row) => {
+        if (isMissingValue(value) || isMissingValue(groupValues[row])) return;
+        const group = groups.get(groupValues[row]);
+        if (group) group.push(value);
+        else groups.set(groupValues[row], [value]);
+      });
+      const centres = new Map<CellValue, CellValue | undefined>();
+      groups.forEach((values, key) => {
+        centres.set(key, centre(numeric ? values.filter(value => typeof value === 'number') : values, numeric));
+      });
+      missing.forEach(row => {
+        const value = centres.get(groupValues[row]);
+        if (value !== undefined) fills.set(row, value);
+      });
+      return fills;
+    }
+
+    case 'knn': {
+      const k = Math.max(1, operation.neighbors || DEFAULT_NEIGHBORS);
+      const features = headers.map((_, c) => c).filter(c => c !== colIndex).map(c => {
+        const values = column(c);
+        const isNumeric = isNumericColumn(values);
+        let min = Infinity;
+        let max = -Infinity;
+        values.forEach(value => {
+          if (typeof value !== 'number') return;
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        });
+        const range = isNumeric ? max - min || 1 : 1;
+        return { values, isNumeric, range };
+      });
+      // Numeric features differ by their share of the column's range, others by
+      // whether they are equal; features empty in either row are skipped
+      const distance = (a: number, b: number) => {
+        let total = 0;
+        let compared = 0;
+        features.forEach(({ values, isNumeric, range }) => {
+          const left = values[a];
+          const right = values[b];
+          if (isMissingValue(left) || isMissingValue(right)) return;
+          if (isNumeric && typeof left === 'number' && typeof right === 'number') total += Math.abs(left - right) / range;
+          else total += left === right ? 0 : 1;
+          compared++;
+        });
+        return compared === 0 ? Infinity : total / compared;
+      };
+
+      const donors = target
+        .map((_, row) => row)
+        .filter(row => (numeric ? typeof target[row] === 'number' : !isMissingValue(target[row])));
+      const step = Math.max(1, Math.ceil(donors.length / MAX_KNN_DONORS));
+      const sampled = donors.filter((_, index) => index % step === 0);
+
+      for (let index = 0; index < missing.length; index++) {
+        // Each missing cell is compared with up to MAX_KNN_DONORS rows
+        ctx.progress(index / missing.length, 'Finding similar rows');
+        await ctx.checkpoint();
+        const row = missing[index];
+        const nearest = sampled
+          .map(donor => ({ donor, distance: distance(row, donor) }))
+          .filter(item => item.distance !== Infinity)
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, k);
+        const value = centre(nearest.map(item => target[item.donor]), numeric);
+        if (value !== undefined) fills.set(row, value);
+      }
+      return fills;
+    }
+
+    default:
+      return fillAll(operation.value);
+  }
+};
+
+// Fill values for a few rows, so a step can preview a strategy before it is applied
+export const previewImputation = async (
+  data: CSVData,
+  operation: CleaningOperation,
+  rows: number[],
+  ctx: TaskContext = directContext,
+  locale: DatasetLocale | null = null
+): Promise<{ [row: number]: CellValue }> => {
+  const store = getColumnStore(data);
+  ctx.progress(0, 'Imputing values');
+  await ctx.checkpoint();
+  const fills = await imputeMissing(
+    data.headers,
+    colIndex => getLocalizedColumnValues(store, colIndex, columnLocale(locale, data.headers[colIndex])),
+    operation,
+    columnLocale(locale, operation.sortColumn || ''),
+    ctx
+  );
+  const preview: { [row: number]: CellValue } = {};
+  rows.forEach(row => {
+    const value = fills.get(row);
+    if (value !== undefined) preview[row] = value;
+  });
+  ctx.progress(1, 'Done');
+  return preview;
+};
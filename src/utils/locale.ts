@@ -0,0 +1,176 @@
+import { CellValue } from '../types';
+import { ColumnStore, getCell } from './columnStore';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+// How numbers and dates are written in a dataset or column
+export interface LocaleSettings {
+  decimalSeparator: string;   // '.' or ','
+  thousandsSeparator: string; // ',', '.', ' ', "'" or '' for none
+  currencySymbols: string[];  // symbols and codes that may prefix or suffix an amount
+  dateOrder: DateOrder;       // how to read numeric dates such as 01/02/2024
+}
+
+// Dataset-wide settings plus per-column exceptions
+export interface DatasetLocale {
+  defaults: LocaleSettings;
+  columns: { [column: string]: Partial<LocaleSettings> };
+}
+
+export const DATE_ORDERS: DateOrder[] = ['MDY', 'DMY', 'YMD'];
+
+export const DATE_ORDER_LABELS: { [order in DateOrder]: string } = {
+  MDY: 'MM/DD/YYYY',
+  DMY: 'DD/MM/YYYY',
+  YMD: 'YYYY/MM/DD'
+};
+
+export const DEFAULT_LOCALE: LocaleSettings = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  currencySymbols: ['$', '€', '£', '¥', '₹', 'USD', 'EUR', 'GBP', 'JPY', 'INR'],
+  dateOrder: 'MDY'
+};
+
+export const LOCALE_PRESETS: { id: string; label: string; settings: LocaleSettings }[] = [
+  { id: 'en-US', label: 'English (US) - 1,234.56 - 12/31/2024', settings: DEFAULT_LOCALE },
+  { id: 'en-GB', label: 'English (UK) - 1,234.56 - 31/12/2024', settings: { ...DEFAULT_LOCALE, dateOrder: 'DMY' } },
+  {
+    id: 'de-DE',
+    label: 'German - 1.234,56 - 31.12.2024',
+    settings: { ...DEFAULT_LOCALE, decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY' }
+  },
+  {
+    id: 'fr-FR',
+    label: 'French - 1 234,56 - 31/12/2024',
+    settings: { ...DEFAULT_LOCALE, decimalSeparator: ',', thousandsSeparator: ' ', dateOrder: 'DMY' }
+  },
+  {
+    id: 'de-CH',
+    label: "Swiss - 1'234.56 - 31.12.2024",
+    settings: { ...DEFAULT_LOCALE, thousandsSeparator: "'", currencySymbols: ['CHF', 'Fr.', ...DEFAULT_LOCALE.currencySymbols], dateOrder: 'DMY' }
+  },
+  { id: 'iso', label: 'ISO - 1234.56 - 2024/12/31', settings: { ...DEFAULT_LOCALE, thousandsSeparator: '', dateOrder: 'YMD' } }
+];
+
+export const columnLocale = (locale: DatasetLocale | null | undefined, column: string): LocaleSettings =>
+  locale ? { ...locale.defaults, ...locale.columns[column] } : DEFAULT_LOCALE;
+
+// The parser already reads plain numbers in this format, so parsed cells can be used as they are
+const usesParserNumbers = (settings: LocaleSettings) =>
+  settings.decimalSeparator === '.' && (settings.thousandsSeparator === ',' || settings.thousandsSeparator === '');
+
+// The text as a regular expression that matches it literally
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const numberPatterns = new Map<string, RegExp>();
+
+const numberPattern = (settings: LocaleSettings): RegExp => {
+  const key = settings.decimalSeparator + '|' + settings.thousandsSeparator;
+  let pattern = numberPatterns.get(key);
+  if (!pattern) {
+    const decimal = escapeRegExp(settings.decimalSeparator);
+    const thousands = escapeRegExp(settings.thousandsSeparator);
+    // Leading zeros are not numbers ("00123" is a code), and groups are always three digits
+    const integer = thousands ? `(0|[1-9]\\d{0,2}(${thousands}\\d{3})+|[1-9]\\d*)` : '(0|[1-9]\\d*)';
+    pattern = new RegExp(`^[+-]?(${integer}(${decimal}\\d+)?|0?${decimal}\\d+)([eE][+-]?\\d+)?$`);
+    numberPatterns.set(key, pattern);
+  }
+  return pattern;
+};
+
+// Value of a plain number written in the locale's format; NaN for anything else
+export const parseLocaleNumber = (text: string, settings: LocaleSettings): number => {
+  // Spreadsheets often group with non-breaking spaces
+  const normalized = text.trim().replace(/[\u00a0\u202f]/g, ' ');
+  if (!numberPattern(settings).test(normalized)) return NaN;
+  const plain = settings.thousandsSeparator ? normalized.split(settings.thousandsSeparator).join('') : normalized;
+  return Number(plain.replace(settings.decimalSeparator, '.'));
+};
+
+// Removes a leading or trailing currency symbol or code ("€ 12", "12 EUR", "-$5")
+export const stripCurrency = (text: string, settings: LocaleSettings): { amount: string; currency: boolean } => {
+  const trimmed = text.trim();
+  const sign = /^[+-]/.test(trimmed) ? trimmed[0] : '';
+  const unsigned = sign ? trimmed.slice(1) : trimmed;
+  const symbols = [...settings.currencySymbols].sort((a, b) => b.length - a.length);
+  for (const symbol of symbols) {
+    if (!symbol) continue;
+    if (unsigned.toUpperCase().startsWith(symbol.toUpperCase())) {
+      return { amount: sign + unsigned.slice(symbol.length).trim(), currency: true };
+    }
+    if (unsigned.toUpperCase().endsWith(symbol.toUpperCase())) {
+      return { amount: sign + unsigned.slice(0, unsigned.length - symbol.length).trim(), currency: true };
+    }
+  }
+  return { amount: trimmed, currency: false };
+};
+
+const NUMERIC_DATE_PATTERN = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:(?:[ T]|, ?)(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+export const fullYear = (year: number, digits: number) => (digits > 2 ? year : year < 50 ? 2000 + year : 1900 + year);
+
+// Local date from parts, or null when the parts do not form a real date
+export const buildDate = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null => {
+  if (month < 1 || month > 12 || day < 1 || hours > 23 || minutes > 59 || seconds > 59) return null;
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Reads a numeric date (31/12/2024, 12.31.24, 2024-12-31) in the locale's date
+// order; four-digit leading years are always year first. Other text (month names,
+// ISO timestamps) falls back to Date.parse.
+export const parseLocaleDate = (text: string, settings: LocaleSettings): Date | null => {
+  const trimmed = text.trim();
+  const match = NUMERIC_DATE_PATTERN.exec(trimmed);
+  if (match) {
+    const [, first, second, third, hours, minutes, seconds] = match;
+    const time = [Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)] as const;
+    if (first.length === 4 || (settings.dateOrder === 'YMD' && third.length <= 2)) {
+      return buildDate(fullYear(Number(first), first.length), Number(second), Number(third), ...time);
+    }
+    if (third.length === 3) return null;
+    const year = fullYear(Number(third), third.length);
+    return settings.dateOrder === 'DMY'
+      ? buildDate(year, Number(second), Number(first), ...time)
+      : buildDate(year, Number(first), Number(second), ...time);
+  }
+  if (!/[a-z]/i.test(trimmed) && !/^\d{4}-\d{1,2}-\d{1,2}T/.test(trimmed)) return null;
+  const timestamp = Date.parse(trimmed);
+  return isNaN(timestamp) ? null : new Date(timestamp);
+};
+
+// The cell as the locale reads it: text written as a number in the locale's
+// format becomes a number. A number is re-read from the text it was parsed from
+// when that text is a different number in the locale ("1.234" is 1234 in German
+// files). sourceText is the cell's raw text; numbers without one were typed in
+// the file (JSON, workbooks) or written by a cleaning step and keep their value.
+export const localizeValue = (value: CellValue, sourceText: string | undefined, settings: LocaleSettings): CellValue => {
+  if (typeof value === 'number') {
+    if (sourceText === undefined || usesParserNumbers(settings)) return value;
+    const number = parseLocaleNumber(sourceText, settings);
+    return isNaN(number) ? value : number;
+  }
+  if (typeof value !== 'string' || value === '') return value;
+  const number = parseLocaleNumber(value, settings);
+  return isNaN(number) ? value : number;
+};
+
+export const getLocalizedColumnValues = (store: ColumnStore, colIndex: number, settings: LocaleSettings): CellValue[] => {
+  const column = store.columns[colIndex];
+  const out = new Array<CellValue>(store.rowCount);
+  for (let i = 0; i < store.rowCount; i++) {
+    const value = getCell(column, i);
+    out[i] = typeof value === 'number' && usesParserNumbers(settings) ? value : localizeValue(value, column.raw?.get(i), settings);
+  }
+  return out;
+};
+
+const STORAGE_KEY = 'dataset_locales';
+
+export const loadLocale = (filename: string): DatasetLocale | null =>
+  loadDatasetSetting<DatasetLocale>(STORAGE_KEY, filename);
+
+export const saveLocale = (filename: string, locale: DatasetLocale | null) =>
+  saveDatasetSetting(STORAGE_KEY, filename, locale);
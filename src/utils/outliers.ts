@@ -0,0 +1,179 @@
+import { CSVData, CellValue } from '../types';
+import { TaskContext, directContext } from './analysisTask';
+import { getColumnStore } from './columnStore';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { DatasetLocale, columnLocale, getLocalizedColumnValues } from './locale';
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'modified_zscore' | 'percentile';
+
+// threshold is k for IQR, the z limit for the z-scores and the percent cut
+// from each tail for percentile caps
+export interface OutlierRule {
+  method: OutlierMethod;
+  threshold: number;
+}
+
+export interface DatasetOutlierSettings {
+  defaults: OutlierRule;
+  columns: { [column: string]: OutlierRule };
+}
+
+export interface OutlierFences {
+  lower: number;
+  upper: number;
+}
+
+export const OUTLIER_METHODS: {
+  value: OutlierMethod;
+  label: string;
+  thresholdLabel: string;
+  defaultThreshold: number;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { value: 'iqr', label: 'Interquartile range (IQR)', thresholdLabel: 'k × IQR', defaultThreshold: 1.5, min: 0.5, max: 5, step: 0.5 },
+  { value: 'zscore', label: 'Z-score', thresholdLabel: '|z| above', defaultThreshold: 3, min: 1, max: 6, step: 0.5 },
+  { value: 'modified_zscore', label: 'Modified z-score (MAD)', thresholdLabel: '|modified z| above', defaultThreshold: 3.5, min: 1, max: 8, step: 0.5 },
+  { value: 'percentile', label: 'Percentile caps', thresholdLabel: '% cut from each tail', defaultThreshold: 1, min: 0.5, max: 25, step: 0.5 }
+];
+
+export const DEFAULT_OUTLIER_RULE: OutlierRule = { method: 'iqr', threshold: 1.5 };
+
+export const outlierMethodLabel = (method: OutlierMethod) =>
+  OUTLIER_METHODS.find(option => option.value === method)?.label || method;
+
+export const columnOutlierRule = (settings: DatasetOutlierSettings | null | undefined, column: string): OutlierRule =>
+  settings ? settings.columns[column] || settings.defaults : DEFAULT_OUTLIER_RULE;
+
+// Linear interpolation between the closest ranks
+const percentile = (sorted: number[], percent: number) => {
+  const position = (percent / 100) * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+const median = (sorted: number[]) => percentile(sorted, 50);
+
+// Values outside the fences are outliers. `sorted` must be in ascending order.
+export const outlierFences = (sorted: number[], rule: OutlierRule): OutlierFences => {
+  const n = sorted.length;
+  switch (rule.method) {
+    case 'zscore': {
+      const mean = sorted.reduce((sum, value) => sum + value, 0) / n;
+      const sd = Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n);
+      return { lower: mean - rule.threshold * sd, upper: mean + rule.threshold * sd };
+    }
+    case 'modified_zscore': {
+      // Iglewicz and Hoaglin: 0.6745 × (x − median) / MAD. When more than half the
+      // values are equal the MAD is 0 and the mean absolute deviation stands in.
+      const centre = median(sorted);
+      const deviations = sorted.map(value => Math.abs(value - centre)).sort((a, b) => a - b);
+      const mad = median(deviations);
+      const spread = mad > 0
+        ? mad / 0.6745
+        : (deviations.reduce((sum, value) => sum + value, 0) / n) * 1.253314;
+      return { lower: centre - rule.threshold * spread, upper: centre + rule.threshold * spread };
+    }
+    case 'percentile':
+      return { lower: percentile(sorted, rule.threshold), upper: percentile(sorted, 100 - rule.threshold) };
+    default: {
+      const q1 = sorted[Math.floor(n * 0.25)];
+      const q3 = sorted[Math.floor(n * 0.75)];
+      const iqr = q3 - q1;
+      return { lower: q1 - rule.threshold * iqr, upper: q3 + rule.threshold * iqr };
+    }
+  }
+};
+
+// Fences and outlying rows of a column, or null for columns that are not mostly numeric
+export const findColumnOutliers = (
+  values: CellValue[],
+  rule: OutlierRule
+): { fences: OutlierFences; rows: number[]; sorted: number[] } | null => {
+  const numbers: number[] = [];
+  values.forEach(value => {
+    if (typeof value === 'number') numbers.push(value);
+  });
+  if (numbers.length <= values.length / 2 || numbers.length <= 4) return null;
+
+  const sorted = numbers.sort((a, b) => a - b);
+  const fences = outlierFences(sorted, rule);
+  const rows: number[] = [];
+  values.forEach((value, rowIndex) => {
+    if (typeof value === 'number' && (value < fences.lower || value > fences.upper)) rows.push(rowIndex);
+  });
+  return { fences, rows, sorted };
+};
+
+const HISTOGRAM_BINS = 30;
+
+export interface OutlierSummary {
+  column: string;
+  rule: OutlierRule;
+  fences: OutlierFences;
+  low: number; // values below the lower fence
+  high: number; // values above the upper fence
+  min: number;
+  max: number;
+  q1: number;
+  median: number;
+  q3: number;
+  bins: number[]; // counts over equal-width bins from min to max
+}
+
+// Distribution and fences of every mostly-numeric column, for the outlier charts
+export const summarizeOutliers = async (
+  data: CSVData,
+  settings: DatasetOutlierSettings | null,
+  ctx: TaskContext = directContext,
+  locale: DatasetLocale | null = null
+): Promise<OutlierSummary[]> => {
+  const store = getColumnStore(data);
+  const summaries: OutlierSummary[] = [];
+
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    const column = data.headers[colIndex];
+    ctx.progress(colIndex / data.headers.length, column);
+    await ctx.checkpoint();
+
+    const rule = columnOutlierRule(settings, column);
+    const values = getLocalizedColumnValues(store, colIndex, columnLocale(locale, column));
+    const result = findColumnOutliers(values, rule);
+    if (!result) continue;
+
+    const { fences, sorted } = result;
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const width = (max - min) / HISTOGRAM_BINS;
+    const bins = new Array(HISTOGRAM_BINS).fill(0);
+    sorted.forEach(value => {
+      bins[width === 0 ? 0 : Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+    });
+    summaries.push({
+      column,
+      rule,
+      fences,
+      low: sorted.filter(value => value < fences.lower).length,
+      high: sorted.filter(value => value > fences.upper).length,
+      min,
+      max,
+      q1: percentile(sorted, 25),
+      median: median(sorted),
+      q3: percentile(sorted, 75),
+      bins
+    });
+  }
+
+  ctx.progress(1, 'Done');
+  return summaries;
+};
+
+const STORAGE_KEY = 'dataset_outlier_settings';
+
+export const loadOutlierSettings = (filename: string): DatasetOutlierSettings | null =>
+  loadDatasetSetting<DatasetOutlierSettings>(STORAGE_KEY, filename);
+
+export const saveOutlierSettings = (filename: string, settings: DatasetOutlierSettings | null) =>
+  saveDatasetSetting(STORAGE_KEY, filename, settings);
@@ -0,0 +1,8 @@
+// Both libraries are only loaded once a Parquet file is actually dropped
+export const readParquetRecords = async (file: File): Promise<Record<string, unknown>[]> => {
+  const [{ parquetReadObjects }, { compressors }] = await Promise.all([
+    import('hyparquet'),
+    import('hyparquet-compressors')
+  ]);
+  return parquetReadObjects({ file: await file.arrayBuffer(), compressors });
+};
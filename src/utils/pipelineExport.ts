@@ -0,0 +1,1478 @@
+import { CleaningOperation } from '../types';
+import { MISSING_TOKENS, formatCellValue } from './cellValues';
+import { columnNameProblem, parseTemplate, templateColumns, transformPattern } from './columnTransforms';
+import { DEFAULT_NEIGHBORS } from './imputation';
+import { DEFAULT_COUNTRY_CODE } from './formatFixes';
+import { DatasetLocale, LocaleSettings, columnLocale } from './locale';
+import { ColumnType } from './qualityRules';
+
+// Code the applied cleaning operations can be exported as, so production can
+// run the same pipeline outside the browser
+export type PipelineTarget = 'pandas' | 'sql' | 'dbt';
+
+export const PIPELINE_TARGETS: { value: PipelineTarget; label: string; description: string }[] = [
+  { value: 'pandas', label: 'Python / pandas', description: 'A runnable script that reads the CSV and writes the cleaned file' },
+  { value: 'sql', label: 'ANSI SQL', description: 'A SELECT over the raw table, one CTE per operation' },
+  { value: 'dbt', label: 'dbt', description: 'The SQL as a dbt model, with tests for what the cleaning guarantees' }
+];
+
+export interface PipelineFile {
+  name: string;
+  content: string;
+}
+
+export interface PipelineExport {
+  files: PipelineFile[];
+  // operations, or parts of them, the target cannot express; they are also noted in the code
+  warnings: string[];
+}
+
+export interface PipelineOptions {
+  filename: string;
+  headers: string[]; // columns of the data the operations start from
+  locale?: DatasetLocale | null;
+  columnTypes?: { [column: string]: ColumnType };
+}
+
+// Lowercase identifier for tables, models and files
+export const identifierName = (filename: string) =>
+  filename.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, '_$1') || 'dataset';
+
+// Python literal for strings, lists and mappings; JSON is valid Python for them
+const py = (value: unknown) => JSON.stringify(value);
+
+const pyNumber = (value: number) => (Number.isFinite(value) ? String(value) : value > 0 ? "float('inf')" : "float('-inf')");
+
+const pyTuple = (settings: LocaleSettings) => `(${py(settings.decimalSeparator)}, ${py(settings.thousandsSeparator)}, ${py(settings.dateOrder)})`;
+
+interface PythonHelper {
+  imports?: string[];
+  needs?: string[];
+  code: string;
+}
+
+// Ports of the analyzer's own parsing and cleaning code, so the script reads and
+// rewrites values exactly as the browser does. Listed in the order they are emitted.
+const PYTHON_HELPERS: { [name: string]: PythonHelper } = {
+  js_number: {
+    code: String.raw`def js_number(x):
+    """Number text as JavaScript prints it, which is how the analyzer writes numbers."""
+    if x == 0:
+        return '0'
+    if x.is_integer() and abs(x) < 1e21:
+        return str(int(x))
+    text = repr(x)
+    if 'e' not in text:
+        return text
+    mantissa, exponent = text.split('e')
+    exponent = int(exponent)
+    if exponent >= -6:
+        sign = '-' if mantissa.startswith('-') else ''
+        unsigned = mantissa.lstrip('-')
+        point = unsigned.find('.') if '.' in unsigned else len(unsigned)
+        return sign + '0.' + '0' * -(point + exponent) + unsigned.replace('.', '')
+    return mantissa + 'e' + ('+' if exponent > 0 else '-') + str(abs(exponent))`
+  },
+  read_cell: {
+    imports: ['re'],
+    needs: ['js_number'],
+    code: String.raw`PLAIN_NUMBER = re.compile(r'[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|[+-]?0?\.\d+([eE][+-]?\d+)?', re.ASCII)
+
+
+def read_cell(text):
+    """A cell as the analyzer reads it: trimmed, with plain numbers in canonical form."""
+    text = text.strip()
+    return js_number(float(text)) if PLAIN_NUMBER.fullmatch(text) else text
+
+
+def cell_text(value):
+    return js_number(value) if isinstance(value, float) else value`
+  },
+  source_text: {
+    needs: ['read_cell'],
+    code: String.raw`def file_text(df, raw, column):
+    """Each cell as the file wrote it, or None where a step wrote the cell."""
+    if column not in raw.columns:
+        return [None] * len(df)
+    written = raw[column].reindex(df.index)
+    return [text if read_cell(text) == cell else None for text, cell in zip(written, df[column])]
+
+
+def source_text(df, raw, column):
+    """Each cell as the file wrote it, for cells no step has changed."""
+    return [cell if text is None else text for text, cell in zip(file_text(df, raw, column), df[column])]`
+  },
+  locale_of: {
+    code: String.raw`def locale_of(column):
+    """(decimal separator, thousands separator, date order) the column is written in."""
+    return COLUMN_LOCALES.get(column, DEFAULT_LOCALE)`
+  },
+  parse_number: {
+    imports: ['re'],
+    code: String.raw`_number_patterns = {}
+
+
+def parse_number(text, decimal='.', thousands=','):
+    """Value of a plain number written with these separators, or None."""
+    key = decimal + '|' + thousands
+    if key not in _number_patterns:
+        d, t = re.escape(decimal), re.escape(thousands)
+        integer = r'(0|[1-9]\d{0,2}(' + t + r'\d{3})+|[1-9]\d*)' if thousands else r'(0|[1-9]\d*)'
+        _number_patterns[key] = re.compile(r'[+-]?(' + integer + '(' + d + r'\d+)?|0?' + d + r'\d+)([eE][+-]?\d+)?', re.ASCII)
+    text = re.sub('[\u00a0\u202f]', ' ', text.strip())
+    if not _number_patterns[key].fullmatch(text):
+        return None
+    if thousands:
+        text = text.replace(thousands, '')
+    return float(text.replace(decimal, '.', 1))`
+  },
+  typed: {
+    needs: ['source_text', 'locale_of', 'parse_number'],
+    code: String.raw`def localize(cell, text, decimal, thousands):
+    """The cell as its column's locale reads it: a float for numbers, None when empty.
+    A number is re-read from text, the cell as the file wrote it, when that is a
+    different number in the locale; numbers a step wrote (text None) keep their value."""
+    if cell == '':
+        return None
+    if PLAIN_NUMBER.fullmatch(cell):
+        if text is None or (decimal == '.' and thousands in (',', '')):
+            return float(cell)
+        number = parse_number(text, decimal, thousands)
+        return float(cell) if number is None else number
+    number = parse_number(cell, decimal, thousands)
+    return cell if number is None else number
+
+
+def typed(df, raw, column):
+    decimal, thousands, _ = locale_of(column)
+    return [localize(cell, text, decimal, thousands) for cell, text in zip(df[column], file_text(df, raw, column))]`
+  },
+  build_date: {
+    imports: ['datetime as dt'],
+    code: String.raw`def full_year(year, digits):
+    return year if digits > 2 else 2000 + year if year < 50 else 1900 + year
+
+
+def build_date(year, month, day, hours=0, minutes=0, seconds=0):
+    if month < 1 or month > 12 or day < 1 or hours > 23 or minutes > 59 or seconds > 59:
+        return None
+    try:
+        return dt.datetime(year, month, day, hours, minutes, seconds)
+    except ValueError:
+        return None`
+  },
+  order_value: {
+    imports: ['re', 'pandas as pd'],
+    needs: ['build_date'],
+    code: String.raw`NUMERIC_DATE = re.compile(r'(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:(?:[ T]|, ?)(\d{1,2}):(\d{2})(?::(\d{2}))?)?', re.ASCII)
+
+
+def parse_date(text, date_order='MDY'):
+    """A numeric date in the date order; month names and ISO timestamps are left to pandas."""
+    text = text.strip()
+    match = NUMERIC_DATE.fullmatch(text)
+    if match:
+        first, second, third, hours, minutes, seconds = match.groups()
+        time = (int(hours or 0), int(minutes or 0), int(seconds or 0))
+        if len(first) == 4 or (date_order == 'YMD' and len(third) <= 2):
+            return build_date(full_year(int(first), len(first)), int(second), int(third), *time)
+        if len(third) == 3:
+            return None
+        year = full_year(int(third), len(third))
+        if date_order == 'DMY':
+            return build_date(year, int(second), int(first), *time)
+        return build_date(year, int(first), int(second), *time)
+    if not re.search('[a-z]', text, re.I) and not re.match(r'\d{4}-\d{1,2}-\d{1,2}T', text):
+        return None
+    parsed = pd.to_datetime(text, errors='coerce')
+    return None if pd.isna(parsed) else parsed.to_pydatetime()
+
+
+def order_value(value, date_order='MDY'):
+    """Numbers order as numbers and dates by local time; other values cannot be ordered."""
+    if isinstance(value, float):
+        return value
+    if not isinstance(value, str) or value == '':
+        return None
+    date = parse_date(value, date_order)
+    return None if date is None else date.timestamp() * 1000`
+  },
+  missing_values: {
+    code: `# Cells the analyzer counts as missing
+MISSING_VALUES = (${['', ...MISSING_TOKENS].map(py).join(', ')})`
+  },
+  impute: {
+    imports: ['math'],
+    needs: ['typed', 'order_value', 'missing_values'],
+    code: String.raw`MAX_KNN_DONORS = 2000
+
+
+def round_fill(x):
+    return math.floor(x * 100 + 0.5) / 100
+
+
+def mean_of(values):
+    total = 0.0
+    for value in values:
+        total += value
+    return total / len(values)
+
+
+def median_of(values):
+    values = sorted(values)
+    middle = len(values) // 2
+    return values[middle] if len(values) % 2 == 1 else (values[middle - 1] + values[middle]) / 2
+
+
+def mode_of(values):
+    counts, best, best_count = {}, None, 0
+    for value in values:
+        counts[value] = counts.get(value, 0) + 1
+        if counts[value] > best_count:
+            best, best_count = value, counts[value]
+    return best
+
+
+def centre(values, numeric):
+    if not values:
+        return None
+    return round_fill(mean_of(values)) if numeric else mode_of(values)
+
+
+def is_numeric_column(values):
+    known = [value for value in values if value is not None]
+    return len(known) > 0 and sum(isinstance(value, float) for value in known) > len(known) / 2
+
+
+def typed_with_nulls(df, raw, column):
+    """The column as typed reads it, with None for null markers such as N/A too."""
+    return [None if value in MISSING_VALUES else value for value in typed(df, raw, column)]
+
+
+def impute(df, raw, column, strategy, sort_column=None, group_column=None, neighbors=5):
+    """Values for the missing cells of a column, by row position."""
+    target = typed_with_nulls(df, raw, column)
+    missing = [row for row, value in enumerate(target) if value is None]
+    if not missing:
+        return {}
+    numeric = is_numeric_column(target)
+    numbers = [value for value in target if isinstance(value, float)]
+    known = [value for value in target if value is not None]
+
+    if strategy in ('mean', 'median'):
+        if not numeric or not numbers:
+            return {}
+        value = round_fill(mean_of(numbers) if strategy == 'mean' else median_of(numbers))
+        return {row: value for row in missing}
+    if strategy == 'mode':
+        value = mode_of(known)
+        return {} if value is None else {row: value for row in missing}
+
+    fills = {}
+    if strategy in ('forward_fill', 'backward_fill', 'interpolate'):
+        # Rows without a sort value keep their file order after the others
+        order = list(range(len(target)))
+        sort_values = None
+        if sort_column is not None and sort_column in df.columns:
+            date_order = locale_of(sort_column)[2]
+            sort_values = [order_value(value, date_order) for value in typed(df, raw, sort_column)]
+            order.sort(key=lambda row: (sort_values[row] is None, sort_values[row] or 0, row))
+
+        if strategy == 'interpolate':
+            if not numeric:
+                return fills
+            previous = -1
+            for index, row in enumerate(order):
+                if isinstance(target[row], float):
+                    previous = index
+                    continue
+                if target[row] is not None or previous == -1:
+                    continue
+                following = index + 1
+                while following < len(order) and not isinstance(target[order[following]], float):
+                    following += 1
+                if following == len(order):
+                    continue
+                before, after = order[previous], order[following]
+                by_value = sort_values is not None and all(sort_values[item] is not None for item in (before, row, after))
+                x0 = sort_values[before] if by_value else previous
+                x1 = sort_values[after] if by_value else following
+                x = sort_values[row] if by_value else index
+                share = 0.5 if x1 == x0 else (x - x0) / (x1 - x0)
+                fills[row] = round_fill(target[before] + (target[after] - target[before]) * share)
+            return fills
+
+        last = None
+        for row in (order if strategy == 'forward_fill' else order[::-1]):
+            if target[row] is not None:
+                last = target[row]
+            elif last is not None:
+                fills[row] = last
+        return fills
+
+    if strategy == 'group':
+        if group_column is None or group_column not in df.columns:
+            return fills
+        keys = typed_with_nulls(df, raw, group_column)
+        groups = {}
+        for value, key in zip(target, keys):
+            if value is not None and key is not None:
+                groups.setdefault(key, []).append(value)
+        centres = {
+            key: centre([value for value in values if isinstance(value, float)] if numeric else values, numeric)
+            for key, values in groups.items()
+        }
+        for row in missing:
+            value = centres.get(keys[row])
+            if value is not None:
+                fills[row] = value
+        return fills
+
+    if strategy == 'knn':
+        k = max(1, neighbors or 5)
+        features = []
+        for other in df.columns:
+            if other == column:
+                continue
+            values = typed_with_nulls(df, raw, other)
+            numeric_feature = is_numeric_column(values)
+            found = [value for value in values if isinstance(value, float)]
+            span = (max(found) - min(found)) or 1 if numeric_feature else 1
+            features.append((values, numeric_feature, span))
+
+        def distance(a, b):
+            total, compared = 0.0, 0
+            for values, numeric_feature, span in features:
+                left, right = values[a], values[b]
+                if left is None or right is None:
+                    continue
+                if numeric_feature and isinstance(left, float) and isinstance(right, float):
+                    total += abs(left - right) / span
+                else:
+                    total += 0 if left == right else 1
+                compared += 1
+            return math.inf if compared == 0 else total / compared
+
+        donors = [row for row, value in enumerate(target) if (isinstance(value, float) if numeric else value is not None)]
+        sampled = donors[::max(1, math.ceil(len(donors) / MAX_KNN_DONORS))]
+        for row in missing:
+            nearest = sorted(((donor, distance(row, donor)) for donor in sampled), key=lambda item: item[1])
+            nearest = [donor for donor, d in nearest if d != math.inf][:k]
+            value = centre([target[donor] for donor in nearest], numeric)
+            if value is not None:
+                fills[row] = value
+    return fills
+
+
+def write_fills(df, column, fills, rows=None):
+    """Writes imputed values; with rows, only into those rows of the original file."""
+    cells = list(df[column])
+    for position, value in fills.items():
+        if rows is None or df.index[position] in rows:
+            cells[position] = cell_text(value)
+    df[column] = cells`
+  },
+  default_fences: {
+    imports: ['math'],
+    code: String.raw`def default_fences(values):
+    """IQR fences with k = 1.5, for mostly-numeric columns with more than four numbers."""
+    numbers = sorted(value for value in values if isinstance(value, float))
+    if len(numbers) <= len(values) / 2 or len(numbers) <= 4:
+        return -math.inf, math.inf
+    q1, q3 = numbers[int(len(numbers) * 0.25)], numbers[int(len(numbers) * 0.75)]
+    return q1 - 1.5 * (q3 - q1), q3 + 1.5 * (q3 - q1)`
+  },
+  standardize_text: {
+    imports: ['re'],
+    needs: ['read_cell'],
+    code: String.raw`def standardize_text(cell):
+    """Trimmed, lowercase text with single spaces; numbers are left alone."""
+    return cell if PLAIN_NUMBER.fullmatch(cell) else re.sub(r'\s+', ' ', cell.strip().lower())`
+  },
+  normalize_date: {
+    imports: ['math', 're'],
+    needs: ['build_date'],
+    code: String.raw`MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+
+def month_number(name):
+    name = name[:3].lower()
+    return MONTHS.index(name) + 1 if name in MONTHS else 0
+
+
+def read_timestamp(match):
+    year, month, day, hours, minutes, seconds, zone = match.groups()
+    if zone:
+        try:
+            return dt.datetime.fromisoformat(match[0].replace(' ', 'T'))
+        except ValueError:
+            return None
+    return build_date(int(year), int(month), int(day), int(hours), int(minutes), int(seconds or 0))
+
+
+def read_excel_serial(days, fraction):
+    serial = int(days)
+    if serial < 20000 or serial > 73050:
+        return None
+    return dt.datetime(1899, 12, 30) + dt.timedelta(days=serial, seconds=math.floor(float(fraction or 0) * 86400 + 0.5))
+
+
+DAY_MONTH_YEAR = r'(\d{1,2})/(\d{1,2})/(\d{4}|\d{2})'
+DAY_MONTH_YEAR_DASH = r'(\d{1,2})-(\d{1,2})-(\d{4}|\d{2})'
+
+# (format, pattern, day first, reader) for every layout the analyzer reads
+DATE_FORMATS = [
+    ('YYYY-MM-DD', r'(\d{4})-(\d{1,2})-(\d{1,2})', False, lambda m: build_date(int(m[1]), int(m[2]), int(m[3]))),
+    ('YYYY-MM-DD HH:mm', r'(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?', False, read_timestamp),
+    ('YYYY/MM/DD', r'(\d{4})/(\d{1,2})/(\d{1,2})', False, lambda m: build_date(int(m[1]), int(m[2]), int(m[3]))),
+    ('MM/DD/YYYY', DAY_MONTH_YEAR, False, lambda m: build_date(full_year(int(m[3]), len(m[3])), int(m[1]), int(m[2]))),
+    ('DD/MM/YYYY', DAY_MONTH_YEAR, True, lambda m: build_date(full_year(int(m[3]), len(m[3])), int(m[2]), int(m[1]))),
+    ('MM-DD-YYYY', DAY_MONTH_YEAR_DASH, False, lambda m: build_date(full_year(int(m[3]), len(m[3])), int(m[1]), int(m[2]))),
+    ('DD-MM-YYYY', DAY_MONTH_YEAR_DASH, True, lambda m: build_date(full_year(int(m[3]), len(m[3])), int(m[2]), int(m[1]))),
+    ('DD.MM.YYYY', r'(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})', False, lambda m: build_date(full_year(int(m[3]), len(m[3])), int(m[2]), int(m[1]))),
+    ('D MMM YYYY', r'(\d{1,2})[ -]([A-Za-z]{3,9})\.?,?[ -](\d{4})', False, lambda m: build_date(int(m[3]), month_number(m[2]), int(m[1]))),
+    ('MMM D, YYYY', r'([A-Za-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})', False, lambda m: build_date(int(m[3]), month_number(m[1]), int(m[2]))),
+    ('Excel serial', r'(\d{5})(\.\d+)?', False, lambda m: read_excel_serial(m[1], m[2])),
+]
+
+
+def normalize_date(text, date_format, date_order='MDY'):
+    """ISO 8601 text for a date in any known layout, read in date_format when it can be; None otherwise.
+    Timestamps written with a zone keep their date, time and offset."""
+    text = text.strip()
+    readings = []
+    for format_id, pattern, day_first, read in DATE_FORMATS:
+        match = re.fullmatch(pattern, text, re.ASCII)
+        date = read(match) if match else None
+        if date is not None:
+            readings.append((format_id, date, day_first))
+    if date_order == 'DMY':
+        readings.sort(key=lambda reading: 0 if reading[2] else 1)
+    reading = next((item for item in readings if item[0] == date_format), readings[0] if readings else None)
+    if reading is None:
+        return None
+    date = reading[1]
+    day = '%d-%02d-%02d' % (date.year, date.month, date.day)
+    if date.tzinfo is not None:
+        offset = int(date.utcoffset().total_seconds() // 60)
+        zone = 'Z' if offset == 0 else '%s%02d:%02d' % ('-' if offset < 0 else '+', abs(offset) // 60, abs(offset) % 60)
+        return day + 'T%02d:%02d:%02d' % (date.hour, date.minute, date.second) + zone
+    if date.hour == 0 and date.minute == 0 and date.second == 0:
+        return day
+    return day + 'T%02d:%02d:%02d' % (date.hour, date.minute, date.second)`
+  },
+  fix_format: {
+    imports: ['re'],
+    needs: ['typed'],
+    code: String.raw`def to_e164(text, country_code='1'):
+    """E.164 form of a phone number, or None when it does not have 10-15 digits."""
+    text = re.sub(r'^tel:', '', text.strip(), flags=re.I)
+    text = re.sub(r'\s*(ext\.?|x|#)\s*\d+$', '', text, flags=re.I)
+    digits = re.sub(r'\D', '', text, flags=re.ASCII)
+    if not text.startswith('+'):
+        if digits.startswith('00'):
+            digits = digits[2:]
+        elif not (digits.startswith(country_code) and len(digits) > 10):
+            digits = country_code + re.sub(r'^0', '', digits)
+    return '+' + digits if re.fullmatch(r'[1-9]\d{9,14}', digits, re.ASCII) else None
+
+
+def fix_format(cell, text, kind, column, country_code='1'):
+    """The cell rewritten in the format, or unchanged when it is fine or cannot be fixed.
+    text is the cell as the file wrote it, or None where a step wrote it."""
+    decimal, thousands, _ = locale_of(column)
+    localized = localize(cell, text, decimal, thousands)
+    if localized is None:
+        return cell
+    text = cell if text is None else text
+    if kind == 'phone':
+        return to_e164(text, country_code) or cell
+    if kind == 'email':
+        if not isinstance(localized, str):
+            return cell
+        return re.sub(r'\s+', '', re.sub(r'^mailto:', '', localized, flags=re.I)).lower()
+    if isinstance(localized, float):
+        return cell
+    kept = ''.join(char for char in text if char in '0123456789+-' or char in (decimal, thousands))
+    number = parse_number(kept, decimal, thousands) if kept else None
+    return cell if number is None else js_number(number)`
+  },
+  protect_column: {
+    imports: ['hashlib', 'os', 're', 'secrets'],
+    code: String.raw`EMAIL = re.compile(r'[^\s@]+@[^\s@]+\.[^\s@]+')
+
+
+def mask_value(text):
+    """Emails keep their first letter and domain; other values their last four letters or digits."""
+    if EMAIL.fullmatch(text):
+        return text[0] + '***' + text[text.rindex('@'):]
+    total = sum(1 for char in text if char.isalnum())
+    visible = 4 if total > 4 else 0
+    seen, masked = 0, []
+    for char in text:
+        if not char.isalnum():
+            masked.append(char)
+            continue
+        seen += 1
+        masked.append(char if seen > total - visible else '*')
+    return ''.join(masked)
+
+
+def hash_salt():
+    """The salt for a hash step: HASH_SALT from the environment, or a new one for this run."""
+    return os.environ.get('HASH_SALT') or secrets.token_hex(16)
+
+
+def protect_column(cells, texts, action, salt=''):
+    """Masked, salted-hash or tokenized values of the cells as written; empty cells stay
+    empty. Tokens are numbered by first appearance."""
+    tokens, protected = {}, []
+    for cell, text in zip(cells, texts):
+        if cell == '':
+            protected.append(cell)
+            continue
+        text = text.strip()
+        if action == 'hash':
+            protected.append(hashlib.sha256((salt + text).encode('utf-8')).hexdigest())
+        elif action == 'tokenize':
+            protected.append(tokens.setdefault(text, 'TKN-%06d' % (len(tokens) + 1)))
+        else:
+            protected.append(mask_value(text))
+    return protected`
+  },
+  merge_duplicates: {
+    imports: ['pandas as pd'],
+    code: String.raw`def merge_duplicates(df, clusters):
+    """Keeps one row per cluster, filling its empty cells from the others when merge is set.
+    Rows are the row numbers of the original file."""
+    positions = {label: position for position, label in enumerate(df.index)}
+    values = df.to_numpy(dtype=object, copy=True)
+    removed = set()
+    for keep, remove, merge in clusters:
+        # Clusters whose kept row an earlier step removed are left alone
+        if keep not in positions:
+            continue
+        at = positions[keep]
+        others = [positions[row] for row in remove if row in positions]
+        if merge:
+            for c in range(values.shape[1]):
+                if values[at, c] != '':
+                    continue
+                donor = next((other for other in others if values[other, c] != ''), None)
+                if donor is not None:
+                    values[at, c] = values[donor, c]
+        removed.update(others)
+    merged = pd.DataFrame(values, index=df.index, columns=df.columns)
+    return merged[[position not in removed for position in range(len(merged))]].copy()`
+  },
+  dedupe_by_key: {
+    needs: ['typed', 'order_value'],
+    code: String.raw`def choose_survivor(group, keep, filled, order):
+    if keep == 'last':
+        return group[-1]
+    if keep == 'most_complete':
+        best = group[0]
+        for row in group:
+            if filled[row] > filled[best]:
+                best = row
+        return best
+    if keep in ('max', 'min'):
+        best, best_value = group[0], order[group[0]]
+        for row in group[1:]:
+            value = order[row]
+            if value is None:
+                continue
+            if best_value is None or (value > best_value if keep == 'max' else value < best_value):
+                best, best_value = row, value
+        return best
+    return group[0]
+
+
+def dedupe_by_key(df, raw, keys, keep='first', column=None):
+    """Keeps one row per candidate key value; rows with an empty key cell are kept."""
+    if not keys or any(key not in df.columns for key in keys):
+        return df
+    has_column = column is not None and column in df.columns
+    if keep in ('max', 'min') and not has_column:
+        return df
+    groups = {}
+    for position, key in enumerate(zip(*(df[name] for name in keys))):
+        if '' not in key:
+            groups.setdefault(key, []).append(position)
+    date_order = locale_of(column)[2] if has_column else 'MDY'
+    order = [order_value(value, date_order) for value in typed(df, raw, column)] if has_column else []
+    filled = (df != '').sum(axis=1).tolist()
+    removed = set()
+    for group in groups.values():
+        if len(group) > 1:
+            survivor = choose_survivor(group, keep, filled, order)
+            removed.update(row for row in group if row != survivor)
+    return df[[position not in removed for position in range(len(df))]].copy()`
+  },
+  add_columns: {
+    imports: ['pandas as pd'],
+    needs: ['source_text'],
+    code: String.raw`def written(df, raw, column):
+    """Each cell as the file wrote it, trimmed."""
+    return ['' if cell == '' else text.strip() for cell, text in zip(df[column], source_text(df, raw, column))]
+
+
+def add_columns(df, sources, names, rows, drop=False):
+    """df with a column per name, filled from rows, right after the last of the
+    sources; the sources are removed when drop is set."""
+    last = [name for name in df.columns if name in sources][-1]
+    added = {name: [row[i] for row in rows] for i, name in enumerate(names)}
+    columns = {}
+    for name in df.columns:
+        if not (drop and name in sources):
+            columns[name] = df[name]
+        if name == last:
+            columns.update(added)
+    return pd.DataFrame(columns, index=df.index)`
+  },
+  split_text: {
+    imports: ['re'],
+    code: String.raw`def split_text(text, pattern, count):
+    """text split at the first count - 1 matches of pattern; the last part keeps the rest.
+    Parts are trimmed and missing parts are empty."""
+    parts, start = [], 0
+    for match in re.finditer(pattern, text):
+        if len(parts) == count - 1:
+            break
+        if match[0] == '':
+            continue
+        parts.append(text[start:match.start()])
+        start = match.end()
+    parts.append(text[start:])
+    parts += [''] * (count - len(parts))
+    return [part.strip() for part in parts]
+
+
+def extract_groups(text, pattern, count):
+    """The capture groups of the first match, or the whole match when there are none."""
+    match = re.search(pattern, text)
+    groups = (match.groups() or (match[0],)) if match else ()
+    return [(groups[i] or '').strip() if i < len(groups) else '' for i in range(count)]`
+  },
+  fill_template: {
+    imports: ['re'],
+    code: String.raw`def fill_template(template, values):
+    """The template with each {column} replaced by the column's text, trimmed. An empty
+    value is left out with its brackets and the text joining it to the value before."""
+    pieces = re.split(r'\{([^{}]+)\}', template)
+    text, rest, started = '', pieces[0], False
+    for i in range(1, len(pieces), 2):
+        opening = re.search(r'[(\[{<]*$', rest)[0]
+        closing = re.match(r'[)\]}>]*', pieces[i + 1])[0]
+        joiner = rest[:len(rest) - len(opening)]
+        if i == 1:
+            text, joiner = joiner, ''
+        value = values.get(pieces[i], '{' + pieces[i] + '}')
+        if value != '':
+            text += (joiner if started else '') + opening + value + closing
+            started = True
+        rest = pieces[i + 1][len(closing):]
+    return (text + rest).strip()`
+  },
+  convert_value: {
+    needs: ['typed', 'normalize_date'],
+    code: String.raw`TRUE_WORDS = ('true', 'yes', 'y', 't', '1')
+FALSE_WORDS = ('false', 'no', 'n', 'f', '0')
+
+
+def convert_value(cell, text, kind, column):
+    """The cell converted to kind as the analyzer writes it, or the cell unchanged when
+    it does not convert. text is the cell as the file wrote it, or None where a step wrote it."""
+    decimal, thousands, date_order = locale_of(column)
+    localized = localize(cell, text, decimal, thousands)
+    if localized is None:
+        return cell
+    text = cell if text is None else text
+    if kind in ('integer', 'decimal'):
+        if not isinstance(localized, float) or (kind == 'integer' and not localized.is_integer()):
+            return cell
+        return js_number(localized)
+    if kind == 'boolean':
+        word = text.strip().lower()
+        return 'true' if word in TRUE_WORDS else 'false' if word in FALSE_WORDS else cell
+    if kind == 'date':
+        return normalize_date(text, None, date_order) or cell
+    return text.strip()`
+  }
+};
+
+const HELPER_ORDER = Object.keys(PYTHON_HELPERS);
+
+const pythonStep = (operation: CleaningOperation, include: (helper: string) => void, warn: (message: string) => void): string[] => {
+  const column = operation.column ? py(operation.column) : '';
+  const rows = operation.rows && operation.rows.length > 0 ? `{${operation.rows.join(', ')}}` : null;
+
+  switch (operation.type) {
+    case 'remove_duplicates':
+      return ['df = df.drop_duplicates().copy()'];
+
+    case 'fill_missing': {
+      if (!operation.column) return [];
+      if (!operation.strategy || operation.strategy === 'constant') {
+        if (operation.value === undefined) return [];
+        include('missing_values');
+        return [
+          `missing = df[${column}].isin(MISSING_VALUES)${rows ? ` & df.index.isin(${rows})` : ''}`,
+          `df.loc[missing, ${column}] = ${py(formatCellValue(operation.value))}`
+        ];
+      }
+      include('impute');
+      const args = [column, py(operation.strategy)];
+      if (operation.sortColumn) args.push(`sort_column=${py(operation.sortColumn)}`);
+      if (operation.groupColumn) args.push(`group_column=${py(operation.groupColumn)}`);
+      if (operation.strategy === 'knn') args.push(`neighbors=${operation.neighbors || DEFAULT_NEIGHBORS}`);
+      return [`write_fills(df, ${column}, impute(df, raw, ${args.join(', ')})${rows ? `, rows=${rows}` : ''})`];
+    }
+
+    case 'remove_outliers': {
+      if (!operation.column) return [];
+      include('typed');
+      const lines = [`values = typed(df, raw, ${column})`];
+      if (operation.bounds) {
+        lines.push(`lower, upper = ${pyNumber(operation.bounds.lower)}, ${pyNumber(operation.bounds.upper)}`);
+      } else {
+        include('default_fences');
+        lines.push('lower, upper = default_fences(values)');
+      }
+      if (operation.outlierAction === 'cap') {
+        lines.push(
+          `df[${column}] = [`,
+          '    cell_text(min(upper, max(lower, value))) if isinstance(value, float) and (value < lower or value > upper) else cell',
+          `    for value, cell in zip(values, df[${column}])`,
+          ']'
+        );
+      } else {
+        lines.push('df = df[[not (isinstance(value, float) and (value < lower or value > upper)) for value in values]].copy()');
+      }
+      return lines;
+    }
+
+    case 'standardize': {
+      if (!operation.column) return [];
+      if (operation.mappings) {
+        return [
+          `mapping = ${py(operation.mappings)}`,
+          `df[${column}] = [mapping.get(cell, cell) if cell != '' else cell for cell in df[${column}]]`
+        ];
+      }
+      include('standardize_text');
+      return [`df[${column}] = [standardize_text(cell) for cell in df[${column}]]`];
+    }
+
+    case 'normalize_dates': {
+      if (!operation.column) return [];
+      include('normalize_date');
+      include('source_text');
+      include('locale_of');
+      const format = operation.dateFormat ? py(operation.dateFormat) : 'None';
+      return [
+        `date_order = locale_of(${column})[2]`,
+        `df[${column}] = [`,
+        `    cell if cell == '' else normalize_date(text, ${format}, date_order) or cell`,
+        `    for cell, text in zip(df[${column}], source_text(df, raw, ${column}))`,
+        ']'
+      ];
+    }
+
+    case 'merge_duplicates': {
+      if (!operation.clusters || operation.clusters.length === 0) return [];
+      include('merge_duplicates');
+      const clusters = operation.clusters.map(cluster => `    (${cluster.keep}, [${cluster.remove.join(', ')}], ${cluster.merge ? 'True' : 'False'}),`);
+      return ['df = merge_duplicates(df, [', ...clusters, '])'];
+    }
+
+    case 'dedupe_by_key': {
+      include('dedupe_by_key');
+      const args = [py(operation.keyColumns || []), py(operation.keep || 'first')];
+      if (operation.column) args.push(column);
+      return [`df = dedupe_by_key(df, raw, ${args.join(', ')})`];
+    }
+
+    case 'fix_format': {
+      if (!operation.column || !operation.format) return [];
+      include('fix_format');
+      return [
+        `df[${column}] = [`,
+        `    fix_format(cell, text, ${py(operation.format)}, ${column}, ${py(operation.countryCode || DEFAULT_COUNTRY_CODE)})`,
+        `    for cell, text in zip(df[${column}], file_text(df, raw, ${column}))`,
+        ']'
+      ];
+    }
+
+    case 'handle_sensitive': {
+      if (!operation.column) return [];
+      if (operation.sensitiveAction === 'drop') return [`df = df.drop(columns=[${column}])`];
+      include('protect_column');
+      include('source_text');
+      // The step's salt stays in the app; the script must not publish it
+      if (operation.sensitiveAction === 'hash') {
+        warn(`"${operation.description}": the script hashes with the salt in HASH_SALT, or a new one per run, so its hashes differ from the app's`);
+      }
+      return [
+        `df[${column}] = protect_column(df[${column}], source_text(df, raw, ${column}), ${py(operation.sensitiveAction || 'mask')}${operation.sensitiveAction === 'hash' ? ', hash_salt()' : ''})`
+      ];
+    }
+
+    case 'split_column':
+    case 'extract_pattern': {
+      const pattern = transformPattern(operation);
+      const names = operation.newColumns || [];
+      if (!operation.column || !pattern || names.length === 0) return [];
+      include('add_columns');
+      include('split_text');
+      const read = operation.type === 'split_column' ? 'split_text' : 'extract_groups';
+      return [
+        `parts = [${read}(text, ${py(pattern.source)}, ${names.length}) for text in written(df, raw, ${column})]`,
+        `df = add_columns(df, [${column}], ${py(names)}, parts${operation.dropSource ? ', drop=True' : ''})`,
+        `raw = raw.drop(columns=${py(names)}, errors='ignore')`
+      ];
+    }
+
+    case 'merge_columns': {
+      const template = operation.template || '';
+      const sources = operation.columns || templateColumns(template);
+      if (sources.length === 0 || !operation.newName) return [];
+      include('add_columns');
+      include('fill_template');
+      return [
+        `texts = {name: written(df, raw, name) for name in ${py(sources)}}`,
+        `merged = [[fill_template(${py(template)}, {name: texts[name][i] for name in texts})] for i in range(len(df))]`,
+        `df = add_columns(df, ${py(sources)}, [${py(operation.newName)}], merged${operation.dropSource ? ', drop=True' : ''})`,
+        `raw = raw.drop(columns=[${py(operation.newName)}], errors='ignore')`
+      ];
+    }
+
+    case 'rename_column': {
+      if (!operation.column || !operation.newName) return [];
+      const renamed = `{${column}: ${py(operation.newName)}}`;
+      return [
+        `df = df.rename(columns=${renamed})`,
+        `raw = raw.drop(columns=[${py(operation.newName)}], errors='ignore').rename(columns=${renamed})`
+      ];
+    }
+
+    case 'drop_columns':
+      if (!operation.columns || operation.columns.length === 0) return [];
+      return [`df = df.drop(columns=${py(operation.columns)})`];
+
+    case 'reorder_columns':
+      if (!operation.columns || operation.columns.length === 0) return [];
+      return [
+        `first = [name for name in ${py(operation.columns)} if name in df.columns]`,
+        'df = df[first + [name for name in df.columns if name not in first]]'
+      ];
+
+    case 'change_type': {
+      if (!operation.column || !operation.targetType) return [];
+      include('convert_value');
+      return [
+        `df[${column}] = [`,
+        `    convert_value(cell, text, ${py(operation.targetType)}, ${column})`,
+        `    for cell, text in zip(df[${column}], file_text(df, raw, ${column}))`,
+        ']'
+      ];
+    }
+
+    default:
+      warn(`"${operation.description}" has no pandas equivalent and was left out`);
+      return [];
+  }
+};
+
+const exportPandas = (operations: CleaningOperation[], options: PipelineOptions): PipelineExport => {
+  const warnings: string[] = [];
+  const used = new Set<string>();
+  const include = (helper: string) => {
+    if (used.has(helper)) return;
+    used.add(helper);
+    (PYTHON_HELPERS[helper].needs || []).forEach(include);
+  };
+  include('read_cell');
+
+  const steps = operations.map((operation, index) => {
+    const lines = pythonStep(operation, include, message => warnings.push(message));
+    return [`    # ${index + 1}. ${operation.description}`, ...(lines.length > 0 ? lines.map(line => `    ${line}`) : ['    pass'])].join('\n');
+  });
+
+  const helpers = HELPER_ORDER.filter(name => used.has(name));
+  const imports = new Set<string>(['sys', 'pandas as pd']);
+  helpers.forEach(name => (PYTHON_HELPERS[name].imports || []).forEach(item => imports.add(item)));
+
+  const locale = options.locale;
+  const localeLines = used.has('locale_of') ? [
+    '# Separators and date order each column is written in: (decimal, thousands, date order)',
+    `DEFAULT_LOCALE = ${pyTuple(columnLocale(locale || null, ''))}`,
+    `COLUMN_LOCALES = {${options.headers
+      .filter(header => locale && locale.columns[header])
+      .map(header => `${py(header)}: ${pyTuple(columnLocale(locale || null, header))}`)
+      .join(', ')}}`,
+    '',
+    ''
+  ] : [];
+
+  const script = `${identifierName(options.filename)}_cleaning.py`;
+  const content = [
+    `"""Cleaning pipeline for ${options.filename}, exported from the Data Quality Analyzer.`,
+    '',
+    'Reads the CSV as text, applies the cleaning operations in order and writes',
+    'the result as the analyzer exports it.',
+    '',
+    `Usage: python ${script} [input.csv] [output.csv]`,
+    '"""',
+    Array.from(imports).sort((a, b) => a.localeCompare(b)).map(item => `import ${item}`).join('\n'),
+    '',
+    '',
+    ...localeLines,
+    helpers.map(name => PYTHON_HELPERS[name].code).join('\n\n\n'),
+    '',
+    '',
+    'def clean(df, raw):',
+    '    """Applies the cleaning operations to the cells. raw is the file as written; the',
+    '    index is the row number in the original file."""',
+    ...(steps.length > 0 ? steps : ['    pass']),
+    '    return df',
+    '',
+    '',
+    'def load(path):',
+    '    """The cells as the analyzer reads them, and the file as written."""',
+    '    raw = pd.read_csv(path, dtype=str, keep_default_na=False).fillna(\'\')',
+    '    raw.columns = [str(name).strip() for name in raw.columns]',
+    '    return raw.apply(lambda column: column.map(read_cell)), raw',
+    '',
+    '',
+    "if __name__ == '__main__':",
+    `    source = sys.argv[1] if len(sys.argv) > 1 else ${py(options.filename)}`,
+    `    target = sys.argv[2] if len(sys.argv) > 2 else ${py(`cleaned_${options.filename}`)}`,
+    "    clean(*load(source)).to_csv(target, index=False, lineterminator='\\n')",
+    ''
+  ].join('\n');
+
+  return { files: [{ name: script, content }], warnings };
+};
+
+// ANSI quoting: identifiers in double quotes, strings in single quotes
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const sqlString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+const sqlNumber = (value: number) => (Number.isFinite(value) ? String(value) : 'NULL');
+
+const ROW_ID = '_row_id';
+
+interface SqlStep {
+  description: string;
+  sql: string | null; // null when the operation cannot be expressed; the columns pass through unchanged
+}
+
+// Builds the CTE chain. Every step selects _row_id and the current columns explicitly,
+// so helper columns never leak into the next step.
+const buildSqlSteps = (
+  operations: CleaningOperation[],
+  options: PipelineOptions,
+  warn: (message: string) => void
+): { steps: SqlStep[]; columns: string[] } => {
+  let columns = [...options.headers];
+  const types = options.columnTypes || {};
+  const steps: SqlStep[] = [];
+
+  const blank = (expression: string) => `COALESCE(TRIM(${expression}), '') = ''`;
+  // Empty, or a null marker the analyzer counts as missing; known() is NULL for those
+  const missing = (expression: string) => `COALESCE(TRIM(${expression}), '') IN (${['', ...MISSING_TOKENS].map(sqlString).join(', ')})`;
+  const known = (expression: string) => `CASE WHEN ${missing(expression)} THEN NULL ELSE TRIM(${expression}) END`;
+  const asNumber = (expression: string) => `CAST(NULLIF(TRIM(${expression}), '') AS DOUBLE PRECISION)`;
+  // Sort key: numbers and ISO dates order by value, other text as written
+  const orderKey = (column: string) => {
+    const id = quoteIdentifier(column);
+    if (types[column] === 'numeric') return asNumber(known(id));
+    if (types[column] === 'date') return `CAST(${known(id)} AS TIMESTAMP)`;
+    return `NULLIF(TRIM(${id}), '')`;
+  };
+  const selectList = (replace: { [column: string]: string } = {}, from = '') => {
+    const prefix = from ? `${from}.` : '';
+    return [
+      `${prefix}${ROW_ID}`,
+      ...columns.map(column =>
+        replace[column] !== undefined ? `${replace[column]} AS ${quoteIdentifier(column)}` : `${prefix}${quoteIdentifier(column)}`
+      )
+    ].join(',\n  ');
+  };
+  const rowFilter = (operation: CleaningOperation) =>
+    operation.rows && operation.rows.length > 0 ? ` AND ${ROW_ID} IN (${operation.rows.join(', ')})` : '';
+  const canAdd = (names: string[], dropped: string[]) => columnNameProblem(columns, names, dropped) === null;
+  // Columns added right after the last of the sources, which are removed when dropped
+  const addColumns = (sources: string[], names: string[], dropped: string[]) => {
+    const last = Math.max(...sources.map(source => columns.indexOf(source)));
+    const kept = (name: string) => !dropped.includes(name);
+    columns = [...columns.slice(0, last + 1).filter(kept), ...names, ...columns.slice(last + 1).filter(kept)];
+  };
+
+  operations.forEach((operation, index) => {
+    const previous = `step_${index}`;
+    const skip = (reason: string) => {
+      warn(`"${operation.description}" was not exported to SQL: ${reason}`);
+      steps.push({ description: operation.description, sql: null });
+    };
+    const column = operation.column;
+    const id = column ? quoteIdentifier(column) : '';
+    const hasColumn = column !== undefined && columns.includes(column);
+
+    switch (operation.type) {
+      case 'remove_duplicates': {
+        const partition = columns.map(quoteIdentifier).join(', ');
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList()}\nFROM (\n  SELECT ${previous}.*, ROW_NUMBER() OVER (PARTITION BY ${partition} ORDER BY ${ROW_ID}) AS _copy\n  FROM ${previous}\n) ranked\nWHERE _copy = 1`
+        });
+        return;
+      }
+
+      case 'fill_missing': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        const strategy = operation.strategy || 'constant';
+        const when = `${missing(id)}${rowFilter(operation)}`;
+        let fill: string;
+        switch (strategy) {
+          case 'constant':
+            if (operation.value === undefined) return skip('no fill value');
+            fill = sqlString(formatCellValue(operation.value));
+            break;
+          case 'mean':
+            fill = `COALESCE((SELECT CAST(ROUND(AVG(${asNumber(known(id))}), 2) AS VARCHAR(64)) FROM ${previous}), ${id})`;
+            break;
+          case 'median':
+            fill = `COALESCE((SELECT CAST(ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${asNumber(known(id))}), 2) AS VARCHAR(64)) FROM ${previous}), ${id})`;
+            break;
+          case 'mode':
+            fill = `COALESCE((SELECT ${id} FROM ${previous} WHERE NOT ${missing(id)} GROUP BY ${id} ORDER BY COUNT(*) DESC, MIN(${ROW_ID}) FETCH FIRST 1 ROW ONLY), ${id})`;
+            break;
+          case 'forward_fill':
+          case 'backward_fill': {
+            const order = operation.sortColumn && columns.includes(operation.sortColumn)
+              ? `${orderKey(operation.sortColumn)} NULLS LAST, ${ROW_ID}`
+              : ROW_ID;
+            const frame = strategy === 'forward_fill'
+              ? `LAST_VALUE(${known(id)} IGNORE NULLS) OVER (ORDER BY ${order} ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING)`
+              : `FIRST_VALUE(${known(id)} IGNORE NULLS) OVER (ORDER BY ${order} ROWS BETWEEN 1 FOLLOWING AND UNBOUNDED FOLLOWING)`;
+            fill = `COALESCE(${frame}, ${id})`;
+            break;
+          }
+          case 'group': {
+            if (!operation.groupColumn || !columns.includes(operation.groupColumn)) return skip('the group column is not in the data');
+            if (types[column] !== 'numeric') return skip('the most common value per group needs a numeric column in SQL');
+            const group = quoteIdentifier(operation.groupColumn);
+            // Rows without a group value are not filled
+            fill = `CASE WHEN ${missing(group)} THEN ${id} ELSE COALESCE(CAST(ROUND(AVG(${asNumber(known(id))}) OVER (PARTITION BY ${group}), 2) AS VARCHAR(64)), ${id}) END`;
+            break;
+          }
+          default:
+            return skip(`${strategy === 'knn' ? 'nearest-neighbour' : 'interpolated'} imputation has no SQL equivalent`);
+        }
+        if (strategy === 'mean' || strategy === 'median' || strategy === 'group') {
+          warn(`"${operation.description}": SQL writes the computed value in the database's number format`);
+        }
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList({ [column]: `CASE WHEN ${when} THEN ${fill} ELSE ${id} END` })}\nFROM ${previous}`
+        });
+        return;
+      }
+
+      case 'remove_outliers': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        if (!operation.bounds) return skip('the step has no stored fences');
+        const { lower, upper } = operation.bounds;
+        const value = asNumber(id);
+        if (operation.outlierAction === 'cap') {
+          steps.push({
+            description: operation.description,
+            sql: `SELECT\n  ${selectList({
+              [column]: `CASE WHEN ${value} < ${sqlNumber(lower)} THEN ${sqlString(String(lower))} WHEN ${value} > ${sqlNumber(upper)} THEN ${sqlString(String(upper))} ELSE ${id} END`
+            })}\nFROM ${previous}`
+          });
+        } else {
+          steps.push({
+            description: operation.description,
+            sql: `SELECT\n  ${selectList()}\nFROM ${previous}\nWHERE ${value} IS NULL OR ${value} BETWEEN ${sqlNumber(lower)} AND ${sqlNumber(upper)}`
+          });
+        }
+        return;
+      }
+
+      case 'standardize': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        let expression: string;
+        if (operation.mappings) {
+          const cases = Object.entries(operation.mappings).map(([from, to]) => `WHEN ${sqlString(from)} THEN ${sqlString(to)}`);
+          if (cases.length === 0) return skip('the step has no value mappings');
+          expression = `CASE ${id} ${cases.join(' ')} ELSE ${id} END`;
+        } else {
+          expression = `LOWER(TRIM(${id}))`;
+          warn(`"${operation.description}": ANSI SQL has no regular-expression replace, so runs of spaces inside values are not collapsed`);
+        }
+        steps.push({ description: operation.description, sql: `SELECT\n  ${selectList({ [column]: expression })}\nFROM ${previous}` });
+        return;
+      }
+
+      case 'merge_duplicates': {
+        if (!operation.clusters || operation.clusters.length === 0) return skip('the step has no clusters');
+        const replace: { [column: string]: string } = {};
+        const merged = operation.clusters.filter(cluster => cluster.merge && cluster.remove.length > 0);
+        if (merged.length > 0) {
+          columns.forEach(name => {
+            const target = quoteIdentifier(name);
+            const cases = merged.map(cluster => {
+              const donors = cluster.remove.map(row => `(SELECT NULLIF(TRIM(d.${target}), '') FROM ${previous} d WHERE d.${ROW_ID} = ${row})`);
+              return `WHEN ${cluster.keep} THEN COALESCE(NULLIF(TRIM(${target}), ''), ${donors.join(', ')}, ${target})`;
+            });
+            replace[name] = `CASE ${ROW_ID} ${cases.join(' ')} ELSE ${target} END`;
+          });
+        }
+        // Clusters whose kept row an earlier step removed are left alone
+        const removals = operation.clusters
+          .filter(cluster => cluster.remove.length > 0)
+          .map(cluster => `(${ROW_ID} IN (${cluster.remove.join(', ')}) AND EXISTS (SELECT 1 FROM ${previous} k WHERE k.${ROW_ID} = ${cluster.keep}))`);
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList(replace)}\nFROM ${previous}${removals.length > 0 ? `\nWHERE NOT (\n  ${removals.join('\n  OR ')}\n)` : ''}`
+        });
+        return;
+      }
+
+      case 'dedupe_by_key': {
+        const keys = operation.keyColumns || [];
+        if (keys.length === 0 || keys.some(key => !columns.includes(key))) return skip('a key column is not in the data');
+        const strategy = operation.keep || 'first';
+        let order: string;
+        switch (strategy) {
+          case 'last':
+            order = `${ROW_ID} DESC`;
+            break;
+          case 'most_complete':
+            order = `${columns.map(name => `CASE WHEN ${blank(quoteIdentifier(name))} THEN 0 ELSE 1 END`).join(' + ')} DESC, ${ROW_ID}`;
+            break;
+          case 'max':
+          case 'min':
+            if (!hasColumn || !column) return skip('the column that picks the row is not in the data');
+            order = `${orderKey(column)} ${strategy === 'max' ? 'DESC' : 'ASC'} NULLS LAST, ${ROW_ID}`;
+            break;
+          default:
+            order = ROW_ID;
+        }
+        const keyIds = keys.map(quoteIdentifier);
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList()}\nFROM (\n  SELECT ${previous}.*, ROW_NUMBER() OVER (PARTITION BY ${keyIds.join(', ')} ORDER BY ${order}) AS _rank\n  FROM ${previous}\n) ranked\nWHERE _rank = 1 OR ${keyIds.map(blank).join(' OR ')}`
+        });
+        return;
+      }
+
+      case 'fix_format': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        if (operation.format !== 'email') return skip(`${operation.format === 'phone' ? 'E.164 phone numbers' : 'stripping numbers'} needs regular expressions, which ANSI SQL lacks`);
+        const unprefixed = `CASE WHEN LOWER(TRIM(${id})) LIKE 'mailto:%' THEN SUBSTRING(TRIM(${id}) FROM 8) ELSE ${id} END`;
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList({ [column]: `LOWER(REPLACE(${unprefixed}, ' ', ''))` })}\nFROM ${previous}`
+        });
+        return;
+      }
+
+      case 'handle_sensitive': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        if (operation.sensitiveAction === 'drop') {
+          columns = columns.filter(name => name !== column);
+          steps.push({ description: operation.description, sql: `SELECT\n  ${selectList()}\nFROM ${previous}` });
+          return;
+        }
+        if (operation.sensitiveAction !== 'tokenize') {
+          return skip(`${operation.sensitiveAction === 'hash' ? 'SHA-256 hashing' : 'masking'} has no ANSI SQL function; use your database's equivalent`);
+        }
+        // Tokens are numbered by first appearance; 1000000 + n keeps the six-digit padding ANSI-only
+        const token = `'TKN-' || SUBSTRING(CAST(1000000 + DENSE_RANK() OVER (ORDER BY CASE WHEN ${blank(id)} THEN NULL ELSE _first END NULLS LAST) AS VARCHAR(8)) FROM 2)`;
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList({ [column]: `CASE WHEN ${blank(id)} THEN ${id} ELSE ${token} END` }, 'firsts')}\nFROM (\n  SELECT ${previous}.*, MIN(${ROW_ID}) OVER (PARTITION BY TRIM(${id})) AS _first\n  FROM ${previous}\n) firsts`
+        });
+        return;
+      }
+
+      case 'split_column': {
+        const names = operation.newColumns || [];
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        const dropped = operation.dropSource ? [column] : [];
+        if (!canAdd(names, dropped)) return skip('the new column names are taken');
+        if (operation.pattern) return skip('splitting at a regular expression needs functions ANSI SQL lacks');
+        if (!operation.delimiter || names.length > 2) return skip('splitting into more than two columns needs database-specific functions such as SPLIT_PART');
+        const at = `POSITION(${sqlString(operation.delimiter)} IN ${id})`;
+        const parts = names.length === 1
+          ? [id]
+          : [
+              `CASE WHEN ${at} > 0 THEN TRIM(SUBSTRING(${id} FROM 1 FOR ${at} - 1)) ELSE ${id} END`,
+              `CASE WHEN ${at} > 0 THEN TRIM(SUBSTRING(${id} FROM ${at} + ${operation.delimiter.length})) ELSE '' END`
+            ];
+        addColumns([column], names, dropped);
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList(Object.fromEntries(names.map((name, n) => [name, parts[n]])))}\nFROM ${previous}`
+        });
+        return;
+      }
+
+      case 'extract_pattern':
+        return skip('regular expression capture groups need functions ANSI SQL lacks');
+
+      case 'merge_columns': {
+        const template = operation.template || '';
+        const sources = operation.columns || templateColumns(template);
+        const name = operation.newName || '';
+        const dropped = operation.dropSource ? sources : [];
+        if (sources.length === 0 || sources.some(source => !columns.includes(source))) return skip('a merged column is not in the data');
+        if (!canAdd([name], dropped)) return skip('the new column name is taken');
+        // Empty values are left out with their brackets and the text before them,
+        // which is only written once an earlier value has been
+        const { lead, parts: placeholders, tail } = parseTemplate(template);
+        const values = placeholders.map(part =>
+          sources.includes(part.column) ? quoteIdentifier(part.column) : sqlString(`{${part.column}}`));
+        const parts = [sqlString(lead)];
+        placeholders.forEach((part, n) => {
+          const earlier = values.slice(0, n).map(previousValue => `NOT ${blank(previousValue)}`);
+          const joiner = earlier.length > 0 ? `CASE WHEN ${earlier.join(' OR ')} THEN ${sqlString(part.joiner)} ELSE '' END || ` : '';
+          parts.push(`CASE WHEN ${blank(values[n])} THEN '' ELSE ${joiner}${sqlString(part.open)} || ${values[n]} || ${sqlString(part.close)} END`);
+        });
+        parts.push(sqlString(tail));
+        addColumns(sources, [name], dropped);
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList({ [name]: `TRIM(${parts.join(' || ')})` })}\nFROM ${previous}`
+        });
+        return;
+      }
+
+      case 'rename_column': {
+        const name = operation.newName || '';
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        if (!canAdd([name], [column])) return skip('the new column name is taken');
+        columns = columns.map(existing => (existing === column ? name : existing));
+        steps.push({ description: operation.description, sql: `SELECT\n  ${selectList({ [name]: id })}\nFROM ${previous}` });
+        return;
+      }
+
+      case 'drop_columns':
+        columns = columns.filter(name => !(operation.columns || []).includes(name));
+        steps.push({ description: operation.description, sql: `SELECT\n  ${selectList()}\nFROM ${previous}` });
+        return;
+
+      case 'reorder_columns': {
+        const listed = (operation.columns || []).filter(name => columns.includes(name));
+        columns = [...new Set(listed), ...columns.filter(name => !listed.includes(name))];
+        steps.push({ description: operation.description, sql: `SELECT\n  ${selectList()}\nFROM ${previous}` });
+        return;
+      }
+
+      case 'change_type': {
+        if (!hasColumn || !column) return skip('the column is not in the data');
+        if (operation.targetType === 'text') {
+          // Cells are already trimmed text
+          steps.push({ description: operation.description, sql: `SELECT\n  ${selectList()}\nFROM ${previous}` });
+          return;
+        }
+        if (operation.targetType !== 'boolean') {
+          return skip(operation.targetType === 'date'
+            ? 'dates are parsed with database-specific functions'
+            : 'ANSI SQL has no CAST that leaves values which are not numbers unchanged');
+        }
+        const word = `LOWER(${id})`;
+        steps.push({
+          description: operation.description,
+          sql: `SELECT\n  ${selectList({
+            [column]: `CASE WHEN ${word} IN ('true', 'yes', 'y', 't', '1') THEN 'true' WHEN ${word} IN ('false', 'no', 'n', 'f', '0') THEN 'false' ELSE ${id} END`
+          })}\nFROM ${previous}`
+        });
+        return;
+      }
+
+      default:
+        return skip('dates are parsed with database-specific functions');
+    }
+  });
+
+  return { steps, columns };
+};
+
+// step_0 reads the cells as the analyzer does: trimmed, with NULL as empty
+const sqlQuery = (steps: SqlStep[], headers: string[], columns: string[], source: string) => {
+  const cells = headers.map(header => `COALESCE(TRIM(${quoteIdentifier(header)}), '') AS ${quoteIdentifier(header)}`);
+  const ctes = [`step_0 AS (\n  SELECT\n    ${[ROW_ID, ...cells].join(',\n    ')}\n  FROM ${source}\n)`];
+  steps.forEach((step, index) => {
+    const name = `step_${index + 1}`;
+    const body = step.sql ?? `SELECT * FROM step_${index}`;
+    const note = step.sql ? '' : '  -- not exported, see the notes above\n';
+    ctes.push(`-- ${index + 1}. ${step.description}\n${name} AS (\n${note}  ${body.split('\n').join('\n  ')}\n)`);
+  });
+  return `WITH\n${ctes.join(',\n')}\nSELECT\n  ${columns.map(quoteIdentifier).join(',\n  ')}\nFROM step_${steps.length}\nORDER BY ${ROW_ID}`;
+};
+
+const sqlHeader = (options: PipelineOptions, warnings: string[], source: string) => [
+  `-- Cleaning pipeline for ${options.filename}, exported from the Data Quality Analyzer.`,
+  `-- ${source} holds the file as loaded: every column as text (VARCHAR), and a ${ROW_ID}`,
+  '-- column numbering the rows from 0 in file order. Values are compared as written,',
+  '-- so numbers written differently ("1.50" and "1.5") are different values.',
+  "-- Numeric steps expect the column's non-empty values to be numbers, and date sort",
+  '-- columns ISO dates.',
+  ...(warnings.length > 0 ? ['--', '-- Not reproduced exactly:', ...warnings.map(warning => `--   * ${warning}`)] : [])
+].join('\n');
+
+const exportSql = (operations: CleaningOperation[], options: PipelineOptions): PipelineExport => {
+  const warnings: string[] = [];
+  const { steps, columns } = buildSqlSteps(operations, options, message => warnings.push(message));
+  const source = identifierName(options.filename);
+  const content = `${sqlHeader(options, warnings, source)}\n\n${sqlQuery(steps, options.headers, columns, source)};\n`;
+  return { files: [{ name: `${source}_cleaning.sql`, content }], warnings };
+};
+
+const yamlString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+interface DbtTest {
+  column?: string;
+  test: string; // YAML lines for the test, without the leading "- "
+}
+
+// What the cleaned model guarantees, as dbt tests; empty cells count as missing
+const dbtTests = (operations: CleaningOperation[], columns: string[]): DbtTest[] => {
+  const tests: DbtTest[] = [];
+  const filled = (column: string) => `COALESCE(TRIM(${quoteIdentifier(column)}), '') <> ''`;
+  operations.forEach((operation, index) => {
+    const later = operations.slice(index + 1);
+    // A later step that converts or replaces a column voids what earlier steps ensured for it
+    const kept = (name: string) => columns.includes(name) && !later.some(step =>
+      (step.type === 'change_type' && step.column === name) || step.newName === name || (step.newColumns || []).includes(name));
+    const column = operation.column;
+    const present = column !== undefined && kept(column);
+    switch (operation.type) {
+      case 'remove_duplicates': {
+        // Dropping or converting a column later can make rows that differed only there equal
+        const dropsLater = later.some(step =>
+          (step.type === 'handle_sensitive' && step.sensitiveAction === 'drop') ||
+          step.type === 'drop_columns' || step.type === 'change_type' || step.dropSource);
+        if (!dropsLater) {
+          tests.push({ test: `dbt_utils.unique_combination_of_columns:\n    combination_of_columns: [${columns.map(yamlString).join(', ')}]` });
+        }
+        break;
+      }
+      case 'dedupe_by_key': {
+        // Rows with an empty key cell are kept, so they are left out of the test
+        const keys = operation.keyColumns || [];
+        const where = `  config:\n      where: ${yamlString(keys.map(filled).join(' AND '))}`;
+        if (keys.length === 1 && kept(keys[0])) {
+          tests.push({ column: keys[0], test: `unique:\n  ${where}` });
+        } else if (keys.length > 1 && keys.every(kept)) {
+          tests.push({
+            test: `dbt_utils.unique_combination_of_columns:\n    combination_of_columns: [${keys.map(yamlString).join(', ')}]\n  ${where}`
+          });
+        }
+        break;
+      }
+      case 'fill_missing':
+        // Only fills that reach every row leave no empty cells
+        if (present && column && !(operation.rows && operation.rows.length > 0) &&
+          ['constant', 'mean', 'median', 'mode'].includes(operation.strategy || 'constant')) {
+          tests.push({ test: `dbt_utils.expression_is_true:\n    expression: ${yamlString(filled(column))}` });
+        }
+        break;
+      case 'remove_outliers':
+        if (present && column && operation.bounds) {
+          const value = `CAST(NULLIF(TRIM(${quoteIdentifier(column)}), '') AS DOUBLE PRECISION)`;
+          tests.push({
+            test: `dbt_utils.expression_is_true:\n    expression: ${yamlString(`${value} IS NULL OR ${value} BETWEEN ${sqlNumber(operation.bounds.lower)} AND ${sqlNumber(operation.bounds.upper)}`)}`
+          });
+        }
+        break;
+      case 'standardize':
+        if (present && column && operation.mappings) {
+          const spellings = Object.keys(operation.mappings).filter(from => operation.mappings?.[from] !== from);
+          if (spellings.length > 0) {
+            tests.push({
+              test: `dbt_utils.expression_is_true:\n    expression: ${yamlString(`${quoteIdentifier(column)} NOT IN (${spellings.map(sqlString).join(', ')})`)}`
+            });
+          }
+        }
+        break;
+      case 'handle_sensitive':
+        if (present && column && operation.sensitiveAction === 'tokenize') {
+          tests.push({
+            test: `dbt_utils.expression_is_true:\n    expression: ${yamlString(`COALESCE(TRIM(${quoteIdentifier(column)}), '') = '' OR ${quoteIdentifier(column)} LIKE 'TKN-%'`)}`
+          });
+        }
+        break;
+      default:
+        break;
+    }
+  });
+  return tests;
+};
+
+const exportDbt = (operations: CleaningOperation[], options: PipelineOptions): PipelineExport => {
+  const warnings: string[] = [];
+  const { steps, columns } = buildSqlSteps(operations, options, message => warnings.push(message));
+  const table = identifierName(options.filename);
+  const model = `${table}_cleaned`;
+  const source = `{{ source('raw', '${table}') }}`;
+  const modelSql = `${sqlHeader(options, warnings, source)}\n\n{{ config(materialized='table') }}\n\n${sqlQuery(steps, options.headers, columns, source)}\n`;
+
+  const tests = dbtTests(operations, columns);
+  const indent = (text: string, spaces: number) => text.split('\n').map(line => ' '.repeat(spaces) + line).join('\n');
+  const modelTests = tests.filter(test => !test.column);
+  const yaml = [
+    'version: 2',
+    '',
+    'sources:',
+    '  - name: raw',
+    '    tables:',
+    `      - name: ${table}`,
+    `        description: ${yamlString(`${options.filename} loaded with every column as text and a ${ROW_ID} column in file order`)}`,
+    '',
+    'models:',
+    `  - name: ${model}`,
+    `    description: ${yamlString(`${options.filename} after ${operations.length} cleaning operation${operations.length === 1 ? '' : 's'} exported from the Data Quality Analyzer`)}`,
+    ...(modelTests.length > 0 ? ['    tests:', ...modelTests.map(test => indent(`- ${test.test}`, 6))] : []),
+    '    columns:',
+    ...columns.flatMap(column => {
+      const columnTests = tests.filter(test => test.column === column);
+      return [
+        `      - name: ${yamlString(column)}`,
+        ...(columnTests.length > 0 ? ['        tests:', ...columnTests.map(test => indent(`- ${test.test}`, 10))] : [])
+      ];
+    }),
+    ''
+  ].join('\n');
+
+  const files: PipelineFile[] = [
+    { name: `models/${model}.sql`, content: modelSql },
+    { name: `models/${model}.yml`, content: yaml }
+  ];
+  if (tests.some(test => test.test.startsWith('dbt_utils.'))) {
+    files.push({
+      name: 'packages.yml',
+      content: 'packages:\n  - package: dbt-labs/dbt_utils\n    version: [">=1.0.0", "<2.0.0"]\n'
+    });
+  }
+  return { files, warnings };
+};
+
+export const exportPipeline = (
+  operations: CleaningOperation[],
+  target: PipelineTarget,
+  options: PipelineOptions
+): PipelineExport => {
+  switch (target) {
+    case 'sql':
+      return exportSql(operations, options);
+    case 'dbt':
+      return exportDbt(operations, options);
+    default:
+      return exportPandas(operations, options);
+  }
+};
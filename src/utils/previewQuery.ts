@@ -0,0 +1,97 @@
+import { CSVData, CellValue } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { formatCellValue } from './cellValues';
+import { StoredColumn, getCell, getColumnStore, getRow } from './columnStore';
+import { DatasetLocale, LocaleSettings, columnLocale, localizeValue, parseLocaleDate } from './locale';
+
+export interface ColumnFilter {
+  column: string;
+  value: string;
+  type: 'contains' | 'equals' | 'greater' | 'less';
+}
+
+export interface PreviewQuery {
+  searchTerm: string;
+  filters: ColumnFilter[];
+  sortColumn: string | null;
+  sortDirection: 'asc' | 'desc';
+  locale?: DatasetLocale | null; // how numbers and dates are written, for sorting
+}
+
+export const isQueryActive = (query: PreviewQuery) =>
+  query.searchTerm !== '' || query.filters.length > 0 || query.sortColumn !== null;
+
+const matchesFilter = (cell: CellValue, filter: ColumnFilter) => {
+  const cellValue = String(cell).toLowerCase();
+  const filterValue = filter.value.toLowerCase();
+
+  switch (filter.type) {
+    case 'contains':
+      return cellValue.includes(filterValue);
+    case 'equals':
+      return cellValue === filterValue;
+    case 'greater':
+      return Number(cell) > Number(filter.value);
+    case 'less':
+      return Number(cell) < Number(filter.value);
+    default:
+      return true;
+  }
+};
+
+const compareCells = (aVal: CellValue, bVal: CellValue, direction: 'asc' | 'desc') => {
+  // Handle different data types
+  if (typeof aVal === 'number' && typeof bVal === 'number') {
+    return direction === 'asc' ? aVal - bVal : bVal - aVal;
+  } else if (aVal instanceof Date && bVal instanceof Date) {
+    return direction === 'asc' ? aVal.getTime() - bVal.getTime() : bVal.getTime() - aVal.getTime();
+  } else {
+    const aStr = String(aVal).toLowerCase();
+    const bStr = String(bVal).toLowerCase();
+    return direction === 'asc' ? aStr.localeCompare(bStr) : bStr.localeCompare(aStr);
+  }
+};
+
+// What a cell sorts by: numbers and dates written in the column's locale sort by value
+const sortKey = (column: StoredColumn, rowIndex: number, settings: LocaleSettings): CellValue => {
+  const value = localizeValue(getCell(column, rowIndex), column.raw?.get(rowIndex), settings);
+  if (typeof value !== 'string' || value === '') return value;
+  return parseLocaleDate(value, settings) ?? value;
+};
+
+// Returns the indices of the matching rows in display order
+export const queryRows = async (data: CSVData, query: PreviewQuery, ctx: TaskContext = directContext): Promise<number[]> => {
+  const store = getColumnStore(data);
+  const searchTerm = query.searchTerm.toLowerCase();
+  const filters = query.filters
+    .map(filter => ({ filter, column: store.columns[data.headers.indexOf(filter.column)] }))
+    .filter(item => item.column !== undefined);
+
+  const indices: number[] = [];
+  for (let rowIndex = 0; rowIndex < store.rowCount; rowIndex++) {
+    if (rowIndex % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress(rowIndex / Math.max(1, store.rowCount), 'Filtering');
+      await ctx.checkpoint();
+    }
+    if (!filters.every(({ filter, column }) => matchesFilter(getCell(column, rowIndex), filter))) continue;
+    if (searchTerm && !getRow(store, rowIndex).some(cell => formatCellValue(cell).toLowerCase().includes(searchTerm))) continue;
+    indices.push(rowIndex);
+  }
+
+  if (query.sortColumn) {
+    const column = store.columns[data.headers.indexOf(query.sortColumn)];
+    if (column) {
+      ctx.progress(1, 'Sorting');
+      await ctx.checkpoint();
+      const settings = columnLocale(query.locale, query.sortColumn);
+      const keys = new Array<CellValue>(store.rowCount);
+      indices.forEach(index => {
+        keys[index] = sortKey(column, index, settings);
+      });
+      indices.sort((a, b) => compareCells(keys[a], keys[b], query.sortDirection));
+    }
+  }
+
+  ctx.progress(1, 'Done');
+  return indices;
+};
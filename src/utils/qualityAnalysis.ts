@@ -0,0 +1,462 @@
+import { CSVData, CellValue, DetailedIssue, IssueCounts, QualityReport, SchemaDriftIssue } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { CandidateKey, candidateKeyLabel } from './candidateKeys';
+import { isMissingValue, rowKey } from './cellValues';
+import { ColumnStore, getCell, getColumnStore, getRawCell, getRawColumnValues, getRow, rowKeyAt } from './columnStore';
+import { DateFormatDetection, detectDateFormat } from './dateFormats';
+import { DatasetSchema, detectSchemaDrift } from './datasetSchema';
+import { Expectation, expectationToRule } from './expectations';
+import { DatasetLocale, LocaleSettings, columnLocale, getLocalizedColumnValues, localizeValue } from './locale';
+import { DatasetOutlierSettings, columnOutlierRule, findColumnOutliers, outlierMethodLabel } from './outliers';
+import { ValidationContract, contractToRules } from './validationContract';
+import { RecordMatchSettings, findDuplicateClusters } from './recordMatching';
+import { ColumnType, DIMENSION_LABELS, QualityRuleSettings, RuleDimension, columnMatches, resolveRules } from './qualityRules';
+import { TypeInference, TypeOverrides, resolveColumnType, typeFamily } from './typeInference';
+
+export interface QualityAnalysisResult {
+  report: QualityReport;
+  issues: DetailedIssue[];
+  issueCounts: IssueCounts;
+  schemaDrift: SchemaDriftIssue[];
+  columnTypes: { [column: string]: TypeInference };
+  dateFormats: { [column: string]: DateFormatDetection };
+}
+
+// Every issue is counted, but only this many per dimension are kept with full
+// detail; a 300k-row file can otherwise produce millions of issue records.
+export const MAX_ISSUES_PER_TYPE = 5000;
+
+const STAGES = [
+  'Column Types',
+  'Missing Values',
+  'Duplicates',
+  'Invalid Format',
+  'Value Range',
+  'Inconsistent Values',
+  'Unusual Patterns',
+  'Sensitive Data'
+];
+
+export const emptyIssueCounts = (): IssueCounts => ({
+  total: 0,
+  byType: {
+    missing: 0,
+    duplicate: 0,
+    invalid_format: 0,
+    value_range: 0,
+    inconsistent: 0,
+    unusual_pattern: 0,
+    sensitive_data: 0
+  },
+  bySeverity: { low: 0, medium: 0, high: 0, critical: 0 }
+});
+
+const createIssueCollector = () => {
+  const issues: DetailedIssue[] = [];
+  const counts = emptyIssueCounts();
+
+  const add = (issue: DetailedIssue) => {
+    counts.total++;
+    counts.byType[issue.type]++;
+    counts.bySeverity[issue.severity]++;
+    if (counts.byType[issue.type] <= MAX_ISSUES_PER_TYPE) {
+      issues.push(issue);
+    }
+  };
+
+  return { issues, counts, add };
+};
+
+// Column values are read in each column's locale, so "1.234,56" arrives as a number
+const forEachColumn = async (
+  data: CSVData,
+  store: ColumnStore,
+  ctx: TaskContext,
+  stageIndex: number,
+  locales: LocaleSettings[],
+  fn: (header: string, colIndex: number, columnData: CellValue[]) => void
+) => {
+  for (let colIndex = 0; colIndex < data.headers.length; colIndex++) {
+    ctx.progress((stageIndex + colIndex / data.headers.length) / STAGES.length, STAGES[stageIndex]);
+    await ctx.checkpoint();
+    fn(data.headers[colIndex], colIndex, getLocalizedColumnValues(store, colIndex, locales[colIndex]));
+  }
+};
+
+export const generateRecommendations = (score: number, counts: IssueCounts, totalRows: number): string[] => {
+  const recommendations: string[] = [];
+
+  if (score < 60) {
+    recommendations.push("🚨 CRITICAL: Overall data quality is unacceptable. Immediate comprehensive cleanup required.");
+  } else if (score < 80) {
+    recommendations.push("⚠️ WARNING: Data quality needs significant improvement before production use.");
+  }
+
+  const criticalIssues = counts.bySeverity.critical;
+  if (criticalIssues > 0) {
+    recommendations.push(`🔒 PRIVACY ALERT: ${criticalIssues} critical issues found including sensitive data exposure.`);
+  }
+
+  const sensitiveDataIssues = counts.byType.sensitive_data;
+  if (sensitiveDataIssues > 0) {
+    recommendations.push(`🛡️ COMPLIANCE RISK: ${sensitiveDataIssues} PII/sensitive data instances require immediate attention.`);
+  }
+
+  const highSeverityIssues = counts.bySeverity.high;
+  if (highSeverityIssues > 0) {
+    recommendations.push(`⚡ HIGH PRIORITY: ${highSeverityIssues} high-severity issues affecting data reliability.`);
+  }
+
+  // Specific dimension recommendations
+  if (counts.byType.missing > totalRows * 0.1) {
+    recommendations.push("📝 Implement data validation rules to prevent missing values at data entry.");
+  }
+
+  if (counts.byType.duplicate > 0) {
+    recommendations.push("🗑️ Establish unique constraints and deduplication processes.");
+  }
+
+  if (counts.byType.invalid_format > 0) {
+    recommendations.push("📋 Standardize data entry formats and implement input validation.");
+  }
+
+  if (counts.byType.value_range > 0) {
+    recommendations.push("📊 Implement range validation and business rule checks.");
+  }
+
+  if (counts.byType.unusual_pattern > 0) {
+    recommendations.push("🔍 Review and replace test/dummy data with authentic values.");
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push("✅ Excellent data quality! Consider implementing monitoring to maintain standards.");
+  }
+
+  return recommendations;
+};
+
+export interface QualityAnalysisOptions {
+  ruleSettings?: QualityRuleSettings;
+  expectations?: Expectation[];
+  schema?: DatasetSchema | null;
+  contract?: ValidationContract | null;
+  typeOverrides?: TypeOverrides;
+  locale?: DatasetLocale | null;
+  recordMatching?: RecordMatchSettings | null;
+  candidateKeys?: CandidateKey[];
+  outliers?: DatasetOutlierSettings | null;
+}
+
+export const analyzeQuality = async (
+  data: CSVData,
+  ctx: TaskContext = directContext,
+  options: QualityAnalysisOptions = {}
+): Promise<QualityAnalysisResult> => {
+  const store = getColumnStore(data);
+  const collector = createIssueCollector();
+  const addIssue = collector.add;
+  const missingValues: { [column: string]: number } = {};
+  const dataTypes: { [column: string]: string } = {};
+  const outliers: { [column: string]: number[] } = {};
+  const formatIssues: { [column: string]: number } = {};
+  const rangeIssues: { [column: string]: number } = {};
+  const inconsistencyIssues: { [column: string]: number } = {};
+  const unusualPatterns: { [column: string]: number } = {};
+  const sensitiveDataDetected: { [column: string]: string[] } = {};
+  const locales = data.headers.map(header => columnLocale(options.locale, header));
+
+  // Column types are inferred once up front, with user overrides applied; every
+  // later stage checks against them
+  const columnTypes: { [column: string]: TypeInference } = {};
+  const typeFamilies: { [column: string]: ColumnType } = {};
+  const dateFormats: { [column: string]: DateFormatDetection } = {};
+  await forEachColumn(data, store, ctx, 0, locales, (header, colIndex, columnData) => {
+    columnTypes[header] = resolveColumnType(header, columnData, options.typeOverrides, locales[colIndex]);
+    typeFamilies[header] = typeFamily(columnTypes[header].type);
+    dataTypes[header] = columnTypes[header].type;
+    if (typeFamilies[header] === 'date') {
+      dateFormats[header] = detectDateFormat(getRawColumnValues(store, colIndex), locales[colIndex]);
+    }
+  });
+  const schemaDrift = options.schema ? detectSchemaDrift(data, options.schema, typeFamilies) : [];
+  const contract = options.contract;
+  const requiredColumns = new Set(contract ? contract.fields.filter(field => field.required).map(field => field.name) : []);
+
+  // 1️⃣ MISSING VALUES ANALYSIS
+  await forEachColumn(data, store, ctx, 1, locales, (header, _colIndex, columnData) => {
+    let missingCount = 0;
+
+    columnData.forEach((val, rowIndex) => {
+      if (isMissingValue(val)) {
+        missingCount++;
+        const required = requiredColumns.has(header);
+        addIssue({
+          type: 'missing',
+          column: header,
+          rowIndex,
+          value: val,
+          description: required
+            ? `Missing value in required column "${header}"`
+            : `Missing value in "${header}" - empty or null field`,
+          severity: required ? 'high' : 'medium',
+          dimension: 'Missing Values',
+          recommendation: required
+            ? 'Fill the value - the validation contract requires this column'
+            : 'Fill with appropriate default value or remove row if critical',
+          constraint: required ? 'required' : undefined
+        });
+      }
+    });
+    missingValues[header] = missingCount;
+  });
+
+  // 2️⃣ DUPLICATES ANALYSIS
+  let duplicateRowCount = 0;
+  // Rows that repeat another row, a contract unique key or a candidate key; used for the score
+  const duplicatedRows = new Set<number>();
+  const seenRows = new Map<string, number>();
+  for (let index = 0; index < data.rows.length; index++) {
+    if (index % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress((2 + index / Math.max(1, data.rows.length)) / STAGES.length, STAGES[2]);
+      await ctx.checkpoint();
+    }
+    const key = rowKeyAt(store, index);
+    const firstIndex = seenRows.get(key);
+    if (firstIndex !== undefined) {
+      duplicateRowCount++;
+      duplicatedRows.add(index);
+      addIssue({
+        type: 'duplicate',
+        column: 'All columns',
+        rowIndex: index,
+        value: getRow(store, index),
+        description: `Duplicate row #${index + 1} (identical to row #${firstIndex + 1})`,
+        severity: 'high',
+        dimension: 'Duplicates',
+        recommendation: 'Remove duplicate row to maintain data integrity'
+      });
+    } else {
+      seenRows.set(key, index);
+    }
+  }
+
+  // Contract unique constraints and primary key, then the dataset's candidate
+  // keys; rows with an empty key cell are skipped
+  const uniqueKeys = [
+    ...(contract ? contract.uniqueKeys : []).map(keyColumns => ({
+      keyColumns,
+      constraint: keyColumns.length === 1 ? 'unique' : `primaryKey: ${keyColumns.join(', ')}`,
+      recommendation: 'Make the value unique - the validation contract requires it'
+    })),
+    ...(options.candidateKeys || []).map(keyColumns => ({
+      keyColumns,
+      constraint: `candidate key: ${candidateKeyLabel(keyColumns)}`,
+      recommendation: 'Keep one row per key with the duplicate key step in Data Cleaning'
+    }))
+  ];
+  for (const { keyColumns, constraint, recommendation } of uniqueKeys) {
+    const columns = keyColumns.map(name => store.columns[data.headers.indexOf(name)]);
+    if (columns.length === 0 || columns.some(column => column === undefined)) continue;
+    const seenKeys = new Map<string, number>();
+
+    for (let index = 0; index < store.rowCount; index++) {
+      if (index % CHECKPOINT_INTERVAL === 0) await ctx.checkpoint();
+      const cells = columns.map(column => getCell(column, index));
+      if (cells.some(cell => cell === '' || cell === null || cell === undefined)) continue;
+      const key = rowKey(cells);
+      const firstIndex = seenKeys.get(key);
+      if (firstIndex === undefined) {
+        seenKeys.set(key, index);
+        continue;
+      }
+      duplicatedRows.add(index);
+      addIssue({
+        type: 'duplicate',
+        column: keyColumns.join(', '),
+        rowIndex: index,
+        value: cells.length === 1 ? cells[0] : cells,
+        description: `Duplicate ${keyColumns.length === 1 ? 'value' : 'key'} in row #${index + 1} (already used in row #${firstIndex + 1})`,
+        severity: 'high',
+        dimension: 'Duplicates',
+        recommendation,
+        constraint
+      });
+    }
+  }
+
+  // Near-duplicate records by the dataset's record matching settings; rows that
+  // repeat another exactly are already reported above
+  if (options.recordMatching) {
+    const clusters = await findDuplicateClusters(data, options.recordMatching, { ...ctx, progress: () => {} });
+    const keyColumns = options.recordMatching.fields.map(field => field.column);
+    clusters.forEach(cluster => {
+      cluster.rows.forEach(index => {
+        if (index === cluster.keep || duplicatedRows.has(index)) return;
+        duplicatedRows.add(index);
+        addIssue({
+          type: 'duplicate',
+          column: keyColumns.join(', '),
+          rowIndex: index,
+          value: getRow(store, index),
+          description: `Row #${index + 1} is likely a duplicate of row #${cluster.keep + 1} (${Math.round(cluster.score * 100)}% similar)`,
+          severity: 'medium',
+          dimension: 'Duplicates',
+          recommendation: 'Review the cluster under Fuzzy Duplicates in Data Cleaning and merge or keep the records'
+        });
+      });
+    });
+  }
+
+  // 3️⃣-7️⃣ RULE-BASED ANALYSIS: invalid format, value range, inconsistent values,
+  // unusual patterns and sensitive data come from the quality-rule registry, the
+  // dataset's expectations and its validation contract
+  const rules = resolveRules(options.ruleSettings, [
+    ...(options.expectations || []).map(expectationToRule),
+    ...(contract ? contractToRules(contract) : [])
+  ]);
+  const ruleStages: [RuleDimension, { [column: string]: number }][] = [
+    ['invalid_format', formatIssues],
+    ['value_range', rangeIssues],
+    ['inconsistent', inconsistencyIssues],
+    ['unusual_pattern', unusualPatterns],
+    ['sensitive_data', {}]
+  ];
+
+  for (let stage = 0; stage < ruleStages.length; stage++) {
+    const [dimension, issueCounts] = ruleStages[stage];
+    const stageRules = rules.filter(resolved => resolved.rule.dimension === dimension);
+
+    await forEachColumn(data, store, ctx, stage + 3, locales, (header, colIndex, columnData) => {
+      const columnRules = stageRules.filter(resolved => columnMatches(resolved.columns, header, typeFamilies[header]));
+      let issueCount = 0;
+
+      columnRules.forEach(({ rule, severity, params }) => {
+        let matched = false;
+        columnData.forEach((parsed, rowIndex) => {
+          if (parsed === '' || parsed === null || parsed === undefined) return;
+          const raw = getRawCell(store.columns[colIndex], rowIndex);
+          // Format is judged on the text as written: "1e5" parses to an integer but is not written as one
+          const val = dimension === 'invalid_format' ? raw.trim() : parsed;
+          const description = rule.check(val, {
+            column: header,
+            rowIndex,
+            params,
+            headers: data.headers,
+            columnType: columnTypes[header].type,
+            cell: column => {
+              const index = data.headers.indexOf(column);
+              if (index === -1) return undefined;
+              const other = store.columns[index];
+              return localizeValue(getCell(other, rowIndex), other.raw?.get(rowIndex), locales[index]);
+            },
+            raw,
+            locale: locales[colIndex],
+            dateFormat: dateFormats[header]
+          });
+          if (description === null) return;
+
+          matched = true;
+          issueCount++;
+          addIssue({
+            type: dimension,
+            column: header,
+            rowIndex,
+            value: val,
+            description,
+            severity,
+            dimension: DIMENSION_LABELS[dimension],
+            recommendation: rule.recommendation,
+            constraint: rule.constraint
+          });
+        });
+
+        if (matched && dimension === 'sensitive_data') {
+          sensitiveDataDetected[header] = [...(sensitiveDataDetected[header] || []), rule.name];
+        }
+      });
+
+      // Statistical outliers by the column's outlier method. They are reported
+      // without lowering the score, since they may be genuine values.
+      if (dimension === 'value_range') {
+        const outlierRule = columnOutlierRule(options.outliers, header);
+        const result = findColumnOutliers(columnData, outlierRule);
+        outliers[header] = result ? result.rows : [];
+        result?.rows.forEach(rowIndex => {
+          const value = columnData[rowIndex] as number;
+          addIssue({
+            type: 'value_range',
+            column: header,
+            rowIndex,
+            value,
+            description: `Outlier in "${header}": ${value} is ${value < result.fences.lower ? 'below' : 'above'} the ${outlierMethodLabel(outlierRule.method)} fence`,
+            severity: 'low',
+            dimension: DIMENSION_LABELS.value_range,
+            recommendation: 'Check the value; remove the row or cap the value with the outlier step in Data Cleaning',
+            constraint: `outlier: ${outlierRule.method} ${outlierRule.threshold}`
+          });
+        });
+      }
+      issueCounts[header] = issueCount;
+    });
+  }
+
+  // Calculate scores for each dimension (0-100)
+  const counts = collector.counts;
+  const totalCells = data.rows.length * data.headers.length;
+  const totalMissing = Object.values(missingValues).reduce((sum, count) => sum + count, 0);
+  const missingValuesScore = Math.round(((totalCells - totalMissing) / totalCells) * 100);
+
+  const duplicatesScore = Math.round(((data.rows.length - duplicatedRows.size) / data.rows.length) * 100);
+
+  const totalFormatIssues = Object.values(formatIssues).reduce((sum, count) => sum + count, 0);
+  const invalidFormatScore = Math.max(0, Math.round(100 - (totalFormatIssues / data.rows.length) * 100));
+
+  const totalRangeIssues = Object.values(rangeIssues).reduce((sum, count) => sum + count, 0);
+  const valueRangeScore = Math.max(0, Math.round(100 - (totalRangeIssues / data.rows.length) * 100));
+
+  const totalInconsistencies = Object.values(inconsistencyIssues).reduce((sum, count) => sum + count, 0);
+  const inconsistentValuesScore = Math.max(0, Math.round(100 - (totalInconsistencies / data.rows.length) * 100));
+
+  const totalUnusualPatterns = Object.values(unusualPatterns).reduce((sum, count) => sum + count, 0);
+  const unusualPatternsScore = Math.max(0, Math.round(100 - (totalUnusualPatterns / data.rows.length) * 100));
+
+  const totalSensitiveData = counts.byType.sensitive_data;
+  const sensitiveDataScore = totalSensitiveData === 0 ? 100 : Math.max(0, Math.round(100 - (totalSensitiveData / data.rows.length) * 100));
+
+  // Calculate overall score (weighted average)
+  const overallScore = Math.round((
+    missingValuesScore * 0.20 +
+    duplicatesScore * 0.15 +
+    invalidFormatScore * 0.15 +
+    valueRangeScore * 0.15 +
+    inconsistentValuesScore * 0.10 +
+    unusualPatternsScore * 0.10 +
+    sensitiveDataScore * 0.15
+  ));
+
+  const report: QualityReport = {
+    totalRows: data.rows.length,
+    totalColumns: data.headers.length,
+    overallScore,
+    missingValuesScore,
+    duplicatesScore,
+    invalidFormatScore,
+    valueRangeScore,
+    inconsistentValuesScore,
+    unusualPatternsScore,
+    sensitiveDataScore,
+    missingValues,
+    duplicateRows: duplicateRowCount,
+    dataTypes,
+    outliers,
+    formatIssues,
+    rangeIssues,
+    inconsistencyIssues,
+    unusualPatterns,
+    sensitiveDataDetected,
+    recommendations: generateRecommendations(overallScore, counts, data.rows.length)
+  };
+
+  ctx.progress(1, 'Done');
+  return { report, issues: collector.issues, issueCounts: counts, schemaDrift, columnTypes, dateFormats };
+};
@@ -0,0 +1,461 @@
+import { CellValue, DetailedIssue } from '../types';
+import { DateFormatDetection, formatIsoDate, readDateFormats } from './dateFormats';
+import { DATE_ORDER_LABELS, LocaleSettings, parseLocaleDate } from './locale';
+import { EMAIL_PATTERN, InferredType, cleanPhone, conformsToType, parseNumeric } from './typeInference';
+
+// Coarse type families of the inferred column types, used by rule selectors and schemas
+export type ColumnType = 'numeric' | 'email' | 'phone' | 'date' | 'text';
+
+export const COLUMN_TYPES: ColumnType[] = ['numeric', 'email', 'phone', 'date', 'text'];
+
+// Which columns a rule applies to. A column must satisfy every criterion that is
+// set; an empty selector matches all columns.
+export interface ColumnSelector {
+  names?: string[];     // exact column names
+  pattern?: string;     // regular expression tested against the column name (case-insensitive)
+  types?: ColumnType[]; // type families of the (possibly overridden) column types
+}
+
+export type RuleParams = { [name: string]: string | number };
+
+// Dimensions a rule can report under; missing values and duplicates are structural
+// checks in the analysis itself
+export type RuleDimension = Exclude<DetailedIssue['type'], 'missing' | 'duplicate'>;
+
+export interface RuleCheckContext {
+  column: string;
+  rowIndex: number;
+  params: RuleParams;
+  headers: string[];
+  columnType: InferredType; // inferred or user-overridden type of the column
+  cell: (column: string) => CellValue | undefined; // another cell in the same row
+  raw: string; // the cell exactly as it appeared in the source file
+  locale: LocaleSettings; // number and date format of the column
+  dateFormat?: DateFormatDetection; // dominant format of date columns
+}
+
+export interface QualityRule {
+  id: string;
+  name: string;
+  description: string;
+  dimension: RuleDimension;
+  severity: DetailedIssue['severity'];
+  columns: ColumnSelector;
+  params?: RuleParams;
+  recommendation: string;
+  constraint?: string; // contract constraint the rule enforces, shown with its issues
+  // Returns the issue description when the value fails, or null when it passes.
+  // Empty cells are never passed to rules. Invalid-format rules get the source
+  // text (trimmed; the whitespace rule reports padding) instead of the parsed value.
+  check: (value: CellValue, ctx: RuleCheckContext) => string | null;
+}
+
+// User tuning of a registered rule. Serializable, so it can be saved and sent to the analysis worker.
+export interface QualityRuleOverride {
+  enabled?: boolean;
+  severity?: DetailedIssue['severity'];
+  columns?: ColumnSelector;
+  params?: RuleParams;
+}
+
+export type QualityRuleSettings = { [ruleId: string]: QualityRuleOverride };
+
+export interface ResolvedRule {
+  rule: QualityRule;
+  severity: DetailedIssue['severity'];
+  columns: ColumnSelector;
+  params: RuleParams;
+}
+
+export const DIMENSION_LABELS: { [type in DetailedIssue['type']]: string } = {
+  missing: 'Missing Values',
+  duplicate: 'Duplicates',
+  invalid_format: 'Invalid Format',
+  value_range: 'Value Range',
+  inconsistent: 'Inconsistent Values',
+  unusual_pattern: 'Unusual Patterns',
+  sensitive_data: 'Sensitive Data (PII)'
+};
+
+const registry = new Map<string, QualityRule>();
+
+// Registering a rule with an existing id replaces it
+export const registerQualityRule = (rule: QualityRule) => {
+  registry.set(rule.id, rule);
+};
+
+export const getQualityRules = (): QualityRule[] => Array.from(registry.values());
+
+const patternCache = new Map<string, RegExp | null>();
+
+// Invalid user-entered patterns match nothing instead of failing the analysis
+export const compilePattern = (pattern: string, flags = 'i'): RegExp | null => {
+  const key = `${flags}/${pattern}`;
+  if (!patternCache.has(key)) {
+    try {
+      patternCache.set(key, new RegExp(pattern, flags));
+    } catch {
+      patternCache.set(key, null);
+    }
+  }
+  return patternCache.get(key) ?? null;
+};
+
+export const columnMatches = (selector: ColumnSelector, column: string, type: ColumnType): boolean => {
+  if (selector.names && selector.names.length > 0 && !selector.names.includes(column)) return false;
+  if (selector.pattern) {
+    const regex = compilePattern(selector.pattern);
+    if (!regex || !regex.test(column)) return false;
+  }
+  if (selector.types && selector.types.length > 0 && !selector.types.includes(type)) return false;
+  return true;
+};
+
+// Extra rules, such as a dataset's expectations, run alongside the registered ones
+export const resolveRules = (settings: QualityRuleSettings = {}, extraRules: QualityRule[] = []): ResolvedRule[] =>
+  [...getQualityRules(), ...extraRules]
+    .filter(rule => settings[rule.id]?.enabled !== false)
+    .map(rule => {
+      const override = settings[rule.id] || {};
+      return {
+        rule,
+        severity: override.severity || rule.severity,
+        columns: override.columns || rule.columns,
+        params: { ...rule.params, ...override.params }
+      };
+    });
+
+const PHONE_PATTERN = /^\+?[1-9]\d{0,15}$/;
+
+const toDate = (value: CellValue, locale: LocaleSettings): Date | null =>
+  value instanceof Date ? value : parseLocaleDate(String(value), locale);
+
+const DUMMY_WORDS = ['test', 'dummy', 'sample', 'example', 'placeholder', 'temp', 'xxx', 'yyy', 'zzz'];
+
+const builtinRules: QualityRule[] = [
+  // 3️⃣ Invalid format
+  {
+    id: 'format.email',
+    name: 'Email format',
+    description: 'Values in email columns must look like name@domain.tld',
+    dimension: 'invalid_format',
+    severity: 'high',
+    columns: { types: ['email'] },
+    recommendation: 'Correct format or standardize data entry rules',
+    check: value => (EMAIL_PATTERN.test(String(value)) ? null : `Invalid email format: "${value}" - missing @ or domain`)
+  },
+  {
+    id: 'format.phone',
+    name: 'Phone format',
+    description: 'Values in phone columns must have 10-15 digits',
+    dimension: 'invalid_format',
+    severity: 'high',
+    columns: { types: ['phone'] },
+    recommendation: 'Correct format or standardize data entry rules',
+    check: value => {
+      const phone = cleanPhone(value);
+      return PHONE_PATTERN.test(phone) && phone.length >= 10 && phone.length <= 15
+        ? null
+        : `Invalid phone format: "${value}" - should be 10-15 digits`;
+    }
+  },
+  {
+    id: 'format.column_type',
+    name: 'Column type',
+    description: 'Values must fit the inferred or overridden type of their column',
+    dimension: 'invalid_format',
+    severity: 'high',
+    // email and phone columns have their own format rules
+    columns: { types: ['numeric', 'date', 'text'] },
+    recommendation: 'Correct format or standardize data entry rules',
+    check: (value, { columnType, locale }) => {
+      if (conformsToType(value, columnType, locale)) return null;
+      switch (columnType) {
+        case 'integer': {
+          const number = parseNumeric(value, locale);
+          if (isNaN(number)) return `Non-numeric value in numeric column: "${value}"`;
+          return Number.isInteger(number)
+            ? `Leading zeros or too many digits in integer column: "${value}"`
+            : `Non-integer value in integer column: "${value}"`;
+        }
+        case 'decimal':
+          return `Non-numeric value in numeric column: "${value}"`;
+        case 'date':
+        case 'datetime':
+          // Dates in another known format are reported by consistency.date_format
+          if (readDateFormats(String(value), locale.dateOrder).length > 0) return null;
+          return `Invalid date format: "${value}" - use YYYY-MM-DD or ${DATE_ORDER_LABELS[locale.dateOrder]}`;
+        default:
+          return `"${value}" is not a valid ${columnType} value`;
+      }
+    }
+  },
+
+  // 4️⃣ Value range
+  {
+    id: 'range.age',
+    name: 'Realistic age',
+    description: 'Ages must fall between the configured minimum and maximum',
+    dimension: 'value_range',
+    severity: 'high',
+    columns: { pattern: '(^|[^a-z])age([^a-z]|$)', types: ['numeric'] },
+    params: { min: 0, max: 150 },
+    recommendation: 'Verify data accuracy and correct unrealistic values',
+    check: (value, { params, locale }) => {
+      const age = parseNumeric(value, locale);
+      return !isNaN(age) && (age < Number(params.min) || age > Number(params.max))
+        ? `Unrealistic age: ${age} - should be between ${params.min}-${params.max}`
+        : null;
+    }
+  },
+  {
+    id: 'range.non_negative_amount',
+    name: 'Non-negative amount',
+    description: 'Salaries, income and similar amounts cannot be negative',
+    dimension: 'value_range',
+    severity: 'high',
+    columns: { pattern: 'salary|income|wage', types: ['numeric'] },
+    recommendation: 'Verify data accuracy and correct unrealistic values',
+    check: (value, { locale }) => {
+      const amount = parseNumeric(value, locale);
+      return !isNaN(amount) && amount < 0 ? `Negative salary: ${amount} - should be positive` : null;
+    }
+  },
+  {
+    id: 'range.birth_date',
+    name: 'Plausible birth date',
+    description: 'Birth dates cannot be in the future or before the configured year',
+    dimension: 'value_range',
+    severity: 'high',
+    columns: { pattern: '(^|[^a-z])dob([^a-z]|$)|birth' },
+    params: { minYear: 1900 },
+    recommendation: 'Verify data accuracy and correct unrealistic values',
+    check: (value, { params, locale }) => {
+      const date = toDate(value, locale);
+      if (!date) return null;
+      if (date.getFullYear() < Number(params.minYear)) return `Very old birth date: ${value} - seems unrealistic`;
+      if (date > new Date()) return `Future birth date: ${value} - cannot be in the future`;
+      return null;
+    }
+  },
+  {
+    id: 'range.phone_length',
+    name: 'Phone number length',
+    description: 'Phone numbers must have 10-15 digits',
+    dimension: 'value_range',
+    severity: 'high',
+    columns: { types: ['phone'] },
+    params: { minDigits: 10, maxDigits: 15 },
+    recommendation: 'Verify data accuracy and correct unrealistic values',
+    check: (value, { params }) => {
+      const phone = cleanPhone(value);
+      return phone.length < Number(params.minDigits) || phone.length > Number(params.maxDigits)
+        ? `Phone number length issue: "${value}" - should be ${params.minDigits}-${params.maxDigits} digits`
+        : null;
+    }
+  },
+
+  // 5️⃣ Inconsistent values
+  {
+    id: 'consistency.text_case',
+    name: 'Consistent text case',
+    description: 'Text should be lower, upper or sentence case, not mixed',
+    dimension: 'inconsistent',
+    severity: 'low',
+    columns: { types: ['text'] },
+    recommendation: 'Standardize text formatting and remove extra spaces',
+    check: value =>
+      typeof value === 'string' &&
+      value !== value.toLowerCase() &&
+      value !== value.toUpperCase() &&
+      value !== value.charAt(0).toUpperCase() + value.slice(1).toLowerCase()
+        ? `Inconsistent text case: "${value}" - mixed capitalization`
+        : null
+  },
+  {
+    id: 'consistency.whitespace',
+    name: 'Extra whitespace',
+    description: 'Text should not have leading, trailing or repeated spaces',
+    dimension: 'inconsistent',
+    severity: 'low',
+    columns: { types: ['text'] },
+    recommendation: 'Standardize text formatting and remove extra spaces',
+    check: (_value, { raw }) =>
+      raw !== raw.trim() || raw.includes('  ') ? `Extra whitespace in: "${raw}" - needs trimming` : null
+  },
+  {
+    id: 'consistency.date_format',
+    name: 'Consistent date format',
+    description: "Dates should be written in the column's dominant format and read only one way",
+    dimension: 'inconsistent',
+    severity: 'medium',
+    columns: { types: ['date'] },
+    recommendation: 'Normalize the column to ISO 8601 (YYYY-MM-DD) in Data Cleaning',
+    check: (_value, { raw, dateFormat, locale }) => {
+      if (!dateFormat?.format) return null;
+      const text = raw.trim();
+      const readings = readDateFormats(text, locale.dateOrder);
+      if (readings.length === 0) return null;
+      const inFormat = readings.find(reading => reading.format === dateFormat.format);
+      if (!inFormat) {
+        const [first] = readings;
+        return first.format === 'Excel serial'
+          ? `Excel serial number ${text} (${formatIsoDate(first.date)}) in a ${dateFormat.format} date column`
+          : `Date "${text}" is written as ${readings.map(reading => reading.format).join(' or ')}; the column mostly uses ${dateFormat.format}`;
+      }
+      if (!dateFormat.ambiguous) return null;
+      // Nothing in the column settles day-first vs month-first, so values that read both ways are unclear
+      const other = readings.find(reading => reading !== inFormat && reading.date.getTime() !== inFormat.date.getTime());
+      return other
+        ? `Ambiguous date "${text}" - ${formatIsoDate(inFormat.date)} as ${inFormat.format} or ${formatIsoDate(other.date)} as ${other.format}`
+        : null;
+    }
+  },
+  {
+    id: 'consistency.ship_after_order',
+    name: 'Ship date after order date',
+    description: 'Ship dates cannot be earlier than the order date in the same row',
+    dimension: 'inconsistent',
+    severity: 'high',
+    columns: { pattern: 'ship' },
+    params: { orderColumn: 'order.*date|date.*order' },
+    recommendation: 'Verify and correct date sequence logic',
+    check: (value, { params, headers, cell, locale }) => {
+      const orderPattern = compilePattern(String(params.orderColumn));
+      const orderColumn = orderPattern ? headers.find(h => orderPattern.test(h)) : undefined;
+      const orderDate = orderColumn ? cell(orderColumn) : undefined;
+      if (orderDate === undefined || orderDate === '') return null;
+      const ship = toDate(value, locale);
+      const order = toDate(orderDate, locale);
+      return ship && order && ship < order
+        ? `Ship date (${value}) before order date (${orderDate}) - logically inconsistent`
+        : null;
+    }
+  },
+
+  // 6️⃣ Unusual patterns
+  {
+    id: 'unusual.repeated_characters',
+    name: 'Repeated characters',
+    description: 'Values made of one repeated character, like 9999999999',
+    dimension: 'unusual_pattern',
+    severity: 'medium',
+    columns: {},
+    recommendation: 'Replace with authentic data or verify if legitimate',
+    check: value => {
+      const text = String(value);
+      return text.length > 3 && /^(.)\1+$/.test(text) ? `Suspicious repeated pattern: "${value}" - likely placeholder data` : null;
+    }
+  },
+  {
+    id: 'unusual.sequential',
+    name: 'Sequential pattern',
+    description: 'Values starting with a run like 1234567890',
+    dimension: 'unusual_pattern',
+    severity: 'medium',
+    columns: {},
+    recommendation: 'Replace with authentic data or verify if legitimate',
+    check: value => {
+      const text = String(value);
+      return text.length > 4 && /^(0123456789|1234567890|abcdefghij)/.test(text.toLowerCase())
+        ? `Sequential pattern detected: "${value}" - likely test data`
+        : null;
+    }
+  },
+  {
+    id: 'unusual.dummy_value',
+    name: 'Dummy or test value',
+    description: 'Values containing words like test, dummy, sample or placeholder',
+    dimension: 'unusual_pattern',
+    severity: 'medium',
+    columns: { types: ['text', 'phone', 'date', 'numeric'] },
+    recommendation: 'Replace with authentic data or verify if legitimate',
+    check: value => {
+      const text = String(value).toLowerCase();
+      return DUMMY_WORDS.some(word => text.includes(word))
+        ? `Dummy/test value detected: "${value}" - should be replaced with real data`
+        : null;
+    }
+  },
+  {
+    id: 'unusual.test_email',
+    name: 'Test email address',
+    description: 'Email addresses such as test@... or ...@example.com',
+    dimension: 'unusual_pattern',
+    severity: 'medium',
+    columns: { types: ['email'] },
+    recommendation: 'Replace with authentic data or verify if legitimate',
+    check: value => {
+      const text = String(value).toLowerCase();
+      return ['test@', 'dummy@', 'example@', '@test.', '@dummy.', '@example.'].some(part => text.includes(part))
+        ? `Test email detected: "${value}" - likely not a real email address`
+        : null;
+    }
+  },
+
+  // 7️⃣ Sensitive data (PII)
+  {
+    id: 'pii.email',
+    name: 'Email',
+    description: 'Email addresses are personal data',
+    dimension: 'sensitive_data',
+    severity: 'critical',
+    columns: {},
+    recommendation: 'Mask, encrypt, or remove email addresses for privacy compliance',
+    check: value => (EMAIL_PATTERN.test(String(value)) ? `Email address detected: "${value}" - contains PII` : null)
+  },
+  {
+    id: 'pii.phone',
+    name: 'Phone',
+    description: 'Phone numbers are personal data',
+    dimension: 'sensitive_data',
+    severity: 'critical',
+    columns: {},
+    recommendation: 'Mask or encrypt phone numbers for privacy protection',
+    check: value => (/^\+?[1-9]\d{9,14}$/.test(cleanPhone(value)) ? `Phone number detected: "${value}" - contains PII` : null)
+  },
+  {
+    id: 'pii.ssn',
+    name: 'SSN',
+    description: 'US social security numbers (XXX-XX-XXXX or 9 digits)',
+    dimension: 'sensitive_data',
+    severity: 'critical',
+    columns: {},
+    recommendation: 'Immediately encrypt or remove SSN data - high compliance risk',
+    check: value => {
+      const text = String(value);
+      return /^\d{3}-\d{2}-\d{4}$/.test(text) || /^\d{9}$/.test(text)
+        ? `Potential SSN detected: "${value}" - highly sensitive PII`
+        : null;
+    }
+  },
+  {
+    id: 'pii.credit_card',
+    name: 'Credit Card',
+    description: '16-digit card numbers, optionally grouped by 4',
+    dimension: 'sensitive_data',
+    severity: 'critical',
+    columns: {},
+    recommendation: 'Remove credit card data immediately - PCI compliance violation',
+    check: value =>
+      /^\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}$/.test(String(value))
+        ? `Potential credit card number: "${value}" - financial PII`
+        : null
+  }
+];
+
+builtinRules.forEach(registerQualityRule);
+
+const SETTINGS_KEY = 'quality_rule_settings';
+
+export const loadRuleSettings = (): QualityRuleSettings => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveRuleSettings = (settings: QualityRuleSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
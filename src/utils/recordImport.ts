@@ -0,0 +1,114 @@
+import { CSVData, CellValue } from '../types';
+import { createCSVData, createColumnBuilder } from './columnStore';
+
+// How array values inside a record become cells:
+// - stringify: the array is kept in one cell as JSON text
+// - explode: each element becomes its own row (the other fields are repeated);
+//   several arrays in one record explode into every combination
+export type ArrayHandling = 'stringify' | 'explode';
+
+type FlatRow = { [column: string]: CellValue };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value;
+  if (typeof value === 'bigint') {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  return String(value);
+};
+
+const stringifyArray = (value: unknown[]) =>
+  JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+
+// Flattens nested objects into dotted column names, e.g. { customer: { id: 1 } }
+// becomes { "customer.id": 1 }. Returns more than one row only when exploding arrays.
+export const flattenRecord = (value: unknown, arrays: ArrayHandling, prefix = ''): FlatRow[] => {
+  if (Array.isArray(value)) {
+    if (arrays === 'stringify') return [{ [prefix || 'value']: stringifyArray(value) }];
+    if (value.length === 0) return [{ [prefix || 'value']: '' }];
+    return value.flatMap(item => flattenRecord(item, arrays, prefix));
+  }
+
+  if (isPlainObject(value)) {
+    let rows: FlatRow[] = [{}];
+    Object.entries(value).forEach(([key, child]) => {
+      const childRows = flattenRecord(child, arrays, prefix ? `${prefix}.${key}` : key);
+      rows = rows.flatMap(row => childRows.map(childRow => ({ ...row, ...childRow })));
+    });
+    return rows;
+  }
+
+  return [{ [prefix || 'value']: toCellValue(value) }];
+};
+
+export const hasNestedArrays = (records: unknown[]): boolean => {
+  const check = (value: unknown): boolean => {
+    if (Array.isArray(value)) return true;
+    if (isPlainObject(value)) return Object.values(value).some(check);
+    return false;
+  };
+  return records.some(check);
+};
+
+// Columns appear in the order they are first seen across all records
+export const recordsToCSVData = (records: unknown[], filename: string, arrays: ArrayHandling): CSVData => {
+  const columnIndex = new Map<string, number>();
+  const flatRows: FlatRow[] = [];
+
+  records.forEach(record => {
+    flattenRecord(record, arrays).forEach(row => {
+      Object.keys(row).forEach(column => {
+        if (!columnIndex.has(column)) columnIndex.set(column, columnIndex.size);
+      });
+      flatRows.push(row);
+    });
+  });
+
+  const headers = Array.from(columnIndex.keys());
+  const columns = headers.map(header => {
+    const builder = createColumnBuilder();
+    flatRows.forEach(row => builder.push(header in row ? row[header] : ''));
+    return builder.finish();
+  });
+
+  return createCSVData(headers, { rowCount: flatRows.length, columns }, filename);
+};
+
+// Accepts a top-level array of records, or a single object whose only array
+// property holds the records (e.g. { "data": [...] }), or one bare object.
+export const parseJSONRecords = (text: string): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : 'could not parse file'}`);
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  if (isPlainObject(parsed)) {
+    const arrayProps = Object.values(parsed).filter(Array.isArray);
+    return arrayProps.length === 1 ? arrayProps[0] : [parsed];
+  }
+  throw new Error('JSON file must contain an array of records or an object');
+};
+
+export const parseNDJSONRecords = (text: string): unknown[] => {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+  return records;
+};
@@ -0,0 +1,197 @@
+import { CSVData } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { getCell, getColumnStore, getRawColumnValues } from './columnStore';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { jaroWinklerSimilarity, levenshteinSimilarity, tokenSetSimilarity } from './stringSimilarity';
+
+export type SimilarityMetric = 'jaro_winkler' | 'levenshtein' | 'token_set' | 'exact';
+
+export type MatchNormalization = 'none' | 'basic' | 'alphanumeric';
+
+// A column two records are compared on; weights set how much it counts in the record score
+export interface MatchField {
+  column: string;
+  metric: SimilarityMetric;
+  weight: number;
+}
+
+export interface RecordMatchSettings {
+  fields: MatchField[];
+  normalization: MatchNormalization;
+  threshold: number;             // weighted similarity in [0, 1] at which two records are likely duplicates
+  blockingColumn: string | null; // null blocks on every key column
+  blockingPrefix: number;        // leading characters of the normalized value records must share to be compared
+}
+
+// Records that matched each other, directly or through other members
+export interface DuplicateCluster {
+  rows: number[];  // row indexes in the data, ascending
+  keep: number;    // suggested survivor: the most complete row, then the first
+  score: number;   // lowest similarity among the matches that joined the cluster
+}
+
+export const SIMILARITY_METRICS: { value: SimilarityMetric; label: string }[] = [
+  { value: 'jaro_winkler', label: 'Jaro-Winkler (names, short text)' },
+  { value: 'levenshtein', label: 'Levenshtein (typos)' },
+  { value: 'token_set', label: 'Token set (word order, extra words)' },
+  { value: 'exact', label: 'Exact' }
+];
+
+export const MATCH_NORMALIZATIONS: { value: MatchNormalization; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'basic', label: 'Trim, lowercase, collapse spaces' },
+  { value: 'alphanumeric', label: 'Letters and digits only, no accents' }
+];
+
+export const DEFAULT_MATCH_SETTINGS: RecordMatchSettings = {
+  fields: [],
+  normalization: 'basic',
+  threshold: 0.85,
+  blockingColumn: null,
+  blockingPrefix: 2
+};
+
+const METRICS: { [metric in SimilarityMetric]: (a: string, b: string) => number } = {
+  jaro_winkler: jaroWinklerSimilarity,
+  levenshtein: levenshteinSimilarity,
+  token_set: tokenSetSimilarity,
+  exact: (a, b) => (a === b ? 1 : 0)
+};
+
+export const normalizeForMatching = (text: string, normalization: MatchNormalization): string => {
+  if (normalization === 'none') return text;
+  const basic = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (normalization === 'basic') return basic;
+  return basic
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Blocks larger than this are compared with a sliding window over their sorted
+// members instead of pair by pair
+const MAX_FULL_BLOCK = 100;
+const BLOCK_WINDOW = 20;
+
+// Weighted similarity of two records; fields empty in either record are left
+// out, and records with nothing to compare do not match
+const recordSimilarity = (values: string[][], fields: MatchField[], a: number, b: number): number => {
+  let total = 0;
+  let weights = 0;
+  fields.forEach((field, f) => {
+    const left = values[f][a];
+    const right = values[f][b];
+    if (left === '' || right === '') return;
+    total += METRICS[field.metric](left, right) * field.weight;
+    weights += field.weight;
+  });
+  return weights === 0 ? 0 : total / weights;
+};
+
+export const findDuplicateClusters = async (
+  data: CSVData,
+  settings: RecordMatchSettings,
+  ctx: TaskContext = directContext
+): Promise<DuplicateCluster[]> => {
+  const store = getColumnStore(data);
+  const fields = settings.fields.filter(field => data.headers.includes(field.column) && field.weight > 0);
+  if (fields.length === 0) return [];
+
+  ctx.progress(0, 'Normalizing key columns');
+  const values = fields.map(field =>
+    getRawColumnValues(store, data.headers.indexOf(field.column)).map(text => normalizeForMatching(text, settings.normalization))
+  );
+
+  // Records are only compared when they share a block: the same leading
+  // characters in the blocking column, or in any key column
+  const blockingColumns = settings.blockingColumn && data.headers.includes(settings.blockingColumn)
+    ? [getRawColumnValues(store, data.headers.indexOf(settings.blockingColumn)).map(text => normalizeForMatching(text, settings.normalization))]
+    : values;
+  const prefix = Math.max(1, settings.blockingPrefix);
+  const blocks = new Map<string, number[]>();
+  blockingColumns.forEach((column, b) => {
+    column.forEach((value, rowIndex) => {
+      if (value === '') return;
+      const key = `${b}:${value.slice(0, prefix)}`;
+      const block = blocks.get(key);
+      if (block) block.push(rowIndex);
+      else blocks.set(key, [rowIndex]);
+    });
+  });
+
+  // Union-find over matched pairs, tracking each cluster's weakest link
+  const parent = Array.from({ length: store.rowCount }, (_, index) => index);
+  const weakest = new Float64Array(store.rowCount).fill(1);
+  const find = (row: number): number => {
+    while (parent[row] !== row) {
+      parent[row] = parent[parent[row]];
+      row = parent[row];
+    }
+    return row;
+  };
+
+  let comparisons = 0;
+  let blocksDone = 0;
+  const compare = async (a: number, b: number) => {
+    if (++comparisons % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress(blocksDone / blocks.size, 'Comparing records');
+      await ctx.checkpoint();
+    }
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    const score = recordSimilarity(values, fields, a, b);
+    if (score < settings.threshold) return;
+    parent[rootB] = rootA;
+    weakest[rootA] = Math.min(weakest[rootA], weakest[rootB], score);
+  };
+
+  for (const block of blocks.values()) {
+    if (block.length <= MAX_FULL_BLOCK) {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) await compare(block[i], block[j]);
+      }
+    } else {
+      const sortKey = (row: number) => values.map(column => column[row]).join('\u0000');
+      const sorted = block.map(row => ({ row, key: sortKey(row) })).sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+      for (let i = 0; i < sorted.length; i++) {
+        const end = Math.min(sorted.length, i + BLOCK_WINDOW + 1);
+        for (let j = i + 1; j < end; j++) await compare(sorted[i].row, sorted[j].row);
+      }
+    }
+    blocksDone++;
+  }
+
+  const members = new Map<number, number[]>();
+  for (let row = 0; row < store.rowCount; row++) {
+    const root = find(row);
+    const rows = members.get(root);
+    if (rows) rows.push(row);
+    else members.set(root, [row]);
+  }
+
+  const filled = (row: number) => store.columns.reduce((count, column) => {
+    const cell = getCell(column, row);
+    return cell === '' || cell === null || cell === undefined ? count : count + 1;
+  }, 0);
+
+  const clusters: DuplicateCluster[] = [];
+  members.forEach((rows, root) => {
+    if (rows.length < 2) return;
+    const keep = rows.reduce((best, row) => (filled(row) > filled(best) ? row : best), rows[0]);
+    clusters.push({ rows, keep, score: weakest[root] });
+  });
+
+  ctx.progress(1, 'Done');
+  return clusters.sort((a, b) => b.score - a.score || a.rows[0] - b.rows[0]);
+};
+
+const STORAGE_KEY = 'dataset_match_settings';
+
+export const loadMatchSettings = (filename: string): RecordMatchSettings | null =>
+  loadDatasetSetting<RecordMatchSettings>(STORAGE_KEY, filename);
+
+export const saveMatchSettings = (filename: string, settings: RecordMatchSettings | null) =>
+  saveDatasetSetting(STORAGE_KEY, filename, settings && settings.fields.length > 0 ? settings : null);
@@ -0,0 +1,123 @@
+import { CellValue, CleaningOperation } from '../types';
+import { formatCellValue } from './cellValues';
+import { EMAIL_PATTERN } from './typeInference';
+
+// How handle_sensitive protects a column
+export type SensitiveAction = NonNullable<CleaningOperation['sensitiveAction']>;
+
+export const SENSITIVE_ACTIONS: { value: SensitiveAction; label: string }[] = [
+  { value: 'mask', label: 'Mask, keeping email domains and the last four characters of longer values' },
+  { value: 'hash', label: 'Replace with a salted SHA-256 hash' },
+  { value: 'tokenize', label: 'Replace with a token per distinct value' },
+  { value: 'drop', label: 'Drop the column' }
+];
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// SHA-256 of the UTF-8 text as hex. Synchronous, so it runs in the analysis
+// worker and in insecure contexts where crypto.subtle is missing.
+export const sha256 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  const length = ((bytes.length + 9 + 63) >> 6) << 6;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+  return hash.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+// Random hex salt for a hash step, kept with the operation so the same value
+// always gets the same hash in that step. Saved recipes and exported scripts
+// leave it out, so it never ends up in a shared file.
+export const createSalt = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Emails keep their first letter and domain ("j***@example.com"); other values
+// keep their separators and last four letters or digits
+export const maskValue = (text: string): string => {
+  if (EMAIL_PATTERN.test(text)) {
+    const at = text.lastIndexOf('@');
+    return `${text[0]}***${text.slice(at)}`;
+  }
+  const total = (text.match(/[\p{L}\p{N}]/gu) || []).length;
+  const visible = total > 4 ? 4 : 0;
+  let seen = 0;
+  return Array.from(text, char => {
+    if (!/[\p{L}\p{N}]/u.test(char)) return char;
+    seen++;
+    return seen > total - visible ? char : '*';
+  }).join('');
+};
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+// The protected column; empty cells stay empty. Tokens are numbered by first
+// appearance, so equal values share a token and joins on the column still work.
+export const protectColumn = (values: CellValue[], action: SensitiveAction, salt = ''): CellValue[] => {
+  const tokens = new Map<string, string>();
+  const hashes = new Map<string, string>();
+  return values.map(value => {
+    if (isEmptyCell(value)) return value;
+    const text = formatCellValue(value).trim();
+    switch (action) {
+      case 'hash': {
+        let hash = hashes.get(text);
+        if (hash === undefined) {
+          hash = sha256(salt + text);
+          hashes.set(text, hash);
+        }
+        return hash;
+      }
+      case 'tokenize': {
+        let token = tokens.get(text);
+        if (token === undefined) {
+          token = `TKN-${String(tokens.size + 1).padStart(6, '0')}`;
+          tokens.set(text, token);
+        }
+        return token;
+      }
+      default:
+        return maskValue(text);
+    }
+  });
+};
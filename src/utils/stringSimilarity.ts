@@ -0,0 +1,77 @@
+// String similarity measures in [0, 1], where 1 means the strings are equal
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const levenshteinSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+};
+
+const jaro = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(b.length, i + window + 1);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+};
+
+// Jaro similarity boosted for a shared prefix of up to four characters, which
+// suits names and other short strings where typos tend to come late
+export const jaroWinklerSimilarity = (a: string, b: string): number => {
+  const similarity = jaro(a, b);
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return similarity + prefix * 0.1 * (1 - similarity);
+};
+
+// Compares the words both strings share with the words only one has, so word
+// order and extra words ("Smith, John" and "John A Smith") count for little
+export const tokenSetSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(/\s+/).filter(Boolean));
+  const tokensB = new Set(b.split(/\s+/).filter(Boolean));
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).sort().join(' ');
+  const onlyA = Array.from(tokensA).filter(token => !tokensB.has(token)).sort().join(' ');
+  const onlyB = Array.from(tokensB).filter(token => !tokensA.has(token)).sort().join(' ');
+  const withA = [shared, onlyA].filter(Boolean).join(' ');
+  const withB = [shared, onlyB].filter(Boolean).join(' ');
+  if (shared && (!onlyA || !onlyB)) return 1;
+  return Math.max(
+    shared ? levenshteinSimilarity(shared, withA) : 0,
+    shared ? levenshteinSimilarity(shared, withB) : 0,
+    levenshteinSimilarity(withA, withB)
+  );
+};
@@ -0,0 +1,232 @@
+import { CellValue } from '../types';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { readDateFormats } from './dateFormats';
+import { DEFAULT_LOCALE, LocaleSettings, parseLocaleDate, parseLocaleNumber, stripCurrency } from './locale';
+import type { ColumnType } from './qualityRules';
+
+// Column types the inference pass can assign and users can choose as an override
+export type InferredType =
+  | 'integer'
+  | 'decimal'
+  | 'currency'
+  | 'percent'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'email'
+  | 'phone'
+  | 'categorical'
+  | 'identifier'
+  | 'text'
+  | 'mixed';
+
+export const INFERRED_TYPES: InferredType[] = [
+  'integer',
+  'decimal',
+  'currency',
+  'percent',
+  'boolean',
+  'date',
+  'datetime',
+  'email',
+  'phone',
+  'categorical',
+  'identifier',
+  'text',
+  'mixed'
+];
+
+export interface TypeInference {
+  type: InferredType;         // the type every check uses: the override if there is one
+  inferredType: InferredType; // what the inference pass detected
+  confidence: number;         // 0-1, how strongly the values support the inferred type
+  overridden: boolean;
+}
+
+// User-chosen types by column name
+export type TypeOverrides = { [column: string]: InferredType };
+
+// What a single value looks like on its own
+type ValueKind = 'integer' | 'decimal' | 'currency' | 'percent' | 'boolean' | 'date' | 'datetime' | 'email' | 'phone' | 'code' | 'text';
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const BOOLEAN_WORDS = ['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f'];
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}$/,
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/,
+  /^\d{4}\/\d{1,2}\/\d{1,2}$/,
+  /^\d{1,2} [A-Za-z]{3,9},? \d{4}$/,
+  /^[A-Za-z]{3,9} \d{1,2},? \d{4}$/
+];
+const DATETIME_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}[T ]\d{1,2}:\d{2}|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4},? \d{1,2}:\d{2}/;
+
+export const cleanPhone = (value: CellValue) => String(value).replace(/[\s\-()]/g, '');
+
+export const looksLikePhone = (value: CellValue) =>
+  typeof value === 'string' && /^\+?[\d\s\-().]{7,}$/.test(value.trim()) && /^\+?\d{7,15}$/.test(cleanPhone(value));
+
+const hasTime = (date: Date) => date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+
+// Numbers in the locale's format; integers are the ones written without a decimal part
+const classifyNumber = (text: string, locale: LocaleSettings): ValueKind | null => {
+  const number = parseLocaleNumber(text, locale);
+  if (isNaN(number)) return null;
+  return Number.isInteger(number) && !text.includes(locale.decimalSeparator) ? 'integer' : 'decimal';
+};
+
+const classifyValue = (value: CellValue, locale: LocaleSettings): ValueKind => {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return hasTime(value) ? 'datetime' : 'date';
+
+  const text = String(value).trim();
+  if (INTEGER_PATTERN.test(text)) {
+    // Leading zeros and long digit runs are codes (zip codes, account numbers), not numbers
+    const digits = text.replace(/^[+-]/, '');
+    return (digits.length > 1 && digits.startsWith('0')) || digits.length > 15 ? 'code' : 'integer';
+  }
+  const numberKind = classifyNumber(text, locale);
+  if (numberKind) return numberKind;
+  if (text.endsWith('%') && classifyNumber(text.slice(0, -1), locale)) return 'percent';
+  const { amount, currency } = stripCurrency(text, locale);
+  if (currency && classifyNumber(amount, locale)) return 'currency';
+  if (BOOLEAN_WORDS.includes(text.toLowerCase())) return 'boolean';
+  if (EMAIL_PATTERN.test(text)) return 'email';
+  // Numeric dates only count when they are real dates, in the locale's day/month
+  // order or another known layout (consistency.date_format reports those)
+  const isDate = () => parseLocaleDate(text, locale) !== null || readDateFormats(text, locale.dateOrder).length > 0;
+  if (DATETIME_PATTERN.test(text) && isDate()) return 'datetime';
+  if (DATE_PATTERNS.some(pattern => pattern.test(text)) && isDate()) return 'date';
+  if (looksLikePhone(text)) return 'phone';
+  return 'text';
+};
+
+// Value kinds each type accepts
+const ACCEPTED_KINDS: { [type in InferredType]?: ValueKind[] } = {
+  integer: ['integer'],
+  decimal: ['integer', 'decimal'],
+  currency: ['currency', 'integer', 'decimal'],
+  percent: ['percent', 'integer', 'decimal'],
+  boolean: ['boolean'],
+  date: ['date'],
+  datetime: ['datetime', 'date'],
+  email: ['email'],
+  phone: ['phone', 'integer']
+};
+
+// Whether a value fits the type; categorical, identifier, text and mixed accept anything
+export const conformsToType = (value: CellValue, type: InferredType, locale: LocaleSettings = DEFAULT_LOCALE): boolean => {
+  const accepted = ACCEPTED_KINDS[type];
+  if (!accepted) return true;
+  const kind = classifyValue(value, locale);
+  if (type === 'boolean' && (value === 0 || value === 1 || value === '0' || value === '1')) return true;
+  return accepted.includes(kind);
+};
+
+// Numeric value of plain, grouped, currency and percent text in the locale's format; NaN when there is none
+export const parseNumeric = (value: CellValue, locale: LocaleSettings = DEFAULT_LOCALE): number => {
+  if (typeof value === 'number') return value;
+  const text = stripCurrency(String(value), locale).amount.replace(/\s?%$/, '');
+  return parseLocaleNumber(text, locale);
+};
+
+const CONFIDENT_SHARE = 0.7;
+const MAX_CATEGORIES = 50;
+
+const isEmptyCell = (val: CellValue | null | undefined) => val === '' || val === null || val === undefined;
+
+export const inferColumnType = (
+  values: CellValue[],
+  locale: LocaleSettings = DEFAULT_LOCALE
+): { type: InferredType; confidence: number } => {
+  const nonEmpty = values.filter(val => !isEmptyCell(val));
+  if (nonEmpty.length === 0) return { type: 'text', confidence: 0 };
+
+  const counts: { [kind in ValueKind]: number } = {
+    integer: 0, decimal: 0, currency: 0, percent: 0, boolean: 0, date: 0, datetime: 0, email: 0, phone: 0, code: 0, text: 0
+  };
+  nonEmpty.forEach(val => counts[classifyValue(val, locale)]++);
+  const total = nonEmpty.length;
+  const share = (...kinds: ValueKind[]) => kinds.reduce((sum, kind) => sum + counts[kind], 0) / total;
+
+  const numeric = share('integer', 'decimal');
+  if (counts.currency > 0 && share('currency', 'integer', 'decimal') >= CONFIDENT_SHARE && counts.currency >= counts.integer + counts.decimal) {
+    return { type: 'currency', confidence: share('currency', 'integer', 'decimal') };
+  }
+  if (counts.percent > 0 && share('percent', 'integer', 'decimal') >= CONFIDENT_SHARE && counts.percent >= counts.integer + counts.decimal) {
+    return { type: 'percent', confidence: share('percent', 'integer', 'decimal') };
+  }
+  if (counts.code > 0 && share('code', 'integer') >= CONFIDENT_SHARE) {
+    return { type: 'identifier', confidence: share('code', 'integer') };
+  }
+  if (numeric >= CONFIDENT_SHARE) {
+    return { type: counts.decimal > 0 ? 'decimal' : 'integer', confidence: numeric };
+  }
+
+  const singleKinds: [ValueKind, InferredType][] = [['boolean', 'boolean'], ['email', 'email'], ['phone', 'phone']];
+  for (const [kind, type] of singleKinds) {
+    if (share(kind) >= CONFIDENT_SHARE) return { type, confidence: share(kind) };
+  }
+  if (counts.datetime > 0 && share('datetime', 'date') >= CONFIDENT_SHARE) {
+    return { type: 'datetime', confidence: share('datetime', 'date') };
+  }
+  if (share('date') >= CONFIDENT_SHARE) return { type: 'date', confidence: share('date') };
+
+  const textual = share('text', 'code');
+  if (textual < CONFIDENT_SHARE) {
+    // No kind dominates; confidence is how clearly the values are split
+    const topShare = Math.max(...Object.values(counts)) / total;
+    return { type: 'mixed', confidence: 1 - topShare };
+  }
+
+  const texts = nonEmpty.map(val => String(val).trim());
+  const distinct = new Set(texts).size;
+  const tokens = texts.filter(text => /^[A-Za-z0-9_\-.:/#]+$/.test(text) && /\d/.test(text)).length;
+  if (tokens / total >= CONFIDENT_SHARE && distinct / total >= 0.9) {
+    return { type: 'identifier', confidence: tokens / total };
+  }
+  if (distinct <= MAX_CATEGORIES && distinct / total <= 0.5) {
+    return { type: 'categorical', confidence: 1 - distinct / total };
+  }
+  return { type: 'text', confidence: textual };
+};
+
+export const resolveColumnType = (
+  column: string,
+  values: CellValue[],
+  overrides: TypeOverrides = {},
+  locale: LocaleSettings = DEFAULT_LOCALE
+): TypeInference => {
+  const { type, confidence } = inferColumnType(values, locale);
+  const override = overrides[column];
+  return { type: override || type, inferredType: type, confidence, overridden: override !== undefined };
+};
+
+// The coarse type quality-rule selectors and schemas work with
+export const typeFamily = (type: InferredType): ColumnType => {
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'currency':
+    case 'percent':
+      return 'numeric';
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'email':
+      return 'email';
+    case 'phone':
+      return 'phone';
+    default:
+      return 'text';
+  }
+};
+
+const STORAGE_KEY = 'dataset_type_overrides';
+
+export const loadTypeOverrides = (filename: string): TypeOverrides =>
+  loadDatasetSetting<TypeOverrides>(STORAGE_KEY, filename) ?? {};
+
+export const saveTypeOverrides = (filename: string, overrides: TypeOverrides) =>
+  saveDatasetSetting(STORAGE_KEY, filename, Object.keys(overrides).length > 0 ? overrides : null);
@@ -0,0 +1,288 @@
+import { CellValue } from '../types';
+import { formatCellValue } from './cellValues';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+import { QualityRule, compilePattern } from './qualityRules';
+
+export type ContractFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime' | 'time' | 'year' | 'any';
+
+export interface ContractField {
+  name: string;
+  type: ContractFieldType;
+  format?: string; // string formats: email, uri, uuid
+  required: boolean;
+  unique: boolean;
+  enum?: (string | number | boolean)[];
+  pattern?: string; // always anchored by the importer where the source format requires a full match
+  minimum?: number | string;
+  maximum?: number | string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// A JSON Schema or Frictionless Table Schema reduced to the column constraints the analyzer enforces
+export interface ValidationContract {
+  source: 'json-schema' | 'frictionless';
+  title?: string;
+  fields: ContractField[];
+  // Column sets whose combined values must be unique, from `unique` constraints and the primary key
+  uniqueKeys: string[][];
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const numberOrString = (value: unknown) =>
+  typeof value === 'number' || typeof value === 'string' ? value : undefined;
+
+const FRICTIONLESS_TYPES: ContractFieldType[] = ['string', 'number', 'integer', 'boolean', 'date', 'datetime', 'time', 'year'];
+
+const parseFrictionless = (schema: JsonObject): ValidationContract => {
+  const fields = (schema.fields as unknown[]).map((field, index): ContractField => {
+    if (!isObject(field) || typeof field.name !== 'string') {
+      throw new Error(`Field ${index + 1} must have a name`);
+    }
+    const constraints = isObject(field.constraints) ? field.constraints : {};
+    const type = FRICTIONLESS_TYPES.includes(field.type as ContractFieldType) ? (field.type as ContractFieldType) : 'any';
+    return {
+      name: field.name,
+      type: field.type === undefined ? 'string' : type,
+      format: typeof field.format === 'string' && field.format !== 'default' ? field.format : undefined,
+      required: constraints.required === true,
+      unique: constraints.unique === true,
+      enum: Array.isArray(constraints.enum) ? constraints.enum : undefined,
+      // Table Schema patterns must match the whole value
+      pattern: typeof constraints.pattern === 'string' ? `^(?:${constraints.pattern})$` : undefined,
+      minimum: numberOrString(constraints.minimum),
+      maximum: numberOrString(constraints.maximum),
+      minLength: typeof constraints.minLength === 'number' ? constraints.minLength : undefined,
+      maxLength: typeof constraints.maxLength === 'number' ? constraints.maxLength : undefined
+    };
+  });
+
+  const primaryKey = typeof schema.primaryKey === 'string' ? [schema.primaryKey] : schema.primaryKey;
+  const uniqueKeys = fields.filter(field => field.unique).map(field => [field.name]);
+  if (Array.isArray(primaryKey) && primaryKey.length > 0) {
+    const keyFields = primaryKey.map(String);
+    uniqueKeys.push(keyFields);
+    // Primary key fields are implicitly required
+    fields.forEach(field => {
+      if (keyFields.includes(field.name)) field.required = true;
+    });
+  }
+
+  return {
+    source: 'frictionless',
+    title: typeof schema.title === 'string' ? schema.title : undefined,
+    fields,
+    uniqueKeys
+  };
+};
+
+const JSON_SCHEMA_FORMAT_TYPES: { [format: string]: ContractFieldType } = {
+  date: 'date',
+  'date-time': 'datetime',
+  time: 'time'
+};
+
+const parseJsonSchema = (schema: JsonObject): ValidationContract => {
+  // A schema for the whole file (array of rows) describes its rows in `items`
+  const rowSchema = schema.type === 'array' && isObject(schema.items) ? schema.items : schema;
+  if (!isObject(rowSchema.properties)) {
+    throw new Error('JSON Schema must describe an object with "properties"');
+  }
+  const required = Array.isArray(rowSchema.required) ? rowSchema.required.map(String) : [];
+
+  const fields = Object.entries(rowSchema.properties).map(([name, property]): ContractField => {
+    const prop = isObject(property) ? property : {};
+    const types = Array.isArray(prop.type) ? prop.type : [prop.type];
+    const jsonType = types.find(type => type !== 'null');
+    const format = typeof prop.format === 'string' ? prop.format : undefined;
+
+    let type: ContractFieldType = 'any';
+    if (jsonType === 'number' || jsonType === 'integer' || jsonType === 'boolean') type = jsonType;
+    else if (jsonType === 'string') type = (format && JSON_SCHEMA_FORMAT_TYPES[format]) || 'string';
+
+    return {
+      name,
+      type,
+      format: type === 'string' ? format : undefined,
+      required: required.includes(name),
+      unique: false,
+      enum: Array.isArray(prop.enum) ? prop.enum.filter(value => value !== null) : undefined,
+      pattern: typeof prop.pattern === 'string' ? prop.pattern : undefined,
+      minimum: typeof prop.minimum === 'number' ? prop.minimum : undefined,
+      maximum: typeof prop.maximum === 'number' ? prop.maximum : undefined,
+      minLength: typeof prop.minLength === 'number' ? prop.minLength : undefined,
+      maxLength: typeof prop.maxLength === 'number' ? prop.maxLength : undefined
+    };
+  });
+
+  return {
+    source: 'json-schema',
+    title: typeof schema.title === 'string' ? schema.title : undefined,
+    fields,
+    uniqueKeys: []
+  };
+};
+
+// Reads a Frictionless table-schema.json (a `fields` array) or a JSON Schema (`properties`)
+export const parseContract = (text: string): ValidationContract => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : 'could not parse file'}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error('Contract file must contain a JSON object');
+  }
+  // A Frictionless data package may wrap the table schema in a resource
+  const resources = Array.isArray(parsed.resources) ? parsed.resources : [];
+  const packaged = resources.find(resource => isObject(resource) && isObject(resource.schema));
+  const schema = isObject(packaged) && isObject(packaged.schema) ? packaged.schema : parsed;
+
+  if (Array.isArray(schema.fields)) return parseFrictionless(schema);
+  return parseJsonSchema(schema);
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TRUE_VALUES = ['true', 'True', 'TRUE', '1'];
+const FALSE_VALUES = ['false', 'False', 'FALSE', '0'];
+
+const matchesType = (value: CellValue, field: ContractField): boolean => {
+  const text = formatCellValue(value);
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' || (text.trim() !== '' && !isNaN(Number(text)));
+    case 'integer':
+      return Number.isInteger(typeof value === 'number' ? value : Number(text)) && text.trim() !== '';
+    case 'boolean':
+      return typeof value === 'boolean' || TRUE_VALUES.includes(text) || FALSE_VALUES.includes(text);
+    case 'date':
+      return value instanceof Date || (/^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text)));
+    case 'datetime':
+      return value instanceof Date || (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(text) && !isNaN(Date.parse(text)));
+    case 'time':
+      return /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text);
+    case 'year':
+      return /^\d{4}$/.test(text);
+    case 'string':
+      if (field.format === 'email') return EMAIL_PATTERN.test(text);
+      if (field.format === 'uri') return URI_PATTERN.test(text);
+      if (field.format === 'uuid') return UUID_PATTERN.test(text);
+      return true;
+    default:
+      return true;
+  }
+};
+
+// Numbers compare numerically; date bounds compare as dates
+const compareToBound = (value: CellValue, bound: number | string): number | null => {
+  if (typeof bound === 'number') {
+    const number = typeof value === 'number' ? value : Number(formatCellValue(value));
+    return isNaN(number) ? null : number - bound;
+  }
+  const time = value instanceof Date ? value.getTime() : Date.parse(formatCellValue(value));
+  const boundTime = Date.parse(bound);
+  return isNaN(time) || isNaN(boundTime) ? null : time - boundTime;
+};
+
+const contractRule = (
+  field: ContractField,
+  constraint: string,
+  dimension: QualityRule['dimension'],
+  check: QualityRule['check']
+): QualityRule => ({
+  id: `contract.${field.name}.${constraint.split(':')[0]}`,
+  name: `${field.name} ${constraint}`,
+  description: 'Validation contract constraint',
+  dimension,
+  severity: 'high',
+  columns: { names: [field.name] },
+  recommendation: `Correct values so that "${field.name}" satisfies the contract constraint ${constraint}`,
+  constraint,
+  check
+});
+
+// Turns the per-value constraints into quality rules; `required` and `unique`
+// are checked by the Missing Values and Duplicates stages
+export const contractToRules = (contract: ValidationContract): QualityRule[] => {
+  const rules: QualityRule[] = [];
+
+  contract.fields.forEach(field => {
+    if (field.type !== 'any' && (field.type !== 'string' || field.format)) {
+      const constraint = field.format ? `format: ${field.format}` : `type: ${field.type}`;
+      rules.push(contractRule(field, constraint, 'invalid_format', value =>
+        matchesType(value, field) ? null : `"${formatCellValue(value)}" is not a valid ${field.format || field.type}`
+      ));
+    }
+
+    const { pattern, minimum, maximum, minLength, maxLength } = field;
+    if (pattern !== undefined) {
+      rules.push(contractRule(field, `pattern: ${pattern}`, 'invalid_format', value => {
+        const regex = compilePattern(pattern, '');
+        return regex && !regex.test(formatCellValue(value)) ? `"${formatCellValue(value)}" does not match the required pattern` : null;
+      }));
+    }
+
+    if (field.enum) {
+      const allowed = new Set(field.enum.map(String));
+      rules.push(contractRule(field, `enum: ${field.enum.join(', ')}`, 'value_range', value =>
+        allowed.has(formatCellValue(value)) ? null : `"${formatCellValue(value)}" is not one of the allowed values`
+      ));
+    }
+
+    if (minimum !== undefined) {
+      rules.push(contractRule(field, `minimum: ${minimum}`, 'value_range', value => {
+        const difference = compareToBound(value, minimum);
+        return difference !== null && difference < 0 ? `${formatCellValue(value)} is below the minimum of ${minimum}` : null;
+      }));
+    }
+
+    if (maximum !== undefined) {
+      rules.push(contractRule(field, `maximum: ${maximum}`, 'value_range', value => {
+        const difference = compareToBound(value, maximum);
+        return difference !== null && difference > 0 ? `${formatCellValue(value)} is above the maximum of ${maximum}` : null;
+      }));
+    }
+
+    if (minLength !== undefined) {
+      rules.push(contractRule(field, `minLength: ${minLength}`, 'value_range', value =>
+        formatCellValue(value).length < minLength ? `"${formatCellValue(value)}" is shorter than ${minLength} characters` : null
+      ));
+    }
+
+    if (maxLength !== undefined) {
+      rules.push(contractRule(field, `maxLength: ${maxLength}`, 'value_range', value =>
+        formatCellValue(value).length > maxLength ? `"${formatCellValue(value)}" is longer than ${maxLength} characters` : null
+      ));
+    }
+  });
+
+  return rules;
+};
+
+export const describeContractField = (field: ContractField): string[] => {
+  const constraints: string[] = [field.format ? `${field.type} (${field.format})` : field.type];
+  if (field.required) constraints.push('required');
+  if (field.unique) constraints.push('unique');
+  if (field.enum) constraints.push(`enum: ${field.enum.join(', ')}`);
+  if (field.pattern) constraints.push(`pattern: ${field.pattern}`);
+  if (field.minimum !== undefined) constraints.push(`minimum: ${field.minimum}`);
+  if (field.maximum !== undefined) constraints.push(`maximum: ${field.maximum}`);
+  if (field.minLength !== undefined) constraints.push(`minLength: ${field.minLength}`);
+  if (field.maxLength !== undefined) constraints.push(`maxLength: ${field.maxLength}`);
+  return constraints;
+};
+
+const STORAGE_KEY = 'dataset_contracts';
+
+export const loadContract = (filename: string): ValidationContract | null =>
+  loadDatasetSetting<ValidationContract>(STORAGE_KEY, filename);
+
+export const saveContract = (filename: string, contract: ValidationContract | null) =>
+  saveDatasetSetting(STORAGE_KEY, filename, contract);
@@ -0,0 +1,150 @@
+import { CSVData } from '../types';
+import { CHECKPOINT_INTERVAL, TaskContext, directContext } from './analysisTask';
+import { formatCellValue } from './cellValues';
+import { getCell, getColumnStore } from './columnStore';
+import { loadDatasetSetting, saveDatasetSetting } from './datasetSettings';
+
+// Key collision methods: values whose keys collide are likely spellings of the same thing
+export type ClusteringMethod = 'fingerprint' | 'ngram' | 'phonetic';
+
+export const CLUSTERING_METHODS: { value: ClusteringMethod; label: string }[] = [
+  { value: 'fingerprint', label: 'Fingerprint (case, punctuation, word order)' },
+  { value: 'ngram', label: 'N-gram fingerprint (spacing, small typos)' },
+  { value: 'phonetic', label: 'Phonetic (sounds alike)' }
+];
+
+export interface ValueClusterOptions {
+  column: string;
+  method: ClusteringMethod;
+  ngramSize?: number;
+}
+
+export interface ValueCluster {
+  key: string;
+  values: { value: string; count: number }[]; // most frequent first
+  rowCount: number;
+}
+
+// Canonical value for each spelling, by column
+export type ValueMappings = { [column: string]: { [value: string]: string } };
+
+const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Lowercased words without punctuation or accents, deduplicated and sorted
+export const fingerprintKey = (text: string): string => {
+  const words = stripAccents(text.trim().toLowerCase())
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  return Array.from(new Set(words)).sort().join(' ');
+};
+
+// Sorted distinct character n-grams of the text with spacing and punctuation removed
+export const ngramKey = (text: string, size = 2): string => {
+  const letters = stripAccents(text.toLowerCase()).replace(/[^\p{L}\p{N}]/gu, '');
+  if (letters.length <= size) return letters;
+  const grams = new Set<string>();
+  for (let i = 0; i + size <= letters.length; i++) grams.add(letters.slice(i, i + size));
+  return Array.from(grams).sort().join('');
+};
+
+const SOUNDEX_CODES: { [letter: string]: string } = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6'
+};
+
+const soundex = (word: string): string => {
+  let code = word[0].toUpperCase();
+  let previous = SOUNDEX_CODES[word[0]] || '';
+  for (const letter of word.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] || '';
+    // h and w do not separate letters with the same code; vowels do
+    if (digit && digit !== previous) code += digit;
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, '0');
+};
+
+// Soundex code of each fingerprint word; digits are kept as written
+export const phoneticKey = (text: string): string =>
+  fingerprintKey(text)
+    .split(' ')
+    .filter(Boolean)
+    .map(word => (/^[a-z]/.test(word) ? soundex(word.replace(/[^a-z]/g, '')) : word))
+    .join(' ');
+
+const clusterKey = (text: string, options: ValueClusterOptions): string => {
+  switch (options.method) {
+    case 'ngram':
+      return ngramKey(text, options.ngramSize);
+    case 'phonetic':
+      return phoneticKey(text);
+    default:
+      return fingerprintKey(text);
+  }
+};
+
+// Distinct values of a column grouped by key; only groups with more than one
+// spelling are returned, largest first
+export const findValueClusters = async (
+  data: CSVData,
+  options: ValueClusterOptions,
+  ctx: TaskContext = directContext
+): Promise<ValueCluster[]> => {
+  const store = getColumnStore(data);
+  const colIndex = data.headers.indexOf(options.column);
+  if (colIndex === -1) return [];
+  const column = store.columns[colIndex];
+
+  ctx.progress(0, 'Counting values');
+  const counts = new Map<string, number>();
+  for (let rowIndex = 0; rowIndex < store.rowCount; rowIndex++) {
+    if (rowIndex % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress(rowIndex / Math.max(1, store.rowCount) / 2, 'Counting values');
+      await ctx.checkpoint();
+    }
+    const value = formatCellValue(getCell(column, rowIndex));
+    if (value.trim() === '') continue;
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  ctx.progress(0.5, 'Clustering values');
+  const groups = new Map<string, { value: string; count: number }[]>();
+  let done = 0;
+  for (const [value, count] of counts) {
+    if (++done % CHECKPOINT_INTERVAL === 0) {
+      ctx.progress(0.5 + done / counts.size / 2, 'Clustering values');
+      await ctx.checkpoint();
+    }
+    const key = clusterKey(value, options);
+    if (key === '') continue;
+    const group = groups.get(key);
+    if (group) group.push({ value, count });
+    else groups.set(key, [{ value, count }]);
+  }
+
+  const clusters: ValueCluster[] = [];
+  groups.forEach((values, key) => {
+    if (values.length < 2) return;
+    values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    clusters.push({ key, values, rowCount: values.reduce((sum, item) => sum + item.count, 0) });
+  });
+
+  ctx.progress(1, 'Done');
+  return clusters.sort((a, b) => b.values.length - a.values.length || b.rowCount - a.rowCount);
+};
+
+const STORAGE_KEY = 'dataset_value_mappings';
+
+// Approved mappings are kept with the dataset, so later uploads of the same
+// file get them offered as a cleaning step again
+export const loadValueMappings = (filename: string): ValueMappings =>
+  loadDatasetSetting<ValueMappings>(STORAGE_KEY, filename) ?? {};
+
+export const saveValueMappings = (filename: string, mappings: ValueMappings) =>
+  saveDatasetSetting(STORAGE_KEY, filename, Object.keys(mappings).length > 0 ? mappings : null);
@@ -0,0 +1,90 @@
+import type { WorkBook } from 'xlsx';
+import { CSVData, CellValue } from '../types';
+import { formatCellValue } from './cellValues';
+import { buildColumnStore, createCSVData } from './columnStore';
+
+export interface WorkbookSheetInfo {
+  name: string;
+  range: string | null; // used range, e.g. "A1:F120"; null for an empty sheet
+  rows: number;
+  columns: number;
+}
+
+const RANGE_PATTERN = /^[A-Z]{1,3}[1-9]\d*(:[A-Z]{1,3}[1-9]\d*)?$/;
+
+export const isValidCellRange = (range: string) => RANGE_PATTERN.test(range.trim().toUpperCase());
+
+// The library is large, so it is only loaded once someone actually drops a workbook
+const loadXLSX = () => import('xlsx');
+
+export const readWorkbook = async (file: File): Promise<WorkBook> => {
+  const XLSX = await loadXLSX();
+  return XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+};
+
+export const listSheets = async (workbook: WorkBook): Promise<WorkbookSheetInfo[]> => {
+  const XLSX = await loadXLSX();
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, range: null, rows: 0, columns: 0 };
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      range: ref,
+      rows: range.e.r - range.s.r + 1,
+      columns: range.e.c - range.s.c + 1
+    };
+  });
+};
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+  if (value instanceof Date) return value;
+  return String(value);
+};
+
+// Converts one sheet (optionally limited to a cell range such as "B3:H200")
+// into CSVData. The first row of the range is the header. Numbers, booleans
+// and dates keep their cell types.
+export const sheetToCSVData = async (
+  workbook: WorkBook,
+  sheetName: string,
+  filename: string,
+  range?: string
+): Promise<CSVData> => {
+  const XLSX = await loadXLSX();
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`);
+  }
+
+  const cellRange = range && range.trim() !== '' ? range.trim().toUpperCase() : undefined;
+  if (cellRange && !isValidCellRange(cellRange)) {
+    throw new Error(`"${range}" is not a valid cell range (expected something like A1:F100)`);
+  }
+
+  const records = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+    range: cellRange
+  });
+  if (records.length === 0) {
+    throw new Error(`Sheet "${sheetName}" has no data${cellRange ? ` in ${cellRange}` : ''}`);
+  }
+
+  const width = Math.max(...records.map(record => record.length));
+  const headers = Array.from({ length: width }, (_, i) => {
+    const label = records[0][i];
+    const text = formatCellValue(toCellValue(label)).trim();
+    return text !== '' ? text : `column_${i + 1}`;
+  });
+  const rows = records.slice(1).map(record =>
+    Array.from({ length: width }, (_, i) => toCellValue(record[i]))
+  );
+
+  const baseName = filename.replace(/\.xlsx$/i, '');
+  return createCSVData(headers, buildColumnStore(width, rows), `${baseName} - ${sheetName}.xlsx`);
+};
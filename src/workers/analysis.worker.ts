@@ -0,0 +1,58 @@
+import { CSVData } from '../types';
+import { createTaskContext, isTaskCancelled } from '../utils/analysisTask';
+import { fromColumnarData } from '../utils/columnStore';
+import { AnalysisRequest, AnalysisResponse, AnalysisTaskName, runTaskByName } from '../utils/analysisTasks';
+
+const datasets = new Map<number, CSVData>();
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: AnalysisResponse) => self.postMessage(message);
+
+const runTask = async (taskId: number, datasetId: number, task: AnalysisTaskName, params: unknown) => {
+  const data = datasets.get(datasetId);
+  if (!data) {
+    post({ type: 'error', taskId, message: 'Dataset is not loaded in the analysis worker', cancelled: false });
+    return;
+  }
+
+  running.add(taskId);
+  const ctx = createTaskContext(
+    () => cancelled.has(taskId),
+    (fraction, stage) => post({ type: 'progress', taskId, fraction, stage })
+  );
+
+  try {
+    const result = await runTaskByName(task, data, params, ctx);
+    post({ type: 'result', taskId, result });
+  } catch (err) {
+    post({
+      type: 'error',
+      taskId,
+      message: err instanceof Error ? err.message : 'Analysis failed',
+      cancelled: isTaskCancelled(err)
+    });
+  } finally {
+    running.delete(taskId);
+    cancelled.delete(taskId);
+  }
+};
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'load':
+      datasets.set(request.datasetId, fromColumnarData(request.data));
+      break;
+    case 'release':
+      datasets.delete(request.datasetId);
+      break;
+    case 'run':
+      runTask(request.taskId, request.datasetId, request.task, request.params);
+      break;
+    case 'cancel':
+      // a task may already have finished by the time its cancel arrives
+      if (running.has(request.taskId)) cancelled.add(request.taskId);
+      break;
+  }
+};